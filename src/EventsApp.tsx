@@ -4,6 +4,7 @@ import { motion } from 'framer-motion'
 import Navbar from './components/events/EventsNavbar'
 import AuthModal from './components/events/AuthModal'
 import EventCard from './components/events/EventCard'
+import BundleCard from './components/events/BundleCard'
 import EventDetailPage from './components/events/EventDetailPage'
 import BottomNavigation from './components/events/BottomNavigation'
 import ProfilePage from './components/events/ProfilePage'
@@ -13,8 +14,11 @@ import { ToastContainer, useToast } from './components/events/Toast'
 import LoginPrompt from './components/events/LoginPrompt'
 import { useAuth } from './hooks/useAuth'
 import { supabase } from './lib/supabase'
+import { sortEventsBySchedule, type EventSession } from './lib/schedule'
+import { loadBundles, type Bundle } from './lib/bundles'
 import PaymentPage from './components/events/PaymentPage'
 import AuthCallback from './components/events/AuthCallback'
+import CheckInScanner from './components/events/CheckInScanner'
 import useTypewriter from "./hooks/useTypewriter";
 
 interface Event {
@@ -25,6 +29,7 @@ interface Event {
   image_url: string | null
   rules: string | null
   schedule: string | null
+  sessions: EventSession[] | null
   venue: string | null
   capacity: number | null
   price: number | null
@@ -83,7 +88,9 @@ function EventsApp() {
       <Route path="/" element={<HomePage />} />
       <Route path="event/:eventId" element={<EventDetailPage />} />
       <Route path="pay/:eventId" element={<PaymentPage />} />
+      <Route path="pay/bundle/:bundleId" element={<PaymentPage />} />
       <Route path="auth/callback" element={<AuthCallback />} />
+      <Route path="checkin" element={<CheckInScanner />} />
     </Routes>
   )
 }
@@ -100,6 +107,7 @@ function HomePage() {
   const [showLoginPrompt, setShowLoginPrompt] = useState(false)
   const [eventFilter, setEventFilter] = useState<'all' | 'technical' | 'non-technical'>('all')
   const [events, setEvents] = useState<Event[]>([])
+  const [bundles, setBundles] = useState<Bundle[]>([])
   const [loading, setLoading] = useState(true)
   const { toasts, addToast, removeToast } = useToast()
 
@@ -180,7 +188,8 @@ Nmap done: 1 IP address (1 host up) scanned in 5.67 seconds
         .select('*')
 
       if (eventsError) throw eventsError
-      setEvents(eventsData || [])
+      setEvents(sortEventsBySchedule(eventsData || []))
+      setBundles(await loadBundles(true).catch(() => []))
     } catch (error) {
       addToast({
         type: 'error',
@@ -360,6 +369,14 @@ Nmap done: 1 IP address (1 host up) scanned in 5.67 seconds
               </div>
             </div>
 
+            {!loading && bundles.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+                {bundles.map((bundle) => (
+                  <BundleCard key={bundle.id} bundle={bundle} events={events} />
+                ))}
+              </div>
+            )}
+
             {loading ? (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {[...Array(6)].map((_, i) => (
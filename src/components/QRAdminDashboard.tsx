@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react'
 import { useQRAdmin } from '../hooks/useQRCycling'
+import { BUSY_QR_SHARE, isQRBusy } from '../lib/qrPool'
 import { useSecureAdmin } from '../hooks/useSecureAdmin'
 import { toast } from 'react-hot-toast'
 
@@ -40,7 +41,7 @@ export default function QRAdminDashboard() {
   }, [isAdmin, autoRefresh, loadStats])
 
   const handleForceReset = async () => {
-    if (!confirm('Are you sure you want to reset all QR daily limits? This will set all QRs back to 0/20.')) {
+    if (!confirm('Are you sure you want to reset all QR daily limits? This will set the payment count of every QR back to 0 for today.')) {
       return
     }
 
@@ -213,7 +214,7 @@ export default function QRAdminDashboard() {
                   <div className="text-center p-4 bg-green-50 rounded-lg">
                     <h3 className="font-medium text-green-800">Most Used QR</h3>
                     <p className="text-2xl font-bold text-green-600">{insights.mostUsedQR?.qr_name}</p>
-                    <p className="text-sm text-green-700">{insights.mostUsedQR?.daily_count}/20 payments</p>
+                    <p className="text-sm text-green-700">{insights.mostUsedQR?.daily_count}/{insights.mostUsedQR?.max_daily_payments} payments</p>
                   </div>
                   
                   <div className="text-center p-4 bg-blue-50 rounded-lg">
@@ -225,7 +226,7 @@ export default function QRAdminDashboard() {
                   <div className="text-center p-4 bg-orange-50 rounded-lg">
                     <h3 className="font-medium text-orange-800">Busy QRs</h3>
                     <p className="text-2xl font-bold text-orange-600">{insights.busyQRs}</p>
-                    <p className="text-sm text-orange-700">QRs with 15+ payments</p>
+                    <p className="text-sm text-orange-700">QRs past {BUSY_QR_SHARE * 100}% of their daily limit</p>
                   </div>
                 </div>
               </div>
@@ -277,7 +278,7 @@ export default function QRAdminDashboard() {
                                 className={`h-2 rounded-full ${
                                   qr.daily_count >= qr.max_daily_payments 
                                     ? 'bg-red-500' 
-                                    : qr.daily_count >= 15 
+                                    : isQRBusy(qr)
                                     ? 'bg-yellow-500' 
                                     : 'bg-green-500'
                                 }`}
@@ -299,7 +300,7 @@ export default function QRAdminDashboard() {
                           }`}>
                             {qr.status === 'temp_disabled' ? 'Temp Disabled' :
                              qr.status === 'unused_today' ? 'Unused Today' :
-                             qr.status === 'full_today' ? 'Full (20/20)' :
+                             qr.status === 'full_today' ? `Full (${qr.daily_count}/${qr.max_daily_payments})` :
                              qr.status === 'active' ? 'Active' : qr.status}
                           </span>
                         </td>
@@ -359,7 +360,7 @@ export default function QRAdminDashboard() {
                 <ul className="text-xs text-yellow-700 mt-2 space-y-1">
                   <li><strong>Refresh Stats:</strong> Updates current QR status and statistics</li>
                   <li><strong>Run Maintenance:</strong> Performs daily cleanup and resets expired QRs</li>
-                  <li><strong>Force Reset All:</strong> Immediately resets all QRs to 0/20 (use carefully)</li>
+                  <li><strong>Force Reset All:</strong> Immediately resets every QR's count for today to 0 (use carefully)</li>
                 </ul>
               </div>
             </div>
@@ -372,10 +373,10 @@ export default function QRAdminDashboard() {
                 <div>
                   <h3 className="font-medium text-gray-900 mb-3">🔄 24-Hour Cycling Rules</h3>
                   <ul className="text-sm text-gray-700 space-y-2">
-                    <li>• Each QR accepts exactly 20 payments per day</li>
+                    <li>• Each QR accepts up to its own daily limit of payments</li>
                     <li>• System always picks QR with lowest daily count</li>
-                    <li>• QRs auto-disable after reaching 20 payments</li>
-                    <li>• All QRs reset to 0/20 at midnight (00:00)</li>
+                    <li>• QRs auto-disable after reaching their daily limit</li>
+                    <li>• All QR counts reset to 0 at midnight (00:00)</li>
                     <li>• Files organized in QR name folders (qr001, qr002, etc.)</li>
                     <li>• Unique file naming: EventName_RollNo_Timestamp.jpg</li>
                   </ul>
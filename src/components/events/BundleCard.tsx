@@ -0,0 +1,71 @@
+import { Layers, Check } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { useNavigate } from 'react-router-dom'
+import { useAuth } from '../../hooks/useAuth'
+import { useToast } from './Toast'
+import { bundleSavings, type Bundle, type BundleEvent } from '../../lib/bundles'
+
+interface BundleCardProps {
+  bundle: Bundle
+  // Every event on the page; the pass picks its own out of these
+  events: BundleEvent[]
+}
+
+export default function BundleCard({ bundle, events }: BundleCardProps) {
+  const { user } = useAuth()
+  const { addToast } = useToast()
+  const navigate = useNavigate()
+
+  const included = bundle.event_ids
+    .map(id => events.find(e => e.id === id))
+    .filter((e): e is BundleEvent => !!e)
+  const savings = bundleSavings(bundle, events)
+
+  const handleBuy = () => {
+    if (!user) {
+      addToast({
+        type: 'warning',
+        title: 'Login Required',
+        message: 'Please sign in to buy a pass'
+      })
+      return
+    }
+    navigate(`pay/bundle/${bundle.id}`)
+  }
+
+  return (
+    <motion.div
+      className="tech-card overflow-hidden"
+      whileHover={{ y: -6, scale: 1.02 }}
+      transition={{ type: 'spring', stiffness: 300, damping: 20 }}
+    >
+      <div className="p-4">
+        <div className="flex items-center gap-2 mb-2">
+          <Layers className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white">{bundle.name}</h3>
+        </div>
+        {bundle.description && (
+          <p className="text-gray-600 dark:text-gray-300 text-sm mb-3">{bundle.description}</p>
+        )}
+        <ul className="space-y-1 text-sm text-gray-500 dark:text-gray-400 mb-4">
+          {included.map(event => (
+            <li key={event.id} className="flex items-center">
+              <Check className="h-4 w-4 mr-2 text-green-500" />
+              {event.title}
+            </li>
+          ))}
+        </ul>
+        <div className="flex items-baseline gap-2 mb-4">
+          <span className="text-2xl font-bold text-gray-900 dark:text-white">₹{bundle.price}</span>
+          {savings > 0 && <span className="text-sm text-green-600 dark:text-green-400">Save ₹{savings}</span>}
+        </div>
+        <button
+          onClick={handleBuy}
+          className="w-full py-2 px-4 rounded-md font-medium transition-colors bg-blue-600 text-white hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600"
+        >
+          Get Pass
+        </button>
+      </div>
+    </motion.div>
+  )
+}
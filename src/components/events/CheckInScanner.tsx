@@ -0,0 +1,393 @@
+import { useEffect, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import jsQR from 'jsqr'
+import { ArrowLeft, Camera, CameraOff, CheckCircle, XCircle, AlertTriangle, Loader2, Lock, ScanLine, Wifi, WifiOff, Download, RefreshCw } from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import { useAuth } from '../../hooks/useAuth'
+import { useSecureAdmin } from '../../hooks/useSecureAdmin'
+import { useCheckIn, CheckInResult } from '../../hooks/useCheckIn'
+import { useToast, ToastContainer } from './Toast'
+
+interface EventOption {
+  id: string
+  title: string
+}
+
+// Ignore repeat reads of the same QR while it is still in front of the camera
+const RESCAN_COOLDOWN_MS = 3000
+
+const resultStyles: Record<CheckInResult['status'], { box: string; icon: typeof CheckCircle; title: string }> = {
+  checked_in: { box: 'bg-green-600/90 border-green-400', icon: CheckCircle, title: 'Checked In' },
+  duplicate: { box: 'bg-orange-600/90 border-orange-400', icon: AlertTriangle, title: 'Already Checked In' },
+  wrong_event: { box: 'bg-red-700/90 border-red-400', icon: XCircle, title: 'Wrong Event' },
+  revoked: { box: 'bg-red-700/90 border-red-400', icon: XCircle, title: 'Ticket Revoked' },
+  invalid: { box: 'bg-red-700/90 border-red-400', icon: XCircle, title: 'Invalid Ticket' },
+  not_found: { box: 'bg-red-700/90 border-red-400', icon: XCircle, title: 'Ticket Not Found' },
+  error: { box: 'bg-gray-700/90 border-gray-400', icon: AlertTriangle, title: 'Scan Error' }
+}
+
+export default function CheckInScanner() {
+  const navigate = useNavigate()
+  const { user } = useAuth()
+  const { isAdmin, isLoading: adminLoading, hasPermission, logSecurityEvent } = useSecureAdmin()
+  const {
+    processing,
+    syncing,
+    isOnline,
+    pendingCount,
+    rosters,
+    conflicts,
+    gateId,
+    checkInTicket,
+    downloadRosters,
+    syncOutbox,
+    dismissConflicts
+  } = useCheckIn()
+  const { toasts, addToast, removeToast } = useToast()
+
+  const [events, setEvents] = useState<EventOption[]>([])
+  const [selectedEventId, setSelectedEventId] = useState('')
+  const [cameraOn, setCameraOn] = useState(false)
+  const [result, setResult] = useState<CheckInResult | null>(null)
+  const [scanCount, setScanCount] = useState(0)
+  const [rosterEventIds, setRosterEventIds] = useState<string[]>([])
+  const [downloading, setDownloading] = useState(false)
+
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const frameRef = useRef<number | null>(null)
+  const busyRef = useRef(false)
+  const lastScanRef = useRef<{ value: string; at: number }>({ value: '', at: 0 })
+
+  const canCheckIn = isAdmin && hasPermission('can_check_in')
+
+  useEffect(() => {
+    if (!canCheckIn) return
+    const loadEvents = async () => {
+      const { data, error } = await supabase
+        .from('events')
+        .select('id, title')
+        .order('title', { ascending: true })
+      if (error) {
+        addToast({ type: 'error', title: 'Failed to load events' })
+        return
+      }
+      setEvents(data || [])
+    }
+    loadEvents()
+  }, [canCheckIn, addToast])
+
+  const stopCamera = () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+    frameRef.current = null
+    streamRef.current?.getTracks().forEach(track => track.stop())
+    streamRef.current = null
+    setCameraOn(false)
+  }
+
+  useEffect(() => stopCamera, [])
+
+  const handleDecoded = async (value: string) => {
+    const now = Date.now()
+    if (value === lastScanRef.current.value && now - lastScanRef.current.at < RESCAN_COOLDOWN_MS) return
+    lastScanRef.current = { value, at: now }
+
+    busyRef.current = true
+    const outcome = await checkInTicket(value, selectedEventId, user!.id)
+    setResult(outcome)
+    setScanCount(prev => prev + 1)
+
+    if (navigator.vibrate) navigator.vibrate(outcome.status === 'checked_in' ? 100 : [100, 80, 100])
+
+    if (outcome.status !== 'checked_in') {
+      await logSecurityEvent('check_in_flagged', {
+        user_id: user?.id,
+        event_id: selectedEventId,
+        status: outcome.status,
+        ticket_code: outcome.ticket?.ticket_code ?? null
+      })
+    }
+    busyRef.current = false
+  }
+
+  const scanFrame = () => {
+    const video = videoRef.current
+    const canvas = canvasRef.current
+    if (!video || !canvas || !streamRef.current) return
+
+    if (!busyRef.current && video.readyState === video.HAVE_ENOUGH_DATA) {
+      canvas.width = video.videoWidth
+      canvas.height = video.videoHeight
+      const ctx = canvas.getContext('2d', { willReadFrequently: true })
+      if (ctx) {
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
+        const image = ctx.getImageData(0, 0, canvas.width, canvas.height)
+        const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' })
+        if (code?.data) handleDecoded(code.data)
+      }
+    }
+    frameRef.current = requestAnimationFrame(scanFrame)
+  }
+
+  const handleDownloadRosters = async () => {
+    if (rosterEventIds.length === 0) {
+      addToast({ type: 'warning', title: 'No events selected', message: 'Pick the events this gate will scan' })
+      return
+    }
+    setDownloading(true)
+    try {
+      await downloadRosters(rosterEventIds)
+      addToast({ type: 'success', title: 'Roster downloaded', message: 'Scans for these events now work offline' })
+    } catch (err) {
+      addToast({ type: 'error', title: 'Roster download failed', message: (err as Error).message })
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  const handleSyncNow = async () => {
+    const newConflicts = await syncOutbox()
+    if (newConflicts > 0) {
+      addToast({ type: 'warning', title: 'Sync conflicts', message: `${newConflicts} scan(s) were already checked in at another gate` })
+    }
+  }
+
+  const startCamera = async () => {
+    if (!selectedEventId) {
+      addToast({ type: 'warning', title: 'Select an event', message: 'Choose the event you are checking in for' })
+      return
+    }
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment' },
+        audio: false
+      })
+      streamRef.current = stream
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream
+        await videoRef.current.play()
+      }
+      setCameraOn(true)
+      frameRef.current = requestAnimationFrame(scanFrame)
+    } catch (err) {
+      console.error('Camera error:', err)
+      addToast({ type: 'error', title: 'Camera unavailable', message: (err as Error).message || 'Allow camera access to scan tickets' })
+    }
+  }
+
+  if (adminLoading) {
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80">
+        <div className="flex items-center space-x-2 text-white">
+          <Loader2 className="w-6 h-6 animate-spin" />
+          <span>Verifying volunteer access...</span>
+        </div>
+      </div>
+    )
+  }
+
+  if (!canCheckIn) {
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80">
+        <div className="relative bg-red-900/90 rounded-2xl p-6 w-full max-w-md text-white border border-red-500">
+          <div className="flex items-center space-x-3 mb-4">
+            <Lock className="w-6 h-6 text-red-400" />
+            <h2 className="text-xl font-bold">Check-in Access Required</h2>
+          </div>
+          <p className="text-sm text-red-200 mb-4">
+            Only volunteers with the 'can_check_in' permission can validate tickets.
+          </p>
+          <button
+            onClick={() => navigate('/events')}
+            className="w-full px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+          >
+            Back to Events
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const ResultIcon = result ? resultStyles[result.status].icon : null
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-950 text-white flex flex-col">
+      <div className="p-4 flex items-center justify-between">
+        <button
+          onClick={() => { stopCamera(); navigate('/events') }}
+          className="flex items-center space-x-2 px-4 py-2 rounded-lg glass-effect hover:bg-white/10"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          <span>Back</span>
+        </button>
+        <div className="text-right">
+          <h1 className="text-lg font-bold flex items-center gap-2 justify-end">
+            <ScanLine className="w-5 h-5" /> Venue Check-in
+          </h1>
+          <p className="text-xs text-white/60">{gateId} • {scanCount} scans this session</p>
+        </div>
+      </div>
+
+      <div className={`mx-4 mb-3 px-4 py-2 rounded-lg flex items-center justify-between text-sm ${
+        isOnline ? 'bg-green-600/20 text-green-200' : 'bg-orange-600/30 text-orange-200'
+      }`}>
+        <span className="flex items-center gap-2">
+          {isOnline ? <Wifi className="w-4 h-4" /> : <WifiOff className="w-4 h-4" />}
+          {isOnline ? 'Online' : 'Offline - scans are queued'}
+        </span>
+        <span className="flex items-center gap-3">
+          <span>{pendingCount} pending</span>
+          <button
+            onClick={handleSyncNow}
+            disabled={!isOnline || syncing || pendingCount === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-3 h-3 ${syncing ? 'animate-spin' : ''}`} />
+            Sync
+          </button>
+        </span>
+      </div>
+
+      <div className="flex-1 overflow-auto px-4 pb-4">
+        <div className="max-w-xl mx-auto space-y-4">
+          <select
+            value={selectedEventId}
+            onChange={(e) => { setSelectedEventId(e.target.value); setResult(null) }}
+            disabled={cameraOn}
+            className="w-full px-3 py-3 rounded-lg bg-white/10 border border-white/20 text-white disabled:opacity-60"
+          >
+            <option value="" className="text-gray-900">Select event...</option>
+            {events.map(ev => (
+              <option key={ev.id} value={ev.id} className="text-gray-900">{ev.title}</option>
+            ))}
+          </select>
+
+          {/* Offline roster */}
+          <div className="bg-white/5 rounded-xl p-4 border border-white/10">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="font-semibold">Offline Roster</h2>
+              <button
+                onClick={handleDownloadRosters}
+                disabled={!isOnline || downloading || cameraOn}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-700 text-sm disabled:opacity-50"
+              >
+                {downloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                Download
+              </button>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-40 overflow-auto text-sm">
+              {events.map(ev => {
+                const meta = rosters.find(r => r.event_id === ev.id)
+                return (
+                  <label key={ev.id} className="flex items-start gap-2 p-2 rounded-lg bg-white/5">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={rosterEventIds.includes(ev.id)}
+                      onChange={(e) => setRosterEventIds(prev =>
+                        e.target.checked ? [...prev, ev.id] : prev.filter(id => id !== ev.id)
+                      )}
+                    />
+                    <span>
+                      {ev.title}
+                      {meta && (
+                        <span className="block text-xs text-white/50">
+                          {meta.ticket_count} tickets • {new Date(meta.synced_at).toLocaleTimeString()}
+                        </span>
+                      )}
+                    </span>
+                  </label>
+                )
+              })}
+            </div>
+          </div>
+
+          <div className="relative aspect-square bg-black rounded-2xl overflow-hidden border border-white/10">
+            <video ref={videoRef} className="w-full h-full object-cover" playsInline muted />
+            <canvas ref={canvasRef} className="hidden" />
+            {!cameraOn && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center text-white/60">
+                <CameraOff className="w-12 h-12 mb-2" />
+                <p className="text-sm">Camera is off</p>
+              </div>
+            )}
+            {cameraOn && (
+              <div className="absolute inset-10 border-2 border-white/60 rounded-xl pointer-events-none" />
+            )}
+            {processing && (
+              <div className="absolute inset-0 flex items-center justify-center bg-black/50">
+                <Loader2 className="w-10 h-10 animate-spin" />
+              </div>
+            )}
+          </div>
+
+          <button
+            onClick={cameraOn ? stopCamera : startCamera}
+            className={`w-full py-3 rounded-lg font-semibold flex items-center justify-center gap-2 ${
+              cameraOn ? 'bg-gray-700 hover:bg-gray-600' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {cameraOn ? <CameraOff className="w-5 h-5" /> : <Camera className="w-5 h-5" />}
+            {cameraOn ? 'Stop Scanning' : 'Start Scanning'}
+          </button>
+
+          {result && ResultIcon && (
+            <div className={`rounded-2xl p-5 border ${resultStyles[result.status].box}`}>
+              <div className="flex items-center gap-3 mb-2">
+                <ResultIcon className="w-8 h-8" />
+                <div>
+                  <h2 className="text-xl font-bold">{resultStyles[result.status].title}</h2>
+                  <p className="text-sm text-white/90">{result.message}</p>
+                </div>
+              </div>
+              {result.ticket && (
+                <div className="mt-3 grid grid-cols-1 gap-1 text-sm">
+                  <div><span className="text-white/70">Holder:</span> <span className="font-semibold">{result.ticket.holder_name}</span></div>
+                  <div><span className="text-white/70">Roll No:</span> {result.ticket.roll_no || '-'}</div>
+                  <div><span className="text-white/70">Event:</span> {result.ticket.event_title}</div>
+                  <div><span className="text-white/70">Ticket:</span> {result.ticket.ticket_code}</div>
+                </div>
+              )}
+              {result.previousCheckInAt && (
+                <p className="mt-2 text-sm">
+                  First entry at {new Date(result.previousCheckInAt).toLocaleTimeString()}
+                  {result.previousGate ? ` (${result.previousGate})` : ''}
+                </p>
+              )}
+              {result.offline && (
+                <p className="mt-2 text-xs text-white/70">Validated against the offline roster</p>
+              )}
+            </div>
+          )}
+
+          {conflicts.length > 0 && (
+            <div className="bg-orange-600/20 rounded-xl p-4 border border-orange-500/40">
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="font-semibold text-orange-200 flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4" /> Sync Conflicts ({conflicts.length})
+                </h2>
+                <button onClick={dismissConflicts} className="text-xs px-2 py-1 rounded bg-white/10 hover:bg-white/20">
+                  Dismiss
+                </button>
+              </div>
+              <ul className="space-y-2 text-sm">
+                {conflicts.map(c => (
+                  <li key={c.local_id} className="text-orange-100">
+                    <span className="font-semibold">{c.ticket_code}</span> {c.holder_name && `(${c.holder_name})`} scanned here at{' '}
+                    {new Date(c.scanned_at).toLocaleTimeString()}
+                    {c.winning_scanned_at
+                      ? ` - first entered at ${c.winning_gate ?? 'another gate'} ${new Date(c.winning_scanned_at).toLocaleTimeString()}`
+                      : ' - rejected by server'}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+    </div>
+  )
+}
@@ -4,6 +4,8 @@ import { useEffect, useState } from 'react'
 import { useAuth } from '../../hooks/useAuth'
 import { useToast } from './Toast'
 import { supabase } from '../../lib/supabase'
+import { formatEventSchedule, type EventSession } from '../../lib/schedule'
+import { joinEvent } from '../../lib/waitlist'
 import { useNavigate } from 'react-router-dom'
 
 interface Event {
@@ -13,6 +15,7 @@ interface Event {
   image_url: string | null
   venue: string | null
   schedule: string | null
+  sessions?: EventSession[] | null
     price?: number | null
 }
 
@@ -132,30 +135,26 @@ export default function EventCard({ event }: EventCardProps) {
     setIsRegistering(true)
     
     try {
-      // Use secure backend function to register
-      const { data, error } = await supabase.rpc('register_user_for_event', {
-        p_user_id: user.id,
-        p_event_id: event.id
-      })
+      // Registers through register_user_for_event, or joins the waitlist when the event is full
+      const result = await joinEvent(event.id)
 
-      if (error) {
+      if (result.status === 'waitlisted') {
         addToast({
-          type: 'error',
-          title: 'Registration Failed',
-          message: 'Please try again'
+          type: 'info',
+          title: 'Event Full',
+          message: `You are #${result.entry.place ?? result.entry.position} on the waitlist. We will offer you a seat from your profile if one frees up.`,
+          duration: 6000
         })
         return
       }
 
-      const result = data?.[0]
-      if (!result?.success) {
+      if (result.status === 'offered') {
         addToast({
-          type: 'info',
-          title: 'Registration Status',
-          message: result?.message || 'Already registered'
+          type: 'success',
+          title: 'Seat Available',
+          message: 'A seat is being held for you. Claim it from your profile before the offer expires.',
+          duration: 6000
         })
-        // Refresh registration status
-        checkRegistration()
         return
       }
 
@@ -168,8 +167,10 @@ export default function EventCard({ event }: EventCardProps) {
       addToast({
         type: 'error',
         title: 'Registration Failed',
-        message: 'Please try again later'
+        message: (error as Error).message || 'Please try again later'
       })
+      // Refresh registration status
+      checkRegistration()
     } finally {
       setIsRegistering(false)
     }
@@ -225,10 +226,10 @@ export default function EventCard({ event }: EventCardProps) {
               <span>{event.venue}</span>
             </div>
           )}
-          {event.schedule && (
+          {formatEventSchedule(event) && (
             <div className="flex items-center">
               <Calendar className="h-4 w-4 mr-2 text-gray-400" />
-              <span>{event.schedule}</span>
+              <span>{formatEventSchedule(event)}</span>
             </div>
           )}
         </div>
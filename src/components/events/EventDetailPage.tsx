@@ -4,6 +4,17 @@ import { ArrowLeft, Calendar, MapPin, Users, Clock, FileText, CheckCircle, Share
 import { motion } from 'framer-motion'
 import { useAuth } from '../../hooks/useAuth'
 import { supabase } from '../../lib/supabase'
+import { parseSessions, formatSession, downloadIcs, type EventSession } from '../../lib/schedule'
+import { activeTier, currentPrice, type PriceTier } from '../../lib/pricing'
+import {
+  advanceWaitlist,
+  claimWaitlistOffer,
+  isOfferOpen,
+  joinEvent,
+  leaveWaitlist,
+  loadMyWaitlist,
+  type WaitlistEntry
+} from '../../lib/waitlist'
 import { useToast, ToastContainer } from './Toast'
 
 interface Event {
@@ -11,9 +22,12 @@ interface Event {
   title: string
   description: string
   price: number
+  price_tiers: PriceTier[] | null
   eventDate: string
   capacity: number
   venue: string
+  schedule: string | null
+  sessions: EventSession[] | null
   category: string
   isActive: boolean
   createdAt: string
@@ -29,6 +43,7 @@ export default function EventDetailPage() {
   const [isRegistered, setIsRegistered] = useState(false)
   const [registering, setRegistering] = useState(false)
   const [registrationCount, setRegistrationCount] = useState(0)
+  const [waitlistEntry, setWaitlistEntry] = useState<WaitlistEntry | null>(null)
   const [isFavorite, setIsFavorite] = useState(false)
   const [isProcessing, setIsProcessing] = useState(false)
   const [showFullDescription, setShowFullDescription] = useState(false)
@@ -79,9 +94,11 @@ export default function EventDetailPage() {
           image_url,
           rules,
           schedule,
+          sessions,
           venue,
           capacity,
           price,
+          price_tiers,
           registration_deadline,
           contact_email,
           contact_phone,
@@ -152,7 +169,14 @@ export default function EventDetailPage() {
         .limit(1)
 
       if (error) throw error
-      setIsRegistered(data && data.length > 0)
+      const registered = data && data.length > 0
+      setIsRegistered(registered)
+      if (!registered) {
+        const entries = await loadMyWaitlist()
+        setWaitlistEntry(entries.find(e => e.event_id === eventId) ?? null)
+      } else {
+        setWaitlistEntry(null)
+      }
     } catch (error) {
       console.error('Error checking registration:', error)
     }
@@ -224,7 +248,7 @@ export default function EventDetailPage() {
     if (!user || !eventId || !event) return
     setIsProcessing(true)
     // Navigate to Payment Page with context
-    navigate(`../pay/${eventId}` , { state: { eventTitle: event.title, amount: event.price ?? 0 } })
+    navigate(`../pay/${eventId}` , { state: { eventTitle: event.title, amount: currentPrice(event) ?? 0 } })
     setTimeout(() => setIsProcessing(false), 200)
   }
 
@@ -268,6 +292,9 @@ export default function EventDetailPage() {
           title: 'Unregistered',
           message: 'You have been unregistered from this event'
         })
+        // Offer the freed seat to the next person on the waitlist
+        advanceWaitlist(eventId!).catch(() => {})
+        fetchRegistrationCount()
       } catch (error) {
         console.error('Error unregistering:', error)
         addToast({
@@ -278,11 +305,67 @@ export default function EventDetailPage() {
       } finally {
         setRegistering(false)
       }
+    } else if (waitlistEntry) {
+      await handleWaitlistAction(waitlistEntry)
     } else {
-      await handlePayment()
+      try {
+        setRegistering(true)
+        const result = await joinEvent(eventId!)
+        if (result.status === 'registered') {
+          setIsRegistered(true)
+          await handlePayment()
+          return
+        }
+        setWaitlistEntry(result.entry)
+        addToast({
+          type: 'info',
+          title: result.status === 'offered' ? 'Seat Available' : 'Added to Waitlist',
+          message: result.status === 'offered'
+            ? 'A seat is being held for you. Claim it before the offer expires.'
+            : `This event is full. You are #${result.entry.place ?? result.entry.position} on the waitlist.`,
+          duration: 5000
+        })
+      } catch (error) {
+        addToast({
+          type: 'error',
+          title: 'Registration Failed',
+          message: (error as Error).message || 'Please try again later'
+        })
+      } finally {
+        setRegistering(false)
+      }
+    }
+  }
+
+  // Claim an open offer, or leave the waitlist
+  const handleWaitlistAction = async (entry: WaitlistEntry) => {
+    if (!eventId) return
+    const claiming = isOfferOpen(entry)
+    if (!claiming && !window.confirm('Leave the waitlist for this event?')) return
+
+    setRegistering(true)
+    try {
+      if (claiming) {
+        await claimWaitlistOffer(eventId)
+        setWaitlistEntry(null)
+        setIsRegistered(true)
+        fetchRegistrationCount()
+        await handlePayment()
+      } else {
+        await leaveWaitlist(eventId)
+        setWaitlistEntry(null)
+        addToast({ type: 'success', title: 'Left Waitlist', message: 'You are no longer on the waitlist' })
+      }
+    } catch (error) {
+      addToast({ type: 'error', title: 'Waitlist', message: (error as Error).message || 'Please try again later' })
+      checkRegistration()
+    } finally {
+      setRegistering(false)
     }
   }
 
+  const isFull = !!event?.capacity && registrationCount >= event.capacity
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 flex items-center justify-center">
@@ -423,7 +506,34 @@ export default function EventDetailPage() {
 
               {/* Event Info Grid */}
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-8 bg-white dark:bg-gray-800/50 rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-gray-700 transition-colors duration-200">
-                {event.schedule && (
+                {parseSessions(event.sessions).length > 0 ? (
+                  <div className="sm:col-span-2 flex items-start space-x-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-xl">
+                    <Calendar className="w-6 h-6 text-primary mt-1" />
+                    <div className="flex-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="font-semibold text-gray-900 dark:text-white">Schedule</p>
+                        <button
+                          onClick={() => downloadIcs(event.title, [event])}
+                          className="text-sm text-primary hover:underline"
+                        >
+                          Add to calendar
+                        </button>
+                      </div>
+                      <ul className="mt-2 space-y-2">
+                        {parseSessions(event.sessions).map((session, index) => (
+                          <li key={index} className="text-sm text-gray-600 dark:text-gray-400">
+                            {session.title && <span className="font-medium text-gray-900 dark:text-white">{session.title} • </span>}
+                            {formatSession(session)}
+                            {session.venue && session.venue !== event.venue && ` • ${session.venue}`}
+                          </li>
+                        ))}
+                      </ul>
+                      {event.schedule && (
+                        <p className="mt-2 text-gray-600 dark:text-gray-400 text-sm">{event.schedule}</p>
+                      )}
+                    </div>
+                  </div>
+                ) : event.schedule && (
                   <div className="flex items-center space-x-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-xl">
                     <Calendar className="w-6 h-6 text-primary" />
                     <div>
@@ -448,7 +558,19 @@ export default function EventDetailPage() {
                     <div className="w-6 h-6 text-primary font-bold text-lg">₹</div>
                     <div>
                       <p className="font-semibold text-gray-900 dark:text-white">Price</p>
-                      <p className="text-gray-600 dark:text-gray-400 text-sm">₹{event.price}</p>
+                      <p className="text-gray-600 dark:text-gray-400 text-sm">
+                        ₹{currentPrice(event)}
+                        {(() => {
+                          const tier = activeTier(event.price_tiers)
+                          if (!tier || tier.price === event.price) return null
+                          return (
+                            <span className="ml-2">
+                              <span className="line-through">₹{event.price}</span> • {tier.label}
+                              {tier.ends_at && ` until ${new Date(tier.ends_at).toLocaleString('en-IN')}`}
+                            </span>
+                          )
+                        })()}
+                      </p>
                     </div>
                   </div>
                 )}
@@ -496,6 +618,9 @@ export default function EventDetailPage() {
                           {registrationCount} / {event.capacity}
                         </span>
                       </div>
+                      {isFull && (
+                        <p className="text-sm text-orange-600 dark:text-orange-400 mt-1">Full — new registrations join the waitlist</p>
+                      )}
                     </div>
                   </div>
                 )}
@@ -537,10 +662,25 @@ export default function EventDetailPage() {
                       <CheckCircle className="w-5 h-5" />
                       <span>Registered - Click to Unregister</span>
                     </>
+                  ) : waitlistEntry && isOfferOpen(waitlistEntry) ? (
+                    <>
+                      <CheckCircle className="w-5 h-5" />
+                      <span>Claim Your Seat (until {new Date(waitlistEntry.offer_expires_at!).toLocaleString('en-IN')})</span>
+                    </>
+                  ) : waitlistEntry ? (
+                    <>
+                      <Clock className="w-5 h-5" />
+                      <span>On Waitlist{waitlistEntry.place ? ` (#${waitlistEntry.place})` : ''} - Click to Leave</span>
+                    </>
+                  ) : isFull ? (
+                    <>
+                      <Users className="w-5 h-5" />
+                      <span>Join Waitlist</span>
+                    </>
                   ) : (
                     <>
                       <Users className="w-5 h-5" />
-                      <span>Pay & Register {event.price ? `(₹${event.price})` : ''}</span>
+                      <span>Pay & Register {event.price ? `(₹${currentPrice(event)})` : ''}</span>
                     </>
                   )}
                 </button>
@@ -550,9 +690,6 @@ export default function EventDetailPage() {
         </div>
       </div>
 
-      {/* Razorpay script will be loaded here */}
-      <script src="https://checkout.razorpay.com/v1/checkout.js" async></script>
-      
       {/* Toast Notifications */}
       <ToastContainer toasts={toasts} onRemove={removeToast} />
     </div>
@@ -1,26 +1,42 @@
 import React, { useEffect, useMemo, useState } from 'react'
+import QRCode from 'qrcode'
 import { useParams, useNavigate, useLocation } from 'react-router-dom'
 import { supabase } from '../../lib/supabase'
 import { useAuth } from '../../hooks/useAuth'
 import { useToast, ToastContainer } from './Toast'
-import { ArrowLeft, Upload, QrCode, Loader2, User, Mail, IdCard, Users, AlertCircle } from 'lucide-react'
+import { ArrowLeft, Upload, QrCode, Loader2, User, Mail, IdCard, AlertCircle, CreditCard, Tag, X } from 'lucide-react'
 import { validateRollNumber, validateEmail, validateName } from '../../utils/validation'
+import { getTeamRules, loadTeamForEvent, setTeamLocked, teamPaymentBlocker, type Team, type TeamRules } from '../../lib/teams'
+import { createOrder, openCheckout, waitForPayment } from '../../lib/razorpay'
+import { computeImageHash } from '../../lib/imageHash'
+import { applyPricingToProof, getPriceQuote, pinPaymentQuote, quoteExpired, type PriceQuote } from '../../lib/pricing'
+import { loadBundle, loadBundleEvents, type Bundle, type BundleEvent } from '../../lib/bundles'
+import { joinEvent } from '../../lib/waitlist'
+import { isTicketValid } from '../../lib/tickets'
+import {
+  advancePaymentSession,
+  loadPaymentSession,
+  startPaymentSession,
+  updatePaymentSession,
+  type PaymentSession
+} from '../../lib/paymentSession'
+import { buildUpiIntent, generatePaymentReference } from '../../lib/paymentReference'
+import TeamPanel from './TeamPanel'
 
 interface EventData {
   id: string
   title: string
   price: number | null
+  team_min_size: number | null
+  team_max_size: number | null
 }
 
 interface QRCodeRow {
   qr_code_id: string
   qr_name: string | null
   qr_image_url: string | null
-  upi_intent: string | null
+  upi_id: string | null
   payee_name: string | null
-  transaction_count: number
-  max_transactions: number
-  transactions_remaining: number
 }
 
 // Client-side image compression with size validation
@@ -99,28 +115,49 @@ async function compressImage(file: File, options?: { maxWidth?: number; maxHeigh
 }
 
 export default function EnhancedPaymentPage() {
-  const { eventId } = useParams<{ eventId: string }>()
+  // pay/:eventId for an event, pay/bundle/:bundleId for a combo pass
+  const { eventId, bundleId } = useParams<{ eventId: string; bundleId: string }>()
   const navigate = useNavigate()
   const location = useLocation() as any
   const { user } = useAuth()
   const { toasts, addToast, removeToast } = useToast()
 
-  const [step, setStep] = useState<1 | 2>(1)
   const [event, setEvent] = useState<EventData | null>(null)
   const [qr, setQr] = useState<QRCodeRow | null>(null)
   const [loading, setLoading] = useState(true)
   const [submitting, setSubmitting] = useState(false)
+  const [advancing, setAdvancing] = useState(false)
+  const [payingOnline, setPayingOnline] = useState(false)
   const [noQRAvailable, setNoQRAvailable] = useState(false)
 
+  // Combo pass being bought, with its events in display order
+  const [bundle, setBundle] = useState<Bundle | null>(null)
+  const [bundleEvents, setBundleEvents] = useState<BundleEvent[]>([])
+  const [joiningPass, setJoiningPass] = useState(false)
+
+  // Price from the pricing function: current tier and any coupon applied
+  const [quote, setQuote] = useState<PriceQuote | null>(null)
+  const [couponCode, setCouponCode] = useState('')
+  const [couponError, setCouponError] = useState('')
+  const [applyingCoupon, setApplyingCoupon] = useState(false)
+
+  // Saved progress of this payment; the page shows whatever stage it is at
+  const [session, setSession] = useState<PaymentSession | null>(null)
+  const step = !session || session.stage === 'details' ? 1 : 2
+
   // Form fields
   const [name, setName] = useState('')
   const [email, setEmail] = useState('')
   const [rollNo, setRollNo] = useState('')
-  const [teamMembers, setTeamMembers] = useState('') // comma-separated optional
+
+  // Team events: the captain pays once for the whole team
+  const [teamRules, setTeamRules] = useState<TeamRules | null>(null)
+  const [team, setTeam] = useState<Team | null>(null)
 
   // Upload state
   const [file, setFile] = useState<File | null>(null)
   const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  const [imageHash, setImageHash] = useState<string | null>(null)
 
   // Validation states
   const [nameError, setNameError] = useState('')
@@ -181,21 +218,71 @@ export default function EnhancedPaymentPage() {
     }
   }, [])
 
+  // Put the page back where a saved session stopped, with the QR it was shown
+  const restoreSession = (saved: PaymentSession) => {
+    setName(saved.name)
+    setEmail(saved.email)
+    setRollNo(saved.roll_no || '')
+    if (saved.stage === 'details' || !saved.qr_code_id) return
+    setQr({
+      qr_code_id: saved.qr_code_id,
+      qr_name: saved.qr_name,
+      qr_image_url: null,
+      upi_id: saved.upi_id,
+      payee_name: saved.payee_name
+    })
+    if (saved.coupon_code) setCouponCode(saved.coupon_code)
+    if (saved.quote) setQuote(saved.quote)
+    if (saved.screenshot_path) {
+      setPreviewUrl(supabase.storage.from('payment_proofs').getPublicUrl(saved.screenshot_path).data.publicUrl)
+      setImageHash(saved.image_hash)
+    }
+  }
+
   // Prefill from auth/profile and load event + active QR
 useEffect(() => {
   const init = async () => {
-    if (!eventId) return
+    if (!eventId && !bundleId) return
     setLoading(true)
     try {
-      // Load event data
-      const { data: ev, error: evErr } = await supabase
-        .from('events')
-        .select('id, title, price')
-        .eq('id', eventId)
-        .single()
-      
-      if (evErr) throw evErr
-      setEvent(ev as EventData)
+      // Resume an unfinished payment for this event or pass
+      const saved = user?.id
+        ? await loadPaymentSession(user.id, { eventId: eventId ?? null, bundleId: bundleId ?? null })
+        : null
+
+      if (bundleId) {
+        const pass = await loadBundle(bundleId)
+        setBundle(pass)
+        setBundleEvents(await loadBundleEvents(pass))
+      } else if (eventId) {
+        // Load event data
+        const { data: ev, error: evErr } = await supabase
+          .from('events')
+          .select('id, title, price, team_min_size, team_max_size')
+          .eq('id', eventId)
+          .single()
+
+        if (evErr) throw evErr
+        setEvent(ev as EventData)
+        setTeamRules(getTeamRules(ev))
+        if (user?.id && getTeamRules(ev)) {
+          setTeam(await loadTeamForEvent(eventId, user.id))
+        }
+        // A session past the details step brings its pinned quote instead
+        if (user?.id && ev?.price && !(saved?.stage !== 'details' && saved?.quote)) {
+          setQuote(await getPriceQuote(eventId, saved?.coupon_code ?? null)
+            // A saved coupon that no longer applies falls back to the plain price
+            .catch(() => saved?.coupon_code ? getPriceQuote(eventId) : null)
+            .catch(() => null))
+        }
+      }
+
+      if (saved) {
+        setSession(saved)
+        restoreSession(saved)
+        // Past the details step the QR is pinned; do not pick a new one
+        if (saved.stage !== 'details') return
+      }
 
       // Ensure we have a userId from profiles
       let userId = user?.id
@@ -210,11 +297,11 @@ useEffect(() => {
 
       // 🔹 Fetch available QR code using the correct backend function
       let qrCodeData = null
-      let upiLink = ''
       
-      // Get available QR using the correct backend function
+      // Get available QR using the correct backend function; it skips QRs
+      // outside their active window or restricted to other events
       console.log('🔍 Fetching available QR code...')
-      const { data: qrData, error: qrErr } = await supabase.rpc('get_available_qr_code')
+      const { data: qrData, error: qrErr } = await supabase.rpc('get_available_qr_code', { p_event_id: eventId ?? null })
       
       console.log('🔍 QR fetch result:', { qrData, qrErr })
       
@@ -230,11 +317,6 @@ useEffect(() => {
         qrCodeData = qrData[0] // get_available_qr_code returns array, take first
         console.log('✅ Selected QR data:', qrCodeData)
         setNoQRAvailable(false)
-        
-        // Generate UPI link
-        const amount = ev?.price ?? location?.state?.amount ?? 0
-        upiLink = `upi://pay?pa=${qrCodeData.upi_id}&pn=${encodeURIComponent(qrCodeData.payee_name)}&am=${amount}&cu=INR&tn=Payment%20for%20${encodeURIComponent(ev?.title || 'event')}`
-        console.log('💳 Generated UPI link:', upiLink)
       } else {
         console.log('⚠️ All QR codes are at maximum capacity!')
         setNoQRAvailable(true)
@@ -250,14 +332,12 @@ useEffect(() => {
         qr_code_id: qrCodeData?.qr_id || null,
         qr_name: qrCodeData?.qr_name || null,
         qr_image_url: qrCodeData?.qr_image_url || null,
-        upi_intent: upiLink,
-        payee_name: qrCodeData?.payee_name || 'ACN TechFest',
-        transaction_count: qrCodeData?.current_count || 0,
-        max_transactions: qrCodeData?.max_count || 20,
-        transactions_remaining: qrCodeData ? (qrCodeData.max_count - qrCodeData.current_count) : 20
+        upi_id: qrCodeData?.upi_id || null,
+        payee_name: qrCodeData?.payee_name || 'ACN TechFest'
       })
 
-      // Prefill user data
+      // Prefill user data unless a saved session already did
+      if (saved) return
       if (user?.email) setEmail(user.email)
       if (userId) {
         const { data: profile } = await supabase
@@ -278,27 +358,121 @@ useEffect(() => {
     }
   }
   init()
-}, [eventId, user?.id])
+}, [eventId, bundleId, user?.id])
 
 
 
   const amount = useMemo(() => {
-    return event?.price ?? location?.state?.amount ?? 0
-  }, [event, location?.state])
+    // Once the QR is shown the amount to pay is fixed on the session
+    if (session && session.stage !== 'details' && session.amount != null) return session.amount
+    if (bundle) return bundle.price
+    return quote?.amount ?? event?.price ?? location?.state?.amount ?? 0
+  }, [session, bundle, quote, event, location?.state])
 
   const eventTitle = useMemo(() => {
-    return event?.title ?? location?.state?.eventTitle ?? 'Selected Event'
-  }, [event, location?.state])
+    return bundle?.name ?? event?.title ?? location?.state?.eventTitle ?? 'Selected Event'
+  }, [bundle, event, location?.state])
+
+  // The UPI intent carries the quoted amount, so it follows tiers and coupons,
+  // and the session's reference, so the transfer can be traced to this proof
+  const upiIntent = useMemo(() => {
+    if (!qr?.upi_id) return ''
+    return buildUpiIntent({
+      upiId: qr.upi_id,
+      payeeName: qr.payee_name,
+      amount,
+      reference: session?.reference ?? null,
+      note: eventTitle
+    })
+  }, [qr, amount, eventTitle, session?.reference])
 
-const qrUrl = useMemo(() => {
-  if (!qr) return ''
-  const data = qr.upi_intent || `Payment for ${eventTitle}`
-  return `https://api.qrserver.com/v1/create-qr-code/?size=240x240&data=${encodeURIComponent(data)}`
-}, [qr, eventTitle])
+  // Drawn in the browser; a QR without a UPI ID falls back to its uploaded image
+  const [qrUrl, setQrUrl] = useState('')
+  useEffect(() => {
+    if (!upiIntent) {
+      setQrUrl(qr?.qr_image_url || '')
+      return
+    }
+    let cancelled = false
+    QRCode.toDataURL(upiIntent, { width: 240, margin: 1 })
+      .then(url => { if (!cancelled) setQrUrl(url) })
+      .catch(() => { if (!cancelled) setQrUrl(qr?.qr_image_url || '') })
+    return () => { cancelled = true }
+  }, [upiIntent, qr?.qr_image_url])
+
+  const handleApplyCoupon = async (code: string | null) => {
+    if (!eventId) return
+    setApplyingCoupon(true)
+    setCouponError('')
+    try {
+      const next = await getPriceQuote(eventId, code)
+      setQuote(next)
+      if (!code) setCouponCode('')
+      // The payer has not paid yet, so the pinned quote follows the coupon
+      if (session?.stage === 'qr_allocated') {
+        const pinned = await pinPaymentQuote(session, next.coupon_code)
+        setSession(pinned)
+        setQuote(pinned.quote)
+      }
+    } catch (err) {
+      setCouponError((err as Error).message)
+    } finally {
+      setApplyingCoupon(false)
+    }
+  }
+
+
+  // A pass registers the buyer for every included event before they pay, so
+  // nobody pays for a pass with a full event in it
+  const joinPassEvents = async (): Promise<boolean> => {
+    if (!user || !bundle) return false
+    setJoiningPass(true)
+    try {
+      const { data: held, error: heldErr } = await supabase
+        .from('tickets')
+        .select('event_title, status')
+        .eq('user_id', user.id)
+        .in('event_id', bundle.event_ids)
+      if (heldErr) throw heldErr
+      const owned = (held || []).filter(isTicketValid)
+      if (owned.length > 0) {
+        addToast({
+          type: 'warning',
+          title: 'Already registered',
+          message: `You already have a ticket for ${owned.map(t => t.event_title).join(', ')}. Register for the other events separately.`,
+          duration: 6000
+        })
+        return false
+      }
 
+      for (const passEvent of bundleEvents) {
+        const result = await joinEvent(passEvent.id)
+        if (result.status !== 'registered') {
+          addToast({
+            type: 'warning',
+            title: `${passEvent.title} is full`,
+            message: 'You are on its waitlist. The pass can be bought once a seat frees up.',
+            duration: 6000
+          })
+          return false
+        }
+      }
+      return true
+    } catch (err) {
+      addToast({ type: 'error', title: 'Registration failed', message: (err as Error).message })
+      return false
+    } finally {
+      setJoiningPass(false)
+    }
+  }
 
-  const handleNext = (e: React.FormEvent) => {
+  const handleNext = async (e: React.FormEvent) => {
     e.preventDefault()
+
+    if (!user) {
+      addToast({ type: 'warning', title: 'Login required' })
+      return
+    }
     
     // Validate required fields
     if (!name || !email) {
@@ -328,7 +502,73 @@ const qrUrl = useMemo(() => {
       return
     }
 
-    setStep(2)
+    if (teamRules && user) {
+      const blocker = team ? teamPaymentBlocker(team, teamRules, user.id) : 'Create a team before paying'
+      if (blocker) {
+        addToast({ type: 'warning', title: 'Team not ready', message: blocker })
+        return
+      }
+    }
+
+    if (bundle && !(await joinPassEvents())) return
+    if (!qr?.qr_code_id) return
+
+    // Pin the QR and amount so a reload after paying shows the same ones
+    setAdvancing(true)
+    try {
+      const details = { name: name.trim(), email: email.trim(), roll_no: rollNo.trim() || null }
+      const current = session ?? await startPaymentSession(user.id, { eventId: eventId ?? null, bundleId: bundle?.id ?? null }, details)
+      let next = await advancePaymentSession(current, 'qr_allocated', {
+        ...details,
+        qr_code_id: qr.qr_code_id,
+        qr_name: qr.qr_name,
+        upi_id: qr.upi_id,
+        payee_name: qr.payee_name,
+        reference: current.reference ?? generatePaymentReference(),
+        amount,
+        coupon_code: quote?.coupon_code ?? null
+      })
+      // The amount to pay is whatever the server pins; without a pinned quote
+      // the proof cannot be priced, so go back rather than show the QR
+      if (quote) {
+        try {
+          next = await pinPaymentQuote(next, quote.coupon_code)
+          setQuote(next.quote)
+        } catch (err) {
+          setSession(await advancePaymentSession(next, 'details'))
+          throw err
+        }
+      }
+      setSession(next)
+    } catch (err) {
+      addToast({ type: 'error', title: 'Could not start payment', message: (err as Error).message })
+    } finally {
+      setAdvancing(false)
+    }
+  }
+
+  const handleEditDetails = async () => {
+    if (!session) return
+    setAdvancing(true)
+    try {
+      setSession(await advancePaymentSession(session, 'details'))
+    } catch (err) {
+      addToast({ type: 'error', title: 'Update failed', message: (err as Error).message })
+    } finally {
+      setAdvancing(false)
+    }
+  }
+
+  const handleMarkPaid = async () => {
+    if (!session) return
+    setAdvancing(true)
+    try {
+      setSession(await advancePaymentSession(session, 'paid'))
+    } catch (err) {
+      addToast({ type: 'error', title: 'Update failed', message: (err as Error).message })
+    } finally {
+      setAdvancing(false)
+    }
   }
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -339,6 +579,8 @@ const qrUrl = useMemo(() => {
       const compressedFile = new File([blob], `${Date.now()}.jpg`, { type: 'image/jpeg' })
       setFile(compressedFile)
       setPreviewUrl(URL.createObjectURL(compressedFile))
+      // Reviewers use the hash to spot a screenshot reused across payments
+      setImageHash(await computeImageHash(compressedFile).catch(() => null))
       addToast({ 
         type: 'success', 
         title: 'Image validated', 
@@ -351,25 +593,64 @@ const qrUrl = useMemo(() => {
   }
 
   const handleSubmitProof = async () => {
-    if (!user) {
+    if (!user || !session) {
       addToast({ type: 'warning', title: 'Login required' })
       return
     }
-    if (!eventId || !eventTitle) return
-    if (!file) {
+    if ((!eventId && !bundle) || !eventTitle) return
+    if (!file && session.stage !== 'uploaded') {
       addToast({ type: 'warning', title: 'No screenshot', message: 'Upload payment screenshot first' })
       return
     }
+    if (quoteExpired(session)) {
+      addToast({
+        type: 'error',
+        title: 'Price expired',
+        message: 'The price pinned for this payment has expired. Contact the organisers if you have already paid.',
+        duration: 8000
+      })
+      return
+    }
 
     setSubmitting(true)
     try {
-      // Step 1: Use backend function to allocate QR and create payment record
+      let current = session
+
+      if (file) {
+        // Step 1: Upload into the pinned QR's folder: qr_name/EventName_RollNo_Timestamp.jpg
+        const fileExtension = 'jpg'
+        const timestamp = Date.now()
+        const sanitizedEventTitle = eventTitle.replace(/[^a-zA-Z0-9]/g, '')
+        const sanitizedRollNo = rollNo.trim() ? rollNo.replace(/[^a-zA-Z0-9]/g, '') : 'NoRoll'
+        const fileName = `${sanitizedEventTitle}_${sanitizedRollNo}_${timestamp}.${fileExtension}`
+        const storagePath = `${current.qr_name}/${fileName}`
+
+        const { error: upErr } = await supabase.storage.from('payment_proofs').upload(storagePath, file, {
+          cacheControl: '3600',
+          contentType: 'image/jpeg',
+          upsert: false,
+        })
+        if (upErr) throw upErr
+
+        // Saved before the proof exists so a reload does not ask for the screenshot again
+        const uploaded = { screenshot_path: storagePath, image_hash: imageHash }
+        current = current.stage === 'paid'
+          ? await advancePaymentSession(current, 'uploaded', uploaded)
+          : await updatePaymentSession(current, uploaded)
+        setSession(current)
+        setFile(null)
+      }
+
+      // Step 2: Create the payment record against the QR the payer was shown
       console.log('🚀 Starting payment submission...')
       const { data: allocationResult, error: allocErr } = await supabase.rpc('allocate_qr_for_payment', {
         p_user_id: user.id,
-        p_event_id: eventId,
+        p_event_id: eventId ?? null,
         p_event_title: eventTitle,
-        p_amount: amount || 0
+        p_amount: amount || 0,
+        p_team_id: team?.id ?? null,
+        p_bundle_id: bundle?.id ?? null,
+        p_qr_code_id: current.qr_code_id
       })
       
       console.log('🔍 Allocation result:', { allocationResult, allocErr })
@@ -382,36 +663,23 @@ const qrUrl = useMemo(() => {
       const allocatedQR = allocationResult[0]
       console.log('🎯 Allocated QR:', allocatedQR)
       const qrName = allocatedQR.qr_name
-      
-      // Step 2: Create organized file path using QR name: qr_name/EventName_RollNo_Timestamp.jpg
-      const fileExtension = 'jpg'
-      const timestamp = Date.now()
-      const sanitizedEventTitle = eventTitle.replace(/[^a-zA-Z0-9]/g, '')
-      const sanitizedRollNo = rollNo.trim() ? rollNo.replace(/[^a-zA-Z0-9]/g, '') : 'NoRoll'
-      const fileName = `${sanitizedEventTitle}_${sanitizedRollNo}_${timestamp}.${fileExtension}`
-      const storagePath = `${qrName}/${fileName}`
-      
-      // Step 3: Upload to storage bucket with organized path
-      const { error: upErr } = await supabase.storage.from('payment_proofs').upload(storagePath, file, {
-        cacheControl: '3600',
-        contentType: 'image/jpeg',
-        upsert: false,
-      })
-      if (upErr) throw upErr
 
-      // Step 4: Get the public URL for the uploaded file
+      // Step 3: Get the public URL for the uploaded file
       const { data: urlData } = supabase.storage
         .from('payment_proofs')
-        .getPublicUrl(storagePath)
+        .getPublicUrl(current.screenshot_path!)
       
       const screenshot_url = urlData.publicUrl
 
-      // Step 5: Update payment proof with screenshot URL (record already created by allocate_qr_for_payment)
+      // Step 4: Update payment proof with screenshot URL (record already created by allocate_qr_for_payment)
       console.log('📝 Updating payment proof with screenshot URL...')
       const { error: updateErr } = await supabase.rpc('update_payment_proof', {
         p_user_id: user.id,
-        p_event_id: eventId,
-        p_screenshot_url: screenshot_url
+        p_event_id: eventId ?? null,
+        p_bundle_id: bundle?.id ?? null,
+        p_screenshot_url: screenshot_url,
+        p_image_hash: current.image_hash,
+        p_payment_reference: current.reference
       })
       
       if (updateErr) {
@@ -421,6 +689,22 @@ const qrUrl = useMemo(() => {
         console.log('✅ Payment proof updated with screenshot!')
       }
 
+      // Store the pinned price and coupon use on the proof for the reviewers' amount checks
+      if (current.quote) {
+        try {
+          await applyPricingToProof(current)
+        } catch (err) {
+          addToast({ type: 'warning', title: 'Price not confirmed', message: (err as Error).message })
+        }
+      }
+
+      // Freeze the roster so tickets match the team that was paid for
+      if (team) await setTeamLocked(team.id, true)
+
+      setSession(await advancePaymentSession(current, 'submitted', {
+        payment_proof_id: allocatedQR.payment_proof_id ?? null
+      }))
+
       addToast({ 
         type: 'success', 
         title: 'Submitted', 
@@ -428,7 +712,7 @@ const qrUrl = useMemo(() => {
       })
       
       // Return to event page
-      navigate(`/events/event/${eventId}`)
+      navigate(bundle ? '/events' : `/events/event/${eventId}`)
     } catch (err: any) {
       console.error(err)
       addToast({ type: 'error', title: 'Upload failed', message: err?.message || 'Could not submit proof' })
@@ -437,6 +721,42 @@ const qrUrl = useMemo(() => {
     }
   }
 
+  const handlePayOnline = async () => {
+    if (!user) {
+      addToast({ type: 'warning', title: 'Login required' })
+      return
+    }
+    if (!eventId) return
+
+    setPayingOnline(true)
+    try {
+      const order = await createOrder(eventId, team?.id ?? null, quote?.coupon_code ?? null)
+      await openCheckout(order, { name, email })
+      addToast({ type: 'info', title: 'Confirming payment', message: 'Waiting for the payment gateway...' })
+
+      if (await waitForPayment(order.order_id)) {
+        addToast({ type: 'success', title: 'Payment received', message: 'Your ticket is ready in your profile.' })
+      } else {
+        addToast({
+          type: 'info',
+          title: 'Payment processing',
+          message: 'Your ticket will appear in your profile once the gateway confirms the payment.',
+          duration: 6000
+        })
+      }
+      navigate(`/events/event/${eventId}`)
+    } catch (err) {
+      const cancelled = (err as Error)?.message === 'Payment cancelled'
+      addToast({
+        type: cancelled ? 'info' : 'error',
+        title: cancelled ? 'Payment cancelled' : 'Online payment failed',
+        message: cancelled ? 'You can pay online again or upload a screenshot instead.' : (err as Error)?.message
+      })
+    } finally {
+      setPayingOnline(false)
+    }
+  }
+
   if (loading) {
     return (
       <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-md">
@@ -471,7 +791,7 @@ const qrUrl = useMemo(() => {
           </button>
           <div className="text-sm text-white/90 flex items-center gap-2">
             <AlertCircle className="w-4 h-4" />
-            ⚠️ Do not scroll. Complete payment and upload screenshot before leaving this page.
+            ⚠️ Do not scroll. Your progress is saved if you need to leave and come back.
           </div>
         </div>
 
@@ -506,7 +826,18 @@ const qrUrl = useMemo(() => {
             <div className="glass-effect rounded-2xl p-6 md:p-8 text-white">
               <div className="mb-6">
                 <h2 className="text-2xl md:text-3xl font-bold">{eventTitle}</h2>
-                <p className="text-white/80 mt-1">Amount: <span className="font-semibold">₹{amount || 0}</span></p>
+                <p className="text-white/80 mt-1">
+                  Amount: <span className="font-semibold">₹{amount || 0}</span>
+                  {quote && quote.amount !== quote.base_price && (
+                    <span className="ml-2 text-sm line-through text-white/50">₹{quote.base_price}</span>
+                  )}
+                  {quote?.tier && <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-white/20">{quote.tier}</span>}
+                </p>
+                {bundle && (
+                  <p className="text-sm text-white/80 mt-1">
+                    Covers {bundleEvents.map(e => e.title).join(', ')}. One ticket per event once the payment is verified.
+                  </p>
+                )}
                 <p className="text-xs text-green-300 mt-2">✅ Enhanced with security validation</p>
               </div>
 
@@ -516,7 +847,7 @@ const qrUrl = useMemo(() => {
                   <div className="text-6xl mb-4">🙅‍♂️</div>
                   <h3 className="text-2xl font-bold mb-4">Payment System Busy</h3>
                   <p className="text-white/80 mb-6 max-w-md mx-auto">
-                    All payment QR codes are currently at maximum capacity (20 payments each). 
+                    All payment QR codes are currently at their daily payment limit. 
                     Our system resets daily at midnight.
                   </p>
                   <div className="space-y-4">
@@ -611,20 +942,22 @@ const qrUrl = useMemo(() => {
                       )}
                     </div>
                     
-                    <div className="flex items-center bg-white/10 rounded-lg px-3">
-                      <Users className="w-4 h-4 text-white/70 mr-2" />
-                      <input
-                        className="bg-transparent outline-none w-full py-3 placeholder-white/60"
-                        placeholder="Team Members (comma separated)"
-                        value={teamMembers}
-                        onChange={(e) => setTeamMembers(e.target.value)}
-                      />
-                    </div>
                   </div>
+                  {teamRules && user && event && (
+                    <TeamPanel
+                      team={team}
+                      rules={teamRules}
+                      identity={{ userId: user.id, email: user.email ?? null, rollNo: rollNo || null, name: name || null }}
+                      event={{ id: event.id, title: event.title }}
+                      tone="glass"
+                      onChange={async () => setTeam(await loadTeamForEvent(event.id, user.id))}
+                      onError={(message) => addToast({ type: 'error', title: 'Team update failed', message })}
+                    />
+                  )}
                   <div className="pt-4 flex justify-end">
 <button
   type="submit"
-  disabled={!name || !email || !!nameError || !!emailError || !!rollNoError}
+  disabled={!name || !email || !!nameError || !!emailError || !!rollNoError || joiningPass || advancing}
   className={`px-6 py-3 rounded-lg font-semibold ${
     !name || !email || !!nameError || !!emailError || !!rollNoError 
       ? 'opacity-50 cursor-not-allowed bg-gray-600' 
@@ -632,7 +965,9 @@ const qrUrl = useMemo(() => {
   }`}
   style={{ backgroundColor: !name || !email || !!nameError || !!emailError || !!rollNoError ? undefined : '#b22049', color: 'white' }}
 >
-  Continue to Payment
+  {joiningPass ? <span className="inline-flex items-center"><Loader2 className="w-4 h-4 animate-spin mr-2" /> Registering...</span>
+    : advancing ? <span className="inline-flex items-center"><Loader2 className="w-4 h-4 animate-spin mr-2" /> Saving...</span>
+    : 'Continue to Payment'}
 </button>
 
 
@@ -642,6 +977,79 @@ const qrUrl = useMemo(() => {
 
                 {step === 2 && (
                   <div className="space-y-6">
+                    {/* Coupons and online payment only before the payer has paid by UPI */}
+                    {quote && session?.stage === 'qr_allocated' && (
+                      <div className="rounded-xl bg-white/10 p-4 space-y-2">
+                        {quote.coupon_code ? (
+                          <div className="flex items-center justify-between gap-3 text-sm">
+                            <span className="inline-flex items-center gap-2">
+                              <Tag className="w-4 h-4" />
+                              <span className="font-semibold">{quote.coupon_code}</span>
+                              <span className="text-green-300">−₹{quote.discount}</span>
+                            </span>
+                            <button
+                              onClick={() => handleApplyCoupon(null)}
+                              disabled={applyingCoupon || submitting || payingOnline}
+                              className="inline-flex items-center text-white/70 hover:text-white"
+                            >
+                              <X className="w-4 h-4 mr-1" /> Remove
+                            </button>
+                          </div>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <div className="flex-1 flex items-center bg-white/10 rounded-lg px-3">
+                              <Tag className="w-4 h-4 text-white/70 mr-2" />
+                              <input
+                                className="bg-transparent outline-none w-full py-2 placeholder-white/60 uppercase"
+                                placeholder="Coupon code"
+                                value={couponCode}
+                                onChange={(e) => setCouponCode(e.target.value)}
+                              />
+                            </div>
+                            <button
+                              onClick={() => handleApplyCoupon(couponCode.trim())}
+                              disabled={!couponCode.trim() || applyingCoupon}
+                              className="px-4 py-2 rounded-lg border border-white/20 hover:bg-white/10 disabled:opacity-50"
+                            >
+                              {applyingCoupon ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Apply'}
+                            </button>
+                          </div>
+                        )}
+                        {couponError && (
+                          <p className="text-red-300 text-xs flex items-center gap-1">
+                            <AlertCircle className="w-3 h-3" />
+                            {couponError}
+                          </p>
+                        )}
+                        <p className="text-xs text-white/60">Apply a coupon before you pay; the QR below shows the amount to pay.</p>
+                      </div>
+                    )}
+
+                    {!bundle && session?.stage === 'qr_allocated' && (<>
+                    <div className="rounded-xl bg-white/10 p-4 flex flex-col md:flex-row items-center gap-4">
+                      <div className="flex-1">
+                        <h3 className="text-lg font-semibold">Pay Online</h3>
+                        <p className="text-sm text-white/80">
+                          UPI, cards or netbanking. Your ticket is issued as soon as the payment is confirmed.
+                        </p>
+                      </div>
+                      <button
+                        onClick={handlePayOnline}
+                        disabled={payingOnline || submitting}
+                        className={`px-6 py-3 rounded-lg font-semibold inline-flex items-center ${payingOnline || submitting ? 'opacity-70 cursor-not-allowed' : ''}`}
+                        style={{ backgroundColor: '#b22049', color: 'white' }}
+                      >
+                        {payingOnline ? (
+                          <><Loader2 className="w-4 h-4 animate-spin mr-2" /> Processing...</>
+                        ) : (
+                          <><CreditCard className="w-4 h-4 mr-2" /> Pay ₹{amount || 0}</>
+                        )}
+                      </button>
+                    </div>
+
+                    <p className="text-center text-sm text-white/60">or pay by UPI and upload the screenshot</p>
+                    </>)}
+
                     <div className="rounded-xl bg-white/10 p-4 flex flex-col md:flex-row items-center gap-4">
                       <div className="flex-1">
                         <h3 className="text-lg font-semibold">Scan to Pay</h3>
@@ -653,18 +1061,53 @@ const qrUrl = useMemo(() => {
                         </p>
                         {qr && (
                           <p className="text-xs text-white/60 mt-1">
-                            QR: {qr.qr_name || qr.qr_code_id} • {qr.transactions_remaining} slots remaining
+                            QR: {qr.qr_name || qr.qr_code_id}
+                            {session?.reference && <> • Reference: <span className="font-mono">{session.reference}</span></>}
+                          </p>
+                        )}
+                        {session?.reference && (
+                          <p className="text-xs text-white/60 mt-1">
+                            Keep the reference in the payment note so we can match your payment quickly.
                           </p>
                         )}
+                        {session?.stage === 'qr_allocated' && (
+                          <div className="mt-4 flex flex-wrap items-center gap-3">
+                            <button
+                              onClick={handleMarkPaid}
+                              disabled={advancing || applyingCoupon || payingOnline}
+                              className="px-5 py-2 rounded-lg font-semibold inline-flex items-center disabled:opacity-70"
+                              style={{ backgroundColor: '#b22049', color: 'white' }}
+                            >
+                              {advancing && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+                              I have paid ₹{amount || 0}
+                            </button>
+                            <button
+                              onClick={handleEditDetails}
+                              disabled={advancing || payingOnline}
+                              className="text-sm text-white/70 hover:text-white underline"
+                            >
+                              Edit details
+                            </button>
+                          </div>
+                        )}
                       </div>
                       <div className="bg-white rounded-xl p-3">
                         {/* QR Code */}
-                        <img src={qrUrl} className="w-48 h-48 object-contain" alt="Payment QR" />
+                        {qrUrl ? (
+                          <img src={qrUrl} className="w-48 h-48 object-contain" alt="Payment QR" />
+                        ) : (
+                          <QrCode className="w-48 h-48 text-gray-300" />
+                        )}
                       </div>
                     </div>
 
+                    {(session?.stage === 'paid' || session?.stage === 'uploaded') && (<>
                     <div className="space-y-3">
-                      <label className="block text-sm text-white/80">Upload payment screenshot (50KB-1MB, JPEG/PNG/WebP)</label>
+                      <label className="block text-sm text-white/80">
+                        {session.stage === 'uploaded' && !file
+                          ? 'Screenshot uploaded. Submit it, or select another image to replace it.'
+                          : 'Upload payment screenshot (50KB-1MB, JPEG/PNG/WebP)'}
+                      </label>
                       <div className="flex items-center gap-3">
                         <label className="inline-flex items-center px-4 py-2 rounded-lg cursor-pointer border border-white/20 hover:bg-white/10">
                           <Upload className="w-4 h-4 mr-2" />
@@ -683,12 +1126,12 @@ const qrUrl = useMemo(() => {
                     <div className="pt-2 flex justify-between items-center">
                       <div className="text-xs text-white/70 flex items-center gap-1">
                         <AlertCircle className="w-3 h-3" />
-                        ⚠️ Do not scroll. Complete payment and upload screenshot before leaving this page.
+                        ⚠️ Do not scroll. Your progress is saved if you need to leave and come back.
                       </div>
                       <button
                         onClick={handleSubmitProof}
-                        disabled={submitting || !file}
-                        className={`px-6 py-3 rounded-lg font-semibold ${submitting || !file ? 'opacity-70 cursor-not-allowed' : ''}`}
+                        disabled={submitting || (!file && session.stage !== 'uploaded')}
+                        className={`px-6 py-3 rounded-lg font-semibold ${submitting || (!file && session.stage !== 'uploaded') ? 'opacity-70 cursor-not-allowed' : ''}`}
                         style={{ backgroundColor: '#b22049', color: 'white' }}
                       >
                         {submitting ? (
@@ -698,6 +1141,7 @@ const qrUrl = useMemo(() => {
                         )}
                       </button>
                     </div>
+                    </>)}
                   </div>
                 )}
                 </>
@@ -1,9 +1,28 @@
 import { useState, useEffect } from 'react'
-import { User, Calendar, CreditCard, QrCode, Download, X, Loader2, ArrowRight, CheckCircle, Edit3, Save, XCircle } from 'lucide-react'
+import { User, Users, Calendar, CreditCard, QrCode, Download, X, Loader2, ArrowRight, CheckCircle, Edit3, Save, XCircle, Clock, Layers } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useAuth } from '../../hooks/useAuth'
 import { supabase } from '../../lib/supabase'
-import { useLocation } from 'react-router-dom'
+import {
+  getTicketStatus,
+  isTicketValid,
+  requestTicketTransfer,
+  cancelTicketTransfer,
+  acceptTicketTransfer,
+  declineTicketTransfer,
+  loadPendingTransfers,
+  type TicketRecord,
+  type TicketTransfer
+} from '../../lib/tickets'
+import { parseSessions, formatEventSchedule, findClashes, downloadIcs, sortEventsBySchedule, type EventSession } from '../../lib/schedule'
+import { loadMyTeams, type Team, type TeamIdentity } from '../../lib/teams'
+import { storePendingTicketPdfs } from '../../lib/razorpay'
+import { claimWaitlistOffer, isOfferOpen, leaveWaitlist, loadMyWaitlist, type WaitlistEntry } from '../../lib/waitlist'
+import { loadMyRefunds, OPEN_REFUND_STATUSES, type RefundRequest, type RefundRequestInput } from '../../lib/refunds'
+import { loadBundle, loadBundleEvents, type Bundle, type BundleEvent } from '../../lib/bundles'
+import TeamPanel from './TeamPanel'
+import RefundRequestForm from './RefundRequestForm'
+import { useLocation, useNavigate } from 'react-router-dom'
 import { useToast, ToastContainer } from './Toast'
 
 interface Registration {
@@ -15,6 +34,7 @@ interface Registration {
     tagline: string
     venue: string | null
     schedule: string | null
+    sessions: EventSession[] | null
     image_url: string | null
   }
 }
@@ -31,6 +51,7 @@ export default function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
   const { user } = useAuth()
   const { toasts, addToast, removeToast } = useToast()
   const location = useLocation()
+  const navigate = useNavigate()
   const returnPath = (location.state as any)?.returnTo
   const returnEventTitle = (location.state as any)?.returnEventTitle
 
@@ -53,7 +74,19 @@ export default function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
   const [tickets, setTickets] = useState<any[]>([])
   const [proofs, setProofs] = useState<any[]>([])
   const [ticketsLoading, setTicketsLoading] = useState(false)
+  const [incomingTransfers, setIncomingTransfers] = useState<TicketTransfer[]>([])
+  const [outgoingTransfers, setOutgoingTransfers] = useState<TicketTransfer[]>([])
+  const [transferLockedEvents, setTransferLockedEvents] = useState<Set<string>>(new Set())
+  const [transferBusy, setTransferBusy] = useState<string | null>(null)
+  const [teams, setTeams] = useState<Team[]>([])
+  const [teamInvites, setTeamInvites] = useState<Team[]>([])
+  const [waitlistEntries, setWaitlistEntries] = useState<WaitlistEntry[]>([])
+  const [waitlistBusy, setWaitlistBusy] = useState<string | null>(null)
   const [proofsLoading, setProofsLoading] = useState(false)
+  const [refunds, setRefunds] = useState<RefundRequest[]>([])
+  const [refundTarget, setRefundTarget] = useState<Pick<RefundRequestInput, 'proof' | 'ticket'> | null>(null)
+  // Combo passes the user has paid for, keyed by bundle id
+  const [passes, setPasses] = useState<Record<string, { bundle: Bundle; events: BundleEvent[] }>>({})
 
   useEffect(() => {
     if (isOpen && user) {
@@ -61,6 +94,8 @@ export default function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
       fetchProfile()
       fetchTickets()
       fetchProofs()
+      fetchWaitlist()
+      fetchRefunds()
     }
   }, [isOpen, user])
 
@@ -87,6 +122,7 @@ export default function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
       }
       setProfile(profileData)
       setOriginalProfile({...profileData})
+      fetchTeams(profileData)
       
       // Auto-enter edit mode if profile is incomplete (for new users or return path)
       const isIncomplete = !profileData.name || !profileData.phone || !profileData.rollno || !profileData.branch
@@ -105,6 +141,25 @@ export default function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
     }
   }
 
+  const teamIdentity = (profileData: { rollno?: string | null; name?: string | null } | null = profile): TeamIdentity | null => user ? {
+    userId: user.id,
+    email: user.email ?? null,
+    rollNo: profileData?.rollno || null,
+    name: profileData?.name || null
+  } : null
+
+  const fetchTeams = async (profileData: Parameters<typeof teamIdentity>[0] = profile) => {
+    const identity = teamIdentity(profileData)
+    if (!identity) return
+    try {
+      const result = await loadMyTeams(identity)
+      setTeams(result.teams)
+      setTeamInvites(result.invites)
+    } catch (e) {
+      console.error('Error fetching teams:', e)
+    }
+  }
+
   const handleProfileChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target
     setProfile((prev: any) => ({
@@ -210,6 +265,7 @@ export default function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
             tagline,
             venue,
             schedule,
+            sessions,
             image_url
           )
         `)
@@ -236,10 +292,44 @@ export default function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
     }
   }
 
+  const fetchWaitlist = async () => {
+    try {
+      setWaitlistEntries(await loadMyWaitlist())
+    } catch (e) {
+      console.error('Error fetching waitlist:', e)
+    }
+  }
+
+  const handleWaitlistAction = async (entry: WaitlistEntry, action: 'claim' | 'leave') => {
+    if (action === 'leave' && !window.confirm(`Leave the waitlist for ${entry.event?.title ?? 'this event'}?`)) return
+
+    setWaitlistBusy(entry.id)
+    try {
+      if (action === 'claim') {
+        await claimWaitlistOffer(entry.event_id)
+        onClose()
+        navigate(`pay/${entry.event_id}`, {
+          state: { eventTitle: entry.event?.title, amount: entry.event?.price ?? 0 }
+        })
+        return
+      }
+      await leaveWaitlist(entry.event_id)
+      addToast({ type: 'success', title: 'Left Waitlist', message: 'You are no longer on the waitlist' })
+    } catch (e) {
+      addToast({ type: 'error', title: 'Waitlist Update Failed', message: (e as Error).message })
+    } finally {
+      setWaitlistBusy(null)
+      fetchWaitlist()
+    }
+  }
+
   const fetchTickets = async () => {
     if (!user) return
     setTicketsLoading(true)
     try {
+      // Online payments confirmed after the checkout page was closed
+      await storePendingTicketPdfs().catch((e) => console.error('Storing ticket PDFs failed:', e))
+
       const { data, error } = await supabase
         .from('tickets')
         .select('*')
@@ -247,6 +337,21 @@ export default function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
         .order('created_at', { ascending: false })
       if (error) throw error
       setTickets(data || [])
+
+      const eventIds = [...new Set((data || []).map(t => t.event_id))]
+      if (eventIds.length > 0) {
+        const { data: events } = await supabase
+          .from('events')
+          .select('id, allow_transfers')
+          .in('id', eventIds)
+        setTransferLockedEvents(new Set((events || []).filter(e => e.allow_transfers === false).map(e => e.id)))
+      }
+
+      if (user.email) {
+        const pending = await loadPendingTransfers(user.id, user.email)
+        setIncomingTransfers(pending.incoming)
+        setOutgoingTransfers(pending.outgoing)
+      }
     } catch (e) {
       console.error('Error fetching tickets:', e)
     } finally {
@@ -254,17 +359,62 @@ export default function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
     }
   }
 
+  const handleStartTransfer = async (ticket: TicketRecord) => {
+    const toEmail = window.prompt(`Transfer your ${ticket.event_title} ticket to (recipient email):`)
+    if (!toEmail?.trim()) return
+    if (!window.confirm(`Transfer ${ticket.ticket_code} to ${toEmail.trim()}? Your ticket stops working once they accept.`)) return
+
+    setTransferBusy(ticket.id)
+    try {
+      await requestTicketTransfer(ticket.id, toEmail.trim())
+      addToast({ type: 'success', title: 'Transfer Requested', message: `${toEmail.trim()} can accept it from their profile.` })
+      fetchTickets()
+    } catch (e) {
+      addToast({ type: 'error', title: 'Transfer Failed', message: (e as Error).message })
+    } finally {
+      setTransferBusy(null)
+    }
+  }
+
+  const handleTransferResponse = async (transfer: TicketTransfer, action: 'accept' | 'decline' | 'cancel') => {
+    setTransferBusy(transfer.id)
+    try {
+      if (action === 'accept') {
+        await acceptTicketTransfer(transfer.id)
+        addToast({ type: 'success', title: 'Ticket Received', message: `Your ticket for ${transfer.event_title} is ready.` })
+      } else if (action === 'decline') {
+        await declineTicketTransfer(transfer.id)
+        addToast({ type: 'info', title: 'Transfer Declined' })
+      } else {
+        await cancelTicketTransfer(transfer.id)
+        addToast({ type: 'info', title: 'Transfer Cancelled' })
+      }
+      fetchTickets()
+    } catch (e) {
+      addToast({ type: 'error', title: 'Transfer Failed', message: (e as Error).message })
+    } finally {
+      setTransferBusy(null)
+    }
+  }
+
   const fetchProofs = async () => {
     if (!user) return
     setProofsLoading(true)
     try {
       const { data, error } = await supabase
         .from('payment_proofs')
-        .select('id, event_title, status, reason, created_at, amount')
+        .select('id, event_id, bundle_id, event_title, status, reason, created_at, amount')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false })
       if (error) throw error
       setProofs(data || [])
+
+      const bundleIds = [...new Set((data || []).map(p => p.bundle_id).filter(Boolean))] as string[]
+      const loaded = await Promise.all(bundleIds.map(async id => {
+        const bundle = await loadBundle(id)
+        return [id, { bundle, events: await loadBundleEvents(bundle) }] as const
+      }))
+      setPasses(Object.fromEntries(loaded))
     } catch (e) {
       console.error('Error fetching payment proofs:', e)
     } finally {
@@ -272,6 +422,41 @@ export default function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
     }
   }
 
+  const fetchRefunds = async () => {
+    if (!user) return
+    try {
+      setRefunds(await loadMyRefunds(user.id))
+    } catch (e) {
+      console.error('Error fetching refunds:', e)
+    }
+  }
+
+  // Latest refund request for a ticket or payment
+  const refundFor = (field: 'ticket_id' | 'payment_proof_id', id: string) => refunds.find(r => r[field] === id)
+
+  const renderRefund = (refund: RefundRequest | undefined, onRequest: () => void) => {
+    if (refund && OPEN_REFUND_STATUSES.includes(refund.status)) {
+      return (
+        <div className="text-xs text-blue-700 dark:text-blue-300">
+          {refund.status === 'requested' ? 'Refund requested' : 'Refund approved, payout pending'}
+        </div>
+      )
+    }
+    if (refund?.status === 'paid') {
+      return <div className="text-xs text-green-700 dark:text-green-300">Refunded • UTR {refund.payout_reference}</div>
+    }
+    return (
+      <div className="text-xs">
+        {refund?.status === 'denied' && (
+          <span className="text-red-600 dark:text-red-400">Refund denied{refund.admin_notes ? `: ${refund.admin_notes}` : ''} • </span>
+        )}
+        <button onClick={onRequest} className="text-gray-600 dark:text-gray-400 hover:underline">
+          Request refund
+        </button>
+      </div>
+    )
+  }
+
   const generateQRCode = (eventId: string, eventTitle: string) => {
     const qrData = `${window.location.origin}/event/${eventId}?user=${user?.id}`
     const qrUrl = `https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(qrData)}`
@@ -671,10 +856,27 @@ export default function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
 
               {/* Events Section */}
               <div className="mb-6">
-                <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4 flex items-center space-x-2">
-                  <Calendar className="w-5 h-5" />
-                  <span>My Registered Events</span>
-                </h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-xl font-bold text-gray-900 dark:text-white flex items-center space-x-2">
+                    <Calendar className="w-5 h-5" />
+                    <span>My Registered Events</span>
+                  </h3>
+                  {registrations.some(r => parseSessions(r.event.sessions).length > 0) && (
+                    <button
+                      onClick={() => downloadIcs('acn-techfest-events', sortEventsBySchedule(registrations.map(r => r.event)))}
+                      className="flex items-center space-x-1 px-3 py-1 bg-primary/10 text-primary rounded-lg hover:bg-primary/20 transition-colors text-sm"
+                    >
+                      <Download className="w-4 h-4" />
+                      <span>All to Calendar (.ics)</span>
+                    </button>
+                  )}
+                </div>
+
+                {findClashes(registrations.map(r => r.event)).map((clash, index) => (
+                  <div key={index} className="mb-3 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-800 dark:text-yellow-300">
+                    {clash.a.eventTitle} and {clash.b.eventTitle} overlap in time.
+                  </div>
+                ))}
 
                 {loading ? (
                   <div className="space-y-4">
@@ -724,8 +926,8 @@ export default function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
                               {registration.event.title}
                             </h4>
                             <div className="flex items-center space-x-4 text-xs text-gray-500 dark:text-gray-400">
-                              {registration.event.schedule && (
-                                <span>{registration.event.schedule}</span>
+                              {formatEventSchedule(registration.event) && (
+                                <span>{formatEventSchedule(registration.event)}</span>
                               )}
                               {registration.event.venue && (
                                 <span>{registration.event.venue}</span>
@@ -751,6 +953,15 @@ export default function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
                               <Download className="w-4 h-4" />
                               <span>Save</span>
                             </button>
+                            {parseSessions(registration.event.sessions).length > 0 && (
+                              <button
+                                onClick={() => downloadIcs(registration.event.title, [registration.event])}
+                                className="flex items-center space-x-1 px-3 py-1 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors text-sm"
+                              >
+                                <Calendar className="w-4 h-4" />
+                                <span>.ics</span>
+                              </button>
+                            )}
                           </div>
                         </div>
 
@@ -783,6 +994,78 @@ export default function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
                 )}
               </div>
 
+              {waitlistEntries.length > 0 && (
+                <div className="border-t border-gray-200 dark:border-gray-700 pt-6 mb-6">
+                  <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4 flex items-center space-x-2">
+                    <Clock className="w-5 h-5" />
+                    <span>Waitlist</span>
+                  </h3>
+                  <div className="space-y-3">
+                    {waitlistEntries.map((entry) => {
+                      const offered = isOfferOpen(entry)
+                      return (
+                        <div
+                          key={entry.id}
+                          className={`card p-4 flex items-center justify-between ${offered ? 'border-2 border-green-300 dark:border-green-700' : ''}`}
+                        >
+                          <div>
+                            <div className="font-semibold text-gray-900 dark:text-white">{entry.event?.title}</div>
+                            <div className="text-sm text-gray-600 dark:text-gray-400">
+                              {offered
+                                ? `A seat is held for you until ${new Date(entry.offer_expires_at!).toLocaleString('en-IN')}`
+                                : entry.status === 'offered'
+                                ? 'Your seat offer has expired'
+                                : `#${entry.place ?? entry.position} in line`}
+                            </div>
+                          </div>
+                          <div className="flex gap-2">
+                            {offered && (
+                              <button
+                                onClick={() => handleWaitlistAction(entry, 'claim')}
+                                disabled={waitlistBusy === entry.id}
+                                className="btn-primary"
+                              >
+                                {waitlistBusy === entry.id ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Claim & Pay'}
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleWaitlistAction(entry, 'leave')}
+                              disabled={waitlistBusy === entry.id}
+                              className="btn-secondary"
+                            >
+                              Leave
+                            </button>
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {(teams.length > 0 || teamInvites.length > 0) && (
+                <div className="border-t border-gray-200 dark:border-gray-700 pt-6 mb-6">
+                  <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4 flex items-center space-x-2">
+                    <Users className="w-5 h-5" />
+                    <span>My Teams</span>
+                  </h3>
+                  <div className="space-y-3">
+                    {[...teamInvites, ...teams].map((team) => (
+                      <TeamPanel
+                        key={team.id}
+                        team={team}
+                        rules={team.rules ?? { minSize: 1, maxSize: team.members.length }}
+                        identity={teamIdentity()!}
+                        event={{ id: team.event_id, title: team.event_title }}
+                        isInvite={teamInvites.includes(team)}
+                        onChange={() => fetchTeams()}
+                        onError={(message) => addToast({ type: 'error', title: 'Team Update Failed', message })}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
                 <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4 flex items-center space-x-2">
                   <CreditCard className="w-5 h-5" />
@@ -793,34 +1076,105 @@ export default function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
                     <Loader2 className="w-8 h-8 animate-spin mx-auto mb-3" />
                     <p className="text-gray-600 dark:text-gray-400">Loading tickets...</p>
                   </div>
-                ) : tickets.length === 0 ? (
+                ) : tickets.length === 0 && incomingTransfers.length === 0 ? (
                   <div className="text-center py-8">
                     <QrCode className="w-16 h-16 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
                     <p className="text-gray-600 dark:text-gray-400">No tickets yet</p>
                   </div>
                 ) : (
                   <div className="space-y-3">
+                    {incomingTransfers.map((transfer) => (
+                      <div key={transfer.id} className="card p-4 flex items-center justify-between border-2 border-blue-300 dark:border-blue-700">
+                        <div>
+                          <div className="font-semibold text-gray-900 dark:text-white">{transfer.event_title}</div>
+                          <div className="text-sm text-gray-600 dark:text-gray-400">{transfer.from_name} ({transfer.from_email}) wants to transfer their ticket to you</div>
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleTransferResponse(transfer, 'accept')}
+                            disabled={transferBusy === transfer.id}
+                            className="btn-primary"
+                          >
+                            {transferBusy === transfer.id ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Accept'}
+                          </button>
+                          <button
+                            onClick={() => handleTransferResponse(transfer, 'decline')}
+                            disabled={transferBusy === transfer.id}
+                            className="btn-secondary"
+                          >
+                            Decline
+                          </button>
+                        </div>
+                      </div>
+                    ))}
                     {tickets.map((t: any) => (
                       <div key={t.id} className="card p-4 flex items-center justify-between">
                         <div>
-                          <div className="font-semibold text-gray-900 dark:text-white">{t.event_title}</div>
+                          <div className="font-semibold text-gray-900 dark:text-white">
+                            {t.event_title}
+                            {t.bundle_id && passes[t.bundle_id] && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300">
+                                {passes[t.bundle_id].bundle.name}
+                              </span>
+                            )}
+                          </div>
                           <div className="text-sm text-gray-600 dark:text-gray-400">{t.holder_name} {t.roll_no ? `• ${t.roll_no}` : ''}</div>
                           <div className="text-xs text-gray-500 dark:text-gray-500">{t.ticket_code} • {new Date(t.created_at).toLocaleString()}</div>
                         </div>
-                        <button
-                          onClick={async () => {
-                            try {
-                              const { data, error } = await supabase.storage.from('tickets').createSignedUrl(t.pdf_path, 120)
-                              if (error) throw error
-                              window.open(data.signedUrl, '_blank')
-                            } catch (e) {
-                              console.error('Open ticket failed', e)
-                            }
-                          }}
-                          className="btn-secondary"
-                        >
-                          Download Ticket
-                        </button>
+                        {isTicketValid(t) ? (
+                          <div className="flex flex-col items-end gap-2">
+                            <button
+                              onClick={async () => {
+                                try {
+                                  const { data, error } = await supabase.storage.from('tickets').createSignedUrl(t.pdf_path, 120)
+                                  if (error) throw error
+                                  window.open(data.signedUrl, '_blank')
+                                } catch (e) {
+                                  console.error('Open ticket failed', e)
+                                }
+                              }}
+                              className="btn-secondary"
+                            >
+                              Download Ticket
+                            </button>
+                            {(() => {
+                              const pending = outgoingTransfers.find(tr => tr.ticket_id === t.id)
+                              if (pending) {
+                                return (
+                                  <div className="text-xs text-gray-600 dark:text-gray-400">
+                                    Transfer pending to {pending.to_email} •{' '}
+                                    <button
+                                      onClick={() => handleTransferResponse(pending, 'cancel')}
+                                      disabled={transferBusy === pending.id}
+                                      className="text-red-600 dark:text-red-400 hover:underline"
+                                    >
+                                      Cancel
+                                    </button>
+                                  </div>
+                                )
+                              }
+                              if (getTicketStatus(t) !== 'active' || transferLockedEvents.has(t.event_id)) return null
+                              return (
+                                <button
+                                  onClick={() => handleStartTransfer(t)}
+                                  disabled={transferBusy === t.id}
+                                  className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                                >
+                                  Transfer to a friend
+                                </button>
+                              )
+                            })()}
+                            {getTicketStatus(t) === 'active' && renderRefund(refundFor('ticket_id', t.id), () => setRefundTarget({ ticket: t }))}
+                          </div>
+                        ) : (
+                          <span className={`px-3 py-1 rounded-full text-xs font-medium ${
+                            getTicketStatus(t) === 'reissued'
+                              ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'
+                              : 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+                          }`}>
+                            {getTicketStatus(t) === 'reissued' ? 'Replaced by a new ticket' : t.replaced_by ? 'Transferred' : 'Revoked'}
+                          </span>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -848,7 +1202,10 @@ export default function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
                       <div key={p.id} className="card p-4">
                         <div className="flex items-center justify-between">
                           <div>
-                            <div className="font-semibold text-gray-900 dark:text-white">{p.event_title}</div>
+                            <div className="font-semibold text-gray-900 dark:text-white flex items-center gap-1">
+                              {p.bundle_id && <Layers className="w-4 h-4" />}
+                              {p.event_title}
+                            </div>
                             <div className="text-xs text-gray-500 dark:text-gray-500">{new Date(p.created_at).toLocaleString()}</div>
                           </div>
                           <div>
@@ -863,6 +1220,25 @@ export default function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
                         {p.status === 'pending' && (
                           <div className="text-sm text-yellow-700 dark:text-yellow-200 mt-2">⏳ Payment under review.</div>
                         )}
+                        {p.bundle_id && passes[p.bundle_id] && (
+                          <ul className="mt-2 space-y-1 text-sm text-gray-600 dark:text-gray-400">
+                            {passes[p.bundle_id].events.map(ev => {
+                              const ticket = tickets.find(t => t.bundle_id === p.bundle_id && t.event_id === ev.id && isTicketValid(t))
+                              return (
+                                <li key={ev.id} className="flex items-center gap-2">
+                                  {ticket ? <CheckCircle className="w-4 h-4 text-green-500" /> : <Clock className="w-4 h-4 text-gray-400" />}
+                                  {ev.title}
+                                  {ticket && <span className="text-xs text-gray-500">{ticket.ticket_code}</span>}
+                                </li>
+                              )
+                            })}
+                          </ul>
+                        )}
+                        {p.status === 'approved' && (
+                          <div className="mt-2">
+                            {renderRefund(refundFor('payment_proof_id', p.id), () => setRefundTarget({ proof: p }))}
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -872,6 +1248,21 @@ export default function ProfilePage({ isOpen, onClose }: ProfilePageProps) {
           </div>
         </motion.div>
         
+        {refundTarget && user && (
+          <RefundRequestForm
+            userId={user.id}
+            userEmail={user.email ?? null}
+            proof={refundTarget.proof}
+            ticket={refundTarget.ticket}
+            onSubmitted={() => {
+              setRefundTarget(null)
+              addToast({ type: 'success', title: 'Refund Requested', message: 'We will update you here once it is reviewed.' })
+              fetchRefunds()
+            }}
+            onCancel={() => setRefundTarget(null)}
+          />
+        )}
+        
         {/* Toast Notifications */}
         <ToastContainer toasts={toasts} onRemove={removeToast} />
       </div>
@@ -0,0 +1,101 @@
+import { useState } from 'react'
+import { Loader2, X } from 'lucide-react'
+import {
+  requestRefund,
+  REFUND_REASON_LABELS,
+  type RefundReason,
+  type RefundRequest,
+  type RefundRequestInput
+} from '../../lib/refunds'
+
+interface RefundRequestFormProps {
+  userId: string
+  userEmail: string | null
+  // What the refund is for; exactly one is set
+  proof?: RefundRequestInput['proof']
+  ticket?: RefundRequestInput['ticket']
+  onSubmitted: (refund: RefundRequest) => void
+  onCancel: () => void
+}
+
+const inputClass = 'w-full px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white'
+
+export default function RefundRequestForm({ userId, userEmail, proof, ticket, onSubmitted, onCancel }: RefundRequestFormProps) {
+  const [reason, setReason] = useState<RefundReason>('duplicate_payment')
+  const [details, setDetails] = useState('')
+  const [upiId, setUpiId] = useState('')
+  const [upiName, setUpiName] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  const eventTitle = ticket?.event_title ?? proof?.event_title
+  const amount = ticket?.amount ?? proof?.amount
+
+  const handleSubmit = async () => {
+    setSubmitting(true)
+    setError('')
+    try {
+      onSubmitted(await requestRefund({ userId, userEmail, proof, ticket, reason, details, upiId, upiName }))
+    } catch (e) {
+      setError((e as Error).message)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-md p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white">Request a refund</h3>
+          <button onClick={onCancel} className="p-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {eventTitle}{amount != null && ` • ₹${amount}`}
+          {ticket && '. Your ticket stops working once the refund is paid.'}
+        </p>
+
+        <div className="space-y-3">
+          <label className="block text-sm">
+            <span className="text-gray-700 dark:text-gray-300">Reason</span>
+            <select value={reason} onChange={(e) => setReason(e.target.value as RefundReason)} className={inputClass}>
+              {(Object.keys(REFUND_REASON_LABELS) as RefundReason[]).map(r => (
+                <option key={r} value={r}>{REFUND_REASON_LABELS[r]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm">
+            <span className="text-gray-700 dark:text-gray-300">Details {reason !== 'other' && '(optional)'}</span>
+            <textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              rows={3}
+              maxLength={1000}
+              placeholder={reason === 'duplicate_payment' ? 'UTR of the extra payment, if you have it' : ''}
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-sm">
+            <span className="text-gray-700 dark:text-gray-300">UPI ID to refund to</span>
+            <input value={upiId} onChange={(e) => setUpiId(e.target.value)} placeholder="name@bank" className={inputClass} />
+          </label>
+          <label className="block text-sm">
+            <span className="text-gray-700 dark:text-gray-300">Name on the UPI account</span>
+            <input value={upiName} onChange={(e) => setUpiName(e.target.value)} className={inputClass} />
+          </label>
+        </div>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <div className="flex gap-2 justify-end">
+          <button onClick={onCancel} className="btn-secondary">Cancel</button>
+          <button onClick={handleSubmit} disabled={submitting} className="btn-primary">
+            {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Request Refund'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
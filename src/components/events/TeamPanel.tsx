@@ -0,0 +1,190 @@
+import { useState } from 'react'
+import { Users, UserPlus, Crown, Loader2, X, Lock } from 'lucide-react'
+import {
+  acceptedMembers,
+  createTeam,
+  inviteTeamMember,
+  removeTeamMember,
+  respondToTeamInvite,
+  type Team,
+  type TeamIdentity,
+  type TeamMember,
+  type TeamRules
+} from '../../lib/teams'
+
+interface TeamPanelProps {
+  team: Team | null
+  rules: TeamRules
+  identity: TeamIdentity
+  event: { id: string; title: string }
+  // Shows accept/decline instead of the management controls
+  isInvite?: boolean
+  // 'glass' for the dark payment overlay, 'card' for the profile page
+  tone?: 'glass' | 'card'
+  onChange: () => void
+  onError: (message: string) => void
+}
+
+const tones = {
+  glass: {
+    box: 'bg-white/10 rounded-xl p-4 text-white',
+    muted: 'text-white/70',
+    input: 'bg-white/10 rounded-lg px-3 py-2 outline-none placeholder-white/60 text-white',
+    badge: 'bg-white/20 text-white'
+  },
+  card: {
+    box: 'card p-4',
+    muted: 'text-gray-600 dark:text-gray-400',
+    input: 'px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white',
+    badge: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200'
+  }
+}
+
+const statusBadge: Record<TeamMember['status'], string> = {
+  accepted: 'bg-green-500/20 text-green-600 dark:text-green-300',
+  invited: 'bg-yellow-500/20 text-yellow-700 dark:text-yellow-300',
+  declined: 'bg-red-500/20 text-red-600 dark:text-red-300'
+}
+
+export default function TeamPanel({ team, rules, identity, event, isInvite = false, tone = 'card', onChange, onError }: TeamPanelProps) {
+  const [teamName, setTeamName] = useState('')
+  const [invitee, setInvitee] = useState('')
+  const [busy, setBusy] = useState(false)
+  const styles = tones[tone]
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true)
+    try {
+      await action()
+      onChange()
+    } catch (err) {
+      onError((err as Error).message || 'Team update failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (!team) {
+    return (
+      <div className={styles.box}>
+        <div className="flex items-center gap-2 mb-2 font-semibold">
+          <Users className="w-4 h-4" />
+          Create your team
+        </div>
+        <p className={`text-sm mb-3 ${styles.muted}`}>
+          Teams need {rules.minSize === rules.maxSize ? rules.minSize : `${rules.minSize}–${rules.maxSize}`} members.
+          You will be the captain and pay for the whole team.
+        </p>
+        <div className="flex gap-2">
+          <input
+            className={`flex-1 ${styles.input}`}
+            placeholder="Team name"
+            value={teamName}
+            onChange={(e) => setTeamName(e.target.value)}
+          />
+          <button
+            type="button"
+            disabled={busy || !teamName.trim()}
+            onClick={() => run(() => createTeam(event, teamName, identity))}
+            className="px-4 py-2 rounded-lg font-semibold text-white disabled:opacity-50"
+            style={{ backgroundColor: '#b22049' }}
+          >
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Create'}
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const isCaptain = team.captain_id === identity.userId
+  const locked = team.status === 'locked'
+  const accepted = acceptedMembers(team).length
+  const visibleMembers = team.members.filter(m => m.status !== 'declined')
+
+  return (
+    <div className={styles.box}>
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <div className="flex items-center gap-2 font-semibold">
+          <Users className="w-4 h-4" />
+          {team.name}
+          {locked && <Lock className="w-3 h-3" />}
+        </div>
+        <span className={`px-2 py-0.5 rounded-full text-xs ${styles.badge}`}>
+          {accepted}/{rules.maxSize} members
+        </span>
+      </div>
+      <p className={`text-sm mb-3 ${styles.muted}`}>
+        {team.event_title}
+        {locked && ' • Locked while payment is under review'}
+      </p>
+
+      <ul className="space-y-2 mb-3">
+        {visibleMembers.map((member) => (
+          <li key={member.id} className="flex items-center justify-between gap-2 text-sm">
+            <span className="flex items-center gap-2 min-w-0">
+              {member.role === 'captain' && <Crown className="w-3 h-3 text-yellow-500 flex-shrink-0" />}
+              <span className="truncate">{member.name || member.email || member.roll_no}</span>
+              {member.roll_no && member.name && <span className={styles.muted}>{member.roll_no}</span>}
+            </span>
+            <span className="flex items-center gap-2">
+              <span className={`px-2 py-0.5 rounded-full text-xs ${statusBadge[member.status]}`}>{member.status}</span>
+              {!isInvite && !locked && member.role !== 'captain' && (isCaptain || member.user_id === identity.userId) && (
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => run(() => removeTeamMember(team, member))}
+                  title={member.user_id === identity.userId ? 'Leave team' : 'Remove'}
+                  className="text-red-500 hover:text-red-600"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {isInvite ? (
+        <div className="flex gap-2">
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => run(() => respondToTeamInvite(team, identity, true))}
+            className="btn-primary"
+          >
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Join Team'}
+          </button>
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => run(() => respondToTeamInvite(team, identity, false))}
+            className="btn-secondary"
+          >
+            Decline
+          </button>
+        </div>
+      ) : isCaptain && !locked && visibleMembers.length < rules.maxSize && (
+        <div className="flex gap-2">
+          <input
+            className={`flex-1 ${styles.input}`}
+            placeholder="Invite by email or roll number"
+            value={invitee}
+            onChange={(e) => setInvitee(e.target.value)}
+          />
+          <button
+            type="button"
+            disabled={busy || !invitee.trim()}
+            onClick={() => run(async () => {
+              await inviteTeamMember(team, rules, invitee)
+              setInvitee('')
+            })}
+            className="px-3 py-2 rounded-lg text-white disabled:opacity-50"
+            style={{ backgroundColor: '#b22049' }}
+          >
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
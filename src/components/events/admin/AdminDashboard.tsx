@@ -1,10 +1,82 @@
-import { useEffect, useState } from 'react'
-import { X, CheckCircle, XCircle, Loader2, Shield, Download, QrCode, FileText, Users, Menu, Plus, Edit, Trash2, Eye, Calendar, MapPin, Phone, Mail, User, IdCard, AlertTriangle, Lock, RotateCcw } from 'lucide-react'
+import { useEffect, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { X, CheckCircle, XCircle, Loader2, Shield, Download, QrCode, FileText, Users, Menu, Plus, Edit, Trash2, Eye, Calendar, MapPin, Phone, Mail, User, IdCard, AlertTriangle, Lock, RotateCcw, ScanLine, Clock, ChevronUp, ChevronDown, Banknote, BarChart3 } from 'lucide-react'
 import QRCode from 'qrcode'
 import { supabase } from '../../../lib/supabase'
 import { useAuth } from '../../../hooks/useAuth'
 import { useToast, ToastContainer } from '../Toast'
 import { useQRAdmin } from '../../../hooks/useQRCycling'
+import { DEFAULT_TICKET_TEMPLATE, type StoredTicketTemplate } from '../../../lib/ticketPdf'
+import { setTeamLocked } from '../../../lib/teams'
+import { buildTicketArchive, type ArchiveProgress, type ArchiveFileError } from '../../../lib/ticketArchive'
+import { getOcrFlags, runProofOcr, type OcrResult } from '../../../lib/paymentOcr'
+import { limitedEventIds, loadEventWaitlist, releaseSeat, reorderWaitlist, type WaitlistEntry } from '../../../lib/waitlist'
+import {
+  conflictingUtr,
+  findDuplicates,
+  loadDuplicateFingerprints,
+  storeProofImageHash,
+  type ProofFingerprint
+} from '../../../lib/proofDuplicates'
+import DuplicateComparison from './DuplicateComparison'
+import StatementReconciliation from './StatementReconciliation'
+import CouponManager from './CouponManager'
+import BundleManager from './BundleManager'
+import QRPoolEditor from './QRPoolEditor'
+import RejectionTemplateManager from './RejectionTemplateManager'
+import PaymentReviewQueue from './PaymentReviewQueue'
+import ParticipantExport, { type ParticipantExportSummary } from './ParticipantExport'
+import AnalyticsPanel from './AnalyticsPanel'
+import { loadRejectionTemplates, type RejectionTemplate } from '../../../lib/rejectionTemplates'
+import { runJobs, type JobFailure, type JobProgress } from '../../../lib/jobRunner'
+import { DATE_WINDOW_DAYS, type ConfirmedMatch, type StatementRow } from '../../../lib/reconciliation'
+import {
+  approveRefund,
+  denyRefund,
+  issueRefund,
+  loadRefunds,
+  REFUND_REASON_LABELS,
+  type RefundRequest,
+  type RefundStatus
+} from '../../../lib/refunds'
+import {
+  parseSessions,
+  validateSessions,
+  formatEventSchedule,
+  istInputToIso,
+  isoToIstInput,
+  type EventSession
+} from '../../../lib/schedule'
+import { loadBundle } from '../../../lib/bundles'
+import { isQRBusy } from '../../../lib/qrPool'
+import {
+  DEFAULT_PAYMENT_SORT,
+  EMPTY_PAYMENT_FILTERS,
+  PAYMENT_PAGE_SIZE,
+  countPaymentProofs,
+  loadPaymentFilterOptions,
+  loadPendingProofs,
+  loadReconciliationCandidates,
+  searchPaymentProofs,
+  type PaymentListFilters,
+  type PaymentListSort,
+  type PaymentSortKey,
+  type PaymentStatusFilter,
+  PAYMENT_SORT_LABELS
+} from '../../../lib/paymentSearch'
+import { parsePriceTiers, validatePriceTiers, type PriceQuote, type PriceTier } from '../../../lib/pricing'
+import {
+  issueTicketsForPayment,
+  reissueTicket,
+  transitionTicket,
+  loadTicketHistory,
+  getTicketStatus,
+  getTransferChain,
+  canTransition,
+  type TicketRecord,
+  type TicketStatus,
+  type TicketStatusChange
+} from '../../../lib/tickets'
 
 interface AdminDashboardProps {
   isOpen: boolean
@@ -14,7 +86,8 @@ interface AdminDashboardProps {
 interface PaymentProof {
   id: string
   user_id: string
-  event_id: string
+  // Null for a combo pass payment, which sets bundle_id instead
+  event_id: string | null
   event_title: string
   amount: number
   screenshot_url: string
@@ -32,10 +105,22 @@ interface PaymentProof {
   verified_by: string | null
   verified_at: string | null
   updated_at: string | null
+  team_id: string | null
+  bundle_id: string | null
+  payment_method?: 'upi_screenshot' | 'razorpay' | null
+  ocr_result?: OcrResult | null
+  image_hash: string | null
+  // Reference the payer was asked to put in the UPI note
+  payment_reference: string | null
+  // Tier and coupon the amount was priced with
+  pricing?: PriceQuote | null
   // Fields from profiles table (joined)
   user_email?: string
   name?: string
   roll_no?: string
+  // What the screenshot should show, from the resolved price and the allocated QR
+  expected_amount?: number | null
+  expected_payee?: string | null
 }
 
 interface Event {
@@ -46,28 +131,36 @@ interface Event {
   image_url: string | null
   rules: string | null
   schedule: string | null
+  sessions: EventSession[] | null
   venue: string | null
   capacity: number | null
   price: number | null
+  price_tiers: PriceTier[] | null
   registration_deadline: string | null
   contact_email: string | null
   contact_phone: string | null
   prerequisites: string | null
+  ticket_template: StoredTicketTemplate | null
+  allow_transfers: boolean | null
+  team_min_size: number | null
+  team_max_size: number | null
   created_at: string
 }
 
-interface Ticket {
-  id: string
-  ticket_code: string
-  user_id: string
-  user_email: string | null
-  event_id: string
-  event_title: string
-  holder_name: string
-  roll_no: string | null
-  qr_data: string | null
-  pdf_path: string
-  created_at: string
+// Session row in the event form; start and end are datetime-local values in IST
+interface SessionFormRow {
+  title: string
+  start: string
+  end: string
+  venue: string
+}
+
+// Price tier row in the event form; dates are datetime-local values in IST
+interface PriceTierFormRow {
+  label: string
+  price: string
+  starts_at: string
+  ends_at: string
 }
 
 interface UserProfile {
@@ -82,6 +175,20 @@ interface UserProfile {
   tickets_count?: number
 }
 
+// A bulk approve or reject; failures can be retried with the same reason
+interface BulkRun {
+  action: 'approve' | 'reject'
+  reason: string | null
+  // Final rejections release waitlisted seats
+  final: boolean
+  progress: JobProgress
+  failures: JobFailure<PaymentProof>[]
+  running: boolean
+}
+
+// Proofs approved at once; each may render and upload several ticket PDFs
+const BULK_CONCURRENCY = 3
+
 interface AdminRole {
   user_id: string
   role: string
@@ -91,22 +198,9 @@ interface AdminRole {
   created_at: string
 }
 
-async function loadJsPDF(): Promise<any> {
-  const existing = (window as any).jspdf
-  if (existing?.jsPDF) return existing.jsPDF
-  await new Promise<void>((resolve, reject) => {
-    const s = document.createElement('script')
-    s.src = 'https://cdn.jsdelivr.net/npm/jspdf@2.5.1/dist/jspdf.umd.min.js'
-    s.async = true
-    s.onload = () => resolve()
-    s.onerror = () => reject(new Error('Failed to load jsPDF'))
-    document.body.appendChild(s)
-  })
-  return (window as any).jspdf.jsPDF
-}
-
 export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminDashboardProps) {
   const { user } = useAuth()
+  const navigate = useNavigate()
   const { toasts, addToast, removeToast } = useToast()
 
   // Security states
@@ -118,14 +212,40 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
   const [isBlocked, setIsBlocked] = useState(false)
   
   // UI states
-  const [activeTab, setActiveTab] = useState<'payments' | 'events' | 'tickets' | 'users' | 'qr-admin'>('payments')
+  const [activeTab, setActiveTab] = useState<'payments' | 'refunds' | 'events' | 'tickets' | 'users' | 'qr-admin' | 'analytics'>('payments')
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
   const [loading, setLoading] = useState(false)
   
   // Data states
   const [payments, setPayments] = useState<PaymentProof[]>([])
+  const [ocrRunning, setOcrRunning] = useState<string | null>(null)
+  const screenshotsQueued = useRef(new Set<string>())
+  // The proofs on screen and their lookalikes anywhere, for duplicate checks
+  const [fingerprints, setFingerprints] = useState<ProofFingerprint[]>([])
+  const [duplicateReview, setDuplicateReview] = useState<PaymentProof | null>(null)
+  // Proofs a reviewer compared and judged distinct from their lookalikes
+  const [duplicatesCleared, setDuplicatesCleared] = useState<Set<string>>(new Set())
+  const [showReconciliation, setShowReconciliation] = useState(false)
+  // Pending proofs matching the filters, one at a time; null when closed
+  const [reviewQueue, setReviewQueue] = useState<PaymentProof[] | null>(null)
+  // Whether the queue's last page was full, so more may be waiting
+  const [reviewQueueMore, setReviewQueueMore] = useState(false)
+  const reviewQueueLoading = useRef(false)
+  const [rejectionTemplates, setRejectionTemplates] = useState<RejectionTemplate[]>([])
+  const [showRejectionTemplates, setShowRejectionTemplates] = useState(false)
+  const [selectedPayments, setSelectedPayments] = useState<Set<string>>(new Set())
+  const [bulkReason, setBulkReason] = useState('')
+  const [bulkFinal, setBulkFinal] = useState(false)
+  const [bulkRun, setBulkRun] = useState<BulkRun | null>(null)
+  const [refunds, setRefunds] = useState<RefundRequest[]>([])
+  const [refundFilter, setRefundFilter] = useState<RefundStatus | 'all'>('requested')
   const [events, setEvents] = useState<Event[]>([])
-  const [tickets, setTickets] = useState<Ticket[]>([])
+  const [waitlist, setWaitlist] = useState<{ eventId: string; entries: WaitlistEntry[] } | null>(null)
+  const [tickets, setTickets] = useState<TicketRecord[]>([])
+  const [ticketHistory, setTicketHistory] = useState<{ ticketId: string; entries: TicketStatusChange[] } | null>(null)
+  const [archiveEventId, setArchiveEventId] = useState('')
+  const [archiveProgress, setArchiveProgress] = useState<ArchiveProgress | null>(null)
+  const [archiveErrors, setArchiveErrors] = useState<ArchiveFileError[]>([])
   const [users, setUsers] = useState<UserProfile[]>([])
   
   // QR Admin states
@@ -139,7 +259,14 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
   } = useQRAdmin()
   
   // Filters
-  const [paymentFilter, setPaymentFilter] = useState<'all' | 'pending' | 'approved' | 'rejected'>('all')
+  const [paymentFilters, setPaymentFilters] = useState<PaymentListFilters>(EMPTY_PAYMENT_FILTERS)
+  // The filter form, applied on submit so typing does not query on every key
+  const [paymentDraft, setPaymentDraft] = useState<PaymentListFilters>(EMPTY_PAYMENT_FILTERS)
+  const [paymentSort, setPaymentSort] = useState<PaymentListSort>(DEFAULT_PAYMENT_SORT)
+  const [paymentPage, setPaymentPage] = useState(0)
+  const [paymentTotal, setPaymentTotal] = useState(0)
+  const [paymentCounts, setPaymentCounts] = useState<Record<PaymentStatusFilter, number>>({ all: 0, pending: 0, approved: 0, rejected: 0 })
+  const [paymentFilterOptions, setPaymentFilterOptions] = useState<{ events: { id: string; title: string }[]; qrNames: string[] }>({ events: [], qrNames: [] })
   
   // Event form
   const [showEventForm, setShowEventForm] = useState(false)
@@ -153,7 +280,15 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
     price: '',
     capacity: '',
     contact_email: '',
-    contact_phone: ''
+    contact_phone: '',
+    ticket_primary_color: DEFAULT_TICKET_TEMPLATE.primaryColor,
+    ticket_accent_color: DEFAULT_TICKET_TEMPLATE.accentColor,
+    ticket_terms: '',
+    allow_transfers: true,
+    sessions: [] as SessionFormRow[],
+    price_tiers: [] as PriceTierFormRow[],
+    team_min_size: '',
+    team_max_size: ''
   })
 
   // 🔒 ULTRA-SECURE ADMIN CHECK
@@ -299,11 +434,12 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
     if (!isOpen || !isAdmin || securityCheck !== 'passed') return
     
     if (activeTab === 'payments' && hasPermission('can_approve_payments')) loadPayments()
+    if (activeTab === 'refunds' && hasPermission('can_approve_payments')) loadRefundQueue()
     if (activeTab === 'events' && hasPermission('can_manage_events')) loadEvents()
     if (activeTab === 'tickets' && hasPermission('can_view_tickets')) loadTickets()
     if (activeTab === 'users' && hasPermission('can_view_users')) loadUsers()
     if (activeTab === 'qr-admin' && hasPermission('can_manage_qr_codes')) loadQRStats()
-  }, [isOpen, isAdmin, activeTab, paymentFilter, securityCheck, adminRole])
+  }, [isOpen, isAdmin, activeTab, paymentFilters, paymentSort, paymentPage, refundFilter, securityCheck, adminRole])
 
   // Data loaders (same as before but with security logging)
   const loadPayments = async () => {
@@ -317,65 +453,28 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
     
     setLoading(true)
     try {
-      // First get payment proofs
-      let query = supabase
-        .from('payment_proofs')
-        .select('*')
-        .order('created_at', { ascending: false })
-        
-      if (paymentFilter !== 'all') {
-        query = query.eq('status', paymentFilter)
-      }
-      
-      const { data: paymentsData, error: paymentsError } = await query
-      if (paymentsError) throw paymentsError
-      
-      if (!paymentsData?.length) {
-        setPayments([])
-        return
-      }
-      
-      // Get user profiles for all payment user_ids
-      const userIds = paymentsData.map(p => p.user_id)
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('profiles')
-        .select('id, name, rollno')
-        .in('id', userIds)
-      
-      if (profilesError) {
-        // Silently handle profile loading errors
-      }
-      
-      // Get user emails securely through RPC function
-      const { data: userEmailsData, error: emailsError } = await supabase
-        .rpc('get_admin_user_emails')
-      
-      if (emailsError) {
-        await logSecurityEvent('failed_email_access', {
-          user_id: user?.id,
-          error: emailsError.message
-        })
-      }
-      
-      // Transform the data to include user information
-      const transformedData = paymentsData.map(payment => {
-        const profile = profilesData?.find(p => p.id === payment.user_id)
-        const userEmail = userEmailsData?.find(u => u.user_id === payment.user_id)
-        
-        return {
-          ...payment,
-          name: profile?.name || 'Unknown User',
-          roll_no: profile?.rollno || null,
-          user_email: userEmail?.user_email || `user-${payment.user_id.slice(0, 8)}@secured.local`
-        }
-      })
-      
-      setPayments(transformedData)
-      
+      // One page, joined with the payer's profile and email in the database
+      const [{ rows, total }, counts, filterOptions, templates] = await Promise.all([
+        searchPaymentProofs<PaymentProof>(paymentFilters, paymentSort, paymentPage),
+        countPaymentProofs(),
+        loadPaymentFilterOptions(),
+        loadRejectionTemplates(true).catch(() => [] as RejectionTemplate[])
+      ])
+      setFingerprints(await loadDuplicateFingerprints(rows).catch(() => rows))
+      setPaymentCounts(counts)
+      setPaymentFilterOptions(filterOptions)
+      setRejectionTemplates(templates)
+      setPaymentTotal(total)
+      setPayments(rows)
+      // Keep only selections still on the page and still pending
+      setSelectedPayments(prev => new Set(rows.filter(r => prev.has(r.id) && r.status === 'pending').map(r => r.id)))
+      runScreenshotQueue(rows.filter(p => p.status === 'pending' && p.payment_method !== 'razorpay'))
+
       await logSecurityEvent('data_access', {
         user_id: user?.id,
         action: 'load_payments',
-        count: transformedData?.length || 0
+        count: rows.length,
+        total
       })
     } catch (err) {
       addToast({ type: 'error', title: 'Failed to load payments' })
@@ -384,6 +483,127 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
     }
   }
 
+  // Adds lookalikes found for proofs loaded outside the payments page
+  const mergeFingerprints = (found: ProofFingerprint[]) => setFingerprints(prev => {
+    const byId = new Map(prev.map(f => [f.id, f]))
+    found.forEach(f => byId.set(f.id, f))
+    return [...byId.values()]
+  })
+
+  // Statement rows are matched against the proofs they could belong to, not every proof
+  const loadReconciliationProofs = (rows: StatementRow[]) =>
+    loadReconciliationCandidates<PaymentProof>(rows, DATE_WINDOW_DAYS)
+
+  const openReviewQueue = async () => {
+    try {
+      const [{ rows }, templates] = await Promise.all([
+        loadPendingProofs<PaymentProof>(paymentFilters, null),
+        loadRejectionTemplates(true)
+      ])
+      setRejectionTemplates(templates)
+      setReviewQueue(rows)
+      setReviewQueueMore(rows.length === PAYMENT_PAGE_SIZE)
+      mergeFingerprints(await loadDuplicateFingerprints(rows).catch(() => []))
+      await logSecurityEvent('data_access', {
+        user_id: user?.id,
+        action: 'open_review_queue',
+        count: rows.length
+      })
+    } catch (err) {
+      addToast({ type: 'error', title: 'Failed to load review queue', message: (err as Error).message })
+    }
+  }
+
+  // The queue asks for the next page as it nears the end of what it holds
+  const loadMoreReviewQueue = async () => {
+    if (!reviewQueue || reviewQueueLoading.current) return
+    reviewQueueLoading.current = true
+    try {
+      const { rows } = await loadPendingProofs<PaymentProof>(paymentFilters, reviewQueue[reviewQueue.length - 1]?.created_at ?? null)
+      const held = new Set(reviewQueue.map(p => p.id))
+      const fresh = rows.filter(p => !held.has(p.id))
+      setReviewQueue(prev => prev && [...prev, ...fresh])
+      setReviewQueueMore(rows.length === PAYMENT_PAGE_SIZE && fresh.length > 0)
+      mergeFingerprints(await loadDuplicateFingerprints(fresh).catch(() => []))
+    } catch (err) {
+      setReviewQueueMore(false)
+      addToast({ type: 'error', title: 'Failed to load more proofs', message: (err as Error).message })
+    } finally {
+      reviewQueueLoading.current = false
+    }
+  }
+
+  const closeReviewQueue = () => {
+    setReviewQueue(null)
+    setReviewQueueMore(false)
+    loadPayments()
+  }
+
+  const applyPaymentFilters = (filters: PaymentListFilters) => {
+    setPaymentFilters(filters)
+    setPaymentDraft(filters)
+    setPaymentPage(0)
+  }
+
+  const handlePaymentSort = (sort: PaymentListSort) => {
+    setPaymentSort(sort)
+    setPaymentPage(0)
+  }
+
+  const updateFingerprint = (id: string, changes: Partial<ProofFingerprint>) =>
+    setFingerprints(prev => prev.map(f => f.id === id ? { ...f, ...changes } : f))
+
+  // Hash and read screenshots one at a time so the browser is not flooded
+  const runScreenshotQueue = async (proofs: PaymentProof[]) => {
+    const todo = proofs.filter(p => !screenshotsQueued.current.has(p.id))
+    todo.forEach(p => screenshotsQueued.current.add(p.id))
+    for (const proof of todo) {
+      if (!proof.image_hash) {
+        try {
+          const hash = await storeProofImageHash(proof)
+          setPayments(prev => prev.map(p => p.id === proof.id ? { ...p, image_hash: hash } : p))
+          updateFingerprint(proof.id, { image_hash: hash })
+          // The new hash may match proofs the page load did not look for
+          mergeFingerprints(await loadDuplicateFingerprints([{ ...proof, image_hash: hash }]))
+        } catch {
+          // Unreadable screenshots are flagged by OCR below
+        }
+      }
+      if (proof.ocr_status !== 'success' && proof.ocr_status !== 'failed') {
+        await handleRunOcr(proof, false)
+      }
+    }
+  }
+
+  const handleRunOcr = async (payment: PaymentProof, manual = true) => {
+    if (!hasPermission('can_approve_payments')) {
+      await logSecurityEvent('unauthorized_action_attempt', {
+        user_id: user?.id,
+        attempted_action: 'run_ocr',
+        payment_id: payment.id
+      })
+      return
+    }
+
+    setOcrRunning(payment.id)
+    try {
+      const { result, utr } = await runProofOcr(payment)
+      setPayments(prev => prev.map(p => p.id === payment.id
+        ? { ...p, ocr_status: 'success', utr_or_ref: utr, ocr_result: result }
+        : p))
+      updateFingerprint(payment.id, { utr_or_ref: utr, ocr_utr: result.utr })
+      // Only a UTR filled in from the screenshot can turn up new matches
+      if (utr !== payment.utr_or_ref) {
+        loadDuplicateFingerprints([{ ...payment, utr_or_ref: utr }]).then(mergeFingerprints).catch(() => {})
+      }
+    } catch (err) {
+      setPayments(prev => prev.map(p => p.id === payment.id ? { ...p, ocr_status: 'failed' } : p))
+      if (manual) addToast({ type: 'error', title: 'OCR failed', message: (err as Error).message })
+    } finally {
+      setOcrRunning(null)
+    }
+  }
+
   const loadEvents = async () => {
     if (!hasPermission('can_manage_events')) {
       await logSecurityEvent('unauthorized_data_access', {
@@ -446,6 +666,25 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
     }
   }
 
+  const loadRefundQueue = async () => {
+    if (!hasPermission('can_approve_payments')) {
+      await logSecurityEvent('unauthorized_data_access', {
+        user_id: user?.id,
+        attempted_action: 'load_refunds'
+      })
+      return
+    }
+
+    setLoading(true)
+    try {
+      setRefunds(await loadRefunds(refundFilter))
+    } catch (err) {
+      addToast({ type: 'error', title: 'Failed to load refunds', message: (err as Error).message })
+    } finally {
+      setLoading(false)
+    }
+  }
+
   const loadUsers = async () => {
     if (!hasPermission('can_view_users')) {
       await logSecurityEvent('unauthorized_data_access', {
@@ -532,7 +771,59 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
   }
 
   // Payment actions (with security checks)
-  const handleApprovePayment = async (payment: PaymentProof) => {
+
+  // Shared by single and statement approvals. statementUtr fills in a UTR the screenshot did not show.
+  // Safe to run again after a partial failure: tickets already issued for the proof are skipped
+  const approvePaymentProof = async (payment: PaymentProof, statementUtr: string | null = null): Promise<TicketRecord[]> => {
+    const utr = payment.utr_or_ref || statementUtr
+
+    // Another reviewer may have decided it since the list loaded
+    const { data: latest, error: statusError } = await supabase
+      .from('payment_proofs')
+      .select('status')
+      .eq('id', payment.id)
+      .single()
+    if (statusError) throw statusError
+    if (latest.status === 'rejected') throw new Error('This payment was rejected by another reviewer')
+
+    // A UTR is one bank transfer; re-check in case another reviewer just approved it
+    if (utr) {
+      const { data: sameUtr, error: utrError } = await supabase
+        .from('payment_proofs')
+        .select('id, event_title, status')
+        .eq('utr_or_ref', utr)
+        .neq('id', payment.id)
+        .neq('status', 'rejected')
+      if (utrError) throw utrError
+      if (sameUtr?.length) {
+        throw new Error(`UTR ${utr} is already used by a ${sameUtr[0].status} payment for ${sameUtr[0].event_title}`)
+      }
+    }
+
+    // Issue tickets (one per accepted member for team payments)
+    const issued = await issueTicketsForPayment(payment)
+
+    // Update payment status, unless another reviewer rejected it while the tickets were issued
+    const { data: approved, error: updateError } = await supabase
+      .from('payment_proofs')
+      .update({ status: 'approved', reason: null, utr_or_ref: utr })
+      .eq('id', payment.id)
+      .in('status', ['pending', 'approved'])
+      .select('id')
+
+    if (updateError) throw updateError
+    if (!approved?.length) {
+      // The rejection stands; take back what this approval just issued
+      for (const ticket of issued) {
+        await transitionTicket(ticket, 'revoked', 'Payment was rejected by another reviewer', user!.id)
+      }
+      throw new Error('This payment was rejected by another reviewer while it was being approved; the tickets just issued were revoked')
+    }
+    return issued
+  }
+
+  // The review queue passes reload = false and moves on to its next proof itself
+  const handleApprovePayment = async (payment: PaymentProof, reload = true): Promise<boolean> => {
     if (!hasPermission('can_approve_payments')) {
       await logSecurityEvent('unauthorized_action_attempt', {
         user_id: user?.id,
@@ -540,111 +831,38 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
         payment_id: payment.id
       })
       addToast({ type: 'error', title: 'Permission Denied', message: 'You do not have permission to approve payments' })
-      return
+      return false
+    }
+
+    // Likely duplicates are compared side by side before anything is approved
+    const duplicates = findDuplicates(payment, fingerprints)
+    if (conflictingUtr(duplicates) || (duplicates.length > 0 && !duplicatesCleared.has(payment.id))) {
+      setDuplicateReview(payment)
+      return false
     }
     
     try {
       setLoading(true)
-      
-      // Generate ticket
-      const ticketCode = `TKT-${Math.random().toString(36).slice(2, 10).toUpperCase()}`
-      const qrPayload = {
-        type: 'ticket',
-        code: ticketCode,
-        event_id: payment.event_id,
-        event_title: payment.event_title,
-        user_id: payment.user_id,
-        user_email: payment.user_email,
-        created_at: new Date().toISOString()
-      }
-      
-      const qrDataUrl = await QRCode.toDataURL(JSON.stringify(qrPayload))
-      
-      // Generate PDF
-      const jsPDF = await loadJsPDF()
-      const doc = new jsPDF({ unit: 'pt', format: 'a4' })
-      
-      // Header
-      doc.setFillColor('#b22049')
-      doc.rect(0, 0, 595.28, 70, 'F')
-      doc.setTextColor('#ffffff')
-      doc.setFontSize(20)
-      doc.text('Event Ticket', 40, 45)
-      
-      // Content
-      doc.setTextColor('#111111')
-      doc.setFontSize(14)
-      let y = 110
-      const addLine = (label: string, value: string | null | undefined) => {
-        doc.setFont('helvetica', 'bold')
-        doc.text(label, 40, y)
-        doc.setFont('helvetica', 'normal')
-        // Ensure value is always a string for jsPDF
-        const displayValue = value ? String(value) : '-'
-        doc.text(displayValue, 180, y)
-        y += 24
-      }
-      
-      addLine('Ticket Code:', ticketCode)
-      addLine('Event:', payment.event_title || 'Unknown Event')
-      addLine('Holder:', payment.name || 'Unknown User')
-      addLine('Roll No:', payment.roll_no)
-      addLine('Amount:', `₹${Number(payment.amount).toFixed(2)}`)
-      addLine('Issued:', new Date().toLocaleString())
-      
-      // QR Code
-      doc.addImage(qrDataUrl, 'PNG', 400, 100, 160, 160)
-      
-      // Footer
-      doc.setFontSize(10)
-      doc.setTextColor('#555555')
-      doc.text('Present this ticket and valid ID at the event venue.', 40, 780)
-      
-      const pdfBlob = doc.output('blob') as Blob
-      
-      // Upload PDF
-      const pdfPath = `${payment.event_id}/${payment.user_id}/${ticketCode}.pdf`
-      const { error: uploadError } = await supabase.storage
-        .from('tickets')
-        .upload(pdfPath, pdfBlob, { contentType: 'application/pdf', cacheControl: '3600', upsert: false })
-      
-      if (uploadError) throw uploadError
-      
-      // Create ticket record
-      const { error: ticketError } = await supabase.from('tickets').insert({
-        ticket_code: ticketCode,
-        user_id: payment.user_id,
-        user_email: payment.user_email,
-        event_id: payment.event_id,
-        event_title: payment.event_title,
-        holder_name: payment.name,
-        roll_no: payment.roll_no,
-        qr_data: JSON.stringify(qrPayload),
-        pdf_path: pdfPath
-      })
-      
-      if (ticketError) throw ticketError
-      
-      // Update payment status
-      const { error: updateError } = await supabase
-        .from('payment_proofs')
-        .update({ status: 'approved', reason: null })
-        .eq('id', payment.id)
-      
-      if (updateError) throw updateError
+      const issued = await approvePaymentProof(payment)
       
       // Log the action
       await logSecurityEvent('payment_approved', {
         user_id: user?.id,
         payment_id: payment.id,
-        ticket_code: ticketCode,
+        ticket_codes: issued.map(t => t.ticket_code),
+        team_id: payment.team_id,
         event_id: payment.event_id,
+        bundle_id: payment.bundle_id,
         amount: payment.amount
       })
       
-      addToast({ type: 'success', title: 'Payment approved and ticket issued!' })
-      loadPayments()
-      
+      updateFingerprint(payment.id, { status: 'approved' })
+      addToast({
+        type: 'success',
+        title: issued.length === 1 ? 'Payment approved and ticket issued!' : `Payment approved and ${issued.length} tickets issued!`
+      })
+      if (reload) loadPayments()
+      return true
     } catch (err: any) {
       await logSecurityEvent('payment_approval_failed', {
         user_id: user?.id,
@@ -652,12 +870,118 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
         error: err.message
       })
       addToast({ type: 'error', title: 'Approve failed', message: err.message })
+      return false
     } finally {
       setLoading(false)
     }
   }
 
-  const handleRejectPayment = async (payment: PaymentProof) => {
+  // Approve payments whose statement credit an admin confirmed, one at a time
+  const handleApproveReconciled = async (matches: ConfirmedMatch<PaymentProof>[]) => {
+    if (!hasPermission('can_approve_payments')) {
+      await logSecurityEvent('unauthorized_action_attempt', {
+        user_id: user?.id,
+        attempted_action: 'approve_reconciled_payments',
+        payment_ids: matches.map(m => m.proof.id)
+      })
+      addToast({ type: 'error', title: 'Permission Denied', message: 'You do not have permission to approve payments' })
+      return
+    }
+
+    let approved = 0
+    const needsReview: string[] = []
+    const failures: string[] = []
+    // Matched proofs may be on no page the dashboard has loaded
+    let lookalikes: ProofFingerprint[]
+    try {
+      lookalikes = await loadDuplicateFingerprints(matches.map(m => m.proof))
+    } catch (err) {
+      addToast({ type: 'error', title: 'Duplicate check failed', message: (err as Error).message })
+      return
+    }
+    for (const { row, proof } of matches) {
+      // A matching credit does not explain away a reused screenshot
+      const duplicates = findDuplicates(proof, lookalikes)
+      if (duplicates.length > 0 && !duplicatesCleared.has(proof.id)) {
+        needsReview.push(proof.name || proof.id)
+        continue
+      }
+      try {
+        const issued = await approvePaymentProof(proof, row.utr)
+        approved++
+        await logSecurityEvent('payment_approved', {
+          user_id: user?.id,
+          payment_id: proof.id,
+          ticket_codes: issued.map(t => t.ticket_code),
+          team_id: proof.team_id,
+          event_id: proof.event_id,
+          bundle_id: proof.bundle_id,
+          amount: proof.amount,
+          source: 'statement_reconciliation',
+          statement_file: row.file,
+          statement_line: row.line,
+          statement_utr: row.utr
+        })
+      } catch (err) {
+        failures.push(`${proof.name || proof.id}: ${(err as Error).message}`)
+        await logSecurityEvent('payment_approval_failed', {
+          user_id: user?.id,
+          payment_id: proof.id,
+          source: 'statement_reconciliation',
+          error: (err as Error).message
+        })
+      }
+    }
+
+    if (approved > 0) addToast({ type: 'success', title: `${approved} payment${approved === 1 ? '' : 's'} approved` })
+    if (needsReview.length > 0) {
+      addToast({ type: 'warning', title: 'Possible duplicates skipped', message: `Compare these first: ${needsReview.join(', ')}` })
+    }
+    if (failures.length > 0) {
+      addToast({ type: 'error', title: `${failures.length} approval${failures.length === 1 ? '' : 's'} failed`, message: failures.join('; ') })
+    }
+    loadPayments()
+  }
+
+  // Events whose seats a proof holds; a pass holds one in each of its events
+  const seatEventIds = async (payment: PaymentProof): Promise<string[]> =>
+    payment.bundle_id ? (await loadBundle(payment.bundle_id)).event_ids : [payment.event_id!]
+
+  // A final rejection passes the payer's seats in capacity-limited events to the
+  // waitlist; any other keeps the registration so the payer can resubmit.
+  // Returns the seats that could not be released, which do not fail the rejection.
+  // Running it again on a rejected proof repeats the follow-up steps only.
+  const rejectPaymentProof = async (payment: PaymentProof, reason: string, final: boolean): Promise<string[]> => {
+    const { data, error } = await supabase
+      .from('payment_proofs')
+      .update({ status: 'rejected', reason })
+      .eq('id', payment.id)
+      .in('status', ['pending', 'rejected'])
+      .select('id')
+    
+    if (error) throw error
+    if (!data?.length) throw new Error('This payment was approved by another reviewer')
+
+    // Let the captain change the roster before paying again
+    if (payment.team_id) await setTeamLocked(payment.team_id, false)
+
+    if (!final) return []
+    const warnings: string[] = []
+    for (const seatEventId of await seatEventIds(payment)) {
+      await releaseSeat(seatEventId, payment.user_id).catch((err) => warnings.push(err.message))
+    }
+    return warnings
+  }
+
+  // Asks for a reason unless one is given, e.g. a template picked in the review queue, and
+  // unless the caller says, whether the rejection is final when the proof holds a seat
+  // someone may be waiting for
+  const handleRejectPayment = async (
+    payment: PaymentProof,
+    presetReason?: string,
+    reload = true,
+    presetFinal?: boolean
+  ): Promise<boolean> => {
     if (!hasPermission('can_approve_payments')) {
       await logSecurityEvent('unauthorized_action_attempt', {
         user_id: user?.id,
@@ -665,31 +989,437 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
         payment_id: payment.id
       })
       addToast({ type: 'error', title: 'Permission Denied', message: 'You do not have permission to reject payments' })
-      return
+      return false
     }
     
-    const reason = window.prompt('Enter rejection reason:')
-    if (!reason) return
+    const reason = presetReason ?? window.prompt('Enter rejection reason:')
+    if (!reason) return false
     
     try {
-      const { error } = await supabase
-        .from('payment_proofs')
-        .update({ status: 'rejected', reason })
-        .eq('id', payment.id)
-      
-      if (error) throw error
+      const final = presetFinal ?? ((await limitedEventIds(await seatEventIds(payment))).length > 0 && window.confirm(
+        'Is this rejection final?\n\nOK gives the seat to the next person on the waitlist. Cancel keeps the registration so the payer can resubmit.'
+      ))
+      const seatWarnings = await rejectPaymentProof(payment, reason, final)
+      seatWarnings.forEach(message => addToast({ type: 'warning', title: 'Seat not released', message }))
       
       await logSecurityEvent('payment_rejected', {
         user_id: user?.id,
-        payment_id: payment.id,
-        reason: reason,
-        event_id: payment.event_id
+        payment_id: payment.id,
+        reason: reason,
+        final,
+        event_id: payment.event_id,
+        bundle_id: payment.bundle_id
+      })
+      
+      updateFingerprint(payment.id, { status: 'rejected' })
+      addToast({ type: 'success', title: 'Payment rejected' })
+      if (reload) loadPayments()
+      return true
+    } catch (err: any) {
+      addToast({ type: 'error', title: 'Reject failed', message: err.message })
+      return false
+    }
+  }
+
+  // Approve or reject many proofs through the job runner. Each item re-checks the
+  // proof, so retrying the failures, or a whole run, never decides one twice.
+  const runBulkAction = async (action: BulkRun['action'], proofs: PaymentProof[], reason: string | null, final = false) => {
+    if (!hasPermission('can_approve_payments')) {
+      await logSecurityEvent('unauthorized_action_attempt', {
+        user_id: user?.id,
+        attempted_action: `bulk_${action}_payments`,
+        payment_ids: proofs.map(p => p.id)
+      })
+      addToast({ type: 'error', title: 'Permission Denied', message: 'You do not have permission to approve payments' })
+      return
+    }
+    if (action === 'reject' && !reason) return
+
+    setBulkRun({ action, reason, final, progress: { done: 0, total: proofs.length, failed: 0 }, failures: [], running: true })
+    const seatWarnings: string[] = []
+    const { results, failures } = await runJobs(proofs, async (proof) => {
+      if (action === 'reject') {
+        seatWarnings.push(...await rejectPaymentProof(proof, reason!, final))
+        await logSecurityEvent('payment_rejected', {
+          user_id: user?.id,
+          payment_id: proof.id,
+          reason,
+          final,
+          event_id: proof.event_id,
+          bundle_id: proof.bundle_id,
+          source: 'bulk'
+        })
+        updateFingerprint(proof.id, { status: 'rejected' })
+        return 0
+      }
+
+      // Bulk approval does not override the duplicate checks
+      const duplicates = findDuplicates(proof, fingerprints)
+      const conflict = conflictingUtr(duplicates)
+      if (conflict) throw new Error(`UTR ${conflict.proof.utr_or_ref} is already used by a ${conflict.proof.status} payment`)
+      if (duplicates.length > 0 && !duplicatesCleared.has(proof.id)) throw new Error('Possible duplicate; compare it first')
+
+      const issued = await approvePaymentProof(proof)
+      await logSecurityEvent('payment_approved', {
+        user_id: user?.id,
+        payment_id: proof.id,
+        ticket_codes: issued.map(t => t.ticket_code),
+        team_id: proof.team_id,
+        event_id: proof.event_id,
+        bundle_id: proof.bundle_id,
+        amount: proof.amount,
+        source: 'bulk'
+      })
+      updateFingerprint(proof.id, { status: 'approved' })
+      return issued.length
+    }, {
+      concurrency: BULK_CONCURRENCY,
+      // One payer's proofs are approved one at a time, so two proofs for the same
+      // seat cannot both pass the already-issued check. Keyed on the payer, not
+      // payer and event, since a pass holds seats in several events.
+      key: action === 'approve' ? (proof) => proof.user_id : undefined,
+      onProgress: (progress) => setBulkRun(prev => prev && { ...prev, progress })
+    })
+
+    setBulkRun(prev => prev && { ...prev, failures, running: false })
+    await logSecurityEvent(`bulk_payments_${action === 'approve' ? 'approved' : 'rejected'}`, {
+      user_id: user?.id,
+      payment_ids: results.map(r => r.item.id),
+      failed_payment_ids: failures.map(f => f.item.id),
+      reason,
+      final
+    })
+
+    if (results.length > 0) {
+      const tickets = results.reduce((sum, r) => sum + r.result, 0)
+      addToast({
+        type: 'success',
+        title: `${results.length} payment${results.length === 1 ? '' : 's'} ${action === 'approve' ? 'approved' : 'rejected'}`,
+        message: action === 'approve' ? `${tickets} ticket${tickets === 1 ? '' : 's'} issued` : undefined
+      })
+    }
+    if (seatWarnings.length > 0) {
+      addToast({ type: 'warning', title: 'Some seats not released', message: seatWarnings.join('; ') })
+    }
+    // Failures stay selected for another go
+    setSelectedPayments(new Set(failures.map(f => f.item.id)))
+    loadPayments()
+  }
+
+  const handleBulkReject = () => {
+    const proofs = payments.filter(p => selectedPayments.has(p.id))
+    const seats = bulkFinal ? '\n\nThis is final: seats in full events go to the waitlist.' : ''
+    if (!bulkReason.trim() || !confirm(`Reject ${proofs.length} payment${proofs.length === 1 ? '' : 's'} with this reason?\n\n${bulkReason.trim()}${seats}`)) return
+    runBulkAction('reject', proofs, bulkReason.trim(), bulkFinal)
+  }
+
+  const handleClearDuplicate = async (payment: PaymentProof) => {
+    if (!hasPermission('can_approve_payments')) {
+      await logSecurityEvent('unauthorized_action_attempt', {
+        user_id: user?.id,
+        attempted_action: 'review_duplicate',
+        payment_id: payment.id
+      })
+      addToast({ type: 'error', title: 'Permission Denied', message: 'You do not have permission to review payments' })
+      return
+    }
+
+    setDuplicatesCleared(prev => new Set(prev).add(payment.id))
+    setDuplicateReview(null)
+    await logSecurityEvent('duplicate_reviewed', {
+      user_id: user?.id,
+      payment_id: payment.id,
+      matched_payment_ids: findDuplicates(payment, fingerprints).map(m => m.proof.id)
+    })
+    addToast({ type: 'info', title: 'Marked as not a duplicate', message: 'The payment can now be approved.' })
+  }
+
+  // Refund actions (with security checks); refunds.ts writes each step to the audit log
+  const handleRefundDecision = async (refund: RefundRequest, decision: 'approved' | 'denied') => {
+    if (!hasPermission('can_approve_payments')) {
+      await logSecurityEvent('unauthorized_action_attempt', {
+        user_id: user?.id,
+        attempted_action: `refund_${decision}`,
+        refund_id: refund.id
+      })
+      addToast({ type: 'error', title: 'Permission Denied', message: 'You do not have permission to handle refunds' })
+      return
+    }
+
+    const notes = decision === 'denied'
+      ? window.prompt('Reason for denying the refund (shown to the participant):')
+      : window.prompt('Notes for the payout (optional):', '')
+    if (notes === null || !user) return
+
+    try {
+      setLoading(true)
+      if (decision === 'approved') await approveRefund(refund, user.id, notes.trim() || null)
+      else await denyRefund(refund, user.id, notes)
+      addToast({ type: 'success', title: decision === 'approved' ? 'Refund approved' : 'Refund denied' })
+      loadRefundQueue()
+    } catch (err) {
+      addToast({ type: 'error', title: 'Refund update failed', message: (err as Error).message })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleIssueRefund = async (refund: RefundRequest) => {
+    if (!hasPermission('can_approve_payments')) {
+      await logSecurityEvent('unauthorized_action_attempt', {
+        user_id: user?.id,
+        attempted_action: 'refund_paid',
+        refund_id: refund.id
+      })
+      addToast({ type: 'error', title: 'Permission Denied', message: 'You do not have permission to handle refunds' })
+      return
+    }
+
+    const payoutReference = window.prompt(`UTR of the ₹${refund.amount ?? '?'} transfer to ${refund.upi_id}:`)
+    if (!payoutReference?.trim() || !user) return
+    if (!window.confirm('Mark the refund as paid? Tickets bought with this payment will be revoked.')) return
+
+    try {
+      setLoading(true)
+      const { revoked } = await issueRefund(refund, user.id, payoutReference)
+      // Revoked seats go to the waitlist, as with any revocation
+      for (const ticket of revoked) {
+        await releaseSeat(ticket.event_id, ticket.user_id).catch((err) =>
+          addToast({ type: 'warning', title: 'Seat not released', message: err.message }))
+      }
+      addToast({
+        type: 'success',
+        title: 'Refund paid',
+        message: revoked.length > 0 ? `${revoked.length} ticket${revoked.length === 1 ? '' : 's'} revoked` : 'No active tickets to revoke'
+      })
+      loadRefundQueue()
+    } catch (err) {
+      addToast({ type: 'error', title: 'Refund failed', message: (err as Error).message })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Ticket lifecycle actions (with security checks)
+  const ticketStatusStyles: Record<TicketStatus, string> = {
+    active: 'bg-green-500/20 text-green-300',
+    used: 'bg-blue-500/20 text-blue-300',
+    reissued: 'bg-yellow-500/20 text-yellow-300',
+    revoked: 'bg-red-500/20 text-red-300'
+  }
+
+  const ticketActionLabels: Record<TicketStatus, string> = {
+    active: 'reinstate',
+    revoked: 'revoke',
+    reissued: 'reissue',
+    used: 'mark as used'
+  }
+
+  const handleTicketTransition = async (ticket: TicketRecord, to: TicketStatus) => {
+    if (!hasPermission('can_approve_payments')) {
+      await logSecurityEvent('unauthorized_action_attempt', {
+        user_id: user?.id,
+        attempted_action: `ticket_${to}`,
+        ticket_id: ticket.id
+      })
+      addToast({ type: 'error', title: 'Permission Denied', message: 'You do not have permission to change tickets' })
+      return
+    }
+
+    const reason = window.prompt(`Reason to ${ticketActionLabels[to]} ${ticket.ticket_code}:`)
+    if (!reason?.trim() || !user) return
+
+    try {
+      setLoading(true)
+      await transitionTicket(ticket, to, reason, user.id)
+      if (to === 'revoked') {
+        await releaseSeat(ticket.event_id, ticket.user_id).catch((err) =>
+          addToast({ type: 'warning', title: 'Seat not released', message: err.message }))
+      }
+
+      await logSecurityEvent('ticket_status_changed', {
+        user_id: user.id,
+        ticket_id: ticket.id,
+        ticket_code: ticket.ticket_code,
+        from_status: getTicketStatus(ticket),
+        to_status: to,
+        reason
+      })
+
+      addToast({ type: 'success', title: `Ticket ${to === 'active' ? 'reinstated' : to}` })
+      loadTickets()
+    } catch (err) {
+      addToast({ type: 'error', title: 'Ticket update failed', message: (err as Error).message })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleReissueTicket = async (ticket: TicketRecord) => {
+    if (!hasPermission('can_approve_payments')) {
+      await logSecurityEvent('unauthorized_action_attempt', {
+        user_id: user?.id,
+        attempted_action: 'ticket_reissue',
+        ticket_id: ticket.id
+      })
+      addToast({ type: 'error', title: 'Permission Denied', message: 'You do not have permission to change tickets' })
+      return
+    }
+
+    const holderName = window.prompt('Holder name on the new ticket:', ticket.holder_name)
+    if (holderName === null || !holderName.trim()) return
+    const rollNo = window.prompt('Roll number on the new ticket:', ticket.roll_no || '')
+    if (rollNo === null) return
+    const reason = window.prompt(`Reason to reissue ${ticket.ticket_code}:`)
+    if (!reason?.trim() || !user) return
+
+    try {
+      setLoading(true)
+      const replacement = await reissueTicket(
+        ticket,
+        { holderName: holderName.trim(), rollNo: rollNo.trim() || null },
+        reason,
+        user.id
+      )
+
+      await logSecurityEvent('ticket_reissued', {
+        user_id: user.id,
+        ticket_id: ticket.id,
+        ticket_code: ticket.ticket_code,
+        new_ticket_id: replacement.id,
+        new_ticket_code: replacement.ticket_code,
+        reason
+      })
+
+      addToast({ type: 'success', title: 'Ticket reissued', message: `New code ${replacement.ticket_code}` })
+      loadTickets()
+    } catch (err) {
+      addToast({ type: 'error', title: 'Reissue failed', message: (err as Error).message })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleExportTicketArchive = async () => {
+    if (!hasPermission('can_view_tickets')) {
+      await logSecurityEvent('unauthorized_action_attempt', {
+        user_id: user?.id,
+        attempted_action: 'export_ticket_archive',
+        event_id: archiveEventId
+      })
+      return
+    }
+
+    const eventTickets = tickets.filter(t => t.event_id === archiveEventId)
+    if (eventTickets.length === 0) return
+    const eventTitle = eventTickets[0].event_title
+
+    setArchiveErrors([])
+    try {
+      const result = await buildTicketArchive(eventTickets, setArchiveProgress)
+      const url = URL.createObjectURL(result.blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${eventTitle.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-tickets.zip`
+      link.click()
+      URL.revokeObjectURL(url)
+      setArchiveErrors(result.errors)
+
+      await logSecurityEvent('ticket_archive_exported', {
+        user_id: user?.id,
+        event_id: archiveEventId,
+        file_count: result.fileCount,
+        failed_count: result.errors.length
+      })
+
+      addToast({
+        type: result.errors.length > 0 ? 'warning' : 'success',
+        title: 'Ticket archive ready',
+        message: result.errors.length > 0
+          ? `${result.fileCount} PDFs exported, ${result.errors.length} failed`
+          : `${result.fileCount} PDFs exported`
+      })
+    } catch (err) {
+      addToast({ type: 'error', title: 'Export failed', message: (err as Error).message })
+    } finally {
+      setArchiveProgress(null)
+    }
+  }
+
+  const handleParticipantsExported = async (summary: ParticipantExportSummary) => {
+    await logSecurityEvent('participants_exported', {
+      user_id: user?.id,
+      event_id: summary.eventId,
+      format: summary.format,
+      columns: summary.columns,
+      row_count: summary.rowCount
+    })
+    addToast({ type: 'success', title: 'Export ready', message: `${summary.rowCount} participants exported` })
+  }
+
+  const handleAnalyticsLoaded = (days: number) => {
+    logSecurityEvent('data_access', {
+      user_id: user?.id,
+      action: 'load_analytics',
+      days
+    })
+  }
+
+  const toggleTicketHistory = async (ticket: TicketRecord) => {
+    if (ticketHistory?.ticketId === ticket.id) {
+      setTicketHistory(null)
+      return
+    }
+    try {
+      const entries = await loadTicketHistory(ticket.id)
+      setTicketHistory({ ticketId: ticket.id, entries })
+    } catch (err) {
+      addToast({ type: 'error', title: 'Failed to load ticket history', message: (err as Error).message })
+    }
+  }
+
+  const toggleWaitlist = async (eventId: string) => {
+    if (waitlist?.eventId === eventId) {
+      setWaitlist(null)
+      return
+    }
+    try {
+      const entries = await loadEventWaitlist(eventId)
+      setWaitlist({ eventId, entries })
+    } catch (err) {
+      addToast({ type: 'error', title: 'Failed to load waitlist', message: (err as Error).message })
+    }
+  }
+
+  const handleMoveWaitlistEntry = async (entry: WaitlistEntry, direction: -1 | 1) => {
+    if (!hasPermission('can_manage_events')) {
+      await logSecurityEvent('unauthorized_action_attempt', {
+        user_id: user?.id,
+        attempted_action: 'reorder_waitlist',
+        event_id: entry.event_id
+      })
+      addToast({ type: 'error', title: 'Permission Denied', message: 'You do not have permission to manage events' })
+      return
+    }
+    if (!waitlist) return
+
+    const waiting = waitlist.entries.filter(e => e.status === 'waiting')
+    const index = waiting.findIndex(e => e.id === entry.id)
+    const target = index + direction
+    if (index < 0 || target < 0 || target >= waiting.length) return
+    ;[waiting[index], waiting[target]] = [waiting[target], waiting[index]]
+
+    try {
+      await reorderWaitlist(entry.event_id, waiting.map(e => e.id))
+      await logSecurityEvent('waitlist_reordered', {
+        user_id: user?.id,
+        event_id: entry.event_id,
+        entry_id: entry.id,
+        direction: direction < 0 ? 'up' : 'down'
       })
-      
-      addToast({ type: 'success', title: 'Payment rejected' })
-      loadPayments()
-    } catch (err: any) {
-      addToast({ type: 'error', title: 'Reject failed', message: err.message })
+      setWaitlist({ eventId: entry.event_id, entries: await loadEventWaitlist(entry.event_id) })
+    } catch (err) {
+      addToast({ type: 'error', title: 'Reorder failed', message: (err as Error).message })
     }
   }
 
@@ -704,6 +1434,43 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
       return
     }
     
+    const sessions: EventSession[] = []
+    for (const [index, row] of eventForm.sessions.entries()) {
+      const start = istInputToIso(row.start)
+      const end = istInputToIso(row.end)
+      if (!start || !end) {
+        addToast({ type: 'error', title: 'Invalid schedule', message: `Session ${index + 1} needs a start and end time` })
+        return
+      }
+      sessions.push({ title: row.title.trim() || null, start, end, venue: row.venue.trim() || null })
+    }
+    const scheduleErrors = validateSessions(sessions)
+    if (scheduleErrors.length > 0) {
+      addToast({ type: 'error', title: 'Invalid schedule', message: scheduleErrors[0] })
+      return
+    }
+
+    const priceTiers: PriceTier[] = eventForm.price_tiers.map(row => ({
+      label: row.label.trim(),
+      price: Number(row.price),
+      starts_at: row.starts_at ? istInputToIso(row.starts_at) : null,
+      ends_at: row.ends_at ? istInputToIso(row.ends_at) : null
+    }))
+    const tierErrors = validatePriceTiers(priceTiers)
+    if (priceTiers.length > 0 && !eventForm.price) tierErrors.push('Set the regular price before adding tiers')
+    if (tierErrors.length > 0) {
+      addToast({ type: 'error', title: 'Invalid price tiers', message: tierErrors[0] })
+      return
+    }
+
+    // Blank max size means an individual event
+    const teamMax = eventForm.team_max_size ? parseInt(eventForm.team_max_size) : null
+    const teamMin = teamMax && eventForm.team_min_size ? parseInt(eventForm.team_min_size) : null
+    if (teamMax !== null && (teamMax < 1 || (teamMin !== null && (teamMin < 1 || teamMin > teamMax)))) {
+      addToast({ type: 'error', title: 'Invalid team size', message: 'Minimum must be between 1 and the maximum team size' })
+      return
+    }
+
     try {
       const eventData = {
         title: eventForm.title,
@@ -711,10 +1478,21 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
         tagline: eventForm.tagline,
         venue: eventForm.venue,
         schedule: eventForm.schedule,
+        sessions: parseSessions(sessions),
         price: eventForm.price ? parseInt(eventForm.price) : null,
+        price_tiers: priceTiers,
         capacity: eventForm.capacity ? parseInt(eventForm.capacity) : null,
         contact_email: eventForm.contact_email || null,
-        contact_phone: eventForm.contact_phone || null
+        contact_phone: eventForm.contact_phone || null,
+        ticket_template: {
+          primaryColor: eventForm.ticket_primary_color,
+          accentColor: eventForm.ticket_accent_color,
+          // One term per line; empty falls back to the default terms
+          terms: eventForm.ticket_terms.split('\n').map(t => t.trim()).filter(Boolean)
+        },
+        allow_transfers: eventForm.allow_transfers,
+        team_min_size: teamMin,
+        team_max_size: teamMax
       }
 
       if (editingEvent) {
@@ -749,7 +1527,15 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
       setEditingEvent(null)
       setEventForm({
         title: '', description: '', tagline: '', venue: '', schedule: '',
-        price: '', capacity: '', contact_email: '', contact_phone: ''
+        price: '', capacity: '', contact_email: '', contact_phone: '',
+        ticket_primary_color: DEFAULT_TICKET_TEMPLATE.primaryColor,
+        ticket_accent_color: DEFAULT_TICKET_TEMPLATE.accentColor,
+        ticket_terms: '',
+        allow_transfers: true,
+        sessions: [],
+        price_tiers: [],
+        team_min_size: '',
+        team_max_size: ''
       })
       loadEvents()
     } catch (err: any) {
@@ -774,7 +1560,25 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
       price: event.price?.toString() || '',
       capacity: event.capacity?.toString() || '',
       contact_email: event.contact_email || '',
-      contact_phone: event.contact_phone || ''
+      contact_phone: event.contact_phone || '',
+      ticket_primary_color: event.ticket_template?.primaryColor || DEFAULT_TICKET_TEMPLATE.primaryColor,
+      ticket_accent_color: event.ticket_template?.accentColor || DEFAULT_TICKET_TEMPLATE.accentColor,
+      ticket_terms: event.ticket_template?.terms?.join('\n') || '',
+      allow_transfers: event.allow_transfers !== false,
+      sessions: parseSessions(event.sessions).map(session => ({
+        title: session.title || '',
+        start: isoToIstInput(session.start),
+        end: isoToIstInput(session.end),
+        venue: session.venue || ''
+      })),
+      price_tiers: parsePriceTiers(event.price_tiers).map(tier => ({
+        label: tier.label,
+        price: tier.price.toString(),
+        starts_at: tier.starts_at ? isoToIstInput(tier.starts_at) : '',
+        ends_at: tier.ends_at ? isoToIstInput(tier.ends_at) : ''
+      })),
+      team_min_size: event.team_min_size?.toString() || '',
+      team_max_size: event.team_max_size?.toString() || ''
     })
     setShowEventForm(true)
   }
@@ -899,11 +1703,13 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
 
   // Filter tabs based on permissions
   const tabs = [
-    { id: 'payments', label: 'Payments', icon: QrCode, count: payments.length, permission: 'can_approve_payments' },
+    { id: 'payments', label: 'Payments', icon: QrCode, count: paymentTotal, permission: 'can_approve_payments' },
+    { id: 'refunds', label: 'Refunds', icon: Banknote, count: refunds.length, permission: 'can_approve_payments' },
     { id: 'events', label: 'Events', icon: FileText, count: events.length, permission: 'can_manage_events' },
     { id: 'tickets', label: 'Tickets', icon: Download, count: tickets.length, permission: 'can_view_tickets' },
     { id: 'users', label: 'Users', icon: Users, count: users.length, permission: 'can_view_users' },
-    { id: 'qr-admin', label: 'QR Admin', icon: RotateCcw, count: 0, permission: 'can_manage_qr_codes' }
+    { id: 'qr-admin', label: 'QR Admin', icon: RotateCcw, count: 0, permission: 'can_manage_qr_codes' },
+    { id: 'analytics', label: 'Analytics', icon: BarChart3, count: 0, permission: 'can_approve_payments' }
   ].filter(tab => !tab.permission || hasPermission(tab.permission))
 
   return (
@@ -986,6 +1792,16 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                 ))}
               </nav>
               
+              {hasPermission('can_check_in') && (
+                <button
+                  onClick={() => { onClose(); navigate('/events/checkin') }}
+                  className="mt-6 w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left bg-blue-600/30 hover:bg-blue-600/40"
+                >
+                  <ScanLine className="w-5 h-5" />
+                  <span className="flex-1">Check-in Scanner</span>
+                </button>
+              )}
+              
               <div className="mt-6 p-3 bg-green-500/20 rounded-lg border border-green-500/30">
                 <p className="text-xs text-green-300">🛡️ Security Active</p>
                 <p className="text-xs text-white/70">All actions logged</p>
@@ -1009,17 +1825,21 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                 <div>
                   <h2 className="text-2xl font-bold">
                     {activeTab === 'payments' && '💳 Payment Approvals'}
+                    {activeTab === 'refunds' && '💸 Refunds'}
                     {activeTab === 'events' && '📅 Events Management'}
                     {activeTab === 'tickets' && '🎫 Issued Tickets'}
                     {activeTab === 'users' && '👥 Registered Users'}
                     {activeTab === 'qr-admin' && '🔄 QR Cycling Dashboard'}
+                    {activeTab === 'analytics' && '📊 Analytics'}
                   </h2>
                   <p className="text-sm text-white/70 mt-1">
-                    {activeTab === 'payments' && `${payments.length} payment proofs`}
+                    {activeTab === 'payments' && `${paymentTotal} payment proofs`}
+                    {activeTab === 'refunds' && `${refunds.length} refund requests`}
                     {activeTab === 'events' && `${events.length} events`}
                     {activeTab === 'tickets' && `${tickets.length} tickets issued`}
                     {activeTab === 'users' && `${users.length} registered users`}
                     {activeTab === 'qr-admin' && '24-Hour QR Rotation System Management'}
+                    {activeTab === 'analytics' && 'Registrations, payments and revenue'}
                   </p>
                 </div>
                 <button onClick={onClose} className="hidden md:block p-2 rounded-lg hover:bg-white/10">
@@ -1044,19 +1864,263 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                           {['all', 'pending', 'approved', 'rejected'].map(status => (
                             <button
                               key={status}
-                              onClick={() => setPaymentFilter(status as any)}
+                              onClick={() => applyPaymentFilters({ ...paymentFilters, status: status as PaymentListFilters['status'] })}
                               className={`px-4 py-2 rounded-lg text-sm capitalize ${
-                                paymentFilter === status 
+                                paymentFilters.status === status 
                                   ? 'bg-white/20 text-white' 
                                   : 'bg-white/10 text-white/70 hover:bg-white/15'
                               }`}
                             >
-                              {status} ({payments.filter(p => status === 'all' || p.status === status).length})
+                              {status} ({paymentCounts[status as PaymentStatusFilter]})
                             </button>
                           ))}
+                          <button
+                            onClick={openReviewQueue}
+                            className="px-4 py-2 rounded-lg text-sm bg-green-600/80 text-white hover:bg-green-600 ml-auto"
+                          >
+                            <CheckCircle className="w-4 h-4 inline mr-1" />
+                            Review pending
+                          </button>
+                          <button
+                            onClick={() => setShowRejectionTemplates(!showRejectionTemplates)}
+                            className="px-4 py-2 rounded-lg text-sm bg-white/10 text-white/70 hover:bg-white/15"
+                          >
+                            Rejection reasons
+                          </button>
+                          <button
+                            onClick={() => setShowReconciliation(true)}
+                            className="px-4 py-2 rounded-lg text-sm bg-blue-600/80 text-white hover:bg-blue-600"
+                          >
+                            <FileText className="w-4 h-4 inline mr-1" />
+                            Reconcile statements
+                          </button>
                         </div>
+
+                        <form
+                          onSubmit={(e) => { e.preventDefault(); applyPaymentFilters(paymentDraft) }}
+                          className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-3"
+                        >
+                          <input
+                            value={paymentDraft.search}
+                            onChange={(e) => setPaymentDraft({ ...paymentDraft, search: e.target.value })}
+                            placeholder="Name, roll no, email, UTR or ref"
+                            className="col-span-2 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm placeholder-white/50"
+                          />
+                          <select
+                            value={paymentDraft.eventId ?? ''}
+                            onChange={(e) => setPaymentDraft({ ...paymentDraft, eventId: e.target.value || null })}
+                            className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+                          >
+                            <option value="" className="bg-gray-800">All events</option>
+                            {paymentFilterOptions.events.map(({ id, title }) => (
+                              <option key={id} value={id} className="bg-gray-800">{title}</option>
+                            ))}
+                          </select>
+                          <select
+                            value={paymentDraft.qrName ?? ''}
+                            onChange={(e) => setPaymentDraft({ ...paymentDraft, qrName: e.target.value || null })}
+                            className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+                          >
+                            <option value="" className="bg-gray-800">All QRs</option>
+                            {paymentFilterOptions.qrNames.map(name => (
+                              <option key={name} value={name} className="bg-gray-800">{name}</option>
+                            ))}
+                          </select>
+                          <label className="text-xs text-white/60">
+                            From (IST)
+                            <input
+                              type="date"
+                              value={paymentDraft.fromDate ?? ''}
+                              onChange={(e) => setPaymentDraft({ ...paymentDraft, fromDate: e.target.value || null })}
+                              className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+                            />
+                          </label>
+                          <label className="text-xs text-white/60">
+                            To (IST)
+                            <input
+                              type="date"
+                              value={paymentDraft.toDate ?? ''}
+                              onChange={(e) => setPaymentDraft({ ...paymentDraft, toDate: e.target.value || null })}
+                              className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+                            />
+                          </label>
+                          <label className="text-xs text-white/60">
+                            Min ₹
+                            <input
+                              type="number"
+                              min="0"
+                              value={paymentDraft.minAmount ?? ''}
+                              onChange={(e) => setPaymentDraft({ ...paymentDraft, minAmount: e.target.value === '' ? null : Number(e.target.value) })}
+                              className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+                            />
+                          </label>
+                          <label className="text-xs text-white/60">
+                            Max ₹
+                            <input
+                              type="number"
+                              min="0"
+                              value={paymentDraft.maxAmount ?? ''}
+                              onChange={(e) => setPaymentDraft({ ...paymentDraft, maxAmount: e.target.value === '' ? null : Number(e.target.value) })}
+                              className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+                            />
+                          </label>
+                          <div className="col-span-2 md:col-span-4 flex flex-wrap items-center gap-2">
+                            <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700">
+                              Search
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => applyPaymentFilters({ ...EMPTY_PAYMENT_FILTERS, status: paymentFilters.status })}
+                              className="px-4 py-2 bg-white/10 text-white rounded-lg text-sm hover:bg-white/20"
+                            >
+                              Clear
+                            </button>
+                            <div className="ml-auto flex items-center gap-2 text-sm">
+                              <span className="text-white/60">Sort by</span>
+                              <select
+                                value={paymentSort.key}
+                                onChange={(e) => handlePaymentSort({ ...paymentSort, key: e.target.value as PaymentSortKey })}
+                                className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+                              >
+                                {(Object.keys(PAYMENT_SORT_LABELS) as PaymentSortKey[]).map(key => (
+                                  <option key={key} value={key} className="bg-gray-800">{PAYMENT_SORT_LABELS[key]}</option>
+                                ))}
+                              </select>
+                              <button
+                                type="button"
+                                onClick={() => handlePaymentSort({ ...paymentSort, ascending: !paymentSort.ascending })}
+                                title={paymentSort.ascending ? 'Ascending' : 'Descending'}
+                                className="p-2 bg-white/10 rounded-lg hover:bg-white/20"
+                              >
+                                {paymentSort.ascending ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                              </button>
+                            </div>
+                          </div>
+                        </form>
                       </div>
 
+                      {showRejectionTemplates && (
+                        <RejectionTemplateManager
+                          onSaved={(template, previous) => {
+                            logSecurityEvent(previous ? 'rejection_template_updated' : 'rejection_template_created', {
+                              user_id: user?.id,
+                              template_id: template.id,
+                              old_data: previous,
+                              new_data: template
+                            })
+                            addToast({ type: 'success', title: `Reason ${template.label} saved` })
+                          }}
+                          onError={(message) => addToast({ type: 'error', title: 'Reason update failed', message })}
+                        />
+                      )}
+
+                      {showReconciliation && (
+                        <StatementReconciliation
+                          loadProofs={loadReconciliationProofs}
+                          qrNames={paymentFilterOptions.qrNames}
+                          onApprove={handleApproveReconciled}
+                          onClose={() => setShowReconciliation(false)}
+                        />
+                      )}
+
+                      {/* Bulk actions */}
+                      {payments.some(p => p.status === 'pending') && (
+                        <div className="mb-4 flex flex-wrap items-center gap-3 p-3 bg-white/5 rounded-xl border border-white/10 text-sm">
+                          <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={payments.filter(p => p.status === 'pending').every(p => selectedPayments.has(p.id))}
+                              onChange={(e) => setSelectedPayments(e.target.checked
+                                ? new Set(payments.filter(p => p.status === 'pending').map(p => p.id))
+                                : new Set())}
+                            />
+                            Select pending on this page
+                          </label>
+                          {selectedPayments.size > 0 && (
+                            <>
+                              <span className="text-white/60">{selectedPayments.size} selected</span>
+                              <button
+                                onClick={() => runBulkAction('approve', payments.filter(p => selectedPayments.has(p.id)), null)}
+                                disabled={bulkRun?.running}
+                                className="px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                              >
+                                <CheckCircle className="w-4 h-4 inline mr-1" />
+                                Approve {selectedPayments.size}
+                              </button>
+                              <select
+                                value={rejectionTemplates.find(t => t.message === bulkReason)?.id ?? ''}
+                                onChange={(e) => setBulkReason(rejectionTemplates.find(t => t.id === e.target.value)?.message ?? '')}
+                                className="px-3 py-1.5 bg-white/10 border border-white/20 rounded-lg text-white"
+                              >
+                                <option value="" className="bg-gray-800">Reason…</option>
+                                {rejectionTemplates.map(template => (
+                                  <option key={template.id} value={template.id} className="bg-gray-800">{template.label}</option>
+                                ))}
+                              </select>
+                              <input
+                                value={bulkReason}
+                                onChange={(e) => setBulkReason(e.target.value)}
+                                placeholder="Rejection reason shown to payers"
+                                className="flex-1 min-w-48 px-3 py-1.5 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50"
+                              />
+                              <label className="flex items-center gap-1 text-white/70" title="Final rejections give seats in capacity-limited events to the waitlist">
+                                <input type="checkbox" checked={bulkFinal} onChange={(e) => setBulkFinal(e.target.checked)} />
+                                Final
+                              </label>
+                              <button
+                                onClick={handleBulkReject}
+                                disabled={bulkRun?.running || !bulkReason.trim()}
+                                className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                              >
+                                <XCircle className="w-4 h-4 inline mr-1" />
+                                Reject {selectedPayments.size}
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      )}
+
+                      {bulkRun && (
+                        <div className="mb-4 p-4 bg-white/5 rounded-xl border border-white/10 text-sm">
+                          <div className="flex items-center justify-between mb-2">
+                            <span className="font-medium">
+                              {bulkRun.running && <Loader2 className="w-4 h-4 inline mr-1 animate-spin" />}
+                              {bulkRun.action === 'approve' ? 'Approving' : 'Rejecting'} {bulkRun.progress.done}/{bulkRun.progress.total}
+                              {bulkRun.progress.failed > 0 && <span className="text-red-300"> • {bulkRun.progress.failed} failed</span>}
+                            </span>
+                            {!bulkRun.running && (
+                              <div className="flex gap-2">
+                                {bulkRun.failures.length > 0 && (
+                                  <button
+                                    onClick={() => runBulkAction(bulkRun.action, bulkRun.failures.map(f => f.item), bulkRun.reason, bulkRun.final)}
+                                    className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+                                  >
+                                    <RotateCcw className="w-3 h-3 inline mr-1" />
+                                    Retry failed
+                                  </button>
+                                )}
+                                <button onClick={() => setBulkRun(null)} className="px-3 py-1 bg-white/10 rounded hover:bg-white/20">
+                                  Dismiss
+                                </button>
+                              </div>
+                            )}
+                          </div>
+                          <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-green-500 transition-all"
+                              style={{ width: `${bulkRun.progress.total ? (bulkRun.progress.done / bulkRun.progress.total) * 100 : 0}%` }}
+                            />
+                          </div>
+                          {bulkRun.failures.length > 0 && (
+                            <ul className="mt-3 space-y-1 text-red-300">
+                              {bulkRun.failures.map(({ item, message }) => (
+                                <li key={item.id}>{item.name || item.id} ({item.event_title}): {message}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      )}
+
                       {/* Payments List */}
                       {payments.length === 0 ? (
                         <div className="text-center py-12">
@@ -1070,6 +2134,19 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                               <div className="flex flex-col md:flex-row md:items-center gap-4">
                                 <div className="flex-1">
                                   <div className="flex items-center gap-2 mb-2">
+                                    {payment.status === 'pending' && (
+                                      <input
+                                        type="checkbox"
+                                        aria-label={`Select payment from ${payment.name}`}
+                                        checked={selectedPayments.has(payment.id)}
+                                        onChange={(e) => setSelectedPayments(prev => {
+                                          const next = new Set(prev)
+                                          if (e.target.checked) next.add(payment.id)
+                                          else next.delete(payment.id)
+                                          return next
+                                        })}
+                                      />
+                                    )}
                                     <h3 className="font-semibold">{payment.name}</h3>
                                     <span className={`px-2 py-1 rounded-full text-xs ${
                                       payment.status === 'pending' ? 'bg-yellow-500/20 text-yellow-300' :
@@ -1079,25 +2156,111 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                                       {payment.status}
                                     </span>
                                   </div>
-                                  <p className="text-sm text-white/80">{payment.event_title}</p>
+                                  <p className="text-sm text-white/80">
+                                    {payment.event_title}
+                                    {payment.team_id && <span className="ml-2 px-2 py-0.5 bg-purple-500/20 text-purple-300 rounded-full text-xs">Team payment</span>}
+                                    {payment.bundle_id && <span className="ml-2 px-2 py-0.5 bg-indigo-500/20 text-indigo-300 rounded-full text-xs">Combo pass</span>}
+                                    {payment.payment_method === 'razorpay' && (
+                                      <span className="ml-2 px-2 py-0.5 bg-blue-500/20 text-blue-300 rounded-full text-xs">Paid online • {payment.utr_or_ref}</span>
+                                    )}
+                                  </p>
                                   <div className="flex flex-wrap gap-4 mt-2 text-sm text-white/60">
-                                    <span>₹{payment.amount}</span>
+                                    <span>
+                                      ₹{payment.amount}
+                                      {payment.pricing && payment.pricing.amount !== payment.pricing.base_price && (
+                                        <span className="ml-1 line-through text-white/40">₹{payment.pricing.base_price}</span>
+                                      )}
+                                    </span>
+                                    {payment.payment_reference && (
+                                      <span className="px-2 py-0.5 bg-white/10 rounded-full text-xs font-mono">Ref {payment.payment_reference}</span>
+                                    )}
+                                    {payment.pricing?.tier && (
+                                      <span className="px-2 py-0.5 bg-white/10 rounded-full text-xs">{payment.pricing.tier}</span>
+                                    )}
+                                    {payment.pricing?.coupon_code && (
+                                      <span className="px-2 py-0.5 bg-green-500/20 text-green-300 rounded-full text-xs">
+                                        {payment.pricing.coupon_code} −₹{payment.pricing.discount}
+                                      </span>
+                                    )}
                                     <span>{payment.user_email}</span>
                                     {payment.roll_no && <span>{payment.roll_no}</span>}
                                     <span>{new Date(payment.created_at).toLocaleDateString()}</span>
                                   </div>
+                                  {(() => {
+                                    const duplicates = findDuplicates(payment, fingerprints)
+                                    if (duplicates.length === 0) return null
+                                    const blocked = payment.status === 'pending' && !!conflictingUtr(duplicates)
+                                    return (
+                                      <button
+                                        onClick={() => setDuplicateReview(payment)}
+                                        className={`mt-2 px-2 py-0.5 rounded-full text-xs ${
+                                          blocked ? 'bg-red-500/20 text-red-300' : 'bg-yellow-500/20 text-yellow-300'
+                                        }`}
+                                      >
+                                        <AlertTriangle className="w-3 h-3 inline mr-1" />
+                                        {blocked ? 'UTR already used' : 'Possible duplicate'} ({duplicates.length}) • Compare
+                                        {duplicatesCleared.has(payment.id) && ' • reviewed'}
+                                      </button>
+                                    )
+                                  })()}
                                   {payment.reason && (
                                     <p className="text-sm text-red-300 mt-1">
                                       Reason: {payment.reason}
                                     </p>
                                   )}
+                                  {payment.payment_method !== 'razorpay' && (
+                                    <div className="mt-2 text-xs">
+                                      {ocrRunning === payment.id ? (
+                                        <span className="text-white/60 inline-flex items-center gap-1">
+                                          <Loader2 className="w-3 h-3 animate-spin" /> Reading screenshot...
+                                        </span>
+                                      ) : payment.ocr_status === 'success' && payment.ocr_result ? (
+                                        <div className="space-y-1">
+                                          <div className="flex flex-wrap gap-3 text-white/70">
+                                            <span>UTR: {payment.ocr_result.utr ?? '—'}</span>
+                                            <span>Ref: {payment.ocr_result.reference ?? '—'}</span>
+                                            <span>Read amount: {payment.ocr_result.amount != null ? `₹${payment.ocr_result.amount}` : '—'}</span>
+                                            <span>Date: {payment.ocr_result.date ?? '—'}</span>
+                                            <span>Payee: {payment.ocr_result.payee ?? '—'}</span>
+                                          </div>
+                                          <div className="flex flex-wrap gap-2">
+                                            {getOcrFlags(payment.ocr_result, {
+                                              amount: payment.expected_amount ?? null,
+                                              payee: payment.expected_payee ?? null,
+                                              reference: payment.payment_reference
+                                            }).map(flag => (
+                                              <span
+                                                key={flag.kind}
+                                                className={`px-2 py-0.5 rounded-full ${
+                                                  flag.kind === 'amount_mismatch' || flag.kind === 'payee_mismatch' || flag.kind === 'reference_mismatch'
+                                                    ? 'bg-red-500/20 text-red-300'
+                                                    : 'bg-yellow-500/20 text-yellow-300'
+                                                }`}
+                                              >
+                                                <AlertTriangle className="w-3 h-3 inline mr-1" />
+                                                {flag.message}
+                                              </span>
+                                            ))}
+                                          </div>
+                                        </div>
+                                      ) : payment.ocr_status === 'failed' ? (
+                                        <span className="text-yellow-300">
+                                          OCR could not read the screenshot{' '}
+                                          <button onClick={() => handleRunOcr(payment)} className="underline">Retry</button>
+                                        </span>
+                                      ) : (
+                                        <button onClick={() => handleRunOcr(payment)} className="text-white/60 underline">Read screenshot</button>
+                                      )}
+                                    </div>
+                                  )}
                                 </div>
                                 
                                 {payment.status === 'pending' && (
                                   <div className="flex gap-2">
                                     <button
                                       onClick={() => handleApprovePayment(payment)}
-                                      className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm"
+                                      disabled={!!conflictingUtr(findDuplicates(payment, fingerprints))}
+                                      className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
                                     >
                                       <CheckCircle className="w-4 h-4 inline mr-1" />
                                       Approve
@@ -1116,6 +2279,30 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                           ))}
                         </div>
                       )}
+
+                      {paymentTotal > PAYMENT_PAGE_SIZE && (
+                        <div className="flex items-center justify-between mt-6 text-sm">
+                          <span className="text-white/60">
+                            {paymentPage * PAYMENT_PAGE_SIZE + 1}–{Math.min((paymentPage + 1) * PAYMENT_PAGE_SIZE, paymentTotal)} of {paymentTotal}
+                          </span>
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => setPaymentPage(page => page - 1)}
+                              disabled={paymentPage === 0}
+                              className="px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 disabled:opacity-50"
+                            >
+                              Previous
+                            </button>
+                            <button
+                              onClick={() => setPaymentPage(page => page + 1)}
+                              disabled={(paymentPage + 1) * PAYMENT_PAGE_SIZE >= paymentTotal}
+                              className="px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 disabled:opacity-50"
+                            >
+                              Next
+                            </button>
+                          </div>
+                        </div>
+                      )}
                     </div>
                   )}
 
@@ -1129,7 +2316,15 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                             setEditingEvent(null)
                             setEventForm({
                               title: '', description: '', tagline: '', venue: '', schedule: '',
-                              price: '', capacity: '', contact_email: '', contact_phone: ''
+                              price: '', capacity: '', contact_email: '', contact_phone: '',
+                              ticket_primary_color: DEFAULT_TICKET_TEMPLATE.primaryColor,
+                              ticket_accent_color: DEFAULT_TICKET_TEMPLATE.accentColor,
+                              ticket_terms: '',
+                              allow_transfers: true,
+                              sessions: [],
+                              price_tiers: [],
+                              team_min_size: '',
+                              team_max_size: ''
                             })
                             setShowEventForm(true)
                           }}
@@ -1166,14 +2361,21 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                                     {event.venue}
                                   </div>
                                 )}
-                                {event.schedule && (
+                                {formatEventSchedule(event) && (
                                   <div className="flex items-center gap-2">
                                     <Calendar className="w-3 h-3" />
-                                    {event.schedule}
+                                    {formatEventSchedule(event)}
                                   </div>
                                 )}
                                 {event.price && (
-                                  <div>₹{event.price}</div>
+                                  <div>
+                                    ₹{event.price}
+                                    {parsePriceTiers(event.price_tiers).map(tier => (
+                                      <span key={tier.label} className="ml-2 px-2 py-0.5 bg-white/10 rounded-full text-xs">
+                                        {tier.label} ₹{tier.price}
+                                      </span>
+                                    ))}
+                                  </div>
                                 )}
                               </div>
                               <div className="flex gap-2 mt-4">
@@ -1191,17 +2393,159 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                                   <Trash2 className="w-3 h-3 inline mr-1" />
                                   Delete
                                 </button>
+                                {event.capacity && (
+                                  <button
+                                    onClick={() => toggleWaitlist(event.id)}
+                                    className="px-3 py-1 bg-white/10 text-white rounded text-sm hover:bg-white/20"
+                                  >
+                                    <Users className="w-3 h-3 inline mr-1" />
+                                    Waitlist
+                                  </button>
+                                )}
                               </div>
+                              {waitlist?.eventId === event.id && (
+                                <div className="mt-3 space-y-2 text-sm">
+                                  {waitlist.entries.length === 0 ? (
+                                    <p className="text-white/60">Nobody is waiting</p>
+                                  ) : waitlist.entries.map((entry) => {
+                                    const waiting = waitlist.entries.filter(e => e.status === 'waiting')
+                                    const place = waiting.findIndex(e => e.id === entry.id)
+                                    return (
+                                      <div key={entry.id} className="flex items-center justify-between gap-2 bg-white/5 rounded p-2">
+                                        <div className="min-w-0">
+                                          <div className="truncate">{entry.user_email || entry.user_id}</div>
+                                          <div className="text-xs text-white/50">
+                                            {entry.status === 'offered'
+                                              ? `Seat offered until ${new Date(entry.offer_expires_at!).toLocaleString('en-IN')}`
+                                              : `#${place + 1} • joined ${new Date(entry.created_at).toLocaleString('en-IN')}`}
+                                          </div>
+                                        </div>
+                                        {entry.status === 'waiting' && (
+                                          <div className="flex gap-1">
+                                            <button
+                                              onClick={() => handleMoveWaitlistEntry(entry, -1)}
+                                              disabled={place === 0}
+                                              title="Move up"
+                                              className="p-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-30"
+                                            >
+                                              <ChevronUp className="w-3 h-3" />
+                                            </button>
+                                            <button
+                                              onClick={() => handleMoveWaitlistEntry(entry, 1)}
+                                              disabled={place === waiting.length - 1}
+                                              title="Move down"
+                                              className="p-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-30"
+                                            >
+                                              <ChevronDown className="w-3 h-3" />
+                                            </button>
+                                          </div>
+                                        )}
+                                      </div>
+                                    )
+                                  })}
+                                </div>
+                              )}
                             </div>
                           ))}
                         </div>
                       )}
+
+                      <BundleManager
+                        events={events.filter(e => e.price).map(e => ({ id: e.id, title: e.title, price: e.price, team_max_size: e.team_max_size }))}
+                        onSaved={(bundle, previous) => {
+                          logSecurityEvent(previous ? 'bundle_updated' : 'bundle_created', {
+                            user_id: user?.id,
+                            bundle_id: bundle.id,
+                            old_data: previous,
+                            new_data: bundle
+                          })
+                          addToast({ type: 'success', title: `${bundle.name} saved` })
+                        }}
+                        onError={(message) => addToast({ type: 'error', title: 'Pass update failed', message })}
+                      />
+
+                      <CouponManager
+                        events={events.filter(e => e.price).map(e => ({ id: e.id, title: e.title }))}
+                        onSaved={(coupon, previous) => {
+                          logSecurityEvent(previous ? 'coupon_updated' : 'coupon_created', {
+                            user_id: user?.id,
+                            coupon_id: coupon.id,
+                            old_data: previous,
+                            new_data: coupon
+                          })
+                          addToast({ type: 'success', title: `Coupon ${coupon.code} saved` })
+                        }}
+                        onError={(message) => addToast({ type: 'error', title: 'Coupon update failed', message })}
+                      />
                     </div>
                   )}
 
                   {/* TICKETS TAB */}
                   {activeTab === 'tickets' && hasPermission('can_view_tickets') && (
                     <div>
+                      {/* Spreadsheets include profile details, so they need user access too */}
+                      {hasPermission('can_view_users') && (
+                        <ParticipantExport
+                          onExported={handleParticipantsExported}
+                          onError={(message) => addToast({ type: 'error', title: 'Export failed', message })}
+                        />
+                      )}
+
+                      {/* Per-event ZIP export */}
+                      {tickets.length > 0 && (
+                        <div className="mb-6 bg-white/5 rounded-xl p-4 border border-white/10">
+                          <div className="flex flex-col md:flex-row md:items-center gap-3">
+                            <select
+                              value={archiveEventId}
+                              onChange={(e) => setArchiveEventId(e.target.value)}
+                              disabled={!!archiveProgress}
+                              className="flex-1 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white"
+                            >
+                              <option value="" className="text-black">Select event to export…</option>
+                              {[...new Map(tickets.map(t => [t.event_id, t.event_title])).entries()].map(([id, title]) => (
+                                <option key={id} value={id} className="text-black">
+                                  {title} ({tickets.filter(t => t.event_id === id).length})
+                                </option>
+                              ))}
+                            </select>
+                            <button
+                              onClick={handleExportTicketArchive}
+                              disabled={!archiveEventId || !!archiveProgress}
+                              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                            >
+                              {archiveProgress
+                                ? <Loader2 className="w-4 h-4 inline mr-2 animate-spin" />
+                                : <Download className="w-4 h-4 inline mr-2" />}
+                              Export ZIP
+                            </button>
+                          </div>
+                          {archiveProgress && archiveProgress.total > 0 && (
+                            <div className="mt-3">
+                              <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+                                <div
+                                  className="h-full bg-blue-500 transition-all"
+                                  style={{ width: `${(archiveProgress.done / archiveProgress.total) * 100}%` }}
+                                />
+                              </div>
+                              <p className="mt-1 text-xs text-white/60">
+                                {archiveProgress.done} / {archiveProgress.total} PDFs
+                                {archiveProgress.failed > 0 && ` • ${archiveProgress.failed} failed`}
+                              </p>
+                            </div>
+                          )}
+                          {archiveErrors.length > 0 && (
+                            <ul className="mt-3 space-y-1 text-sm text-red-300">
+                              {archiveErrors.map((fileError) => (
+                                <li key={fileError.ticketCode}>{fileError.ticketCode}: {fileError.message}</li>
+                              ))}
+                            </ul>
+                          )}
+                          <p className="mt-2 text-xs text-white/50">
+                            Includes active and used tickets, plus manifest.csv. Revoked and reissued tickets are left out.
+                          </p>
+                        </div>
+                      )}
+
                       {tickets.length === 0 ? (
                         <div className="text-center py-12">
                           <Download className="w-16 h-16 mx-auto mb-4 opacity-50" />
@@ -1215,9 +2559,12 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                                 <div className="flex-1">
                                   <div className="flex items-center gap-2 mb-2">
                                     <h3 className="font-semibold">{ticket.holder_name}</h3>
-                                    <span className="px-2 py-1 bg-green-500/20 text-green-300 rounded-full text-xs">
+                                    <span className="px-2 py-1 bg-white/10 text-white/80 rounded-full text-xs">
                                       {ticket.ticket_code}
                                     </span>
+                                    <span className={`px-2 py-1 rounded-full text-xs ${ticketStatusStyles[getTicketStatus(ticket)]}`}>
+                                      {getTicketStatus(ticket)}
+                                    </span>
                                   </div>
                                   <p className="text-sm text-white/80">{ticket.event_title}</p>
                                   <div className="flex flex-wrap gap-4 mt-2 text-sm text-white/60">
@@ -1225,8 +2572,72 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                                     {ticket.roll_no && <span>{ticket.roll_no}</span>}
                                     <span>{new Date(ticket.created_at).toLocaleDateString()}</span>
                                   </div>
+                                  {ticket.status_reason && (
+                                    <p className="mt-2 text-sm text-white/60">
+                                      Reason: {ticket.status_reason}
+                                      {ticket.status_changed_at && ` • ${new Date(ticket.status_changed_at).toLocaleString()}`}
+                                    </p>
+                                  )}
+                                  {getTransferChain(ticket, tickets).length > 1 && (
+                                    <p className="mt-2 text-sm text-white/60">
+                                      Transfer chain:{' '}
+                                      {getTransferChain(ticket, tickets).map((link, index) => (
+                                        <span key={link.id} className={link.id === ticket.id ? 'text-white font-medium' : ''}>
+                                          {index > 0 && ' → '}
+                                          {link.holder_name} ({link.ticket_code})
+                                        </span>
+                                      ))}
+                                    </p>
+                                  )}
                                 </div>
-                                <div className="flex gap-2">
+                                <div className="flex flex-wrap gap-2">
+                                  {hasPermission('can_approve_payments') && (
+                                    <>
+                                      {canTransition(getTicketStatus(ticket), 'reissued') && (
+                                        <button
+                                          onClick={() => handleReissueTicket(ticket)}
+                                          className="px-3 py-1 bg-purple-600 text-white rounded text-sm hover:bg-purple-700"
+                                        >
+                                          <RotateCcw className="w-3 h-3 inline mr-1" />
+                                          Reissue
+                                        </button>
+                                      )}
+                                      {canTransition(getTicketStatus(ticket), 'used') && (
+                                        <button
+                                          onClick={() => handleTicketTransition(ticket, 'used')}
+                                          className="px-3 py-1 bg-gray-600 text-white rounded text-sm hover:bg-gray-700"
+                                        >
+                                          <CheckCircle className="w-3 h-3 inline mr-1" />
+                                          Mark Used
+                                        </button>
+                                      )}
+                                      {canTransition(getTicketStatus(ticket), 'revoked') && (
+                                        <button
+                                          onClick={() => handleTicketTransition(ticket, 'revoked')}
+                                          className="px-3 py-1 bg-red-600 text-white rounded text-sm hover:bg-red-700"
+                                        >
+                                          <XCircle className="w-3 h-3 inline mr-1" />
+                                          Revoke
+                                        </button>
+                                      )}
+                                      {canTransition(getTicketStatus(ticket), 'active') && (
+                                        <button
+                                          onClick={() => handleTicketTransition(ticket, 'active')}
+                                          className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700"
+                                        >
+                                          <CheckCircle className="w-3 h-3 inline mr-1" />
+                                          Reinstate
+                                        </button>
+                                      )}
+                                    </>
+                                  )}
+                                  <button
+                                    onClick={() => toggleTicketHistory(ticket)}
+                                    className="px-3 py-1 bg-white/10 text-white rounded text-sm hover:bg-white/20"
+                                  >
+                                    <Clock className="w-3 h-3 inline mr-1" />
+                                    History
+                                  </button>
                                   <button
                                     onClick={() => {
                                       if (ticket.qr_data) {
@@ -1254,6 +2665,127 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                                   </button>
                                 </div>
                               </div>
+                              {ticketHistory?.ticketId === ticket.id && (
+                                <div className="mt-4 pt-4 border-t border-white/10 text-sm">
+                                  {ticketHistory.entries.length === 0 ? (
+                                    <p className="text-white/60">No status changes recorded</p>
+                                  ) : (
+                                    <ul className="space-y-2">
+                                      {ticketHistory.entries.map((entry) => (
+                                        <li key={entry.id} className="text-white/80">
+                                          <span className="text-white/50">{new Date(entry.created_at).toLocaleString()}</span>
+                                          {' • '}
+                                          {entry.ticket_id === ticket.id
+                                            ? `${entry.from_status} → ${entry.to_status}`
+                                            : `issued as replacement`}
+                                          {' • '}
+                                          {entry.reason}
+                                          <span className="text-white/50"> (by {entry.actor_id})</span>
+                                        </li>
+                                      ))}
+                                    </ul>
+                                  )}
+                                </div>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* REFUNDS TAB */}
+                  {activeTab === 'refunds' && hasPermission('can_approve_payments') && (
+                    <div>
+                      <div className="mb-6 flex flex-wrap gap-2">
+                        {(['requested', 'approved', 'paid', 'denied', 'all'] as const).map(status => (
+                          <button
+                            key={status}
+                            onClick={() => setRefundFilter(status)}
+                            className={`px-4 py-2 rounded-lg text-sm capitalize ${
+                              refundFilter === status
+                                ? 'bg-white/20 text-white'
+                                : 'bg-white/10 text-white/70 hover:bg-white/15'
+                            }`}
+                          >
+                            {status}
+                          </button>
+                        ))}
+                      </div>
+
+                      {refunds.length === 0 ? (
+                        <div className="text-center py-12">
+                          <Banknote className="w-16 h-16 mx-auto mb-4 opacity-50" />
+                          <p className="text-white/70">No refund requests</p>
+                        </div>
+                      ) : (
+                        <div className="space-y-4">
+                          {refunds.map((refund) => (
+                            <div key={refund.id} className="bg-white/5 rounded-xl p-4 border border-white/10">
+                              <div className="flex flex-col md:flex-row md:items-center gap-4">
+                                <div className="flex-1">
+                                  <div className="flex items-center gap-2 mb-2">
+                                    <h3 className="font-semibold">{refund.event_title}</h3>
+                                    <span className={`px-2 py-1 rounded-full text-xs ${
+                                      refund.status === 'requested' ? 'bg-yellow-500/20 text-yellow-300' :
+                                      refund.status === 'approved' ? 'bg-blue-500/20 text-blue-300' :
+                                      refund.status === 'paid' ? 'bg-green-500/20 text-green-300' :
+                                      'bg-red-500/20 text-red-300'
+                                    }`}>
+                                      {refund.status}
+                                    </span>
+                                    <span className="px-2 py-0.5 bg-white/10 rounded-full text-xs">
+                                      {refund.ticket_id ? 'Ticket' : 'Payment'}
+                                    </span>
+                                  </div>
+                                  <div className="flex flex-wrap gap-4 text-sm text-white/70">
+                                    <span>₹{refund.amount ?? '—'}</span>
+                                    <span>{refund.user_email ?? refund.user_id}</span>
+                                    <span>{REFUND_REASON_LABELS[refund.reason]}</span>
+                                    <span>{new Date(refund.created_at).toLocaleDateString()}</span>
+                                  </div>
+                                  {refund.details && <p className="text-sm text-white/60 mt-1">{refund.details}</p>}
+                                  <p className="text-sm text-white/80 mt-1">
+                                    Pay to {refund.upi_id} ({refund.upi_name})
+                                  </p>
+                                  {refund.admin_notes && <p className="text-sm text-white/60 mt-1">Notes: {refund.admin_notes}</p>}
+                                  {refund.payout_reference && (
+                                    <p className="text-sm text-green-300 mt-1">
+                                      Paid {refund.paid_at && new Date(refund.paid_at).toLocaleString('en-IN')} • UTR {refund.payout_reference}
+                                    </p>
+                                  )}
+                                </div>
+
+                                <div className="flex gap-2">
+                                  {refund.status === 'requested' && (
+                                    <button
+                                      onClick={() => handleRefundDecision(refund, 'approved')}
+                                      className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm"
+                                    >
+                                      <CheckCircle className="w-4 h-4 inline mr-1" />
+                                      Approve
+                                    </button>
+                                  )}
+                                  {refund.status === 'approved' && (
+                                    <button
+                                      onClick={() => handleIssueRefund(refund)}
+                                      className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm"
+                                    >
+                                      <Banknote className="w-4 h-4 inline mr-1" />
+                                      Mark Paid
+                                    </button>
+                                  )}
+                                  {(refund.status === 'requested' || refund.status === 'approved') && (
+                                    <button
+                                      onClick={() => handleRefundDecision(refund, 'denied')}
+                                      className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm"
+                                    >
+                                      <XCircle className="w-4 h-4 inline mr-1" />
+                                      Deny
+                                    </button>
+                                  )}
+                                </div>
+                              </div>
                             </div>
                           ))}
                         </div>
@@ -1264,6 +2796,11 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                   {/* USERS TAB */}
                   {activeTab === 'users' && hasPermission('can_view_users') && (
                     <div>
+                      <ParticipantExport
+                        onExported={handleParticipantsExported}
+                        onError={(message) => addToast({ type: 'error', title: 'Export failed', message })}
+                      />
+
                       {users.length === 0 ? (
                         <div className="text-center py-12">
                           <Users className="w-16 h-16 mx-auto mb-4 opacity-50" />
@@ -1426,7 +2963,7 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                                               className={`h-2 rounded-full ${
                                                 qr.daily_count >= qr.max_daily_payments 
                                                   ? 'bg-red-500' 
-                                                  : qr.daily_count >= 15 
+                                                  : isQRBusy(qr)
                                                   ? 'bg-yellow-500' 
                                                   : 'bg-green-500'
                                               }`}
@@ -1448,7 +2985,7 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                                         }`}>
                                           {qr.status === 'temp_disabled' ? 'Temp Disabled' :
                                            qr.status === 'unused_today' ? 'Unused Today' :
-                                           qr.status === 'full_today' ? 'Full (20/20)' :
+                                           qr.status === 'full_today' ? `Full (${qr.daily_count}/${qr.max_daily_payments})` :
                                            qr.status === 'active' ? 'Active' : qr.status}
                                         </span>
                                       </td>
@@ -1509,7 +3046,7 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                               
                               <button
                                 onClick={async () => {
-                                  if (confirm('Are you sure you want to reset all QR daily limits? This will set all QRs back to 0/20.')) {
+                                  if (confirm('Are you sure you want to reset all QR daily limits? This will set the payment count of every QR back to 0 for today.')) {
                                     try {
                                       await forceResetAllQRs()
                                       addToast({ type: 'success', title: 'All QR codes reset successfully!' })
@@ -1532,7 +3069,7 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                               <ul className="text-xs text-yellow-200 mt-2 space-y-1">
                                 <li><strong>Refresh Stats:</strong> Updates current QR status and statistics</li>
                                 <li><strong>Run Maintenance:</strong> Performs daily cleanup and resets expired QRs</li>
-                                <li><strong>Force Reset All:</strong> Immediately resets all QRs to 0/20 (use carefully)</li>
+                                <li><strong>Force Reset All:</strong> Immediately resets every QR's count for today to 0 (use carefully)</li>
                               </ul>
                             </div>
                           </div>
@@ -1554,9 +3091,32 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                           </button>
                         </div>
                       )}
+
+                      <QRPoolEditor
+                        events={events.map(e => ({ id: e.id, title: e.title }))}
+                        onSaved={(qr, previous) => {
+                          logSecurityEvent(previous ? 'qr_code_updated' : 'qr_code_created', {
+                            user_id: user?.id,
+                            qr_code_id: qr.id,
+                            old_data: previous,
+                            new_data: qr
+                          })
+                          addToast({ type: 'success', title: `${qr.qr_name} saved` })
+                          loadQRStats().catch(() => {})
+                        }}
+                        onError={(message) => addToast({ type: 'error', title: 'QR update failed', message })}
+                      />
                     </div>
                   )}
 
+                  {/* ANALYTICS TAB */}
+                  {activeTab === 'analytics' && hasPermission('can_approve_payments') && (
+                    <AnalyticsPanel
+                      onLoaded={handleAnalyticsLoaded}
+                      onError={(message) => addToast({ type: 'error', title: 'Failed to load analytics', message })}
+                    />
+                  )}
+
                   {/* Permission Denied Messages */}
                   {activeTab === 'payments' && !hasPermission('can_approve_payments') && (
                     <div className="text-center py-12">
@@ -1565,6 +3125,13 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                     </div>
                   )}
 
+                  {activeTab === 'refunds' && !hasPermission('can_approve_payments') && (
+                    <div className="text-center py-12">
+                      <Lock className="w-16 h-16 mx-auto mb-4 text-red-400" />
+                      <p className="text-red-300">🚫 Access Denied: Payment approval permission required</p>
+                    </div>
+                  )}
+
                   {activeTab === 'events' && !hasPermission('can_manage_events') && (
                     <div className="text-center py-12">
                       <Lock className="w-16 h-16 mx-auto mb-4 text-red-400" />
@@ -1586,6 +3153,13 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                     </div>
                   )}
 
+                  {activeTab === 'analytics' && !hasPermission('can_approve_payments') && (
+                    <div className="text-center py-12">
+                      <Lock className="w-16 h-16 mx-auto mb-4 text-red-400" />
+                      <p className="text-red-300">🚫 Access Denied: Payment approval permission required</p>
+                    </div>
+                  )}
+
                   {activeTab === 'qr-admin' && !hasPermission('can_manage_qr_codes') && (
                     <div className="text-center py-12">
                       <Lock className="w-16 h-16 mx-auto mb-4 text-red-400" />
@@ -1660,11 +3234,12 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                 </div>
                 
                 <div>
-                  <label className="block text-sm font-medium mb-1">Schedule</label>
+                  <label className="block text-sm font-medium mb-1">Schedule Notes</label>
                   <input
                     type="text"
                     value={eventForm.schedule}
                     onChange={(e) => setEventForm({...eventForm, schedule: e.target.value})}
+                    placeholder="Shown when no sessions are set"
                     className="w-full px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
                   />
                 </div>
@@ -1689,6 +3264,28 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                   />
                 </div>
                 
+                <div>
+                  <label className="block text-sm font-medium mb-1">Team Size (min – max)</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min={1}
+                      value={eventForm.team_min_size}
+                      onChange={(e) => setEventForm({...eventForm, team_min_size: e.target.value})}
+                      placeholder="Min"
+                      className="w-full px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
+                    />
+                    <input
+                      type="number"
+                      min={1}
+                      value={eventForm.team_max_size}
+                      onChange={(e) => setEventForm({...eventForm, team_max_size: e.target.value})}
+                      placeholder="Max (blank = solo)"
+                      className="w-full px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
+                    />
+                  </div>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium mb-1">Contact Email</label>
                   <input
@@ -1709,6 +3306,206 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
                   />
                 </div>
               </div>
+
+              <div className="pt-4 border-t dark:border-gray-700">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="font-medium">Price Tiers (IST)</h4>
+                  <button
+                    type="button"
+                    onClick={() => setEventForm({
+                      ...eventForm,
+                      price_tiers: [...eventForm.price_tiers, { label: '', price: '', starts_at: '', ends_at: '' }]
+                    })}
+                    className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+                  >
+                    <Plus className="w-3 h-3 inline mr-1" />
+                    Add Tier
+                  </button>
+                </div>
+                <p className="text-sm text-gray-500 mb-3">
+                  The first tier open at the time of payment applies, such as an early bird price; the price above applies when none is.
+                </p>
+                <div className="space-y-3">
+                  {eventForm.price_tiers.map((row, index) => {
+                    const updateRow = (changes: Partial<PriceTierFormRow>) => setEventForm({
+                      ...eventForm,
+                      price_tiers: eventForm.price_tiers.map((r, i) => i === index ? { ...r, ...changes } : r)
+                    })
+                    return (
+                      <div key={index} className="grid grid-cols-1 md:grid-cols-2 gap-2 p-3 border rounded-lg dark:border-gray-600">
+                        <input
+                          type="text"
+                          value={row.label}
+                          onChange={(e) => updateRow({ label: e.target.value })}
+                          placeholder="Label, e.g. Early bird"
+                          className="px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
+                        />
+                        <input
+                          type="number"
+                          value={row.price}
+                          onChange={(e) => updateRow({ price: e.target.value })}
+                          placeholder="Price (₹)"
+                          className="px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
+                        />
+                        <label className="text-xs text-gray-500">
+                          From (optional)
+                          <input
+                            type="datetime-local"
+                            value={row.starts_at}
+                            onChange={(e) => updateRow({ starts_at: e.target.value })}
+                            className="w-full px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600 text-sm text-gray-900 dark:text-white"
+                          />
+                        </label>
+                        <label className="text-xs text-gray-500">
+                          Until (optional)
+                          <input
+                            type="datetime-local"
+                            value={row.ends_at}
+                            onChange={(e) => updateRow({ ends_at: e.target.value })}
+                            className="w-full px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600 text-sm text-gray-900 dark:text-white"
+                          />
+                        </label>
+                        <div className="md:col-span-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => setEventForm({
+                              ...eventForm,
+                              price_tiers: eventForm.price_tiers.filter((_, i) => i !== index)
+                            })}
+                            className="text-sm text-red-600 hover:underline"
+                          >
+                            <Trash2 className="w-3 h-3 inline mr-1" />
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+
+              <div className="pt-4 border-t dark:border-gray-700">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="font-medium">Sessions (IST)</h4>
+                  <button
+                    type="button"
+                    onClick={() => setEventForm({
+                      ...eventForm,
+                      sessions: [...eventForm.sessions, { title: '', start: '', end: '', venue: '' }]
+                    })}
+                    className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+                  >
+                    <Plus className="w-3 h-3 inline mr-1" />
+                    Add Session
+                  </button>
+                </div>
+                {eventForm.sessions.length === 0 && (
+                  <p className="text-sm text-gray-500">No sessions yet. Add at least one so the event can be sorted and exported to calendars.</p>
+                )}
+                <div className="space-y-3">
+                  {eventForm.sessions.map((row, index) => {
+                    const updateRow = (changes: Partial<SessionFormRow>) => setEventForm({
+                      ...eventForm,
+                      sessions: eventForm.sessions.map((r, i) => i === index ? { ...r, ...changes } : r)
+                    })
+                    return (
+                      <div key={index} className="grid grid-cols-1 md:grid-cols-2 gap-2 p-3 border rounded-lg dark:border-gray-600">
+                        <input
+                          type="text"
+                          value={row.title}
+                          onChange={(e) => updateRow({ title: e.target.value })}
+                          placeholder="Session title (optional)"
+                          className="px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
+                        />
+                        <input
+                          type="text"
+                          value={row.venue}
+                          onChange={(e) => updateRow({ venue: e.target.value })}
+                          placeholder="Venue (defaults to event venue)"
+                          className="px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
+                        />
+                        <label className="text-xs text-gray-500">
+                          Start
+                          <input
+                            type="datetime-local"
+                            value={row.start}
+                            onChange={(e) => updateRow({ start: e.target.value })}
+                            className="w-full px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600 text-sm text-gray-900 dark:text-white"
+                          />
+                        </label>
+                        <label className="text-xs text-gray-500">
+                          End
+                          <input
+                            type="datetime-local"
+                            value={row.end}
+                            onChange={(e) => updateRow({ end: e.target.value })}
+                            className="w-full px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600 text-sm text-gray-900 dark:text-white"
+                          />
+                        </label>
+                        <div className="md:col-span-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => setEventForm({
+                              ...eventForm,
+                              sessions: eventForm.sessions.filter((_, i) => i !== index)
+                            })}
+                            className="text-sm text-red-600 hover:underline"
+                          >
+                            <Trash2 className="w-3 h-3 inline mr-1" />
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+
+              <div className="pt-4 border-t dark:border-gray-700">
+                <h4 className="font-medium mb-3">Ticket Template</h4>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Primary Colour</label>
+                    <input
+                      type="color"
+                      value={eventForm.ticket_primary_color}
+                      onChange={(e) => setEventForm({...eventForm, ticket_primary_color: e.target.value})}
+                      className="w-full h-10 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Accent Colour</label>
+                    <input
+                      type="color"
+                      value={eventForm.ticket_accent_color}
+                      onChange={(e) => setEventForm({...eventForm, ticket_accent_color: e.target.value})}
+                      className="w-full h-10 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
+                    />
+                  </div>
+                </div>
+
+                <div className="mt-4">
+                  <label className="block text-sm font-medium mb-1">Terms (one per line)</label>
+                  <textarea
+                    value={eventForm.ticket_terms}
+                    onChange={(e) => setEventForm({...eventForm, ticket_terms: e.target.value})}
+                    placeholder={DEFAULT_TICKET_TEMPLATE.terms.join('\n')}
+                    className="w-full px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
+                    rows={3}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Venue, schedule and the event image are taken from the event details above.</p>
+                </div>
+
+                <label className="flex items-center gap-2 mt-4 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={eventForm.allow_transfers}
+                    onChange={(e) => setEventForm({...eventForm, allow_transfers: e.target.checked})}
+                  />
+                  Allow participants to transfer tickets
+                </label>
+              </div>
             </div>
             
             <div className="flex gap-3 mt-6">
@@ -1728,6 +3525,47 @@ export default function SecureUltimateAdminDashboard({ isOpen, onClose }: AdminD
           </div>
         </div>
       )}
+
+      {/* Duplicate comparison */}
+      {duplicateReview && (() => {
+        const matches = findDuplicates(duplicateReview, fingerprints)
+        const pending = duplicateReview.status === 'pending'
+        const conflict = conflictingUtr(matches)
+        return (
+          <DuplicateComparison
+            proof={duplicateReview}
+            matches={matches}
+            userLabels={Object.fromEntries(payments.map(p => [p.user_id, p.name || p.user_email || p.user_id]))}
+            onConfirmDistinct={pending && !conflict ? () => handleClearDuplicate(duplicateReview) : undefined}
+            blockedReason={pending && conflict
+              ? `UTR ${conflict.proof.utr_or_ref} is already used by a ${conflict.proof.status} payment and cannot be approved again.`
+              : undefined}
+            onReject={pending ? async () => {
+              setDuplicateReview(null)
+              // Drop it from an open review queue, which did not make this decision
+              if (await handleRejectPayment(duplicateReview, undefined, !reviewQueue)) {
+                setReviewQueue(prev => prev && prev.filter(p => p.id !== duplicateReview.id))
+              }
+            } : undefined}
+            onClose={() => setDuplicateReview(null)}
+          />
+        )
+      })()}
+
+      {reviewQueue && (
+        <PaymentReviewQueue
+          proofs={reviewQueue}
+          hasMore={reviewQueueMore}
+          onLoadMore={loadMoreReviewQueue}
+          fingerprints={fingerprints}
+          templates={rejectionTemplates}
+          onApprove={(proof) => handleApprovePayment(proof, false)}
+          onReject={(proof, reason, final) => handleRejectPayment(proof, reason, false, final)}
+          onCompare={setDuplicateReview}
+          paused={!!duplicateReview}
+          onClose={closeReviewQueue}
+        />
+      )}
       
       {/* Toast Notifications */}
       <ToastContainer toasts={toasts} onRemove={removeToast} />
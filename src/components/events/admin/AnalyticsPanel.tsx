@@ -0,0 +1,211 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Bar, BarChart, CartesianGrid, LabelList, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { Loader2, RotateCcw } from 'lucide-react'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '../../../editions/components/ui/chart'
+import { ANALYTICS_RANGES, funnel, loadAnalytics, type AnalyticsSnapshot } from '../../../lib/analytics'
+import { loadRejectionTemplates } from '../../../lib/rejectionTemplates'
+import { useLatest } from '../../../hooks/useLatest'
+
+interface AnalyticsPanelProps {
+  onLoaded: (days: number) => void
+  onError: (message: string) => void
+}
+
+const activityConfig = {
+  registrations: { label: 'Registrations', color: '#60a5fa' },
+  proofs: { label: 'Proofs submitted', color: '#fbbf24' },
+  approved: { label: 'Approved', color: '#34d399' }
+} satisfies ChartConfig
+
+const revenueConfig = { revenue: { label: 'Revenue (₹)', color: '#34d399' } } satisfies ChartConfig
+const countConfig = { count: { label: 'Count', color: '#a78bfa' } } satisfies ChartConfig
+
+// The admin panel is dark; chart.tsx assumes theme colours this app does not define
+const tick = { fill: 'rgba(255,255,255,0.6)', fontSize: 11 }
+const tooltipClass = 'bg-gray-900 border-white/10 text-white'
+
+const rupees = (value: number) => `₹${Math.round(value).toLocaleString('en-IN')}`
+
+const dayLabel = (day: string) =>
+  new Date(`${day}T00:00:00+05:30`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', timeZone: 'Asia/Kolkata' })
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white/5 rounded-xl p-4 border border-white/10">
+      <h3 className="font-semibold mb-3">{title}</h3>
+      {children}
+    </div>
+  )
+}
+
+// Horizontal bars, largest first, for breakdowns by name
+function RankedBars<T>({ data, labelKey, valueKey, config, format }: {
+  data: T[]
+  labelKey: keyof T & string
+  valueKey: keyof T & string
+  config: ChartConfig
+  format?: (value: number) => string
+}) {
+  if (data.length === 0) return <p className="text-sm text-white/60">Nothing yet</p>
+  const sorted = [...data].sort((a, b) => Number(b[valueKey]) - Number(a[valueKey]))
+  return (
+    <ChartContainer config={config} className="w-full aspect-auto" style={{ height: Math.max(120, sorted.length * 32) }}>
+      <BarChart data={sorted} layout="vertical" margin={{ left: 8, right: 48 }}>
+        <XAxis type="number" hide />
+        <YAxis type="category" dataKey={labelKey} width={140} tick={tick} tickLine={false} axisLine={false} />
+        <ChartTooltip content={<ChartTooltipContent className={tooltipClass} hideLabel />} />
+        <Bar dataKey={valueKey} fill={`var(--color-${valueKey})`} radius={4}>
+          <LabelList
+            dataKey={valueKey}
+            position="right"
+            className="fill-white/70"
+            fontSize={11}
+            formatter={(value: number) => format ? format(value) : value}
+          />
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  )
+}
+
+export default function AnalyticsPanel({ onLoaded, onError }: AnalyticsPanelProps) {
+  const [days, setDays] = useState<number>(30)
+  const [snapshot, setSnapshot] = useState<AnalyticsSnapshot | null>(null)
+  // Rejection messages from a template are shown by the template's label
+  const [reasonLabels, setReasonLabels] = useState<Map<string, string>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const onLoadedRef = useLatest(onLoaded)
+  const onErrorRef = useLatest(onError)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [data, templates] = await Promise.all([
+        loadAnalytics(days),
+        loadRejectionTemplates().catch(() => [])
+      ])
+      setSnapshot(data)
+      setReasonLabels(new Map(templates.map(t => [t.message, t.label])))
+      onLoadedRef.current(days)
+    } catch (err) {
+      onErrorRef.current((err as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }, [days, onLoadedRef, onErrorRef])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  if (!snapshot) {
+    return loading ? <Loader2 className="w-6 h-6 animate-spin" /> : null
+  }
+
+  const totals = snapshot.daily.reduce(
+    (sum, d) => ({
+      registrations: sum.registrations + d.registrations,
+      approved: sum.approved + d.approved,
+      revenue: sum.revenue + d.revenue
+    }),
+    { registrations: 0, approved: 0, revenue: 0 }
+  )
+  const stages = funnel(snapshot.events)
+  const rejections = snapshot.rejections.map(r => ({ ...r, label: reasonLabels.get(r.label) ?? r.label }))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {ANALYTICS_RANGES.map(range => (
+          <button
+            key={range}
+            onClick={() => setDays(range)}
+            className={`px-4 py-2 rounded-lg text-sm ${days === range ? 'bg-white/20 text-white' : 'bg-white/10 text-white/70 hover:bg-white/15'}`}
+          >
+            {range} days
+          </button>
+        ))}
+        <button
+          onClick={refresh}
+          disabled={loading}
+          className="ml-auto px-3 py-2 bg-white/10 rounded-lg text-sm hover:bg-white/20 disabled:opacity-50"
+        >
+          {loading ? <Loader2 className="w-4 h-4 inline mr-1 animate-spin" /> : <RotateCcw className="w-4 h-4 inline mr-1" />}
+          Refresh
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: `Registrations (${days}d)`, value: totals.registrations.toLocaleString('en-IN') },
+          { label: `Approved (${days}d)`, value: totals.approved.toLocaleString('en-IN') },
+          { label: `Revenue (${days}d)`, value: rupees(totals.revenue) },
+          { label: 'Registered → approved', value: `${Math.round(stages[2].share * 100)}%` }
+        ].map(tile => (
+          <div key={tile.label} className="bg-white/5 rounded-xl p-4 border border-white/10">
+            <div className="text-xs text-white/60">{tile.label}</div>
+            <div className="text-2xl font-bold mt-1">{tile.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <Section title="Registrations and payments per day">
+        <ChartContainer config={activityConfig} className="h-64 w-full aspect-auto">
+          <LineChart data={snapshot.daily} margin={{ left: 0, right: 12 }}>
+            <CartesianGrid vertical={false} stroke="rgba(255,255,255,0.1)" />
+            <XAxis dataKey="day" tickFormatter={dayLabel} tick={tick} tickLine={false} axisLine={false} minTickGap={24} />
+            <YAxis allowDecimals={false} tick={tick} tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip content={<ChartTooltipContent className={tooltipClass} labelFormatter={(_, payload) => dayLabel(payload[0]?.payload.day)} />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {(Object.keys(activityConfig) as (keyof typeof activityConfig)[]).map(key => (
+              <Line key={key} dataKey={key} type="monotone" stroke={`var(--color-${key})`} strokeWidth={2} dot={false} />
+            ))}
+          </LineChart>
+        </ChartContainer>
+      </Section>
+
+      <Section title="Conversion">
+        <div className="grid grid-cols-3 gap-3">
+          {stages.map(stage => (
+            <div key={stage.stage}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="text-white/80">{stage.stage}</span>
+                <span className="text-white/60">{Math.round(stage.share * 100)}%</span>
+              </div>
+              <div className="h-3 bg-white/10 rounded-full overflow-hidden">
+                <div className="h-full bg-green-500" style={{ width: `${stage.share * 100}%` }} />
+              </div>
+              <div className="text-lg font-semibold mt-1">{stage.count.toLocaleString('en-IN')}</div>
+            </div>
+          ))}
+        </div>
+        <p className="mt-2 text-xs text-white/50">All time, across every event. Pass payments count once per pass.</p>
+      </Section>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Section title="Revenue by event">
+          <RankedBars data={snapshot.events} labelKey="title" valueKey="revenue" config={revenueConfig} format={rupees} />
+        </Section>
+        <Section title="Revenue by QR">
+          <RankedBars data={snapshot.qrs} labelKey="qr_name" valueKey="revenue" config={revenueConfig} format={rupees} />
+        </Section>
+        <Section title="Rejection reasons">
+          <RankedBars data={rejections} labelKey="label" valueKey="count" config={countConfig} />
+        </Section>
+        <Section title="Colleges">
+          <RankedBars data={snapshot.colleges} labelKey="label" valueKey="count" config={countConfig} />
+        </Section>
+        <Section title="Branches">
+          <RankedBars data={snapshot.branches} labelKey="label" valueKey="count" config={countConfig} />
+        </Section>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,237 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Plus, Edit, Loader2, Layers, X } from 'lucide-react'
+import {
+  bundleSavings,
+  loadBundles,
+  saveBundle,
+  type Bundle,
+  type BundleEvent,
+  type BundleInput
+} from '../../../lib/bundles'
+import { useLatest } from '../../../hooks/useLatest'
+
+interface BundleManagerProps {
+  // Paid events; team events are listed but cannot be picked
+  events: BundleEvent[]
+  onSaved: (bundle: Bundle, previous: Bundle | null) => void
+  onError: (message: string) => void
+}
+
+interface BundleFormState {
+  name: string
+  description: string
+  price: string
+  event_ids: string[]
+  active: boolean
+}
+
+const emptyForm: BundleFormState = { name: '', description: '', price: '', event_ids: [], active: true }
+
+const inputClass = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm'
+
+const toInput = (form: BundleFormState): BundleInput => ({
+  name: form.name,
+  description: form.description || null,
+  price: Number(form.price),
+  event_ids: form.event_ids,
+  active: form.active
+})
+
+export default function BundleManager({ events, onSaved, onError }: BundleManagerProps) {
+  const [bundles, setBundles] = useState<Bundle[]>([])
+  const [loading, setLoading] = useState(true)
+  // null when closed; editing holds the pass being changed
+  const [form, setForm] = useState<BundleFormState | null>(null)
+  const [editing, setEditing] = useState<Bundle | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const onErrorRef = useLatest(onError)
+
+  const refresh = useCallback(async () => {
+    try {
+      setBundles(await loadBundles())
+    } catch (err) {
+      onErrorRef.current((err as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }, [onErrorRef])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const persist = async (input: BundleInput, previous: Bundle | null) => {
+    setSaving(true)
+    try {
+      const saved = await saveBundle(input, events, previous?.id ?? null)
+      onSaved(saved, previous)
+      setForm(null)
+      setEditing(null)
+      await refresh()
+    } catch (err) {
+      onError((err as Error).message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const eventTitle = (id: string) => events.find(e => e.id === id)?.title ?? 'Deleted event'
+
+  return (
+    <div className="mt-8 bg-white/5 rounded-xl p-4 border border-white/10">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-lg flex items-center gap-2">
+          <Layers className="w-4 h-4" />
+          Combo Passes
+        </h3>
+        {!form && (
+          <button
+            onClick={() => { setEditing(null); setForm(emptyForm) }}
+            className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+          >
+            <Plus className="w-3 h-3 inline mr-1" />
+            New Pass
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <div className="mb-4 p-4 rounded-lg bg-white/5 border border-white/10 space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium">{editing ? `Edit ${editing.name}` : 'New pass'}</h4>
+            <button onClick={() => { setForm(null); setEditing(null) }} className="p-1 rounded hover:bg-white/10">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="text-xs text-white/60">
+              Name
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Technical Pass"
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-white/60">
+              Price (₹)
+              <input
+                type="number"
+                min="1"
+                value={form.price}
+                onChange={(e) => setForm({ ...form, price: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm mt-4">
+              <input type="checkbox" checked={form.active} onChange={(e) => setForm({ ...form, active: e.target.checked })} />
+              On sale
+            </label>
+            <label className="text-xs text-white/60 md:col-span-3">
+              Description (optional)
+              <input
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <div>
+            <p className="text-xs text-white/60 mb-1">Events</p>
+            <div className="flex flex-wrap gap-2">
+              {events.map(event => (
+                <label
+                  key={event.id}
+                  title={event.team_max_size ? 'Team events cannot be in a pass' : undefined}
+                  className={`flex items-center gap-1 px-2 py-1 bg-white/10 rounded text-xs ${event.team_max_size ? 'opacity-50' : 'cursor-pointer'}`}
+                >
+                  <input
+                    type="checkbox"
+                    disabled={!!event.team_max_size}
+                    checked={form.event_ids.includes(event.id)}
+                    onChange={(e) => setForm({
+                      ...form,
+                      event_ids: e.target.checked
+                        ? [...form.event_ids, event.id]
+                        : form.event_ids.filter(id => id !== event.id)
+                    })}
+                  />
+                  {event.title} (₹{event.price})
+                </label>
+              ))}
+            </div>
+            {form.event_ids.length > 0 && Number(form.price) > 0 && (
+              <p className="text-xs text-white/60 mt-2">
+                Buyers save ₹{bundleSavings({ price: Number(form.price), event_ids: form.event_ids }, events)} over paying separately
+              </p>
+            )}
+          </div>
+          <div className="text-right">
+            <button
+              onClick={() => persist(toInput(form), editing)}
+              disabled={saving}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm"
+            >
+              {saving && <Loader2 className="w-4 h-4 inline mr-1 animate-spin" />}
+              Save Pass
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <Loader2 className="w-5 h-5 animate-spin" />
+      ) : bundles.length === 0 ? (
+        <p className="text-sm text-white/60">No passes yet</p>
+      ) : (
+        <div className="space-y-2">
+          {bundles.map(bundle => (
+            <div key={bundle.id} className="flex flex-wrap items-center justify-between gap-3 bg-white/5 rounded-lg p-3 text-sm">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">{bundle.name}</span>
+                  <span>₹{bundle.price}</span>
+                  {!bundle.active && <span className="px-2 py-0.5 bg-white/10 rounded-full text-xs">Not on sale</span>}
+                </div>
+                <div className="text-xs text-white/60">{bundle.event_ids.map(eventTitle).join(', ')}</div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => {
+                    setEditing(bundle)
+                    setForm({
+                      name: bundle.name,
+                      description: bundle.description || '',
+                      price: bundle.price.toString(),
+                      // Events deleted since are dropped from the pass
+                      event_ids: bundle.event_ids.filter(id => events.some(e => e.id === id)),
+                      active: bundle.active
+                    })
+                  }}
+                  className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+                >
+                  <Edit className="w-3 h-3 inline mr-1" />
+                  Edit
+                </button>
+                <button
+                  onClick={() => persist({
+                    name: bundle.name,
+                    description: bundle.description,
+                    price: bundle.price,
+                    event_ids: bundle.event_ids,
+                    active: !bundle.active
+                  }, bundle)}
+                  disabled={saving}
+                  className="px-3 py-1 bg-white/10 text-white rounded text-sm hover:bg-white/20 disabled:opacity-50"
+                >
+                  {bundle.active ? 'Stop selling' : 'Start selling'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,319 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Plus, Edit, Loader2, Tag, X } from 'lucide-react'
+import { istInputToIso, isoToIstInput } from '../../../lib/schedule'
+import {
+  formatDiscount,
+  loadCouponUsage,
+  loadCoupons,
+  saveCoupon,
+  type Coupon,
+  type CouponInput,
+  type DiscountType
+} from '../../../lib/pricing'
+import { useLatest } from '../../../hooks/useLatest'
+
+interface CouponManagerProps {
+  events: { id: string; title: string }[]
+  onSaved: (coupon: Coupon, previous: Coupon | null) => void
+  onError: (message: string) => void
+}
+
+// Form values; dates are datetime-local values in IST, limits blank for none
+interface CouponFormState {
+  code: string
+  description: string
+  discount_type: DiscountType
+  discount_value: string
+  event_ids: string[]
+  max_uses: string
+  per_user_limit: string
+  starts_at: string
+  ends_at: string
+  active: boolean
+}
+
+const emptyForm: CouponFormState = {
+  code: '',
+  description: '',
+  discount_type: 'percent',
+  discount_value: '',
+  event_ids: [],
+  max_uses: '',
+  per_user_limit: '1',
+  starts_at: '',
+  ends_at: '',
+  active: true
+}
+
+const inputClass = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm'
+
+const toForm = (coupon: Coupon): CouponFormState => ({
+  code: coupon.code,
+  description: coupon.description || '',
+  discount_type: coupon.discount_type,
+  discount_value: coupon.discount_value.toString(),
+  event_ids: coupon.event_ids || [],
+  max_uses: coupon.max_uses?.toString() || '',
+  per_user_limit: coupon.per_user_limit?.toString() || '',
+  starts_at: coupon.starts_at ? isoToIstInput(coupon.starts_at) : '',
+  ends_at: coupon.ends_at ? isoToIstInput(coupon.ends_at) : '',
+  active: coupon.active
+})
+
+const toInput = (form: CouponFormState): CouponInput => ({
+  code: form.code.trim().toUpperCase(),
+  description: form.description.trim() || null,
+  discount_type: form.discount_type,
+  discount_value: Number(form.discount_value),
+  event_ids: form.event_ids,
+  max_uses: form.max_uses ? parseInt(form.max_uses) : null,
+  per_user_limit: form.per_user_limit ? parseInt(form.per_user_limit) : null,
+  starts_at: form.starts_at ? istInputToIso(form.starts_at) : null,
+  ends_at: form.ends_at ? istInputToIso(form.ends_at) : null,
+  active: form.active
+})
+
+export default function CouponManager({ events, onSaved, onError }: CouponManagerProps) {
+  const [coupons, setCoupons] = useState<Coupon[]>([])
+  const [usage, setUsage] = useState<Record<string, number>>({})
+  const [loading, setLoading] = useState(true)
+  // null when closed; editing holds the coupon being changed
+  const [form, setForm] = useState<CouponFormState | null>(null)
+  const [editing, setEditing] = useState<Coupon | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const onErrorRef = useLatest(onError)
+
+  const refresh = useCallback(async () => {
+    try {
+      const [list, counts] = await Promise.all([loadCoupons(), loadCouponUsage()])
+      setCoupons(list)
+      setUsage(counts)
+    } catch (err) {
+      onErrorRef.current((err as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }, [onErrorRef])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const persist = async (input: CouponInput, previous: Coupon | null) => {
+    setSaving(true)
+    try {
+      const saved = await saveCoupon(input, previous?.id ?? null)
+      onSaved(saved, previous)
+      setForm(null)
+      setEditing(null)
+      await refresh()
+    } catch (err) {
+      onError((err as Error).message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleActive = (coupon: Coupon) => {
+    persist({
+      code: coupon.code,
+      description: coupon.description,
+      discount_type: coupon.discount_type,
+      discount_value: coupon.discount_value,
+      event_ids: coupon.event_ids,
+      max_uses: coupon.max_uses,
+      per_user_limit: coupon.per_user_limit,
+      starts_at: coupon.starts_at,
+      ends_at: coupon.ends_at,
+      active: !coupon.active
+    }, coupon)
+  }
+
+  const eventTitle = (id: string) => events.find(e => e.id === id)?.title ?? 'Deleted event'
+
+  return (
+    <div className="mt-8 bg-white/5 rounded-xl p-4 border border-white/10">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-lg flex items-center gap-2">
+          <Tag className="w-4 h-4" />
+          Coupons
+        </h3>
+        {!form && (
+          <button
+            onClick={() => { setEditing(null); setForm(emptyForm) }}
+            className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+          >
+            <Plus className="w-3 h-3 inline mr-1" />
+            New Coupon
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <div className="mb-4 p-4 rounded-lg bg-white/5 border border-white/10 space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium">{editing ? `Edit ${editing.code}` : 'New coupon'}</h4>
+            <button onClick={() => { setForm(null); setEditing(null) }} className="p-1 rounded hover:bg-white/10">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="text-xs text-white/60">
+              Code
+              <input
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                placeholder="EARLY20"
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-white/60">
+              Discount
+              <div className="flex gap-2">
+                <select
+                  value={form.discount_type}
+                  onChange={(e) => setForm({ ...form, discount_type: e.target.value as DiscountType })}
+                  className={inputClass}
+                >
+                  <option value="percent" className="bg-gray-800">% off</option>
+                  <option value="flat" className="bg-gray-800">₹ off</option>
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  value={form.discount_value}
+                  onChange={(e) => setForm({ ...form, discount_value: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </label>
+            <label className="text-xs text-white/60">
+              Description (optional)
+              <input
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-white/60">
+              Total uses (blank for no limit)
+              <input
+                type="number"
+                min="1"
+                value={form.max_uses}
+                onChange={(e) => setForm({ ...form, max_uses: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-white/60">
+              Uses per person (blank for no limit)
+              <input
+                type="number"
+                min="1"
+                value={form.per_user_limit}
+                onChange={(e) => setForm({ ...form, per_user_limit: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm mt-4">
+              <input type="checkbox" checked={form.active} onChange={(e) => setForm({ ...form, active: e.target.checked })} />
+              Active
+            </label>
+            <label className="text-xs text-white/60">
+              Valid from (IST, optional)
+              <input
+                type="datetime-local"
+                value={form.starts_at}
+                onChange={(e) => setForm({ ...form, starts_at: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-white/60">
+              Valid until (IST, optional)
+              <input
+                type="datetime-local"
+                value={form.ends_at}
+                onChange={(e) => setForm({ ...form, ends_at: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <div>
+            <p className="text-xs text-white/60 mb-1">Events (none selected means every paid event)</p>
+            <div className="flex flex-wrap gap-2">
+              {events.map(event => (
+                <label key={event.id} className="flex items-center gap-1 px-2 py-1 bg-white/10 rounded text-xs cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={form.event_ids.includes(event.id)}
+                    onChange={(e) => setForm({
+                      ...form,
+                      event_ids: e.target.checked
+                        ? [...form.event_ids, event.id]
+                        : form.event_ids.filter(id => id !== event.id)
+                    })}
+                  />
+                  {event.title}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="text-right">
+            <button
+              onClick={() => persist(toInput(form), editing)}
+              disabled={saving}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm"
+            >
+              {saving && <Loader2 className="w-4 h-4 inline mr-1 animate-spin" />}
+              Save Coupon
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <Loader2 className="w-5 h-5 animate-spin" />
+      ) : coupons.length === 0 ? (
+        <p className="text-sm text-white/60">No coupons yet</p>
+      ) : (
+        <div className="space-y-2">
+          {coupons.map(coupon => (
+            <div key={coupon.id} className="flex flex-wrap items-center justify-between gap-3 bg-white/5 rounded-lg p-3 text-sm">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">{coupon.code}</span>
+                  <span className="text-green-300">{formatDiscount(coupon)}</span>
+                  {!coupon.active && <span className="px-2 py-0.5 bg-white/10 rounded-full text-xs">Inactive</span>}
+                </div>
+                <div className="text-xs text-white/60">
+                  {usage[coupon.id] || 0}{coupon.max_uses != null && ` / ${coupon.max_uses}`} used
+                  {coupon.per_user_limit != null && ` • ${coupon.per_user_limit} per person`}
+                  {' • '}
+                  {coupon.event_ids?.length ? coupon.event_ids.map(eventTitle).join(', ') : 'All events'}
+                  {coupon.ends_at && ` • until ${new Date(coupon.ends_at).toLocaleString('en-IN')}`}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => { setEditing(coupon); setForm(toForm(coupon)) }}
+                  className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+                >
+                  <Edit className="w-3 h-3 inline mr-1" />
+                  Edit
+                </button>
+                <button
+                  onClick={() => toggleActive(coupon)}
+                  disabled={saving}
+                  className="px-3 py-1 bg-white/10 text-white rounded text-sm hover:bg-white/20 disabled:opacity-50"
+                >
+                  {coupon.active ? 'Deactivate' : 'Activate'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
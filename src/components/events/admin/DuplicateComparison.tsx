@@ -0,0 +1,128 @@
+import { X, AlertTriangle, CheckCircle, XCircle } from 'lucide-react'
+import type { DuplicateMatch, ProofFingerprint } from '../../../lib/proofDuplicates'
+
+interface DuplicateComparisonProps {
+  proof: ProofFingerprint & { name?: string; user_email?: string }
+  matches: DuplicateMatch[]
+  // Names for the other proofs' users, keyed by user id, where known
+  userLabels: Record<string, string>
+  // Not offered when another live proof holds the same UTR
+  onConfirmDistinct?: () => void
+  // Shown instead of the confirm button when approval is blocked
+  blockedReason?: string
+  // Only offered while the proof under review is pending
+  onReject?: () => void
+  onClose: () => void
+}
+
+const reasonLabels = {
+  same_utr: 'Same UTR',
+  similar_image: 'Similar screenshot'
+}
+
+const statusStyles = {
+  pending: 'bg-yellow-500/20 text-yellow-300',
+  approved: 'bg-green-500/20 text-green-300',
+  rejected: 'bg-red-500/20 text-red-300'
+}
+
+function ProofColumn({ proof, label, userLabel }: { proof: ProofFingerprint; label: string; userLabel: string }) {
+  return (
+    <div className="flex-1 min-w-0">
+      <div className="text-xs uppercase tracking-wide text-white/50 mb-2">{label}</div>
+      {proof.screenshot_url ? (
+        <a href={proof.screenshot_url} target="_blank" rel="noreferrer">
+          <img
+            src={proof.screenshot_url}
+            alt={`Payment screenshot for ${proof.event_title}`}
+            className="w-full h-80 object-contain bg-black/40 rounded-lg border border-white/10"
+          />
+        </a>
+      ) : (
+        <div className="w-full h-80 flex items-center justify-center bg-black/40 rounded-lg text-white/50">No screenshot</div>
+      )}
+      <div className="mt-3 space-y-1 text-sm">
+        <div className="font-semibold truncate">{userLabel}</div>
+        <div className="text-white/70 truncate">{proof.event_title}</div>
+        <div className="flex flex-wrap gap-3 text-white/60">
+          <span>₹{proof.amount}</span>
+          <span>UTR: {proof.utr_or_ref ?? '—'}</span>
+          <span>{new Date(proof.created_at).toLocaleString('en-IN')}</span>
+        </div>
+        <span className={`inline-block px-2 py-0.5 rounded-full text-xs ${statusStyles[proof.status]}`}>{proof.status}</span>
+      </div>
+    </div>
+  )
+}
+
+export default function DuplicateComparison({ proof, matches, userLabels, onConfirmDistinct, blockedReason, onReject, onClose }: DuplicateComparisonProps) {
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/70">
+      <div className="bg-gray-900 text-white rounded-2xl p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto border border-white/10">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-yellow-400" />
+            Possible duplicate payment
+          </h3>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          {matches.map((match) => (
+            <div key={match.proof.id} className="bg-white/5 rounded-xl p-4 border border-white/10">
+              <div className="flex flex-wrap gap-2 mb-3">
+                {match.reasons.map(reason => (
+                  <span key={reason} className="px-2 py-0.5 rounded-full text-xs bg-red-500/20 text-red-300">
+                    {reasonLabels[reason]}
+                  </span>
+                ))}
+                {match.distance !== null && (
+                  <span className="px-2 py-0.5 rounded-full text-xs bg-white/10 text-white/70">
+                    {match.distance === 0 ? 'Identical image hash' : `${match.distance}/64 bits differ`}
+                  </span>
+                )}
+              </div>
+              <div className="flex flex-col md:flex-row gap-4">
+                <ProofColumn
+                  proof={proof}
+                  label="Under review"
+                  userLabel={proof.name || proof.user_email || proof.user_id}
+                />
+                <ProofColumn
+                  proof={match.proof}
+                  label="Earlier submission"
+                  userLabel={userLabels[match.proof.user_id] || match.proof.user_id}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-3 mt-6 justify-end">
+          {onConfirmDistinct ? (
+            <button
+              onClick={onConfirmDistinct}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm"
+            >
+              <CheckCircle className="w-4 h-4 inline mr-1" />
+              Not a duplicate — allow approval
+            </button>
+          ) : blockedReason && (
+            <span className="text-sm text-red-300 self-center">{blockedReason}</span>
+          )}
+          {onReject && (
+            <button
+              onClick={onReject}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm"
+            >
+              <XCircle className="w-4 h-4 inline mr-1" />
+              Reject as duplicate
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react'
+import { Download, Loader2, FileSpreadsheet } from 'lucide-react'
+import {
+  buildParticipantExport,
+  loadExportEvents,
+  loadParticipantRows,
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMN_LABELS,
+  type ExportColumnKey,
+  type ExportFormat
+} from '../../../lib/participantExport'
+import { useLatest } from '../../../hooks/useLatest'
+
+export interface ParticipantExportSummary {
+  eventId: string | null
+  format: ExportFormat
+  columns: ExportColumnKey[]
+  rowCount: number
+}
+
+interface ParticipantExportProps {
+  onExported: (summary: ParticipantExportSummary) => void
+  onError: (message: string) => void
+}
+
+const ALL_COLUMNS = Object.keys(EXPORT_COLUMN_LABELS) as ExportColumnKey[]
+
+export default function ParticipantExport({ onExported, onError }: ParticipantExportProps) {
+  const [events, setEvents] = useState<{ id: string; title: string }[]>([])
+  const [eventId, setEventId] = useState('')
+  const [columns, setColumns] = useState<ExportColumnKey[]>(DEFAULT_EXPORT_COLUMNS)
+  const [format, setFormat] = useState<ExportFormat>('xlsx')
+  const [exporting, setExporting] = useState(false)
+  const onErrorRef = useLatest(onError)
+
+  useEffect(() => {
+    loadExportEvents().then(setEvents).catch((err: Error) => onErrorRef.current(err.message))
+  }, [onErrorRef])
+
+  const handleExport = async () => {
+    setExporting(true)
+    try {
+      const rows = await loadParticipantRows(eventId || null)
+      const title = eventId ? events.find(e => e.id === eventId)?.title ?? 'event' : 'All events'
+      // Keep the columns in the picker's order
+      const ordered = ALL_COLUMNS.filter(c => columns.includes(c))
+      const blob = await buildParticipantExport(rows, ordered, format, title)
+
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${title.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-participants.${format}`
+      link.click()
+      URL.revokeObjectURL(url)
+
+      onExported({ eventId: eventId || null, format, columns: ordered, rowCount: rows.length })
+    } catch (err) {
+      onError((err as Error).message)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div className="mb-6 bg-white/5 rounded-xl p-4 border border-white/10">
+      <h3 className="font-semibold mb-3 flex items-center gap-2">
+        <FileSpreadsheet className="w-4 h-4" />
+        Export participants
+      </h3>
+      <div className="flex flex-col md:flex-row md:items-center gap-3">
+        <select
+          value={eventId}
+          onChange={(e) => setEventId(e.target.value)}
+          disabled={exporting}
+          className="flex-1 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white"
+        >
+          <option value="" className="text-black">All events</option>
+          {events.map(event => (
+            <option key={event.id} value={event.id} className="text-black">{event.title}</option>
+          ))}
+        </select>
+        <div className="flex rounded-lg overflow-hidden border border-white/20 text-sm">
+          {(['xlsx', 'csv'] as ExportFormat[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setFormat(option)}
+              className={`px-3 py-2 uppercase ${format === option ? 'bg-white/20 text-white' : 'bg-white/5 text-white/70 hover:bg-white/10'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={exporting || columns.length === 0}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {exporting
+            ? <Loader2 className="w-4 h-4 inline mr-2 animate-spin" />
+            : <Download className="w-4 h-4 inline mr-2" />}
+          Export
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2 mt-3">
+        {ALL_COLUMNS.map(column => (
+          <label key={column} className="flex items-center gap-1 px-2 py-1 bg-white/10 rounded text-xs cursor-pointer">
+            <input
+              type="checkbox"
+              checked={columns.includes(column)}
+              onChange={(e) => setColumns(e.target.checked
+                ? [...columns, column]
+                : columns.filter(c => c !== column))}
+            />
+            {EXPORT_COLUMN_LABELS[column]}
+          </label>
+        ))}
+      </div>
+      <p className="mt-2 text-xs text-white/50">
+        One row per person per event: everyone registered or holding a ticket, with their latest payment and gate scan.
+      </p>
+    </div>
+  )
+}
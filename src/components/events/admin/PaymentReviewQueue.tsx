@@ -0,0 +1,421 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { X, AlertTriangle, CheckCircle, XCircle, SkipForward, ZoomIn, ZoomOut, Loader2 } from 'lucide-react'
+import { getOcrFlags, type OcrResult } from '../../../lib/paymentOcr'
+import { conflictingUtr, findDuplicates, type ProofFingerprint } from '../../../lib/proofDuplicates'
+import { MAX_TEMPLATE_HOTKEYS, type RejectionTemplate } from '../../../lib/rejectionTemplates'
+import type { PriceQuote } from '../../../lib/pricing'
+
+// The fields of a pending proof the queue shows
+export interface ReviewProof {
+  id: string
+  user_id: string
+  event_id: string | null
+  bundle_id: string | null
+  team_id: string | null
+  event_title: string
+  amount: number
+  screenshot_url: string
+  created_at: string
+  qr_name: string | null
+  utr_or_ref: string | null
+  image_hash: string | null
+  payment_reference: string | null
+  ocr_result?: OcrResult | null
+  pricing?: PriceQuote | null
+  name?: string
+  user_email?: string
+  roll_no?: string
+  expected_amount?: number | null
+  expected_payee?: string | null
+}
+
+interface PaymentReviewQueueProps<T extends ReviewProof> {
+  // Loaded a page at a time; hasMore says whether onLoadMore can add another
+  proofs: T[]
+  hasMore: boolean
+  onLoadMore: () => void
+  fingerprints: ProofFingerprint[]
+  templates: RejectionTemplate[]
+  // Resolve to false when the proof was not decided, e.g. sent to duplicate review
+  onApprove: (proof: T) => Promise<boolean>
+  // final releases the payer's seats in full events to the waitlist
+  onReject: (proof: T, reason: string, final: boolean) => Promise<boolean>
+  onCompare: (proof: T) => void
+  // Set while another dialog is on top, so its keys are not taken
+  paused: boolean
+  onClose: () => void
+}
+
+type Decision = 'approved' | 'rejected'
+
+// Undecided proofs left when the next page is fetched
+const PREFETCH_AT = 5
+
+const MIN_ZOOM = 1
+const MAX_ZOOM = 6
+const ZOOM_STEP = 1.25
+
+const initialView = { zoom: 1, x: 0, y: 0 }
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom))
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+
+function Hotkey({ children }: { children: string }) {
+  return <kbd className="px-1.5 py-0.5 bg-white/10 rounded text-xs font-mono">{children}</kbd>
+}
+
+export default function PaymentReviewQueue<T extends ReviewProof>({
+  proofs,
+  hasMore,
+  onLoadMore,
+  fingerprints,
+  templates,
+  onApprove,
+  onReject,
+  onCompare,
+  paused,
+  onClose
+}: PaymentReviewQueueProps<T>) {
+  const [position, setPosition] = useState(0)
+  const [decisions, setDecisions] = useState<Map<string, Decision>>(new Map())
+  const [skips, setSkips] = useState(0)
+  const [busy, setBusy] = useState(false)
+  const [picking, setPicking] = useState(false)
+  const [customReason, setCustomReason] = useState('')
+  const [finalReject, setFinalReject] = useState(false)
+  const [view, setView] = useState(initialView)
+  const drag = useRef<{ x: number; y: number } | null>(null)
+  const startedAt = useRef(Date.now())
+
+  const current = proofs[position] && !decisions.has(proofs[position].id) ? proofs[position] : null
+  const remaining = proofs.filter(p => !decisions.has(p.id)).length
+  const approved = [...decisions.values()].filter(d => d === 'approved').length
+  const rejected = decisions.size - approved
+  const minutes = (Date.now() - startedAt.current) / 60000
+  const perHour = minutes > 0 ? Math.round(decisions.size / minutes * 60) : 0
+
+  const hotkeyTemplates = templates.slice(0, MAX_TEMPLATE_HOTKEYS)
+  const duplicates = current ? findDuplicates(current, fingerprints) : []
+  const blocked = !!conflictingUtr(duplicates)
+
+  // Next undecided proof after `from`, wrapping round to the ones skipped
+  const nextPosition = useCallback((from: number, decided: Map<string, Decision>) => {
+    for (let step = 1; step <= proofs.length; step++) {
+      const index = (from + step) % proofs.length
+      if (!decided.has(proofs[index].id)) return index
+    }
+    return from
+  }, [proofs])
+
+  const moveTo = useCallback((index: number) => {
+    setPosition(index)
+    setView(initialView)
+    setPicking(false)
+    setCustomReason('')
+    setFinalReject(false)
+  }, [])
+
+  useEffect(() => {
+    if (hasMore && remaining <= PREFETCH_AT) onLoadMore()
+  }, [hasMore, remaining, onLoadMore])
+
+  // Start on an undecided proof if the list changed underneath us. decide()
+  // moves on in the same render it records a decision, so this only fires then.
+  useEffect(() => {
+    if (!current && remaining > 0) moveTo(nextPosition(position, decisions))
+  }, [current, remaining, position, decisions, nextPosition, moveTo])
+
+  const decide = async (decision: Decision, reason?: string) => {
+    if (!current || busy) return
+    setBusy(true)
+    try {
+      const done = decision === 'approved' ? await onApprove(current) : await onReject(current, reason!, finalReject)
+      if (!done) return
+      const next = new Map(decisions).set(current.id, decision)
+      setDecisions(next)
+      moveTo(nextPosition(position, next))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const skip = () => {
+    if (!current || remaining < 2) return
+    setSkips(count => count + 1)
+    moveTo(nextPosition(position, decisions))
+  }
+
+  const zoomBy = (factor: number) => setView(v => {
+    const zoom = clampZoom(v.zoom * factor)
+    return zoom === 1 ? initialView : { ...v, zoom }
+  })
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (paused || busy || isTyping(e.target) || e.ctrlKey || e.metaKey || e.altKey) return
+      if (picking) {
+        const index = Number(e.key) - 1
+        if (e.key === 'Escape') setPicking(false)
+        else if (e.key.toLowerCase() === 'f') setFinalReject(f => !f)
+        else if (index >= 0 && index < hotkeyTemplates.length) decide('rejected', hotkeyTemplates[index].message)
+        else return
+        e.preventDefault()
+        return
+      }
+      switch (e.key.toLowerCase()) {
+        case 'a':
+          if (!blocked) decide('approved')
+          break
+        case 'r':
+          setPicking(true)
+          break
+        case 's':
+        case 'arrowright':
+          skip()
+          break
+        case '+':
+        case '=':
+          zoomBy(ZOOM_STEP)
+          break
+        case '-':
+          zoomBy(1 / ZOOM_STEP)
+          break
+        case '0':
+          setView(initialView)
+          break
+        case 'escape':
+          onClose()
+          break
+        default:
+          return
+      }
+      e.preventDefault()
+    }
+    window.addEventListener('keydown', handleKey)
+    return () => window.removeEventListener('keydown', handleKey)
+  })
+
+  const flags = current?.ocr_result
+    ? getOcrFlags(current.ocr_result, {
+      amount: current.expected_amount ?? null,
+      payee: current.expected_payee ?? null,
+      reference: current.payment_reference
+    })
+    : []
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-gray-950 text-white">
+      <div className="flex flex-wrap items-center gap-4 px-6 py-3 border-b border-white/10 text-sm">
+        <h3 className="text-lg font-bold mr-auto">Review queue</h3>
+        <span>{remaining}{hasMore && '+'} left</span>
+        <span className="text-green-300">{approved} approved</span>
+        <span className="text-red-300">{rejected} rejected</span>
+        <span className="text-white/60">{skips} skipped</span>
+        <span className="text-white/60">{perHour}/hour</span>
+        <button onClick={onClose} className="p-2 rounded-lg hover:bg-white/10" title="Close (Esc)">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {!current && hasMore ? (
+        <div className="flex-1 flex items-center justify-center">
+          <Loader2 className="w-8 h-8 animate-spin" />
+        </div>
+      ) : !current ? (
+        <div className="flex-1 flex flex-col items-center justify-center gap-3">
+          <CheckCircle className="w-12 h-12 text-green-400" />
+          <p className="text-lg">{proofs.length === 0 ? 'No pending proofs match the filters' : 'Queue finished'}</p>
+          <button onClick={onClose} className="px-4 py-2 bg-white/10 rounded-lg hover:bg-white/20">Back to payments</button>
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col lg:flex-row min-h-0">
+          <div
+            className="relative flex-1 overflow-hidden bg-black select-none"
+            onWheel={(e) => zoomBy(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP)}
+            onPointerDown={(e) => {
+              if (view.zoom === 1) return
+              drag.current = { x: e.clientX - view.x, y: e.clientY - view.y }
+              e.currentTarget.setPointerCapture(e.pointerId)
+            }}
+            onPointerMove={(e) => {
+              if (!drag.current) return
+              const start = drag.current
+              setView(v => ({ ...v, x: e.clientX - start.x, y: e.clientY - start.y }))
+            }}
+            onPointerUp={() => { drag.current = null }}
+            onDoubleClick={() => setView(v => v.zoom === 1 ? { ...v, zoom: 2.5 } : initialView)}
+          >
+            {current.screenshot_url ? (
+              <img
+                src={current.screenshot_url}
+                alt={`Payment screenshot for ${current.event_title}`}
+                draggable={false}
+                className={`w-full h-full object-contain ${view.zoom > 1 ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'}`}
+                style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})` }}
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center text-white/50">No screenshot</div>
+            )}
+            <div className="absolute bottom-3 left-3 flex items-center gap-1 bg-black/60 rounded-lg p-1 text-xs">
+              <button onClick={() => zoomBy(1 / ZOOM_STEP)} className="p-1.5 rounded hover:bg-white/10" title="Zoom out (-)">
+                <ZoomOut className="w-4 h-4" />
+              </button>
+              <button onClick={() => setView(initialView)} className="px-2 py-1 rounded hover:bg-white/10" title="Fit (0)">
+                {Math.round(view.zoom * 100)}%
+              </button>
+              <button onClick={() => zoomBy(ZOOM_STEP)} className="p-1.5 rounded hover:bg-white/10" title="Zoom in (+)">
+                <ZoomIn className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="w-full lg:w-96 flex flex-col border-l border-white/10 overflow-y-auto">
+            <div className="p-5 space-y-4 text-sm flex-1">
+              <div>
+                <div className="text-xs uppercase tracking-wide text-white/50">Expected</div>
+                <div className="text-3xl font-bold">₹{current.expected_amount ?? current.amount}</div>
+                <div className="text-white/80">to {current.expected_payee ?? '—'}{current.qr_name && ` • ${current.qr_name}`}</div>
+                {current.payment_reference && (
+                  <div className="mt-1 font-mono text-white/80">Ref {current.payment_reference}</div>
+                )}
+                {current.pricing?.coupon_code && (
+                  <div className="text-green-300 text-xs mt-1">{current.pricing.coupon_code} −₹{current.pricing.discount}</div>
+                )}
+              </div>
+
+              <div>
+                <div className="text-xs uppercase tracking-wide text-white/50">Payer</div>
+                <div className="font-semibold">{current.name}</div>
+                <div className="text-white/70">{current.user_email}</div>
+                {current.roll_no && <div className="text-white/70">{current.roll_no}</div>}
+                <div className="text-white/70 mt-1">
+                  {current.event_title}
+                  {current.team_id && ' • Team payment'}
+                  {current.bundle_id && ' • Combo pass'}
+                </div>
+                <div className="text-white/50 text-xs">{new Date(current.created_at).toLocaleString('en-IN')}</div>
+              </div>
+
+              <div>
+                <div className="text-xs uppercase tracking-wide text-white/50">Read from screenshot</div>
+                {current.ocr_result ? (
+                  <div className="space-y-1">
+                    <div>Amount: {current.ocr_result.amount != null ? `₹${current.ocr_result.amount}` : '—'}</div>
+                    <div>Payee: {current.ocr_result.payee ?? '—'}</div>
+                    <div>UTR: {current.ocr_result.utr ?? '—'}</div>
+                    <div>Ref: {current.ocr_result.reference ?? '—'}</div>
+                    <div>Date: {current.ocr_result.date ?? '—'}</div>
+                  </div>
+                ) : (
+                  <div className="text-white/50">Not read yet</div>
+                )}
+                <div className="flex flex-wrap gap-2 mt-2 text-xs">
+                  {flags.map(flag => (
+                    <span
+                      key={flag.kind}
+                      className={`px-2 py-0.5 rounded-full ${
+                        flag.kind === 'amount_mismatch' || flag.kind === 'payee_mismatch' || flag.kind === 'reference_mismatch'
+                          ? 'bg-red-500/20 text-red-300'
+                          : 'bg-yellow-500/20 text-yellow-300'
+                      }`}
+                    >
+                      <AlertTriangle className="w-3 h-3 inline mr-1" />
+                      {flag.message}
+                    </span>
+                  ))}
+                  {duplicates.length > 0 && (
+                    <button
+                      onClick={() => onCompare(current)}
+                      className={`px-2 py-0.5 rounded-full ${blocked ? 'bg-red-500/20 text-red-300' : 'bg-yellow-500/20 text-yellow-300'}`}
+                    >
+                      <AlertTriangle className="w-3 h-3 inline mr-1" />
+                      {blocked ? 'UTR already used' : 'Possible duplicate'} ({duplicates.length}) • Compare
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {picking && (
+                <div className="p-3 rounded-lg bg-white/5 border border-white/10 space-y-2">
+                  <div className="text-xs uppercase tracking-wide text-white/50">Reject because</div>
+                  <label className="flex items-center gap-2 text-sm text-white/70" title="Final rejections give seats in capacity-limited events to the waitlist">
+                    <input type="checkbox" checked={finalReject} onChange={(e) => setFinalReject(e.target.checked)} />
+                    <Hotkey>F</Hotkey> Final: give the seat to the waitlist
+                  </label>
+                  {hotkeyTemplates.map((template, index) => (
+                    <button
+                      key={template.id}
+                      onClick={() => decide('rejected', template.message)}
+                      disabled={busy}
+                      className="w-full text-left px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 disabled:opacity-50"
+                    >
+                      <Hotkey>{String(index + 1)}</Hotkey> <span className="font-medium">{template.label}</span>
+                      <div className="text-xs text-white/60 mt-0.5">{template.message}</div>
+                    </button>
+                  ))}
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault()
+                      if (customReason.trim()) decide('rejected', customReason.trim())
+                    }}
+                    className="flex gap-2"
+                  >
+                    <input
+                      value={customReason}
+                      onChange={(e) => setCustomReason(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Escape') setPicking(false) }}
+                      autoFocus={hotkeyTemplates.length === 0}
+                      placeholder="Other reason"
+                      className="flex-1 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+                    />
+                    <button type="submit" disabled={busy || !customReason.trim()} className="px-3 py-2 bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50">
+                      Reject
+                    </button>
+                  </form>
+                </div>
+              )}
+            </div>
+
+            <div className="p-5 border-t border-white/10 space-y-3">
+              <div className="grid grid-cols-3 gap-2">
+                <button
+                  onClick={() => decide('approved')}
+                  disabled={busy || blocked}
+                  className="px-3 py-2 bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                >
+                  {busy ? <Loader2 className="w-4 h-4 inline mr-1 animate-spin" /> : <CheckCircle className="w-4 h-4 inline mr-1" />}
+                  Approve
+                </button>
+                <button
+                  onClick={() => setPicking(!picking)}
+                  disabled={busy}
+                  className="px-3 py-2 bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50 text-sm"
+                >
+                  <XCircle className="w-4 h-4 inline mr-1" />
+                  Reject
+                </button>
+                <button
+                  onClick={skip}
+                  disabled={busy || remaining < 2}
+                  className="px-3 py-2 bg-white/10 rounded-lg hover:bg-white/20 disabled:opacity-50 text-sm"
+                >
+                  <SkipForward className="w-4 h-4 inline mr-1" />
+                  Skip
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-white/50">
+                <span><Hotkey>A</Hotkey> approve</span>
+                <span><Hotkey>R</Hotkey> reject</span>
+                <span><Hotkey>S</Hotkey> skip</span>
+                <span><Hotkey>+</Hotkey> <Hotkey>-</Hotkey> <Hotkey>0</Hotkey> zoom</span>
+                <span><Hotkey>Esc</Hotkey> close</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,337 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Plus, Edit, Loader2, QrCode, Upload, X } from 'lucide-react'
+import { istInputToIso, isoToIstInput } from '../../../lib/schedule'
+import {
+  inActiveWindow,
+  loadQRPool,
+  saveQRCode,
+  uploadQRImage,
+  type QRCodeInput,
+  type QRCodeRecord
+} from '../../../lib/qrPool'
+import { useLatest } from '../../../hooks/useLatest'
+
+interface QRPoolEditorProps {
+  events: { id: string; title: string }[]
+  onSaved: (qr: QRCodeRecord, previous: QRCodeRecord | null) => void
+  onError: (message: string) => void
+}
+
+// Form values; the window is datetime-local values in IST, blank for open
+interface QRFormState {
+  qr_name: string
+  upi_id: string
+  payee_name: string
+  qr_image_url: string
+  max_daily_payments: string
+  is_active: boolean
+  active_from: string
+  active_until: string
+  event_ids: string[]
+}
+
+const emptyForm: QRFormState = {
+  qr_name: '',
+  upi_id: '',
+  payee_name: '',
+  qr_image_url: '',
+  max_daily_payments: '20',
+  is_active: true,
+  active_from: '',
+  active_until: '',
+  event_ids: []
+}
+
+const inputClass = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm'
+
+const toForm = (qr: QRCodeRecord): QRFormState => ({
+  qr_name: qr.qr_name,
+  upi_id: qr.upi_id,
+  payee_name: qr.payee_name,
+  qr_image_url: qr.qr_image_url || '',
+  max_daily_payments: qr.max_daily_payments.toString(),
+  is_active: qr.is_active,
+  active_from: qr.active_from ? isoToIstInput(qr.active_from) : '',
+  active_until: qr.active_until ? isoToIstInput(qr.active_until) : '',
+  event_ids: qr.event_ids || []
+})
+
+const toInput = (form: QRFormState): QRCodeInput => ({
+  qr_name: form.qr_name,
+  upi_id: form.upi_id,
+  payee_name: form.payee_name,
+  qr_image_url: form.qr_image_url || null,
+  max_daily_payments: Number(form.max_daily_payments),
+  is_active: form.is_active,
+  active_from: form.active_from ? istInputToIso(form.active_from) : null,
+  active_until: form.active_until ? istInputToIso(form.active_until) : null,
+  event_ids: form.event_ids
+})
+
+export default function QRPoolEditor({ events, onSaved, onError }: QRPoolEditorProps) {
+  const [pool, setPool] = useState<QRCodeRecord[]>([])
+  const [loading, setLoading] = useState(true)
+  // null when closed; editing holds the QR being changed
+  const [form, setForm] = useState<QRFormState | null>(null)
+  const [editing, setEditing] = useState<QRCodeRecord | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [uploading, setUploading] = useState(false)
+
+  const onErrorRef = useLatest(onError)
+
+  const refresh = useCallback(async () => {
+    try {
+      setPool(await loadQRPool())
+    } catch (err) {
+      onErrorRef.current((err as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }, [onErrorRef])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const persist = async (input: QRCodeInput, previous: QRCodeRecord | null) => {
+    setSaving(true)
+    try {
+      const saved = await saveQRCode(input, previous?.id ?? null)
+      onSaved(saved, previous)
+      setForm(null)
+      setEditing(null)
+      await refresh()
+    } catch (err) {
+      onError((err as Error).message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleImage = async (file: File | undefined) => {
+    if (!file || !form) return
+    setUploading(true)
+    try {
+      const url = await uploadQRImage(file)
+      setForm(current => current && { ...current, qr_image_url: url })
+    } catch (err) {
+      onError((err as Error).message)
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const toggleActive = (qr: QRCodeRecord) => {
+    if (qr.is_active && !confirm(`Retire ${qr.qr_name}? New payments will stop using it; past proofs keep their record.`)) return
+    persist({
+      qr_name: qr.qr_name,
+      upi_id: qr.upi_id,
+      payee_name: qr.payee_name,
+      qr_image_url: qr.qr_image_url,
+      max_daily_payments: qr.max_daily_payments,
+      is_active: !qr.is_active,
+      active_from: qr.active_from,
+      active_until: qr.active_until,
+      event_ids: qr.event_ids
+    }, qr)
+  }
+
+  const eventTitle = (id: string) => events.find(e => e.id === id)?.title ?? 'Deleted event'
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-lg border border-white/20 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <QrCode className="w-4 h-4" />
+          QR Pool
+        </h3>
+        {!form && (
+          <button
+            onClick={() => { setEditing(null); setForm(emptyForm) }}
+            className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+          >
+            <Plus className="w-3 h-3 inline mr-1" />
+            Add QR
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <div className="mb-4 p-4 rounded-lg bg-white/5 border border-white/10 space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium">{editing ? `Edit ${editing.qr_name}` : 'New QR'}</h4>
+            <button onClick={() => { setForm(null); setEditing(null) }} className="p-1 rounded hover:bg-white/10">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="text-xs text-white/60">
+              Name
+              <input
+                value={form.qr_name}
+                onChange={(e) => setForm({ ...form, qr_name: e.target.value })}
+                placeholder="QR-06"
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-white/60">
+              UPI ID
+              <input
+                value={form.upi_id}
+                onChange={(e) => setForm({ ...form, upi_id: e.target.value })}
+                placeholder="name@bank"
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-white/60">
+              Payee name
+              <input
+                value={form.payee_name}
+                onChange={(e) => setForm({ ...form, payee_name: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-white/60">
+              Payments per day
+              <input
+                type="number"
+                min="1"
+                value={form.max_daily_payments}
+                onChange={(e) => setForm({ ...form, max_daily_payments: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-white/60">
+              In use from (IST, optional)
+              <input
+                type="datetime-local"
+                value={form.active_from}
+                onChange={(e) => setForm({ ...form, active_from: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-white/60">
+              In use until (IST, optional)
+              <input
+                type="datetime-local"
+                value={form.active_until}
+                onChange={(e) => setForm({ ...form, active_until: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <div className="text-xs text-white/60">
+              QR image (optional)
+              <div className="flex items-center gap-3 mt-1">
+                {form.qr_image_url && (
+                  <img src={form.qr_image_url} alt="QR code" className="w-16 h-16 rounded bg-white object-contain" />
+                )}
+                <label className="px-3 py-2 bg-white/10 rounded-lg text-white text-sm cursor-pointer hover:bg-white/20">
+                  {uploading ? <Loader2 className="w-4 h-4 inline mr-1 animate-spin" /> : <Upload className="w-4 h-4 inline mr-1" />}
+                  {form.qr_image_url ? 'Replace' : 'Upload'}
+                  <input
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    disabled={uploading}
+                    onChange={(e) => { handleImage(e.target.files?.[0]); e.target.value = '' }}
+                  />
+                </label>
+                {form.qr_image_url && (
+                  <button onClick={() => setForm({ ...form, qr_image_url: '' })} className="text-white/60 hover:text-white">
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm mt-4">
+              <input type="checkbox" checked={form.is_active} onChange={(e) => setForm({ ...form, is_active: e.target.checked })} />
+              In service
+            </label>
+          </div>
+          <div>
+            <p className="text-xs text-white/60 mb-1">Events (none selected means every event)</p>
+            <div className="flex flex-wrap gap-2">
+              {events.map(event => (
+                <label key={event.id} className="flex items-center gap-1 px-2 py-1 bg-white/10 rounded text-xs cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={form.event_ids.includes(event.id)}
+                    onChange={(e) => setForm({
+                      ...form,
+                      event_ids: e.target.checked
+                        ? [...form.event_ids, event.id]
+                        : form.event_ids.filter(id => id !== event.id)
+                    })}
+                  />
+                  {event.title}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="text-right">
+            <button
+              onClick={() => persist(toInput(form), editing)}
+              disabled={saving || uploading}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm"
+            >
+              {saving && <Loader2 className="w-4 h-4 inline mr-1 animate-spin" />}
+              Save QR
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <Loader2 className="w-5 h-5 animate-spin" />
+      ) : pool.length === 0 ? (
+        <p className="text-sm text-white/60">No QR codes yet</p>
+      ) : (
+        <div className="space-y-2">
+          {pool.map(qr => (
+            <div key={qr.id} className="flex flex-wrap items-center justify-between gap-3 bg-white/5 rounded-lg p-3 text-sm">
+              <div className="flex items-center gap-3 min-w-0">
+                {qr.qr_image_url && (
+                  <img src={qr.qr_image_url} alt={qr.qr_name} className="w-10 h-10 rounded bg-white object-contain" />
+                )}
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{qr.qr_name}</span>
+                    <span className="text-white/70">{qr.upi_id}</span>
+                    {!qr.is_active ? (
+                      <span className="px-2 py-0.5 bg-white/10 rounded-full text-xs">Retired</span>
+                    ) : !inActiveWindow(qr) && (
+                      <span className="px-2 py-0.5 bg-yellow-500/20 text-yellow-300 rounded-full text-xs">Outside window</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-white/60">
+                    {qr.payee_name} • {qr.max_daily_payments} per day
+                    {' • '}
+                    {qr.event_ids?.length ? qr.event_ids.map(eventTitle).join(', ') : 'All events'}
+                    {qr.active_from && ` • from ${new Date(qr.active_from).toLocaleString('en-IN')}`}
+                    {qr.active_until && ` • until ${new Date(qr.active_until).toLocaleString('en-IN')}`}
+                  </div>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => { setEditing(qr); setForm(toForm(qr)) }}
+                  className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+                >
+                  <Edit className="w-3 h-3 inline mr-1" />
+                  Edit
+                </button>
+                <button
+                  onClick={() => toggleActive(qr)}
+                  disabled={saving}
+                  className="px-3 py-1 bg-white/10 text-white rounded text-sm hover:bg-white/20 disabled:opacity-50"
+                >
+                  {qr.is_active ? 'Retire' : 'Reinstate'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Plus, Edit, Loader2, MessageSquare, X } from 'lucide-react'
+import {
+  loadRejectionTemplates,
+  saveRejectionTemplate,
+  MAX_TEMPLATE_HOTKEYS,
+  type RejectionTemplate,
+  type RejectionTemplateInput
+} from '../../../lib/rejectionTemplates'
+import { useLatest } from '../../../hooks/useLatest'
+
+interface RejectionTemplateManagerProps {
+  onSaved: (template: RejectionTemplate, previous: RejectionTemplate | null) => void
+  onError: (message: string) => void
+}
+
+interface TemplateFormState {
+  label: string
+  message: string
+  sort_order: string
+  active: boolean
+}
+
+const emptyForm: TemplateFormState = { label: '', message: '', sort_order: '0', active: true }
+
+const inputClass = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm'
+
+const toInput = (form: TemplateFormState): RejectionTemplateInput => ({
+  label: form.label,
+  message: form.message,
+  sort_order: Number(form.sort_order),
+  active: form.active
+})
+
+export default function RejectionTemplateManager({ onSaved, onError }: RejectionTemplateManagerProps) {
+  const [templates, setTemplates] = useState<RejectionTemplate[]>([])
+  const [loading, setLoading] = useState(true)
+  // null when closed; editing holds the reason being changed
+  const [form, setForm] = useState<TemplateFormState | null>(null)
+  const [editing, setEditing] = useState<RejectionTemplate | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const onErrorRef = useLatest(onError)
+
+  const refresh = useCallback(async () => {
+    try {
+      setTemplates(await loadRejectionTemplates())
+    } catch (err) {
+      onErrorRef.current((err as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }, [onErrorRef])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const persist = async (input: RejectionTemplateInput, previous: RejectionTemplate | null) => {
+    setSaving(true)
+    try {
+      const saved = await saveRejectionTemplate(input, previous?.id ?? null)
+      onSaved(saved, previous)
+      setForm(null)
+      setEditing(null)
+      await refresh()
+    } catch (err) {
+      onError((err as Error).message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Hotkeys follow the order of the active reasons
+  const activeTemplates = templates.filter(t => t.active)
+
+  return (
+    <div className="mb-6 bg-white/5 rounded-xl p-4 border border-white/10">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-lg flex items-center gap-2">
+          <MessageSquare className="w-4 h-4" />
+          Rejection Reasons
+        </h3>
+        {!form && (
+          <button
+            onClick={() => { setEditing(null); setForm(emptyForm) }}
+            className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+          >
+            <Plus className="w-3 h-3 inline mr-1" />
+            New Reason
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <div className="mb-4 p-4 rounded-lg bg-white/5 border border-white/10 space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium">{editing ? `Edit ${editing.label}` : 'New reason'}</h4>
+            <button onClick={() => { setForm(null); setEditing(null) }} className="p-1 rounded hover:bg-white/10">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="text-xs text-white/60">
+              Label
+              <input
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                placeholder="Wrong amount"
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-white/60">
+              Order
+              <input
+                type="number"
+                value={form.sort_order}
+                onChange={(e) => setForm({ ...form, sort_order: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm mt-4">
+              <input type="checkbox" checked={form.active} onChange={(e) => setForm({ ...form, active: e.target.checked })} />
+              Offered to reviewers
+            </label>
+            <label className="text-xs text-white/60 md:col-span-3">
+              Message shown to the payer
+              <textarea
+                value={form.message}
+                onChange={(e) => setForm({ ...form, message: e.target.value })}
+                rows={2}
+                placeholder="The amount paid does not match the ticket price. Pay the difference and upload both receipts."
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <div className="text-right">
+            <button
+              onClick={() => persist(toInput(form), editing)}
+              disabled={saving}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm"
+            >
+              {saving && <Loader2 className="w-4 h-4 inline mr-1 animate-spin" />}
+              Save Reason
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <Loader2 className="w-5 h-5 animate-spin" />
+      ) : templates.length === 0 ? (
+        <p className="text-sm text-white/60">No reasons yet; reviewers will type each one</p>
+      ) : (
+        <div className="space-y-2">
+          {templates.map(template => {
+            const hotkey = activeTemplates.indexOf(template) + 1
+            return (
+              <div key={template.id} className="flex flex-wrap items-center justify-between gap-3 bg-white/5 rounded-lg p-3 text-sm">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    {hotkey > 0 && hotkey <= MAX_TEMPLATE_HOTKEYS && (
+                      <kbd className="px-1.5 py-0.5 bg-white/10 rounded text-xs font-mono">{hotkey}</kbd>
+                    )}
+                    <span className="font-semibold">{template.label}</span>
+                    {!template.active && <span className="px-2 py-0.5 bg-white/10 rounded-full text-xs">Hidden</span>}
+                  </div>
+                  <div className="text-xs text-white/60">{template.message}</div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => {
+                      setEditing(template)
+                      setForm({
+                        label: template.label,
+                        message: template.message,
+                        sort_order: template.sort_order.toString(),
+                        active: template.active
+                      })
+                    }}
+                    className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+                  >
+                    <Edit className="w-3 h-3 inline mr-1" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => persist({
+                      label: template.label,
+                      message: template.message,
+                      sort_order: template.sort_order,
+                      active: !template.active
+                    }, template)}
+                    disabled={saving}
+                    className="px-3 py-1 bg-white/10 text-white rounded text-sm hover:bg-white/20 disabled:opacity-50"
+                  >
+                    {template.active ? 'Hide' : 'Offer'}
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
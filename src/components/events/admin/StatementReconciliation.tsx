@@ -0,0 +1,331 @@
+import { useMemo, useState, type ChangeEvent } from 'react'
+import { Upload, Trash2, CheckCircle, Loader2, AlertTriangle, X } from 'lucide-react'
+import {
+  parseStatement,
+  reconcile,
+  DATE_WINDOW_DAYS,
+  type ConfirmedMatch,
+  type MatchCheck,
+  type ReconciliationProof,
+  type StatementRow
+} from '../../../lib/reconciliation'
+
+interface ImportedStatement {
+  file: string
+  qr_name: string | null
+  rows: StatementRow[]
+  skipped: number
+}
+
+type ReviewProof = ReconciliationProof & { name?: string; user_email?: string }
+
+interface StatementReconciliationProps<P extends ReviewProof> {
+  // Proofs the rows could match, with the payer's details: pending ones to
+  // match, approved ones so credits that were already approved are recognised
+  loadProofs: (rows: StatementRow[]) => Promise<P[]>
+  qrNames: string[]
+  onApprove: (matches: ConfirmedMatch<P>[]) => Promise<void>
+  onClose: () => void
+}
+
+const rowKey = (row: StatementRow) => `${row.file}:${row.line}`
+
+const checkLabels: Record<MatchCheck, string> = {
+  reference: 'Ref',
+  utr: 'UTR',
+  amount: 'Amount',
+  date: 'Date',
+  qr: 'QR'
+}
+
+function RowSummary({ row }: { row: StatementRow }) {
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap gap-3">
+        <span className="font-semibold">₹{row.amount}</span>
+        <span>{row.date ?? '—'}</span>
+        <span>UTR: {row.utr ?? '—'}</span>
+        {row.reference && <span className="font-mono">Ref: {row.reference}</span>}
+        {row.qr_name && <span className="text-white/60">{row.qr_name}</span>}
+      </div>
+      <div className="text-xs text-white/50 truncate">
+        {row.file} line {row.line}{row.description && ` • ${row.description}`}
+      </div>
+    </div>
+  )
+}
+
+function ProofSummary({ proof }: { proof: ReviewProof }) {
+  return (
+    <div className="text-sm">
+      <div className="font-semibold truncate">{proof.name || proof.user_email || proof.user_id}</div>
+      <div className="text-white/60 text-xs truncate">
+        {proof.event_title} • ₹{proof.amount} • UTR {proof.utr_or_ref ?? '—'}{proof.payment_reference && ` • Ref ${proof.payment_reference}`} • {proof.qr_name ?? 'no QR'} • {new Date(proof.created_at).toLocaleDateString()}
+      </div>
+    </div>
+  )
+}
+
+export default function StatementReconciliation<P extends ReviewProof>({
+  loadProofs,
+  qrNames,
+  onApprove,
+  onClose
+}: StatementReconciliationProps<P>) {
+  const [statements, setStatements] = useState<ImportedStatement[]>([])
+  const [proofs, setProofs] = useState<P[]>([])
+  const [loadingProofs, setLoadingProofs] = useState(false)
+  const [importQr, setImportQr] = useState('')
+  const [importError, setImportError] = useState<string | null>(null)
+  // Confirmed matches left out of the next bulk approval
+  const [excluded, setExcluded] = useState<Set<string>>(new Set())
+  // Proofs an admin picked for ambiguous rows, keyed by row
+  const [picked, setPicked] = useState<Record<string, string>>({})
+  const [approving, setApproving] = useState(false)
+
+  const result = useMemo(
+    () => reconcile(statements.flatMap(s => s.rows), proofs, proofs),
+    [statements, proofs]
+  )
+
+  const selected: ConfirmedMatch<P>[] = [
+    ...result.matched.filter(m => !excluded.has(rowKey(m.row))),
+    ...result.ambiguous.flatMap(a => {
+      const candidate = a.candidates.find(c => c.proof.id === picked[rowKey(a.row)])
+      return candidate ? [{ row: a.row, proof: candidate.proof }] : []
+    })
+  ]
+  // One transfer pays for one proof
+  const pickedTwice = selected.some((m, i) => selected.findIndex(o => o.proof.id === m.proof.id) !== i)
+
+  // The proofs to match are fetched for the imported rows each time the statements change
+  const showStatements = async (next: ImportedStatement[]) => {
+    setStatements(next)
+    setLoadingProofs(true)
+    try {
+      setProofs(await loadProofs(next.flatMap(s => s.rows)))
+    } catch (err) {
+      setImportError((err as Error).message)
+    } finally {
+      setLoadingProofs(false)
+    }
+  }
+
+  const handleFiles = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    e.target.value = ''
+    setImportError(null)
+    let next = statements
+    for (const file of files) {
+      try {
+        const { rows, skipped } = parseStatement(await file.text(), file.name, importQr || null)
+        next = [...next.filter(s => s.file !== file.name), { file: file.name, qr_name: importQr || null, rows, skipped }]
+      } catch (err) {
+        setImportError((err as Error).message)
+      }
+    }
+    if (next !== statements) await showStatements(next)
+  }
+
+  const toggleExcluded = (key: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const handleApprove = async () => {
+    if (selected.length === 0 || pickedTwice) return
+    if (!window.confirm(`Approve ${selected.length} payment${selected.length === 1 ? '' : 's'} and issue their tickets?`)) return
+    setApproving(true)
+    try {
+      await onApprove(selected)
+      setPicked({})
+      await showStatements(statements)
+    } finally {
+      setApproving(false)
+    }
+  }
+
+  return (
+    <div className="bg-white/5 rounded-xl p-4 border border-white/10 mb-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-lg">Statement reconciliation</h3>
+        <button onClick={onClose} className="p-2 rounded-lg hover:bg-white/10">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Import */}
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={importQr}
+            onChange={(e) => setImportQr(e.target.value)}
+            className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+          >
+            <option value="" className="bg-gray-800">Statement covers any QR</option>
+            {qrNames.map(name => (
+              <option key={name} value={name} className="bg-gray-800">Statement for {name}</option>
+            ))}
+          </select>
+          <label className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm cursor-pointer">
+            <Upload className="w-4 h-4 inline mr-1" />
+            Import CSV
+            <input type="file" accept=".csv,.tsv,.txt,text/csv" multiple className="hidden" onChange={handleFiles} />
+          </label>
+        </div>
+        <p className="text-xs text-white/50">
+          Export the statement from the bank or UPI app as CSV. Credits match a proof when the UTR, amount,
+          date (within {DATE_WINDOW_DAYS} days) and QR all agree.
+        </p>
+        {importError && <p className="text-sm text-red-300">{importError}</p>}
+        {loadingProofs && <p className="text-sm text-white/60"><Loader2 className="w-4 h-4 inline mr-1 animate-spin" />Loading matching proofs…</p>}
+        {statements.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {statements.map(s => (
+              <span key={s.file} className="px-3 py-1 bg-white/10 rounded-full text-xs flex items-center gap-2">
+                {s.file} • {s.qr_name ?? 'any QR'} • {s.rows.length} credits{s.skipped > 0 && `, ${s.skipped} skipped`}
+                <button onClick={() => showStatements(statements.filter(o => o.file !== s.file))} className="hover:text-red-300">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {statements.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-center text-sm">
+            <div className="bg-green-500/10 rounded-lg p-3"><div className="text-xl font-bold">{result.matched.length}</div>Matched</div>
+            <div className="bg-yellow-500/10 rounded-lg p-3"><div className="text-xl font-bold">{result.ambiguous.length}</div>Ambiguous</div>
+            <div className="bg-red-500/10 rounded-lg p-3"><div className="text-xl font-bold">{result.unmatched.length}</div>Unmatched credits</div>
+            <div className="bg-white/10 rounded-lg p-3"><div className="text-xl font-bold">{result.missing.length}</div>Proofs not in statement</div>
+            <div className="bg-white/10 rounded-lg p-3"><div className="text-xl font-bold">{result.settled.length}</div>Already approved</div>
+          </div>
+
+          {/* Matched */}
+          {result.matched.length > 0 && (
+            <div>
+              <h4 className="font-semibold mb-2 text-green-300">Matched</h4>
+              <div className="space-y-2">
+                {result.matched.map(match => (
+                  <label key={rowKey(match.row)} className="flex items-center gap-3 bg-white/5 rounded-lg p-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!excluded.has(rowKey(match.row))}
+                      onChange={() => toggleExcluded(rowKey(match.row))}
+                    />
+                    <div className="flex-1 grid md:grid-cols-2 gap-2 min-w-0">
+                      <RowSummary row={match.row} />
+                      <ProofSummary proof={match.proof} />
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Ambiguous */}
+          {result.ambiguous.length > 0 && (
+            <div>
+              <h4 className="font-semibold mb-2 text-yellow-300">Ambiguous</h4>
+              <div className="space-y-2">
+                {result.ambiguous.map(item => {
+                  const key = rowKey(item.row)
+                  return (
+                    <div key={key} className="bg-white/5 rounded-lg p-3 space-y-2">
+                      <div className="flex flex-wrap items-start justify-between gap-2">
+                        <RowSummary row={item.row} />
+                        <span className="text-xs text-yellow-300">
+                          <AlertTriangle className="w-3 h-3 inline mr-1" />
+                          {item.reason}
+                        </span>
+                      </div>
+                      {item.candidates.map(candidate => (
+                        <label key={candidate.proof.id} className="flex items-center gap-3 pl-4 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={picked[key] === candidate.proof.id}
+                            onChange={() => setPicked(prev => {
+                              const next = { ...prev }
+                              if (next[key] === candidate.proof.id) delete next[key]
+                              else next[key] = candidate.proof.id
+                              return next
+                            })}
+                          />
+                          <div className="flex-1 min-w-0">
+                            <ProofSummary proof={candidate.proof} />
+                          </div>
+                          <div className="flex gap-1 text-xs">
+                            {(Object.keys(checkLabels) as MatchCheck[])
+                              // Only rows that carry a reference can be checked against one
+                              .filter(check => check !== 'reference' || item.row.reference)
+                              .map(check => (
+                                <span
+                                  key={check}
+                                  className={`px-2 py-0.5 rounded-full ${
+                                    candidate.checks.includes(check) ? 'bg-green-500/20 text-green-300' : 'bg-red-500/20 text-red-300'
+                                  }`}
+                                >
+                                  {checkLabels[check]}
+                                </span>
+                              ))}
+                          </div>
+                        </label>
+                      ))}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Unmatched */}
+          {result.unmatched.length > 0 && (
+            <div>
+              <h4 className="font-semibold mb-2 text-red-300">Unmatched credits</h4>
+              <div className="space-y-2">
+                {result.unmatched.map(row => (
+                  <div key={rowKey(row)} className="bg-white/5 rounded-lg p-3">
+                    <RowSummary row={row} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {result.missing.length > 0 && (
+            <div>
+              <h4 className="font-semibold mb-2 text-white/80">Pending proofs from these dates with no credit in these statements</h4>
+              <div className="space-y-2">
+                {result.missing.map(proof => (
+                  <div key={proof.id} className="bg-white/5 rounded-lg p-3">
+                    <ProofSummary proof={proof} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center justify-end gap-3">
+            {pickedTwice && <span className="text-sm text-red-300">The same proof is selected for two statement rows</span>}
+            <button
+              onClick={handleApprove}
+              disabled={approving || selected.length === 0 || pickedTwice}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+              {approving
+                ? <Loader2 className="w-4 h-4 inline mr-1 animate-spin" />
+                : <CheckCircle className="w-4 h-4 inline mr-1" />}
+              Approve selected ({selected.length})
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
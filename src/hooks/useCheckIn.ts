@@ -0,0 +1,470 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { supabase } from '../lib/supabase'
+import { isTicketToken, verifyTicketToken } from '../lib/ticketToken'
+import { getTicketStatus, transitionTicket, TicketStatus } from '../lib/tickets'
+import {
+  saveRoster,
+  getRosterTicket,
+  getRosterMeta,
+  hasRoster,
+  recordLocalCheckIn,
+  markRosterCheckedIn,
+  getOutbox,
+  removeFromOutbox,
+  recordConflict,
+  getConflicts,
+  clearConflicts,
+  RosterMeta,
+  RosterTicket,
+  SyncConflict
+} from '../lib/checkInStore'
+
+export type CheckInStatus =
+  | 'checked_in'
+  | 'duplicate'
+  | 'wrong_event'
+  | 'revoked'
+  | 'invalid'
+  | 'not_found'
+  | 'error'
+
+export interface CheckInTicket {
+  id: string
+  ticket_code: string
+  event_id: string
+  event_title: string
+  user_id: string
+  holder_name: string
+  roll_no: string | null
+}
+
+export interface CheckInResult {
+  status: CheckInStatus
+  message: string
+  ticket?: CheckInTicket
+  previousCheckInAt?: string
+  previousGate?: string | null
+  // True when the result came from the cached roster rather than the server
+  offline?: boolean
+}
+
+interface ScannedTicketRef {
+  code: string
+  eventId: string | null
+  userId: string | null
+  raw: string
+  signed: boolean
+}
+
+interface SyncResultRow {
+  local_id: string
+  status: 'accepted' | 'duplicate' | 'rejected'
+  winning_gate: string | null
+  winning_scanned_at: string | null
+}
+
+const SYNC_INTERVAL_MS = 30 * 1000
+const ROSTER_PAGE_SIZE = 1000
+
+// Stable per-device gate id so the server can tell scanners apart
+function getGateId(): string {
+  let gateId = localStorage.getItem('checkin_gate_id')
+  if (!gateId) {
+    gateId = `GATE-${Math.random().toString(36).slice(2, 6).toUpperCase()}`
+    localStorage.setItem('checkin_gate_id', gateId)
+  }
+  return gateId
+}
+
+function toCheckInTicket(ticket: RosterTicket): CheckInTicket {
+  return {
+    id: ticket.id,
+    ticket_code: ticket.ticket_code,
+    event_id: ticket.event_id,
+    event_title: ticket.event_title,
+    user_id: ticket.user_id,
+    holder_name: ticket.holder_name,
+    roll_no: ticket.roll_no
+  }
+}
+
+// Resolve a raw QR value into a ticket reference. Signed tokens are verified
+// against the public key; tickets issued before signing (plain JSON payloads)
+// are only accepted if they match the stored qr_data byte for byte.
+async function parseScannedValue(raw: string): Promise<ScannedTicketRef | { error: string }> {
+  const value = raw.trim()
+
+  if (isTicketToken(value)) {
+    const result = await verifyTicketToken(value)
+    if (!result.valid) {
+      return {
+        error: result.reason === 'no_public_key'
+          ? 'Scanner is missing the ticket public key'
+          : 'Ticket signature is not valid'
+      }
+    }
+    return { code: result.claims.c, eventId: result.claims.e, userId: result.claims.u, raw: value, signed: true }
+  }
+
+  try {
+    const legacy = JSON.parse(value)
+    if (legacy?.type === 'ticket' && typeof legacy.code === 'string') {
+      return { code: legacy.code, eventId: legacy.event_id ?? null, userId: legacy.user_id ?? null, raw: value, signed: false }
+    }
+  } catch {
+    // Not JSON - fall through
+  }
+
+  return { error: 'Not an ACN ticket QR code' }
+}
+
+// Revoked and reissued tickets never admit anyone, even if the signature is valid
+function statusRejection(status: TicketStatus): string | null {
+  if (status === 'revoked') return 'Ticket has been revoked'
+  if (status === 'reissued') return 'Ticket was replaced by a reissued ticket'
+  return null
+}
+
+function claimsMatchTicket(parsed: ScannedTicketRef, ticket: { event_id: string; user_id: string; qr_data: string | null }) {
+  return parsed.signed
+    ? ticket.event_id === parsed.eventId && ticket.user_id === parsed.userId
+    : ticket.qr_data === parsed.raw
+}
+
+// A request that never reached the server; supabase-js reports the fetch's
+// TypeError as an error message rather than throwing it
+function isNetworkError(error: unknown): boolean {
+  if (error instanceof TypeError) return true
+  const message = error && typeof error === 'object' && 'message' in error ? String(error.message) : ''
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message)
+}
+
+/**
+ * Check-in that keeps working offline.
+ *
+ * Scans are checked by the server while the device is online. When it is
+ * offline, or the server cannot be reached, scans are validated against the
+ * IndexedDB roster if one has been downloaded for the event, and queued in an
+ * outbox that syncs once the device is back online. Admissions made online
+ * are written to the roster too. Conflict rules, applied by the
+ * sync_check_ins RPC:
+ *  - A local admission is final at the door; sync never "un-admits" anyone.
+ *  - The scan with the earliest scanned_at for a ticket is the official
+ *    check-in, regardless of which gate synced first.
+ *  - Every later scan of the same ticket, from any gate, comes back as a
+ *    duplicate and is kept locally as a conflict for volunteers to review.
+ *  - Scans the server rejects (e.g. ticket deleted or revoked after the
+ *    roster was downloaded) are kept as conflicts too. Network failures
+ *    stay queued.
+ *  - Accepted scans move the ticket from active to used server-side.
+ */
+export function useCheckIn() {
+  const [processing, setProcessing] = useState(false)
+  const [syncing, setSyncing] = useState(false)
+  const [isOnline, setIsOnline] = useState(navigator.onLine)
+  const [pendingCount, setPendingCount] = useState(0)
+  const [rosters, setRosters] = useState<RosterMeta[]>([])
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([])
+  const syncingRef = useRef(false)
+
+  const refreshLocalState = useCallback(async () => {
+    const [outbox, meta, storedConflicts] = await Promise.all([getOutbox(), getRosterMeta(), getConflicts()])
+    setPendingCount(outbox.length)
+    setRosters(meta)
+    setConflicts(storedConflicts)
+  }, [])
+
+  // Download tickets and existing check-ins for the given events into IndexedDB
+  const downloadRosters = useCallback(async (eventIds: string[]): Promise<void> => {
+    for (const eventId of eventIds) {
+      const tickets: Omit<RosterTicket, 'checked_in_at' | 'checked_in_gate'>[] = []
+      for (let from = 0; ; from += ROSTER_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('tickets')
+          .select('id, ticket_code, event_id, event_title, user_id, holder_name, roll_no, qr_data, status')
+          .eq('event_id', eventId)
+          .order('created_at', { ascending: true })
+          .range(from, from + ROSTER_PAGE_SIZE - 1)
+        if (error) throw error
+        tickets.push(...(data || []))
+        if (!data || data.length < ROSTER_PAGE_SIZE) break
+      }
+
+      const { data: checkIns, error: checkInError } = await supabase
+        .from('check_ins')
+        .select('ticket_id, scanned_at, gate_id')
+        .eq('event_id', eventId)
+      if (checkInError) throw checkInError
+
+      const entered = new Map((checkIns || []).map(ci => [ci.ticket_id, ci]))
+      const roster: RosterTicket[] = tickets.map(t => ({
+        ...t,
+        checked_in_at: entered.get(t.id)?.scanned_at ?? null,
+        checked_in_gate: entered.get(t.id)?.gate_id ?? null
+      }))
+
+      await saveRoster({
+        event_id: eventId,
+        event_title: tickets[0]?.event_title ?? '',
+        ticket_count: roster.length,
+        synced_at: new Date().toISOString()
+      }, roster)
+    }
+    await refreshLocalState()
+  }, [refreshLocalState])
+
+  // Push queued scans; returns the number of new conflicts
+  const syncOutbox = useCallback(async (): Promise<number> => {
+    if (syncingRef.current || !navigator.onLine) return 0
+    syncingRef.current = true
+    setSyncing(true)
+    try {
+      const outbox = await getOutbox()
+      if (outbox.length === 0) return 0
+
+      const { data, error } = await supabase.rpc('sync_check_ins', { p_entries: outbox })
+      if (error) throw error
+
+      const rows = (data || []) as SyncResultRow[]
+      const byLocalId = new Map(outbox.map(entry => [entry.local_id, entry]))
+      let newConflicts = 0
+
+      for (const row of rows) {
+        const entry = byLocalId.get(row.local_id)
+        if (!entry || row.status === 'accepted') continue
+        const ticket = await getRosterTicket(entry.ticket_code)
+        await recordConflict({
+          local_id: entry.local_id,
+          ticket_code: entry.ticket_code,
+          holder_name: ticket?.holder_name ?? '',
+          scanned_at: entry.scanned_at,
+          gate_id: entry.gate_id,
+          winning_gate: row.winning_gate,
+          winning_scanned_at: row.winning_scanned_at
+        })
+        newConflicts++
+      }
+
+      await removeFromOutbox(rows.map(row => row.local_id))
+      return newConflicts
+    } catch (error) {
+      // Leave entries queued; the next online event or interval retries
+      console.error('Check-in sync failed:', error)
+      return 0
+    } finally {
+      syncingRef.current = false
+      setSyncing(false)
+      await refreshLocalState()
+    }
+  }, [refreshLocalState])
+
+  const checkInOffline = async (
+    parsed: ScannedTicketRef,
+    expectedEventId: string,
+    scannedBy: string
+  ): Promise<CheckInResult> => {
+    const ticket = await getRosterTicket(parsed.code)
+    if (!ticket) {
+      return {
+        status: 'not_found',
+        message: `${parsed.code} is not in the downloaded roster. Refresh the roster if it was issued recently.`,
+        offline: true
+      }
+    }
+    if (!claimsMatchTicket(parsed, ticket)) {
+      return { status: 'invalid', message: 'QR data does not match the issued ticket', offline: true }
+    }
+    if (ticket.event_id !== expectedEventId) {
+      return { status: 'wrong_event', message: `Ticket is for ${ticket.event_title}`, ticket: toCheckInTicket(ticket), offline: true }
+    }
+    const rejection = statusRejection(getTicketStatus({ status: ticket.status ?? null }))
+    if (rejection) {
+      return { status: 'revoked', message: rejection, ticket: toCheckInTicket(ticket), offline: true }
+    }
+    if (ticket.checked_in_at) {
+      return {
+        status: 'duplicate',
+        message: 'Ticket has already been checked in',
+        ticket: toCheckInTicket(ticket),
+        previousCheckInAt: ticket.checked_in_at,
+        previousGate: ticket.checked_in_gate,
+        offline: true
+      }
+    }
+
+    await recordLocalCheckIn(ticket, {
+      local_id: crypto.randomUUID(),
+      ticket_id: ticket.id,
+      ticket_code: ticket.ticket_code,
+      event_id: ticket.event_id,
+      user_id: ticket.user_id,
+      checked_in_by: scannedBy,
+      gate_id: getGateId(),
+      scanned_at: new Date().toISOString()
+    })
+    return { status: 'checked_in', message: 'Entry allowed', ticket: toCheckInTicket(ticket), offline: true }
+  }
+
+  const checkInOnline = async (
+    parsed: ScannedTicketRef,
+    expectedEventId: string,
+    scannedBy: string
+  ): Promise<CheckInResult> => {
+    const { data: ticket, error: ticketError } = await supabase
+      .from('tickets')
+      .select('id, ticket_code, event_id, event_title, user_id, holder_name, roll_no, qr_data, status')
+      .eq('ticket_code', parsed.code)
+      .maybeSingle()
+
+    if (ticketError) throw ticketError
+    if (!ticket) {
+      return { status: 'not_found', message: `No ticket found for ${parsed.code}` }
+    }
+    if (!claimsMatchTicket(parsed, ticket)) {
+      return { status: 'invalid', message: 'QR data does not match the issued ticket' }
+    }
+
+    const checkInTicket = toCheckInTicket({ ...ticket, checked_in_at: null, checked_in_gate: null })
+
+    if (ticket.event_id !== expectedEventId) {
+      return { status: 'wrong_event', message: `Ticket is for ${ticket.event_title}`, ticket: checkInTicket }
+    }
+    const rejection = statusRejection(getTicketStatus(ticket))
+    if (rejection) {
+      return { status: 'revoked', message: rejection, ticket: checkInTicket }
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('check_ins')
+      .select('scanned_at, gate_id')
+      .eq('ticket_id', ticket.id)
+      .order('scanned_at', { ascending: true })
+      .limit(1)
+      .maybeSingle()
+
+    if (existingError) throw existingError
+    if (existing) {
+      return {
+        status: 'duplicate',
+        message: 'Ticket has already been checked in',
+        ticket: checkInTicket,
+        previousCheckInAt: existing.scanned_at,
+        previousGate: existing.gate_id
+      }
+    }
+
+    const gateId = getGateId()
+    const scannedAt = new Date().toISOString()
+    const { error: insertError } = await supabase
+      .from('check_ins')
+      .insert({
+        ticket_id: ticket.id,
+        ticket_code: ticket.ticket_code,
+        event_id: ticket.event_id,
+        user_id: ticket.user_id,
+        checked_in_by: scannedBy,
+        gate_id: gateId,
+        scanned_at: scannedAt
+      })
+
+    if (insertError) {
+      // Unique violation: another scanner got there first
+      if (insertError.code === '23505') {
+        return { status: 'duplicate', message: 'Ticket has already been checked in', ticket: checkInTicket }
+      }
+      throw insertError
+    }
+
+    markRosterCheckedIn(ticket.ticket_code, scannedAt, gateId).catch(error => {
+      console.error('Failed to update roster:', error)
+    })
+
+    // The check_ins row is what admits the holder; the status is bookkeeping
+    if (getTicketStatus(ticket) === 'active') {
+      transitionTicket(ticket, 'used', `Checked in at ${gateId}`, scannedBy).catch(error => {
+        console.error('Failed to mark ticket used:', error)
+      })
+    }
+
+    return { status: 'checked_in', message: 'Entry allowed', ticket: checkInTicket }
+  }
+
+  const checkInTicket = useCallback(async (
+    rawValue: string,
+    expectedEventId: string,
+    scannedBy: string
+  ): Promise<CheckInResult> => {
+    setProcessing(true)
+    try {
+      const parsed = await parseScannedValue(rawValue)
+      if ('error' in parsed) {
+        return { status: 'invalid', message: parsed.error }
+      }
+
+      // The server has the latest revocations and other gates' scans; the
+      // roster is only for when it cannot be reached
+      if (navigator.onLine) {
+        try {
+          return await checkInOnline(parsed, expectedEventId, scannedBy)
+        } catch (error) {
+          if (!isNetworkError(error) || !(await hasRoster(expectedEventId))) throw error
+        }
+      }
+
+      if (!(await hasRoster(expectedEventId))) {
+        return { status: 'error', message: 'Offline and no roster downloaded for this event' }
+      }
+      const result = await checkInOffline(parsed, expectedEventId, scannedBy)
+      if (result.status === 'checked_in') {
+        setPendingCount(prev => prev + 1)
+        if (navigator.onLine) syncOutbox()
+      }
+      return result
+    } catch (error) {
+      console.error('Check-in failed:', error)
+      return { status: 'error', message: (error as Error).message || 'Check-in failed' }
+    } finally {
+      setProcessing(false)
+    }
+  }, [syncOutbox])
+
+  const dismissConflicts = useCallback(async () => {
+    await clearConflicts()
+    setConflicts([])
+  }, [])
+
+  // Track connectivity and keep draining the outbox
+  useEffect(() => {
+    refreshLocalState()
+
+    const handleOnline = () => {
+      setIsOnline(true)
+      syncOutbox()
+    }
+    const handleOffline = () => setIsOnline(false)
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    const interval = setInterval(() => syncOutbox(), SYNC_INTERVAL_MS)
+
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+      clearInterval(interval)
+    }
+  }, [refreshLocalState, syncOutbox])
+
+  return {
+    processing,
+    syncing,
+    isOnline,
+    pendingCount,
+    rosters,
+    conflicts,
+    gateId: getGateId(),
+    checkInTicket,
+    downloadRosters,
+    syncOutbox,
+    dismissConflicts
+  }
+}
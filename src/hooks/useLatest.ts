@@ -0,0 +1,10 @@
+import { useRef } from 'react'
+
+// The value from the latest render, behind a stable ref. Lets a component call
+// a callback prop from a load it runs once, even when the parent passes a new
+// function on every render.
+export function useLatest<T>(value: T) {
+  const ref = useRef(value)
+  ref.current = value
+  return ref
+}
@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react'
 import { supabase } from '../lib/supabase'
+import { isQRBusy } from '../lib/qrPool'
 // Using custom toast system - pass addToast function from component
 
 interface QRInfo {
@@ -224,82 +225,6 @@ export function useQRCycling() {
     }
   }, [])
 
-  // Complete payment flow (check registration -> get QR -> submit -> upload)
-  const completePaymentFlow = useCallback(async (params: {
-    userId: string
-    eventId: string
-    name: string
-    rollNo: string
-    teamMembers?: string
-    screenshot: File
-  }): Promise<{
-    success: boolean
-    paymentProofId?: string
-    qrName?: string
-    dailyPaymentNumber?: number
-    qrStatus?: string
-    message: string
-  }> => {
-    setLoading(true)
-    try {
-      // Step 1: Check if user can register
-      const registrationStatus = await checkUserRegistration(params.userId, params.eventId)
-      
-      if (!registrationStatus.can_register) {
-        return {
-          success: false,
-          message: registrationStatus.message || 'You are already registered for this event'
-        }
-      }
-
-      // Step 2: Submit payment proof (this automatically selects best QR)
-      const submitResult = await submitPaymentProof({
-        userId: params.userId,
-        eventId: params.eventId,
-        name: params.name,
-        rollNo: params.rollNo,
-        teamMembers: params.teamMembers,
-        fileSizeBytes: params.screenshot.size,
-        fileType: params.screenshot.type
-      })
-
-      // Step 3: Upload screenshot to storage
-      const publicUrl = await uploadPaymentScreenshot(params.screenshot, submitResult.storage_path!)
-
-      // Step 4: Update payment proof with uploaded URL
-      const { error: updateError } = await supabase
-        .from('payment_proofs')
-        .update({ 
-          screenshot_url: publicUrl,
-          status: 'pending'
-        })
-        .eq('id', submitResult.payment_proof_id!)
-
-      if (updateError) throw updateError
-
-      // Step 5: Refresh system stats
-      await getQRSystemStats()
-
-      return {
-        success: true,
-        paymentProofId: submitResult.payment_proof_id,
-        qrName: submitResult.qr_name,
-        dailyPaymentNumber: submitResult.daily_payment_number,
-        qrStatus: submitResult.qr_status,
-        message: `${submitResult.message} Screenshot uploaded successfully!`
-      }
-
-    } catch (error: any) {
-      console.error('Complete payment flow error:', error)
-      return {
-        success: false,
-        message: error.message || 'Failed to complete payment submission'
-      }
-    } finally {
-      setLoading(false)
-    }
-  }, [checkUserRegistration, submitPaymentProof, uploadPaymentScreenshot, getQRSystemStats])
-
   // Trigger daily QR maintenance (for admin use)
   const triggerDailyMaintenance = useCallback(async (): Promise<string> => {
     try {
@@ -384,7 +309,6 @@ export function useQRCycling() {
     submitPaymentProof,
     uploadPaymentScreenshot,
     getQRSystemStats,
-    completePaymentFlow,
     
     // Admin functions
     triggerDailyMaintenance,
@@ -451,6 +375,9 @@ export function useQRAdmin() {
   const getQRInsights = useCallback(() => {
     if (!stats) return null
 
+    // Each QR has its own daily limit, so capacity is their sum
+    const totalCapacity = stats.qr_details.reduce((sum, qr) => sum + qr.max_daily_payments, 0)
+
     const insights = {
       mostUsedQR: stats.qr_details.reduce((max, qr) => 
         qr.daily_count > max.daily_count ? qr : max, stats.qr_details[0]
@@ -458,10 +385,10 @@ export function useQRAdmin() {
       leastUsedQR: stats.qr_details.reduce((min, qr) => 
         qr.daily_count < min.daily_count ? qr : min, stats.qr_details[0]
       ),
-      averageUtilization: Math.round(
-        (stats.total_daily_payments / (stats.total_qrs * 20)) * 100
-      ),
-      busyQRs: stats.qr_details.filter(qr => qr.daily_count >= 15).length,
+      averageUtilization: totalCapacity > 0
+        ? Math.round((stats.total_daily_payments / totalCapacity) * 100)
+        : 0,
+      busyQRs: stats.qr_details.filter(isQRBusy).length,
       availableQRs: stats.qr_details.filter(qr => qr.status === 'active').length,
       hoursUntilReset: Math.floor(
         (new Date(stats.next_auto_reset).getTime() - Date.now()) / (1000 * 60 * 60)
@@ -0,0 +1,103 @@
+import { supabase } from './supabase'
+import { istInputToIso, isoToIstInput } from './schedule'
+
+// Numbers for the admin analytics tab. Every figure is aggregated in the
+// database by an admin-only RPC, so the browser gets a few dozen rows rather
+// than the tables behind them. Revenue is the sum of approved proof amounts;
+// days are IST calendar days.
+
+export interface DailyActivity {
+  // yyyy-mm-dd in IST
+  day: string
+  registrations: number
+  proofs: number
+  approved: number
+  revenue: number
+}
+
+// One row per event, plus one per combo pass for pass payments
+export interface EventStats {
+  event_id: string | null
+  title: string
+  registrations: number
+  proofs: number
+  approved: number
+  revenue: number
+}
+
+export interface QRRevenue {
+  qr_name: string
+  approved: number
+  revenue: number
+}
+
+export interface CountByLabel {
+  label: string
+  count: number
+}
+
+export type ProfileBreakdownField = 'college_name' | 'branch'
+
+export interface AnalyticsSnapshot {
+  daily: DailyActivity[]
+  events: EventStats[]
+  qrs: QRRevenue[]
+  rejections: CountByLabel[]
+  colleges: CountByLabel[]
+  branches: CountByLabel[]
+}
+
+export const ANALYTICS_RANGES = [7, 14, 30, 90] as const
+
+// Entries per breakdown; the RPCs sum the rest into "Other"
+const TOP_N = 10
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const istDay = (date: Date) => isoToIstInput(date.toISOString()).slice(0, 10)
+
+async function callRpc<T>(name: string, params: Record<string, unknown> = {}): Promise<T[]> {
+  const { data, error } = await supabase.rpc(name, params)
+  if (error) throw error
+  return (data || []) as T[]
+}
+
+// Every day of the range, with zeros for days nothing happened
+export function fillDays(rows: DailyActivity[], days: number, today = new Date()): DailyActivity[] {
+  const byDay = new Map(rows.map(r => [r.day, r]))
+  return Array.from({ length: days }, (_, i) => {
+    const day = istDay(new Date(today.getTime() - (days - 1 - i) * DAY_MS))
+    return byDay.get(day) ?? { day, registrations: 0, proofs: 0, approved: 0, revenue: 0 }
+  })
+}
+
+// Registered -> submitted a proof -> approved, as shares of registrations
+export function funnel(events: EventStats[]): { stage: string; count: number; share: number }[] {
+  const totals = events.reduce(
+    (sum, e) => ({ registrations: sum.registrations + e.registrations, proofs: sum.proofs + e.proofs, approved: sum.approved + e.approved }),
+    { registrations: 0, proofs: 0, approved: 0 }
+  )
+  const share = (count: number) => totals.registrations ? count / totals.registrations : 0
+  return [
+    { stage: 'Registered', count: totals.registrations, share: 1 },
+    { stage: 'Submitted proof', count: totals.proofs, share: share(totals.proofs) },
+    { stage: 'Approved', count: totals.approved, share: share(totals.approved) }
+  ]
+}
+
+// Profiles counted by a field; blanks come back as "Not given"
+const loadProfileBreakdown = (field: ProfileBreakdownField) =>
+  callRpc<CountByLabel>('admin_profile_breakdown', { p_field: field, p_limit: TOP_N })
+
+export async function loadAnalytics(days: number): Promise<AnalyticsSnapshot> {
+  const from = istInputToIso(`${istDay(new Date(Date.now() - (days - 1) * DAY_MS))}T00:00`)
+  const [daily, events, qrs, rejections, colleges, branches] = await Promise.all([
+    callRpc<DailyActivity>('admin_daily_activity', { p_from: from }),
+    callRpc<EventStats>('admin_event_stats'),
+    callRpc<QRRevenue>('admin_qr_revenue'),
+    callRpc<CountByLabel>('admin_rejection_reasons', { p_limit: TOP_N }),
+    loadProfileBreakdown('college_name'),
+    loadProfileBreakdown('branch')
+  ])
+  return { daily: fillDays(daily, days), events, qrs, rejections, colleges, branches }
+}
@@ -0,0 +1,89 @@
+import { supabase } from './supabase'
+
+// Combo passes. A bundle covers several events for one price and is paid
+// like a single event: one screenshot through the QR allocation flow, with
+// payment_proofs.bundle_id set and no event_id. Approving it issues the payer
+// one ticket per included event, each carrying tickets.bundle_id. Team events
+// cannot be bundled since their tickets go to the whole roster.
+
+export interface Bundle {
+  id: string
+  name: string
+  description: string | null
+  price: number
+  event_ids: string[]
+  active: boolean
+  created_at: string
+}
+
+export type BundleInput = Omit<Bundle, 'id' | 'created_at'>
+
+// The fields of an event a bundle needs to be checked and shown
+export interface BundleEvent {
+  id: string
+  title: string
+  price: number | null
+  team_max_size?: number | null
+}
+
+export async function loadBundles(activeOnly = false): Promise<Bundle[]> {
+  let query = supabase.from('bundles').select('*').order('created_at', { ascending: true })
+  if (activeOnly) query = query.eq('active', true)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data || []) as Bundle[]
+}
+
+export async function loadBundle(bundleId: string): Promise<Bundle> {
+  const { data, error } = await supabase.from('bundles').select('*').eq('id', bundleId).single()
+  if (error) throw error
+  return data as Bundle
+}
+
+export async function loadBundleEvents(bundle: Pick<Bundle, 'event_ids'>): Promise<BundleEvent[]> {
+  if (bundle.event_ids.length === 0) return []
+  const { data, error } = await supabase
+    .from('events')
+    .select('id, title, price, team_max_size')
+    .in('id', bundle.event_ids)
+
+  if (error) throw error
+  // Keep the order the admin chose
+  return bundle.event_ids
+    .map(id => (data || []).find(e => e.id === id) as BundleEvent | undefined)
+    .filter((e): e is BundleEvent => !!e)
+}
+
+// Problems that should block saving, one message per problem
+export function validateBundle(input: BundleInput, events: BundleEvent[]): string[] {
+  const errors: string[] = []
+  if (!input.name.trim()) errors.push('Give the pass a name')
+  if (!(input.price > 0)) errors.push('Price must be above zero')
+  if (new Set(input.event_ids).size < 2) errors.push('A pass needs at least two events')
+  for (const id of input.event_ids) {
+    const event = events.find(e => e.id === id)
+    if (!event) errors.push('One of the events no longer exists')
+    else if (event.team_max_size) errors.push(`${event.title} is a team event and cannot be in a pass`)
+  }
+  return errors
+}
+
+// What the events would cost bought one by one, less the pass price
+export function bundleSavings(bundle: Pick<Bundle, 'price' | 'event_ids'>, events: BundleEvent[]): number {
+  const separately = bundle.event_ids.reduce((sum, id) => sum + (events.find(e => e.id === id)?.price ?? 0), 0)
+  return Math.max(0, separately - bundle.price)
+}
+
+export async function saveBundle(input: BundleInput, events: BundleEvent[], id: string | null = null): Promise<Bundle> {
+  const row = { ...input, name: input.name.trim(), description: input.description?.trim() || null, event_ids: [...new Set(input.event_ids)] }
+  const errors = validateBundle(row, events)
+  if (errors.length > 0) throw new Error(errors.join('. '))
+
+  const query = id
+    ? supabase.from('bundles').update(row).eq('id', id)
+    : supabase.from('bundles').insert(row)
+  const { data, error } = await query.select('*').single()
+  if (error) throw error
+  return data as Bundle
+}
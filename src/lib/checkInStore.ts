@@ -0,0 +1,188 @@
+// IndexedDB cache for offline check-in: the ticket roster per event and an
+// outbox of scans waiting to be pushed to Supabase.
+import type { TicketStatus } from './tickets'
+
+const DB_NAME = 'acn-checkin'
+const DB_VERSION = 1
+
+export interface RosterTicket {
+  id: string
+  ticket_code: string
+  event_id: string
+  event_title: string
+  user_id: string
+  holder_name: string
+  roll_no: string | null
+  qr_data: string | null
+  // Missing on rosters cached before ticket statuses existed
+  status?: TicketStatus | null
+  // First known entry, from the server roster or a local scan
+  checked_in_at: string | null
+  checked_in_gate: string | null
+}
+
+export interface OutboxEntry {
+  local_id: string
+  ticket_id: string
+  ticket_code: string
+  event_id: string
+  user_id: string
+  checked_in_by: string
+  gate_id: string
+  scanned_at: string
+}
+
+export interface RosterMeta {
+  event_id: string
+  event_title: string
+  ticket_count: number
+  synced_at: string
+}
+
+export interface SyncConflict {
+  local_id: string
+  ticket_code: string
+  holder_name: string
+  scanned_at: string
+  gate_id: string
+  winning_gate: string | null
+  winning_scanned_at: string | null
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      const roster = db.createObjectStore('roster', { keyPath: 'ticket_code' })
+      roster.createIndex('event_id', 'event_id', { unique: false })
+      db.createObjectStore('outbox', { keyPath: 'local_id' })
+      db.createObjectStore('roster_meta', { keyPath: 'event_id' })
+      db.createObjectStore('conflicts', { keyPath: 'local_id' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+  return dbPromise
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+// Replace the cached roster for one event. Local scans that have not reached
+// the server yet are kept so a re-download cannot re-admit a ticket.
+export async function saveRoster(meta: RosterMeta, tickets: RosterTicket[]): Promise<void> {
+  const db = await openDb()
+  const pending = await getOutbox()
+  const pendingByTicket = new Map(pending.map(entry => [entry.ticket_id, entry]))
+
+  const tx = db.transaction(['roster', 'roster_meta'], 'readwrite')
+  const roster = tx.objectStore('roster')
+  const existingKeys = await promisify(roster.index('event_id').getAllKeys(meta.event_id))
+  existingKeys.forEach(key => roster.delete(key))
+
+  tickets.forEach(ticket => {
+    const local = pendingByTicket.get(ticket.id)
+    if (local && !ticket.checked_in_at) {
+      roster.put({ ...ticket, checked_in_at: local.scanned_at, checked_in_gate: local.gate_id })
+    } else {
+      roster.put(ticket)
+    }
+  })
+  tx.objectStore('roster_meta').put(meta)
+  await transactionDone(tx)
+}
+
+export async function getRosterTicket(ticketCode: string): Promise<RosterTicket | undefined> {
+  const db = await openDb()
+  return promisify(db.transaction('roster').objectStore('roster').get(ticketCode))
+}
+
+export async function getRosterMeta(): Promise<RosterMeta[]> {
+  const db = await openDb()
+  return promisify(db.transaction('roster_meta').objectStore('roster_meta').getAll())
+}
+
+export async function hasRoster(eventId: string): Promise<boolean> {
+  const db = await openDb()
+  const meta = await promisify(db.transaction('roster_meta').objectStore('roster_meta').get(eventId))
+  return !!meta
+}
+
+// Mark the ticket as entered and queue the scan in one transaction
+export async function recordLocalCheckIn(ticket: RosterTicket, entry: OutboxEntry): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(['roster', 'outbox'], 'readwrite')
+  tx.objectStore('roster').put({ ...ticket, checked_in_at: entry.scanned_at, checked_in_gate: entry.gate_id })
+  tx.objectStore('outbox').put(entry)
+  await transactionDone(tx)
+}
+
+// Note an admission the server made, so a later offline scan of the same
+// ticket is refused by the roster. Tickets not in a roster are ignored.
+export async function markRosterCheckedIn(ticketCode: string, scannedAt: string, gateId: string): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction('roster', 'readwrite')
+  const roster = tx.objectStore('roster')
+  const ticket = await promisify<RosterTicket | undefined>(roster.get(ticketCode))
+  if (ticket) roster.put({ ...ticket, checked_in_at: scannedAt, checked_in_gate: gateId })
+  await transactionDone(tx)
+}
+
+export async function getOutbox(): Promise<OutboxEntry[]> {
+  const db = await openDb()
+  const entries = await promisify(db.transaction('outbox').objectStore('outbox').getAll())
+  return (entries as OutboxEntry[]).sort((a, b) => a.scanned_at.localeCompare(b.scanned_at))
+}
+
+export async function removeFromOutbox(localIds: string[]): Promise<void> {
+  if (localIds.length === 0) return
+  const db = await openDb()
+  const tx = db.transaction('outbox', 'readwrite')
+  localIds.forEach(id => tx.objectStore('outbox').delete(id))
+  await transactionDone(tx)
+}
+
+// Apply the server's decision for a ticket that lost a conflict: the roster
+// takes the winning entry and the losing scan is kept for review.
+export async function recordConflict(conflict: SyncConflict): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(['roster', 'conflicts'], 'readwrite')
+  const roster = tx.objectStore('roster')
+  const ticket = await promisify(roster.get(conflict.ticket_code)) as RosterTicket | undefined
+  if (ticket && conflict.winning_scanned_at) {
+    roster.put({ ...ticket, checked_in_at: conflict.winning_scanned_at, checked_in_gate: conflict.winning_gate })
+  }
+  tx.objectStore('conflicts').put(conflict)
+  await transactionDone(tx)
+}
+
+export async function getConflicts(): Promise<SyncConflict[]> {
+  const db = await openDb()
+  return promisify(db.transaction('conflicts').objectStore('conflicts').getAll())
+}
+
+export async function clearConflicts(): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction('conflicts', 'readwrite')
+  tx.objectStore('conflicts').clear()
+  await transactionDone(tx)
+}
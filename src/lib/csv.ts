@@ -0,0 +1,58 @@
+// Minimal RFC 4180 CSV reader and writer
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function escapeCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  let text = String(value)
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n'
+}
+
+// Quoted cells may contain commas, doubled quotes and line breaks. A leading
+// byte order mark is dropped; blank lines are skipped.
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.some(c => c.trim() !== '')) rows.push(row)
+    row = []
+    cell = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"' && cell === '') {
+      quoted = true
+    } else if (ch === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      cell += ch
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow()
+  return rows
+}
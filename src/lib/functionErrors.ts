@@ -0,0 +1,12 @@
+import { FunctionsHttpError } from '@supabase/supabase-js'
+
+// supabase.functions.invoke reports a non-2xx reply as a FunctionsHttpError
+// whose context is the Response. Our edge functions answer { error: message },
+// which says more than the client's generic "non-2xx status code".
+export async function functionErrorMessage(error: unknown, fallback: string): Promise<string> {
+  if (error instanceof FunctionsHttpError) {
+    const details = await (error.context as Response).json().catch(() => null)
+    if (typeof details?.error === 'string' && details.error) return details.error
+  }
+  return error instanceof Error && error.message ? error.message : fallback
+}
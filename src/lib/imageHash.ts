@@ -0,0 +1,55 @@
+// Perceptual difference hash (dHash) of an image: scale to 9x8 greyscale and
+// record whether each pixel is brighter than its right neighbour. Re-encoding,
+// resizing and small crops barely change the 64 bits. The hash sees layout,
+// not text: two receipts from the same UPI app hash almost alike whatever the
+// amount or UTR, so a match only tells a reviewer to compare the two.
+
+const HASH_WIDTH = 9
+const HASH_HEIGHT = 8
+
+// Distances up to this many bits are treated as the same image. Re-encoded,
+// rescaled and slightly cropped copies stay within 2 bits of the original.
+export const SIMILAR_IMAGE_DISTANCE = 2
+
+export async function computeImageHash(image: Blob): Promise<string> {
+  const bitmap = await createImageBitmap(image)
+  const canvas = document.createElement('canvas')
+  canvas.width = HASH_WIDTH
+  canvas.height = HASH_HEIGHT
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!
+  ctx.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT)
+  bitmap.close()
+
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT)
+  const grey = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114
+  }
+
+  let hex = ''
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      byte = (byte << 1) | (grey(x, y) > grey(x + 1, y) ? 1 : 0)
+    }
+    hex += byte.toString(16).padStart(2, '0')
+  }
+  return hex
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Number.POSITIVE_INFINITY
+  let distance = 0
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16)
+    while (diff) {
+      distance += diff & 1
+      diff >>= 1
+    }
+  }
+  return distance
+}
+
+export function isSimilarImage(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && hammingDistance(a, b) <= SIMILAR_IMAGE_DISTANCE
+}
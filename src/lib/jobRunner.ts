@@ -0,0 +1,62 @@
+// Runs a job per item with at most `concurrency` in flight, so bulk work
+// (ticket PDFs, downloads) keeps the browser and storage busy without
+// flooding either. A failed item is recorded and the rest carry on; callers
+// decide what a retry of the failures means. Items that share a key run one
+// after another, in order.
+
+export interface JobProgress {
+  done: number
+  total: number
+  failed: number
+}
+
+export interface JobFailure<T> {
+  item: T
+  message: string
+}
+
+export interface JobRunResult<T, R> {
+  results: { item: T; result: R }[]
+  failures: JobFailure<T>[]
+}
+
+export async function runJobs<T, R>(
+  items: T[],
+  job: (item: T) => Promise<R>,
+  options: { concurrency: number; key?: (item: T) => string; onProgress?: (progress: JobProgress) => void }
+): Promise<JobRunResult<T, R>> {
+  const results: { item: T; result: R }[] = []
+  const failures: JobFailure<T>[] = []
+  let done = 0
+  let next = 0
+
+  // Last job started per key; the next one with that key waits for it
+  const tails = new Map<string, Promise<unknown>>()
+  const runItem = (item: T): Promise<R> => {
+    const key = options.key?.(item)
+    if (key === undefined) return job(item)
+    const run = (tails.get(key) ?? Promise.resolve()).then(() => job(item))
+    tails.set(key, run.catch(() => {}))
+    return run
+  }
+
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++]
+      try {
+        results.push({ item, result: await runItem(item) })
+      } catch (err) {
+        // Supabase errors are plain objects with a message, not Error instances
+        const message = typeof err === 'string' ? err
+          : err && typeof err === 'object' && 'message' in err ? String(err.message) : ''
+        failures.push({ item, message: message || 'Failed' })
+      }
+      done++
+      options.onProgress?.({ done, total: items.length, failed: failures.length })
+    }
+  }
+
+  options.onProgress?.({ done: 0, total: items.length, failed: 0 })
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, items.length) }, worker))
+  return { results, failures }
+}
@@ -0,0 +1,220 @@
+import { supabase } from './supabase'
+import { toCsv } from './csv'
+import { toXlsx } from './xlsx'
+import { isoToIstInput } from './schedule'
+import { loadBundles } from './bundles'
+import { isTicketValid, type TicketStatus } from './tickets'
+
+// Participant spreadsheets for coordinators. One row per person per event:
+// everyone registered for the event or holding a ticket to it (team members
+// and pass holders get tickets without registering), with their profile, the
+// latest payment proof covering the event, their ticket and whether it was
+// scanned at the gate. Built in the browser as CSV or XLSX.
+
+export type ExportColumnKey =
+  | 'event_title'
+  | 'name'
+  | 'email'
+  | 'rollno'
+  | 'branch'
+  | 'year'
+  | 'college_name'
+  | 'phone'
+  | 'registered_at'
+  | 'payment_status'
+  | 'utr'
+  | 'ticket_code'
+  | 'ticket_status'
+  | 'checked_in'
+  | 'checked_in_at'
+
+export type ExportFormat = 'csv' | 'xlsx'
+
+export const EXPORT_COLUMN_LABELS: Record<ExportColumnKey, string> = {
+  event_title: 'Event',
+  name: 'Name',
+  email: 'Email',
+  rollno: 'Roll number',
+  branch: 'Branch',
+  year: 'Year',
+  college_name: 'College',
+  phone: 'Phone',
+  registered_at: 'Registered at (IST)',
+  payment_status: 'Payment status',
+  utr: 'UTR',
+  ticket_code: 'Ticket code',
+  ticket_status: 'Ticket status',
+  checked_in: 'Checked in',
+  checked_in_at: 'Checked in at (IST)'
+}
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumnKey[] = [
+  'event_title', 'name', 'email', 'rollno', 'phone', 'payment_status', 'ticket_code', 'checked_in'
+]
+
+export type ParticipantRow = Record<ExportColumnKey, string | null>
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000
+// Ids per .in() filter, to keep request URLs short
+const ID_CHUNK = 200
+
+async function selectAll<T>(page: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    rows.push(...((data || []) as T[]))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+function groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const key = keyOf(item)
+    const group = groups.get(key)
+    if (group) group.push(item)
+    else groups.set(key, [item])
+  }
+  return groups
+}
+
+const formatIst = (iso: string | null | undefined) => iso ? isoToIstInput(iso).replace('T', ' ') : null
+
+interface ProfileFields {
+  id: string
+  name: string | null
+  rollno: string | null
+  branch: string | null
+  year: string | null
+  college_name: string | null
+  phone: string | null
+}
+
+interface TicketFields {
+  id: string
+  user_id: string
+  event_id: string
+  event_title: string
+  ticket_code: string
+  status: TicketStatus | null
+  created_at: string
+}
+
+interface ProofFields {
+  user_id: string
+  event_id: string | null
+  bundle_id: string | null
+  status: string
+  utr_or_ref: string | null
+  created_at: string
+}
+
+// eventId null exports every event
+export async function loadParticipantRows(eventId: string | null): Promise<ParticipantRow[]> {
+  const [registrations, tickets, proofs, checkIns, events, bundles] = await Promise.all([
+    selectAll<{ user_id: string; event_id: string; created_at: string }>((from, to) => {
+      const query = supabase.from('registrations').select('user_id, event_id, created_at')
+      return (eventId ? query.eq('event_id', eventId) : query).order('created_at').range(from, to)
+    }),
+    selectAll<TicketFields>((from, to) => {
+      const query = supabase.from('tickets').select('id, user_id, event_id, event_title, ticket_code, status, created_at')
+      return (eventId ? query.eq('event_id', eventId) : query).order('created_at').range(from, to)
+    }),
+    // Pass proofs have no event_id, so every pass proof is fetched and matched below
+    selectAll<ProofFields>((from, to) => {
+      const query = supabase.from('payment_proofs').select('user_id, event_id, bundle_id, status, utr_or_ref, created_at')
+      return (eventId ? query.or(`event_id.eq.${eventId},bundle_id.not.is.null`) : query).order('created_at').range(from, to)
+    }),
+    selectAll<{ ticket_id: string; scanned_at: string }>((from, to) => {
+      const query = supabase.from('check_ins').select('ticket_id, scanned_at')
+      return (eventId ? query.eq('event_id', eventId) : query).order('scanned_at').range(from, to)
+    }),
+    selectAll<{ id: string; title: string }>((from, to) => supabase.from('events').select('id, title').range(from, to)),
+    loadBundles()
+  ])
+
+  // One row per person and event
+  const keys = new Map<string, { userId: string; eventId: string }>()
+  for (const r of [...registrations, ...tickets]) keys.set(`${r.user_id}:${r.event_id}`, { userId: r.user_id, eventId: r.event_id })
+  const userIds = [...new Set([...keys.values()].map(k => k.userId))]
+
+  const [profiles, emails] = await Promise.all([
+    (async () => {
+      const found: ProfileFields[] = []
+      for (let i = 0; i < userIds.length; i += ID_CHUNK) {
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('id, name, rollno, branch, year, college_name, phone')
+          .in('id', userIds.slice(i, i + ID_CHUNK))
+        if (error) throw error
+        found.push(...((data || []) as ProfileFields[]))
+      }
+      return new Map(found.map(p => [p.id, p]))
+    })(),
+    supabase.rpc('get_admin_user_emails').then(({ data, error }) => {
+      if (error) throw error
+      return new Map(((data || []) as { user_id: string; user_email: string }[]).map(u => [u.user_id, u.user_email]))
+    })
+  ])
+
+  const eventTitles = new Map(events.map(e => [e.id, e.title]))
+  const bundleEvents = new Map(bundles.map(b => [b.id, b.event_ids]))
+  const scannedAt = new Map(checkIns.map(c => [c.ticket_id, c.scanned_at]))
+  const registeredAt = new Map(registrations.map(r => [`${r.user_id}:${r.event_id}`, r.created_at]))
+  // Lists are oldest first, so grouping keeps each group oldest first too
+  const ticketsByKey = groupBy(tickets, t => `${t.user_id}:${t.event_id}`)
+  const proofsByUser = groupBy(proofs, p => p.user_id)
+
+  const rows = [...keys.values()].map(({ userId, eventId: rowEventId }): ParticipantRow => {
+    const key = `${userId}:${rowEventId}`
+    const profile = profiles.get(userId)
+    // The latest valid ticket, else the latest of any status
+    const ownTickets = ticketsByKey.get(key) ?? []
+    const ticket = ownTickets.filter(isTicketValid).pop() ?? ownTickets[ownTickets.length - 1]
+    const proof = (proofsByUser.get(userId) ?? []).filter(p => p.event_id === rowEventId ||
+      (!!p.bundle_id && !!bundleEvents.get(p.bundle_id)?.includes(rowEventId))).pop()
+    const checkedInAt = ticket ? scannedAt.get(ticket.id) : undefined
+
+    return {
+      event_title: eventTitles.get(rowEventId) ?? ticket?.event_title ?? null,
+      name: profile?.name ?? null,
+      email: emails.get(userId) ?? null,
+      rollno: profile?.rollno ?? null,
+      branch: profile?.branch ?? null,
+      year: profile?.year ?? null,
+      college_name: profile?.college_name ?? null,
+      phone: profile?.phone ?? null,
+      registered_at: formatIst(registeredAt.get(key)),
+      payment_status: proof?.status ?? null,
+      utr: proof?.utr_or_ref ?? null,
+      ticket_code: ticket?.ticket_code ?? null,
+      ticket_status: ticket ? ticket.status ?? 'active' : null,
+      checked_in: ticket ? (checkedInAt ? 'Yes' : 'No') : null,
+      checked_in_at: formatIst(checkedInAt)
+    }
+  })
+
+  return rows.sort((a, b) =>
+    (a.event_title ?? '').localeCompare(b.event_title ?? '') || (a.name ?? '').localeCompare(b.name ?? ''))
+}
+
+export async function buildParticipantExport(
+  rows: ParticipantRow[],
+  columns: ExportColumnKey[],
+  format: ExportFormat,
+  sheetName: string
+): Promise<Blob> {
+  const headers = columns.map(c => EXPORT_COLUMN_LABELS[c])
+  const cells = rows.map(row => columns.map(c => row[c]))
+  if (format === 'xlsx') return toXlsx(sheetName, headers, cells)
+  // The byte order mark makes Excel read the file as UTF-8
+  return new Blob(['\uFEFF' + toCsv(headers, cells)], { type: 'text/csv;charset=utf-8' })
+}
+
+export async function loadExportEvents(): Promise<{ id: string; title: string }[]> {
+  const { data, error } = await supabase.from('events').select('id, title').order('title')
+  if (error) throw error
+  return data || []
+}
@@ -0,0 +1,194 @@
+import type { Worker } from 'tesseract.js'
+import workerUrl from 'tesseract.js/dist/worker.min.js?url'
+import coreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url'
+import engDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url'
+import { supabase } from './supabase'
+import { findPaymentReference } from './paymentReference'
+
+// Reads UPI payment screenshots in the reviewer's browser. Tesseract runs in a
+// web worker with its core and English model served from our own assets, so
+// no screenshot leaves the site. Results are stored on the proof (ocr_status,
+// ocr_result) and are advice for the reviewer only. The UTR read is copied to
+// utr_or_ref only when the payer left it empty; what they typed is kept.
+
+export interface OcrResult {
+  utr: string | null
+  amount: number | null
+  // ISO date (yyyy-mm-dd) as printed on the receipt
+  date: string | null
+  payee: string | null
+  // Payment reference from the UPI note; absent on results stored before references
+  reference?: string | null
+  confidence: number
+  text: string
+}
+
+export type OcrFlagKind = 'amount_mismatch' | 'payee_mismatch' | 'reference_mismatch' | 'utr_missing' | 'low_confidence'
+
+export interface OcrFlag {
+  kind: OcrFlagKind
+  message: string
+}
+
+const LOW_CONFIDENCE = 60
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+const isoDate = (year: number, month: number, day: number): string | null => {
+  if (year < 100) year += 2000
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return date.toISOString().slice(0, 10)
+}
+
+// UTRs are 12 digits; prefer one next to a reference label over any stray number
+export function findUtr(text: string): string | null {
+  const labelled = text.match(/(?:UTR|UPI\s*(?:Ref(?:erence)?|Transaction)\s*(?:No|ID|Number)?|Ref(?:erence)?\s*(?:No|Number)|Transaction\s*ID)[\s.:#-]*([0-9][0-9 ]{10,14}[0-9])/i)
+  if (labelled) {
+    const digits = labelled[1].replace(/\s/g, '')
+    if (digits.length === 12) return digits
+  }
+  const loose = text.match(/(?<![0-9])[0-9]{12}(?![0-9])/)
+  return loose ? loose[0] : null
+}
+
+export function findAmount(text: string): number | null {
+  const matches = [...text.matchAll(/(?:₹|Rs\.?|INR)\s*([0-9][0-9,]*(?:\.[0-9]{1,2})?)/gi)]
+  const amounts = matches
+    .map(m => Number(m[1].replace(/,/g, '')))
+    .filter(n => Number.isFinite(n) && n > 0)
+  // The paid amount is printed most prominently, and first, on common UPI apps
+  return amounts.length > 0 ? amounts[0] : null
+}
+
+export function findDate(text: string): string | null {
+  const named = text.match(/\b(\d{1,2})\s*(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*,?\s*(\d{2,4})\b/i)
+  if (named) return isoDate(Number(named[3]), MONTHS.indexOf(named[2].toLowerCase()) + 1, Number(named[1]))
+
+  const monthFirst = text.match(/\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+(\d{1,2}),?\s*(\d{4})\b/i)
+  if (monthFirst) return isoDate(Number(monthFirst[3]), MONTHS.indexOf(monthFirst[1].toLowerCase()) + 1, Number(monthFirst[2]))
+
+  // Numeric dates on Indian receipts are day first
+  const numeric = text.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})\b/)
+  if (numeric) return isoDate(Number(numeric[3]), Number(numeric[2]), Number(numeric[1]))
+  return null
+}
+
+export function findPayee(text: string): string | null {
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean)
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^(?:Paid\s+to|Sent\s+to|To|Payee(?:\s+name)?)\s*:?\s*(.*)$/i)
+    if (!match) continue
+    const name = (match[1] || lines[i + 1] || '').replace(/[^A-Za-z .&'-]/g, '').trim()
+    if (name.length >= 3) return name
+  }
+  return null
+}
+
+export function parsePaymentText(text: string, confidence: number): OcrResult {
+  return {
+    utr: findUtr(text),
+    amount: findAmount(text),
+    date: findDate(text),
+    payee: findPayee(text),
+    reference: findPaymentReference(text),
+    confidence: Math.round(confidence),
+    text
+  }
+}
+
+const normaliseName = (name: string) => name.toLowerCase().replace(/[^a-z]/g, '')
+
+// Names are often truncated or shown with initials, so either containing the other counts as a match
+export function payeeMatches(read: string, expected: string): boolean {
+  const a = normaliseName(read)
+  const b = normaliseName(expected)
+  return a.length > 0 && b.length > 0 && (a.includes(b) || b.includes(a))
+}
+
+export function getOcrFlags(
+  result: OcrResult,
+  expected: { amount: number | null; payee: string | null; reference?: string | null }
+): OcrFlag[] {
+  const flags: OcrFlag[] = []
+  // The reference is the primary key: a matching one ties the receipt to this proof, a different one to another payment
+  const referenceMatches = !!expected.reference && result.reference === expected.reference
+  if (expected.reference && result.reference && !referenceMatches) {
+    flags.push({ kind: 'reference_mismatch', message: `Screenshot shows reference ${result.reference}, this payment is ${expected.reference}` })
+  }
+  if (!result.utr && !referenceMatches) flags.push({ kind: 'utr_missing', message: 'No 12-digit UTR found' })
+  if (expected.amount != null && result.amount != null && Math.abs(result.amount - expected.amount) > 0.009) {
+    flags.push({ kind: 'amount_mismatch', message: `Screenshot shows ₹${result.amount}, expected ₹${expected.amount}` })
+  }
+  if (expected.payee && result.payee && !payeeMatches(result.payee, expected.payee)) {
+    flags.push({ kind: 'payee_mismatch', message: `Paid to "${result.payee}", QR payee is "${expected.payee}"` })
+  }
+  if (result.confidence < LOW_CONFIDENCE) {
+    flags.push({ kind: 'low_confidence', message: `Low OCR confidence (${result.confidence}%)` })
+  }
+  return flags
+}
+
+let workerPromise: Promise<Worker> | null = null
+
+const getWorker = (): Promise<Worker> => {
+  workerPromise ??= (async () => {
+    const { createWorker } = await import('tesseract.js')
+    const model = new Uint8Array(await (await fetch(engDataUrl)).arrayBuffer())
+    return createWorker([{ code: 'eng', data: model }], undefined, {
+      workerPath: workerUrl,
+      corePath: coreUrl,
+      workerBlobURL: false,
+      cacheMethod: 'none'
+    })
+  })().catch((err) => {
+    workerPromise = null
+    throw err
+  })
+  return workerPromise
+}
+
+export async function recognizePaymentScreenshot(image: Blob | string): Promise<OcrResult> {
+  const worker = await getWorker()
+  const { data } = await worker.recognize(image)
+  return parsePaymentText(data.text, data.confidence)
+}
+
+// Screenshot of a proof; storage_path is set for uploads made through PaymentPage
+export async function loadProofScreenshot(proof: { storage_path: string | null; screenshot_url: string }): Promise<Blob> {
+  if (proof.storage_path) {
+    const { data, error } = await supabase.storage.from('payment_proofs').download(proof.storage_path)
+    if (!error && data) return data
+  }
+  if (!proof.screenshot_url) throw new Error('The proof has no screenshot')
+  const response = await fetch(proof.screenshot_url)
+  if (!response.ok) throw new Error(`Screenshot download failed (${response.status})`)
+  return response.blob()
+}
+
+// Read a proof's screenshot and store the result on it; resolves to the
+// result and the proof's utr_or_ref afterwards
+export async function runProofOcr(proof: {
+  id: string
+  storage_path: string | null
+  screenshot_url: string
+  utr_or_ref: string | null
+}): Promise<{ result: OcrResult; utr: string | null }> {
+  try {
+    const result = await recognizePaymentScreenshot(await loadProofScreenshot(proof))
+    const fillUtr = !proof.utr_or_ref && !!result.utr
+    const { error } = await supabase
+      .from('payment_proofs')
+      .update({
+        ocr_status: 'success',
+        ...(fillUtr ? { utr_or_ref: result.utr } : {}),
+        ocr_result: { ...result, text: result.text.slice(0, 4000) }
+      })
+      .eq('id', proof.id)
+    if (error) throw error
+    return { result, utr: fillUtr ? result.utr : proof.utr_or_ref }
+  } catch (err) {
+    await supabase.from('payment_proofs').update({ ocr_status: 'failed' }).eq('id', proof.id)
+    throw err
+  }
+}
@@ -0,0 +1,44 @@
+// Per-payment references. Every UPI payment attempt gets a short code that is
+// put in the note (tn) of the UPI intent, so it shows up in the payer's app,
+// on most receipts and in the narration of the bank statement. The same code
+// is stored on the payment session and on the proof, which lets OCR and
+// statement reconciliation tie a transfer to its proof without guessing.
+
+// No 0/O or 1/I so it can be read back from a screenshot or over the phone
+const REFERENCE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const REFERENCE_PREFIX = 'ACN'
+const REFERENCE_LENGTH = 8
+
+export function generatePaymentReference(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(REFERENCE_LENGTH))
+  return REFERENCE_PREFIX + Array.from(bytes, b => REFERENCE_ALPHABET[b % REFERENCE_ALPHABET.length]).join('')
+}
+
+// Finds a reference in receipt text or a statement narration. Banks often glue
+// the note to other fields with slashes, and OCR may split it with a space.
+export function findPaymentReference(...values: (string | null | undefined)[]): string | null {
+  for (const value of values) {
+    const match = value?.toUpperCase().match(/(?<![A-Z0-9])ACN\s?([A-HJ-NP-Z2-9]{8})(?![A-Z0-9])/)
+    if (match) return REFERENCE_PREFIX + match[1]
+  }
+  return null
+}
+
+export function buildUpiIntent(params: {
+  upiId: string
+  payeeName: string | null
+  amount: number
+  reference: string | null
+  note: string
+}): string {
+  // The reference goes first; some apps cut the note short
+  const note = params.reference ? `${params.reference} ${params.note}` : params.note
+  const query = [
+    `pa=${params.upiId}`,
+    `pn=${encodeURIComponent(params.payeeName || '')}`,
+    `am=${params.amount}`,
+    'cu=INR',
+    `tn=${encodeURIComponent(note)}`
+  ]
+  return `upi://pay?${query.join('&')}`
+}
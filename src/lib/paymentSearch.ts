@@ -0,0 +1,166 @@
+import { supabase } from './supabase'
+import { istInputToIso } from './schedule'
+import type { StatementRow } from './reconciliation'
+
+// Admin payments list, paged and filtered in the database. The
+// search_payment_proofs RPC joins each proof with the payer's profile and
+// auth email, works out the amount and payee the screenshot should show, and
+// returns one page plus the total row count, so the dashboard never loads
+// every proof. Free text matches name, roll number, email, UTR and payment
+// reference. The RPC checks the caller may approve payments.
+
+export type PaymentStatusFilter = 'all' | 'pending' | 'approved' | 'rejected'
+
+export type PaymentSortKey = 'created_at' | 'amount' | 'name' | 'event_title'
+
+export interface PaymentListFilters {
+  status: PaymentStatusFilter
+  // Direct payments for one event; pass payments have no event_id
+  eventId: string | null
+  qrName: string | null
+  // yyyy-mm-dd IST days, both inclusive
+  fromDate: string | null
+  toDate: string | null
+  minAmount: number | null
+  maxAmount: number | null
+  search: string
+}
+
+export interface PaymentListSort {
+  key: PaymentSortKey
+  ascending: boolean
+}
+
+export interface PaymentListPage<T> {
+  rows: T[]
+  total: number
+}
+
+export const PAYMENT_SORT_LABELS: Record<PaymentSortKey, string> = {
+  created_at: 'Submitted',
+  amount: 'Amount',
+  name: 'Name',
+  event_title: 'Event'
+}
+
+export const PAYMENT_PAGE_SIZE = 25
+
+export const EMPTY_PAYMENT_FILTERS: PaymentListFilters = {
+  status: 'all',
+  eventId: null,
+  qrName: null,
+  fromDate: null,
+  toDate: null,
+  minAmount: null,
+  maxAmount: null,
+  search: ''
+}
+
+export const DEFAULT_PAYMENT_SORT: PaymentListSort = { key: 'created_at', ascending: false }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Start of an IST day as a UTC timestamp
+const istDayStart = (day: string): string | null => istInputToIso(`${day}T00:00`)
+
+async function callSearch<T>(filters: PaymentListFilters, params: Record<string, unknown>): Promise<PaymentListPage<T>> {
+  const toStart = filters.toDate ? istDayStart(filters.toDate) : null
+
+  const { data, error } = await supabase.rpc('search_payment_proofs', {
+    p_status: filters.status === 'all' ? null : filters.status,
+    p_event_id: filters.eventId,
+    p_qr_name: filters.qrName,
+    p_from: filters.fromDate ? istDayStart(filters.fromDate) : null,
+    // Exclusive end: the start of the day after toDate
+    p_to: toStart ? new Date(Date.parse(toStart) + DAY_MS).toISOString() : null,
+    p_min_amount: filters.minAmount,
+    p_max_amount: filters.maxAmount,
+    p_search: filters.search.trim() || null,
+    ...params
+  })
+
+  if (error) throw error
+  const rows = (data || []) as (T & { total_count?: number })[]
+  const total = rows[0]?.total_count ?? 0
+  rows.forEach(row => { delete row.total_count })
+  return { rows, total }
+}
+
+export function searchPaymentProofs<T>(
+  filters: PaymentListFilters,
+  sort: PaymentListSort = DEFAULT_PAYMENT_SORT,
+  page = 0
+): Promise<PaymentListPage<T>> {
+  return callSearch<T>(filters, {
+    p_sort: sort.key,
+    p_ascending: sort.ascending,
+    p_limit: PAYMENT_PAGE_SIZE,
+    p_offset: page * PAYMENT_PAGE_SIZE
+  })
+}
+
+// The review queue's next pending proofs, oldest first, submitted at or after
+// `since`. Keyed on the submission time rather than an offset because proofs
+// leave the pending list as they are decided; callers drop ids they already hold.
+export async function loadPendingProofs<T>(
+  filters: PaymentListFilters,
+  since: string | null
+): Promise<PaymentListPage<T>> {
+  const filterFrom = filters.fromDate ? istDayStart(filters.fromDate) : null
+  const from = since && (!filterFrom || Date.parse(since) > Date.parse(filterFrom)) ? since : filterFrom
+  return callSearch<T>({ ...filters, status: 'pending', fromDate: null }, {
+    p_from: from,
+    p_sort: 'created_at',
+    p_ascending: true,
+    p_limit: PAYMENT_PAGE_SIZE,
+    p_offset: 0
+  })
+}
+
+// Proofs per status across every proof, for the status buttons
+export async function countPaymentProofs(): Promise<Record<PaymentStatusFilter, number>> {
+  const count = async (status: PaymentStatusFilter) => {
+    const query = supabase.from('payment_proofs').select('id', { count: 'exact', head: true })
+    const { count, error } = await (status === 'all' ? query : query.eq('status', status))
+    if (error) throw error
+    return count ?? 0
+  }
+  const [all, pending, approved, rejected] = await Promise.all(
+    (['all', 'pending', 'approved', 'rejected'] as const).map(count)
+  )
+  return { all, pending, approved, rejected }
+}
+
+// Choices for the event and QR filters. Retired QRs keep their rows, so their
+// proofs can still be filtered.
+export async function loadPaymentFilterOptions(): Promise<{ events: { id: string; title: string }[]; qrNames: string[] }> {
+  const [events, qrs] = await Promise.all([
+    supabase.from('events').select('id, title').order('title'),
+    supabase.from('qr_codes').select('qr_name').order('qr_name')
+  ])
+  if (events.error) throw events.error
+  if (qrs.error) throw qrs.error
+  return { events: events.data || [], qrNames: (qrs.data || []).map(q => q.qr_name as string) }
+}
+
+// Proofs some imported statement rows could match, joined like the payments
+// list: any proof carrying one of the rows' UTRs or payment references (pending
+// ones to match, approved ones to recognise settled credits) and the pending
+// proofs submitted between the rows' first and last dates, widened by
+// windowDays either side. The statements bound the work, not the table.
+export async function loadReconciliationCandidates<T>(rows: StatementRow[], windowDays: number): Promise<T[]> {
+  if (rows.length === 0) return []
+  const unique = (values: (string | null)[]) => [...new Set(values.filter((v): v is string => !!v))]
+  const days = unique(rows.map(r => r.date)).sort()
+  const dayStart = (day: string, offsetDays: number) =>
+    new Date(Date.parse(istDayStart(day)!) + offsetDays * DAY_MS).toISOString()
+
+  const { data, error } = await supabase.rpc('reconciliation_candidates', {
+    p_utrs: unique(rows.map(r => r.utr)),
+    p_references: unique(rows.map(r => r.reference)),
+    p_from: days.length ? dayStart(days[0], -windowDays) : null,
+    p_to: days.length ? dayStart(days[days.length - 1], windowDays + 1) : null
+  })
+  if (error) throw error
+  return (data || []) as T[]
+}
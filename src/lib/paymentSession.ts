@@ -0,0 +1,146 @@
+import { supabase } from './supabase'
+import type { PriceQuote } from './pricing'
+
+// A manual UPI payment as a resumable session. Each attempt is one row in
+// payment_sessions, owned by the payer, that moves through
+//
+//   details -> qr_allocated -> paid -> uploaded -> submitted
+//   qr_allocated -> details   (edit details before paying)
+//
+// The QR is pinned when the session reaches qr_allocated, so a payer who
+// pays in their UPI app and reloads comes back to the same QR, amount and
+// reference. An event's price is pinned with it by the pricing function
+// (pinPaymentQuote) and is what the proof is charged, however tiers and
+// coupons change before it is submitted. The screenshot is uploaded before
+// the proof is created, so a reload after uploading does not ask for it
+// again. Submitted sessions are finished; the payment_proofs row is the
+// record from then on.
+
+export type PaymentStage = 'details' | 'qr_allocated' | 'paid' | 'uploaded' | 'submitted'
+
+export interface PaymentSession {
+  id: string
+  user_id: string
+  // Exactly one of these is set
+  event_id: string | null
+  bundle_id: string | null
+  stage: PaymentStage
+  name: string
+  email: string
+  roll_no: string | null
+  // The QR shown to the payer, copied so later pool edits do not change it
+  qr_code_id: string | null
+  qr_name: string | null
+  upi_id: string | null
+  payee_name: string | null
+  // Put in the UPI note; see paymentReference.ts
+  reference: string | null
+  amount: number | null
+  coupon_code: string | null
+  // Written only by the pricing function; see pinPaymentQuote
+  quote: PriceQuote | null
+  quote_expires_at: string | null
+  // Path in the payment_proofs bucket once uploaded
+  screenshot_path: string | null
+  image_hash: string | null
+  payment_proof_id: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type PaymentSessionPatch = Partial<Omit<PaymentSession, 'id' | 'user_id' | 'event_id' | 'bundle_id' | 'stage' | 'quote' | 'quote_expires_at' | 'created_at' | 'updated_at'>>
+
+export interface PaymentTarget {
+  eventId: string | null
+  bundleId: string | null
+}
+
+export const PAYMENT_TRANSITIONS: Record<PaymentStage, PaymentStage[]> = {
+  details: ['qr_allocated'],
+  qr_allocated: ['details', 'paid'],
+  paid: ['uploaded'],
+  uploaded: ['submitted'],
+  submitted: []
+}
+
+export const PAYMENT_STAGE_LABELS: Record<PaymentStage, string> = {
+  details: 'Details',
+  qr_allocated: 'Scan & pay',
+  paid: 'Paid',
+  uploaded: 'Screenshot uploaded',
+  submitted: 'Submitted'
+}
+
+export function canTransitionPayment(from: PaymentStage, to: PaymentStage): boolean {
+  return PAYMENT_TRANSITIONS[from].includes(to)
+}
+
+// The payer's unfinished session for an event or pass, if any
+export async function loadPaymentSession(userId: string, target: PaymentTarget): Promise<PaymentSession | null> {
+  let query = supabase
+    .from('payment_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .neq('stage', 'submitted')
+  query = target.bundleId
+    ? query.eq('bundle_id', target.bundleId).is('event_id', null)
+    : query.eq('event_id', target.eventId!).is('bundle_id', null)
+
+  const { data, error } = await query.order('updated_at', { ascending: false }).limit(1).maybeSingle()
+  if (error) throw error
+  return data as PaymentSession | null
+}
+
+export async function startPaymentSession(
+  userId: string,
+  target: PaymentTarget,
+  details: Pick<PaymentSession, 'name' | 'email' | 'roll_no'>
+): Promise<PaymentSession> {
+  const { data, error } = await supabase
+    .from('payment_sessions')
+    .insert({
+      user_id: userId,
+      event_id: target.bundleId ? null : target.eventId,
+      bundle_id: target.bundleId,
+      stage: 'details',
+      ...details
+    })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data as PaymentSession
+}
+
+// Write a change only if the session is still at the stage this tab last saw,
+// so two open tabs cannot move the same payment in different directions
+async function writeSession(session: PaymentSession, row: Record<string, unknown>): Promise<PaymentSession> {
+  const { data, error } = await supabase
+    .from('payment_sessions')
+    .update({ ...row, updated_at: new Date().toISOString() })
+    .eq('id', session.id)
+    .eq('stage', session.stage)
+    .select('*')
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw new Error('This payment was changed in another tab. Reload the page to continue.')
+  return data as PaymentSession
+}
+
+export async function advancePaymentSession(
+  session: PaymentSession,
+  to: PaymentStage,
+  patch: PaymentSessionPatch = {}
+): Promise<PaymentSession> {
+  if (!canTransitionPayment(session.stage, to)) {
+    throw new Error(`Cannot move a payment from ${PAYMENT_STAGE_LABELS[session.stage]} to ${PAYMENT_STAGE_LABELS[to]}`)
+  }
+  return writeSession(session, { ...patch, stage: to })
+}
+
+// Change fields without moving the session, e.g. a coupon applied before paying
+export async function updatePaymentSession(session: PaymentSession, patch: PaymentSessionPatch): Promise<PaymentSession> {
+  if (session.stage === 'submitted') throw new Error('This payment has already been submitted')
+  return writeSession(session, patch)
+}
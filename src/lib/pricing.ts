@@ -0,0 +1,187 @@
+import { FunctionsHttpError } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { functionErrorMessage } from './functionErrors'
+import type { PaymentSession } from './paymentSession'
+
+// Event pricing. events.price_tiers lists time-boxed prices such as an early
+// bird rate; the first tier open right now applies, otherwise events.price.
+// Coupons take a percentage or flat amount off that. Prices are resolved by
+// the pricing edge function (supabase/functions/_shared/pricing.ts) so usage
+// limits are counted on the server; the browser only shows the quote. A
+// manual payment's quote is pinned to its session when the QR is shown and
+// copied onto the proof on submit, so the payer is charged what they saw.
+
+export interface PriceTier {
+  label: string
+  price: number
+  // UTC ISO timestamps; null leaves that side open
+  starts_at: string | null
+  ends_at: string | null
+}
+
+export interface PriceQuote {
+  event_id: string
+  base_price: number
+  tier: string | null
+  list_price: number
+  coupon_code: string | null
+  discount: number
+  amount: number
+}
+
+export type DiscountType = 'percent' | 'flat'
+
+export interface Coupon {
+  id: string
+  code: string
+  description: string | null
+  discount_type: DiscountType
+  discount_value: number
+  // Empty or null means every paid event
+  event_ids: string[] | null
+  max_uses: number | null
+  per_user_limit: number | null
+  starts_at: string | null
+  ends_at: string | null
+  active: boolean
+  created_at: string
+}
+
+export type CouponInput = Omit<Coupon, 'id' | 'created_at'>
+
+// Accept whatever is stored in events.price_tiers and return valid tiers in stored order
+export function parsePriceTiers(raw: unknown): PriceTier[] {
+  if (!Array.isArray(raw)) return []
+  return raw
+    .filter((t): t is PriceTier => !!t && typeof t.price === 'number' && t.price > 0)
+    .map(t => ({
+      label: t.label || 'Tier',
+      price: t.price,
+      starts_at: t.starts_at && !isNaN(Date.parse(t.starts_at)) ? new Date(t.starts_at).toISOString() : null,
+      ends_at: t.ends_at && !isNaN(Date.parse(t.ends_at)) ? new Date(t.ends_at).toISOString() : null
+    }))
+}
+
+// Problems that should block saving, one message per problem
+export function validatePriceTiers(tiers: PriceTier[]): string[] {
+  const errors: string[] = []
+  tiers.forEach((tier, index) => {
+    if (!tier.label.trim()) errors.push(`Price tier ${index + 1} needs a label`)
+    if (!(tier.price > 0)) errors.push(`Price tier ${index + 1} needs a price above zero`)
+    if (tier.starts_at && tier.ends_at && Date.parse(tier.ends_at) <= Date.parse(tier.starts_at)) {
+      errors.push(`Price tier ${index + 1} must end after it starts`)
+    }
+  })
+  return errors
+}
+
+// Same rule as the server; for display only
+export function activeTier(raw: unknown, now = new Date()): PriceTier | null {
+  const time = now.getTime()
+  return parsePriceTiers(raw).find(tier =>
+    (!tier.starts_at || Date.parse(tier.starts_at) <= time) &&
+    (!tier.ends_at || time < Date.parse(tier.ends_at))) ?? null
+}
+
+export function currentPrice(event: { price: number | null; price_tiers?: unknown }, now = new Date()): number | null {
+  return activeTier(event.price_tiers, now)?.price ?? event.price
+}
+
+export function formatDiscount(coupon: Pick<Coupon, 'discount_type' | 'discount_value'>): string {
+  return coupon.discount_type === 'percent' ? `${coupon.discount_value}% off` : `₹${coupon.discount_value} off`
+}
+
+const APPLY_ATTEMPTS = 3
+
+async function invokePricing<T>(body: Record<string, unknown>, attempts = 1): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const { data, error } = await supabase.functions.invoke('pricing', { body })
+    if (!error) return data as T
+    // A 4xx is the function's answer, such as an expired quote; retry only outages
+    const refused = error instanceof FunctionsHttpError && (error.context as Response).status < 500
+    if (refused || attempt >= attempts) {
+      throw new Error(await functionErrorMessage(error, 'Pricing request failed'))
+    }
+    await new Promise(resolve => setTimeout(resolve, attempt * 1000))
+  }
+}
+
+export const getPriceQuote = async (eventId: string, couponCode: string | null = null): Promise<PriceQuote> =>
+  (await invokePricing<{ quote: PriceQuote }>({ action: 'quote', event_id: eventId, coupon_code: couponCode })).quote
+
+// Price a session whose QR is showing and pin the quote, and its amount, to it
+export const pinPaymentQuote = async (session: PaymentSession, couponCode: string | null = null): Promise<PaymentSession> =>
+  (await invokePricing<{ session: PaymentSession }>({
+    action: 'pin',
+    event_id: session.event_id,
+    session_id: session.id,
+    coupon_code: couponCode
+  })).session
+
+export function quoteExpired(session: Pick<PaymentSession, 'quote_expires_at'>, now = new Date()): boolean {
+  return !!session.quote_expires_at && Date.parse(session.quote_expires_at) <= now.getTime()
+}
+
+// Store the session's pinned quote on the caller's pending proof for its
+// event, with the coupon use. Retried, since the proof already exists by now.
+export const applyPricingToProof = async (session: PaymentSession): Promise<PriceQuote> =>
+  (await invokePricing<{ quote: PriceQuote }>(
+    { action: 'apply', event_id: session.event_id, session_id: session.id },
+    APPLY_ATTEMPTS
+  )).quote
+
+export async function loadCoupons(): Promise<Coupon[]> {
+  const { data, error } = await supabase
+    .from('coupons')
+    .select('*')
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as Coupon[]
+}
+
+export function validateCoupon(input: CouponInput): string[] {
+  const errors: string[] = []
+  if (!/^[A-Z0-9_-]{3,32}$/.test(input.code)) errors.push('Code must be 3-32 letters, digits, - or _')
+  if (!(input.discount_value > 0)) errors.push('Discount must be above zero')
+  if (input.discount_type === 'percent' && input.discount_value > 100) errors.push('A percentage discount cannot exceed 100')
+  if (input.max_uses != null && input.max_uses < 1) errors.push('Total uses must be at least 1')
+  if (input.per_user_limit != null && input.per_user_limit < 1) errors.push('Uses per person must be at least 1')
+  if (input.starts_at && input.ends_at && Date.parse(input.ends_at) <= Date.parse(input.starts_at)) {
+    errors.push('Coupon must end after it starts')
+  }
+  return errors
+}
+
+export async function saveCoupon(input: CouponInput, id: string | null = null): Promise<Coupon> {
+  const row = { ...input, code: input.code.trim().toUpperCase(), event_ids: input.event_ids?.length ? input.event_ids : null }
+  const errors = validateCoupon(row)
+  if (errors.length > 0) throw new Error(errors.join('. '))
+
+  const query = id
+    ? supabase.from('coupons').update(row).eq('id', id)
+    : supabase.from('coupons').insert(row)
+  const { data, error } = await query.select('*').single()
+  if (error) {
+    if (error.code === '23505') throw new Error(`A coupon with code ${row.code} already exists`)
+    throw error
+  }
+  return data as Coupon
+}
+
+// Uses per coupon that still count, leaving out rejected payments
+export async function loadCouponUsage(): Promise<Record<string, number>> {
+  const { data, error } = await supabase
+    .from('coupon_redemptions')
+    .select('coupon_id, payment_proofs(status)')
+
+  if (error) throw error
+  // The client types the embedded proof as a list; a redemption has one
+  const rows = (data || []) as unknown as { coupon_id: string; payment_proofs: { status: string } | null }[]
+  const usage: Record<string, number> = {}
+  for (const row of rows) {
+    if (row.payment_proofs?.status === 'rejected') continue
+    usage[row.coupon_id] = (usage[row.coupon_id] || 0) + 1
+  }
+  return usage
+}
@@ -0,0 +1,102 @@
+import { supabase } from './supabase'
+import { computeImageHash, hammingDistance, isSimilarImage, SIMILAR_IMAGE_DISTANCE } from './imageHash'
+import { loadProofScreenshot } from './paymentOcr'
+
+// Finds payment proofs that reuse another proof's UTR or screenshot. A UTR
+// identifies one bank transfer, so two live proofs with the same UTR can never
+// both be approved. A similar screenshot is only suspicious: reviewers compare
+// the two side by side and decide. Neither stops a payer from submitting.
+// The search runs in the database for the proofs on screen only; comparing
+// each match again here gives the reasons and distances the dialogs show.
+
+export interface ProofFingerprint {
+  id: string
+  user_id: string
+  event_id: string | null
+  bundle_id: string | null
+  event_title: string
+  amount: number
+  status: 'pending' | 'approved' | 'rejected'
+  qr_name: string | null
+  utr_or_ref: string | null
+  payment_reference: string | null
+  image_hash: string | null
+  // UTR read from the screenshot by OCR, which can differ from utr_or_ref
+  ocr_utr?: string | null
+  screenshot_url: string
+  storage_path: string | null
+  created_at: string
+}
+
+export type DuplicateReason = 'same_utr' | 'similar_image'
+
+export interface DuplicateMatch {
+  proof: ProofFingerprint
+  reasons: DuplicateReason[]
+  // Bits that differ between the two image hashes, when both have one
+  distance: number | null
+}
+
+// Every proof sharing a UTR with the given proofs, or with an image hash within
+// SIMILAR_IMAGE_DISTANCE bits of theirs, the given proofs included. The
+// find_proof_duplicates RPC compares hashes with bit_count on the server and
+// returns rows shaped like ProofFingerprint, ocr_utr taken from ocr_result.
+export async function loadDuplicateFingerprints(
+  proofs: Pick<ProofFingerprint, 'id' | 'utr_or_ref' | 'image_hash'>[]
+): Promise<ProofFingerprint[]> {
+  if (proofs.length === 0) return []
+  const unique = (values: (string | null)[]) => [...new Set(values.filter((v): v is string => !!v))]
+  const { data, error } = await supabase.rpc('find_proof_duplicates', {
+    p_proof_ids: proofs.map(p => p.id),
+    p_utrs: unique(proofs.map(p => p.utr_or_ref)),
+    p_image_hashes: unique(proofs.map(p => p.image_hash)),
+    p_max_distance: SIMILAR_IMAGE_DISTANCE
+  })
+
+  if (error) throw error
+  return (data || []) as ProofFingerprint[]
+}
+
+type DuplicateCandidate = Pick<ProofFingerprint, 'id' | 'user_id' | 'event_id' | 'bundle_id' | 'utr_or_ref' | 'image_hash' | 'ocr_utr'> & {
+  ocr_result?: { utr: string | null } | null
+}
+
+export function findDuplicates(proof: DuplicateCandidate, others: ProofFingerprint[]): DuplicateMatch[] {
+  const matches: DuplicateMatch[] = []
+  const ownOcrUtr = proof.ocr_utr ?? proof.ocr_result?.utr ?? null
+  for (const other of others) {
+    if (other.id === proof.id) continue
+    // Resubmitting the same receipt after a rejection is expected
+    if (other.status === 'rejected' && other.user_id === proof.user_id &&
+      other.event_id === proof.event_id && other.bundle_id === proof.bundle_id) continue
+    const reasons: DuplicateReason[] = []
+    if (proof.utr_or_ref && other.utr_or_ref === proof.utr_or_ref) reasons.push('same_utr')
+    // Lookalike receipts showing different UTRs are two payments from the same app
+    const differentReceipts = !!ownOcrUtr && !!other.ocr_utr && ownOcrUtr !== other.ocr_utr
+    if (!differentReceipts && isSimilarImage(proof.image_hash, other.image_hash)) reasons.push('similar_image')
+    if (reasons.length === 0) continue
+    matches.push({
+      proof: other,
+      reasons,
+      distance: proof.image_hash && other.image_hash ? hammingDistance(proof.image_hash, other.image_hash) : null
+    })
+  }
+  return matches
+}
+
+// A UTR already held by another proof that is pending or approved
+export function conflictingUtr(matches: DuplicateMatch[]): DuplicateMatch | null {
+  return matches.find(m => m.reasons.includes('same_utr') && m.proof.status !== 'rejected') ?? null
+}
+
+// Hash a proof's screenshot and store it, for proofs submitted before hashing
+export async function storeProofImageHash(proof: {
+  id: string
+  storage_path: string | null
+  screenshot_url: string
+}): Promise<string> {
+  const hash = await computeImageHash(await loadProofScreenshot(proof))
+  const { error } = await supabase.from('payment_proofs').update({ image_hash: hash }).eq('id', proof.id)
+  if (error) throw error
+  return hash
+}
@@ -0,0 +1,106 @@
+import { supabase } from './supabase'
+import { isValidUpiId } from './refunds'
+
+// The pool of UPI QR codes payments are spread across. Each QR takes up to
+// max_daily_payments screenshots a day before get_available_qr_code moves on
+// to the next one. A QR can be limited to a time window and to some events;
+// the allocation RPCs apply both, so these fields only need to be stored here.
+// Retiring a QR clears is_active and keeps the row for the proofs that used it.
+
+export interface QRCodeRecord {
+  id: string
+  qr_name: string
+  upi_id: string
+  payee_name: string
+  qr_image_url: string | null
+  max_daily_payments: number
+  daily_count: number
+  is_active: boolean
+  // UTC ISO timestamps; null leaves that side open
+  active_from: string | null
+  active_until: string | null
+  // Empty or null means every event
+  event_ids: string[] | null
+  created_at: string
+}
+
+export type QRCodeInput = Pick<
+  QRCodeRecord,
+  'qr_name' | 'upi_id' | 'payee_name' | 'qr_image_url' | 'max_daily_payments' | 'is_active' | 'active_from' | 'active_until' | 'event_ids'
+>
+
+// Share of a QR's own daily limit past which it counts as busy
+export const BUSY_QR_SHARE = 0.75
+
+export const isQRBusy = (qr: { daily_count: number; max_daily_payments: number }): boolean =>
+  qr.max_daily_payments > 0 && qr.daily_count >= qr.max_daily_payments * BUSY_QR_SHARE
+
+export async function loadQRPool(): Promise<QRCodeRecord[]> {
+  const { data, error } = await supabase
+    .from('qr_codes')
+    .select('*')
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as QRCodeRecord[]
+}
+
+// Problems that should block saving, one message per problem
+export function validateQRCode(input: QRCodeInput): string[] {
+  const errors: string[] = []
+  if (!input.qr_name.trim()) errors.push('Give the QR a name')
+  if (!isValidUpiId(input.upi_id)) errors.push('Enter a valid UPI ID, like name@bank')
+  if (!input.payee_name.trim()) errors.push('Enter the payee name shown in UPI apps')
+  if (!Number.isInteger(input.max_daily_payments) || input.max_daily_payments < 1) {
+    errors.push('Daily limit must be a whole number of at least 1')
+  }
+  if (input.active_from && input.active_until && Date.parse(input.active_until) <= Date.parse(input.active_from)) {
+    errors.push('QR must stop being used after it starts')
+  }
+  return errors
+}
+
+// Whether the QR's window covers a moment; same rule as the server, for display only
+export function inActiveWindow(qr: Pick<QRCodeRecord, 'active_from' | 'active_until'>, now = new Date()): boolean {
+  const time = now.getTime()
+  return (!qr.active_from || Date.parse(qr.active_from) <= time) &&
+    (!qr.active_until || time < Date.parse(qr.active_until))
+}
+
+export async function saveQRCode(input: QRCodeInput, id: string | null = null): Promise<QRCodeRecord> {
+  const row = {
+    ...input,
+    qr_name: input.qr_name.trim(),
+    upi_id: input.upi_id.trim(),
+    payee_name: input.payee_name.trim(),
+    event_ids: input.event_ids?.length ? input.event_ids : null
+  }
+  const errors = validateQRCode(row)
+  if (errors.length > 0) throw new Error(errors.join('. '))
+
+  const query = id
+    ? supabase.from('qr_codes').update(row).eq('id', id)
+    : supabase.from('qr_codes').insert(row)
+  const { data, error } = await query.select('*').single()
+  if (error) {
+    if (error.code === '23505') throw new Error(`A QR named ${row.qr_name} or with UPI ID ${row.upi_id} already exists`)
+    throw error
+  }
+  return data as QRCodeRecord
+}
+
+// Upload a QR image to the public qr_codes bucket and return its URL
+export async function uploadQRImage(file: File): Promise<string> {
+  if (!file.type.startsWith('image/')) throw new Error('QR image must be an image file')
+  if (file.size > 2 * 1024 * 1024) throw new Error('QR image must be smaller than 2MB')
+
+  const ext = file.name.split('.').pop() || 'png'
+  const path = `pool/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${ext}`
+  const { error } = await supabase.storage.from('qr_codes').upload(path, file, {
+    cacheControl: '3600',
+    upsert: false
+  })
+  if (error) throw error
+
+  return supabase.storage.from('qr_codes').getPublicUrl(path).data.publicUrl
+}
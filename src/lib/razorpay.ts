@@ -1,28 +1,143 @@
-import Razorpay from 'razorpay';
-
-export const razorpay = new Razorpay({
-  key_id: import.meta.env.VITE_RAZORPAY_KEY_ID,
-  key_secret: import.meta.env.VITE_RAZORPAY_KEY_SECRET,
-});
-
-export interface CreateOrderParams {
-  amount: number;
-  currency?: string;
-  receipt?: string;
-  notes?: Record<string, string>;
+import { supabase } from './supabase';
+import { functionErrorMessage } from './functionErrors';
+import { uploadTicketPdf, type TicketRecord } from './tickets';
+
+// Online payments. Orders are created by the razorpay-order edge function,
+// which holds the key secret; the browser only opens the checkout widget.
+// The payment.captured webhook approves the payment and issues the tickets,
+// after which the payer's browser renders and stores the ticket PDFs.
+
+export interface PaymentOrder {
+  order_id: string;
+  amount: number; // paise
+  currency: string;
+  key_id: string;
+  event_title: string;
+  // Set when the functions run against the mock gateway
+  mock: boolean;
+}
+
+export type OrderStatus = 'created' | 'paid' | 'failed';
+
+export interface CheckoutPrefill {
+  name?: string;
+  email?: string;
+}
+
+interface RazorpayCheckout {
+  open(): void;
+  on(event: 'payment.failed', handler: (response: { error: { description?: string } }) => void): void;
 }
 
-export const createOrder = async (params: CreateOrderParams) => {
-  try {
-    const order = await razorpay.orders.create({
-      amount: params.amount * 100, // Convert to paise
-      currency: params.currency || 'INR',
-      receipt: params.receipt || `rcpt_${Date.now()}`,
-      notes: params.notes,
+declare global {
+  interface Window {
+    Razorpay?: new (options: Record<string, unknown>) => RazorpayCheckout;
+  }
+}
+
+const CHECKOUT_SCRIPT = 'https://checkout.razorpay.com/v1/checkout.js';
+
+type TicketUpload = { ticket: TicketRecord; upload_token: string };
+
+// Reply to the `status` action; uploads carry PDFs the payer's browser still has to store
+interface OrderStatusReply {
+  status: OrderStatus;
+  failure_reason?: string | null;
+  // The webhook marks an order paid before it has issued the tickets
+  issued?: boolean;
+  uploads?: TicketUpload[];
+}
+
+async function invokeOrder<T = unknown>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('razorpay-order', { body });
+  if (error) {
+    throw new Error(await functionErrorMessage(error, 'Payment request failed'));
+  }
+  return data as T;
+}
+
+export const createOrder = (
+  eventId: string,
+  teamId: string | null = null,
+  couponCode: string | null = null
+): Promise<PaymentOrder> =>
+  invokeOrder<PaymentOrder>({ action: 'create', event_id: eventId, team_id: teamId, coupon_code: couponCode });
+
+let scriptPromise: Promise<void> | null = null;
+
+const loadCheckoutScript = (): Promise<void> => {
+  if (window.Razorpay) return Promise.resolve();
+  scriptPromise ??= new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = CHECKOUT_SCRIPT;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      scriptPromise = null;
+      reject(new Error('Could not load the payment window'));
+    };
+    document.body.appendChild(script);
+  });
+  return scriptPromise;
+};
+
+// Resolves once the payer completes the checkout, rejects if they close it or
+// the payment fails. Completion is not proof of payment; wait for the webhook.
+export const openCheckout = async (order: PaymentOrder, prefill: CheckoutPrefill = {}): Promise<void> => {
+  if (order.mock) {
+    const rupees = (order.amount / 100).toFixed(2);
+    if (!window.confirm(`Mock gateway: simulate a successful payment of ₹${rupees} for ${order.event_title}?`)) {
+      throw new Error('Payment cancelled');
+    }
+    await invokeOrder({ action: 'mock_capture', order_id: order.order_id });
+    return;
+  }
+
+  await loadCheckoutScript();
+  await new Promise<void>((resolve, reject) => {
+    const checkout = new window.Razorpay!({
+      key: order.key_id,
+      order_id: order.order_id,
+      amount: order.amount,
+      currency: order.currency,
+      name: 'ACN TechFest 4.0',
+      description: order.event_title,
+      prefill,
+      theme: { color: '#b22049' },
+      handler: () => resolve(),
+      modal: { ondismiss: () => reject(new Error('Payment cancelled')) }
     });
-    return order;
-  } catch (error) {
-    console.error('Error creating Razorpay order:', error);
-    throw new Error('Failed to create payment order');
+    checkout.on('payment.failed', (response) =>
+      reject(new Error(response.error.description || 'Payment failed')));
+    checkout.open();
+  });
+};
+
+// Store any ticket PDFs the webhook left for the browser; returns how many were stored
+const storeTicketPdfs = async (uploads: TicketUpload[]): Promise<number> => {
+  for (const upload of uploads) await uploadTicketPdf(upload.ticket, upload.upload_token);
+  return uploads.length;
+};
+
+// Poll until the webhook has recorded the payment and issued its tickets,
+// storing ticket PDFs as they appear. Resolves true once every ticket is
+// stored, false on timeout; ProfilePage finishes the PDFs of a late order.
+export const waitForPayment = async (orderId: string, timeoutMs = 60000): Promise<boolean> => {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const data = await invokeOrder<OrderStatusReply>({ action: 'status', order_id: orderId });
+    if (data.status === 'failed') throw new Error(data.failure_reason || 'Payment failed');
+    if (data.status === 'paid') {
+      await storeTicketPdfs(data.uploads || []);
+      if (data.issued) return true;
+    }
+    if (Date.now() > deadline) return false;
+    await new Promise(resolve => setTimeout(resolve, 2000));
   }
 };
+
+// Finish PDFs for paid orders whose checkout page was closed early
+export const storePendingTicketPdfs = async (): Promise<number> => {
+  const data = await invokeOrder<OrderStatusReply>({ action: 'status' });
+  return storeTicketPdfs(data.uploads || []);
+};
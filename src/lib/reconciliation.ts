@@ -0,0 +1,326 @@
+import { parseCsv } from './csv'
+import { findDate } from './paymentOcr'
+import { findPaymentReference } from './paymentReference'
+
+// Matches credits in bank and UPI app statement exports to payment proofs.
+// Statements differ in layout, so columns are found by their header names:
+// a date, either one amount column or separate credit and debit columns, and
+// a reference or narration holding the 12-digit UTR. The payment reference
+// from the UPI note is the primary key: a row carrying a proof's reference is
+// matched when the amount agrees and the UTRs do not contradict each other.
+// Without one, a proof only counts as matched when the UTR, amount, date and
+// QR all agree with exactly one row; anything less is left for a person.
+
+export interface StatementRow {
+  file: string
+  // Row in the file, blank lines not counted, so the admin can find it in the original
+  line: number
+  // QR the statement was downloaded for, chosen on import
+  qr_name: string | null
+  // yyyy-mm-dd
+  date: string | null
+  amount: number
+  utr: string | null
+  // Payment reference found in the narration or reference column
+  reference: string | null
+  description: string
+}
+
+export interface StatementImport {
+  rows: StatementRow[]
+  // Debits, failed transactions and rows without a readable amount
+  skipped: number
+}
+
+export interface ReconciliationProof {
+  id: string
+  user_id: string
+  event_title: string
+  amount: number
+  status: 'pending' | 'approved' | 'rejected'
+  qr_name: string | null
+  utr_or_ref: string | null
+  payment_reference?: string | null
+  created_at: string
+  payment_method?: string | null
+  ocr_result?: { date: string | null } | null
+}
+
+export type MatchCheck = 'reference' | 'utr' | 'amount' | 'date' | 'qr'
+
+export interface MatchCandidate<P extends ReconciliationProof> {
+  proof: P
+  // Checks the row and the proof agree on
+  checks: MatchCheck[]
+}
+
+export interface ConfirmedMatch<P extends ReconciliationProof> {
+  row: StatementRow
+  proof: P
+}
+
+export interface AmbiguousMatch<P extends ReconciliationProof> {
+  row: StatementRow
+  candidates: MatchCandidate<P>[]
+  reason: string
+}
+
+export interface Reconciliation<P extends ReconciliationProof> {
+  matched: ConfirmedMatch<P>[]
+  ambiguous: AmbiguousMatch<P>[]
+  unmatched: StatementRow[]
+  // Credits whose UTR belongs to a proof that is already approved
+  settled: ConfirmedMatch<ReconciliationProof>[]
+  // Pending proofs on an imported QR that no statement row accounts for
+  missing: P[]
+}
+
+// Days between the statement date and the proof's payment date that still count
+export const DATE_WINDOW_DAYS = 2
+
+const HEADER_SCAN_ROWS = 30
+
+const COLUMN_ALIASES = {
+  date: ['txndate', 'transactiondate', 'trandate', 'date', 'dateandtime', 'transactiondatetime', 'postingdate', 'valuedate', 'valuedt'],
+  credit: ['credit', 'creditamount', 'creditamt', 'cramount', 'amountcr', 'deposit', 'deposits', 'depositamt', 'depositamount', 'creditinr', 'creditrs'],
+  amount: ['amount', 'amountinr', 'amountrs', 'transactionamount', 'txnamount', 'txnamt'],
+  type: ['crdr', 'drcr', 'type', 'transactiontype', 'txntype', 'creditdebit', 'debitcredit'],
+  status: ['status', 'transactionstatus', 'txnstatus'],
+  utr: ['utr', 'utrno', 'utrnumber', 'upirefno', 'upireferenceno', 'upireferencenumber', 'upitransactionid', 'upitxnid', 'rrn', 'bankreferenceno', 'referenceno', 'referencenumber', 'refno', 'chqrefno', 'chequerefno', 'transactionid', 'txnid'],
+  description: ['narration', 'description', 'particulars', 'transactiondetails', 'details', 'remarks', 'transactionremarks']
+}
+
+type Column = keyof typeof COLUMN_ALIASES
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '')
+
+const findColumns = (headers: string[]): Partial<Record<Column, number>> => {
+  const normalised = headers.map(normaliseHeader)
+  const columns: Partial<Record<Column, number>> = {}
+  for (const column of Object.keys(COLUMN_ALIASES) as Column[]) {
+    for (const alias of COLUMN_ALIASES[column]) {
+      const index = normalised.indexOf(alias)
+      if (index !== -1 && !Object.values(columns).includes(index)) {
+        columns[column] = index
+        break
+      }
+    }
+  }
+  return columns
+}
+
+const detectDelimiter = (text: string): string => {
+  const sample = text.split(/\r?\n/).slice(0, HEADER_SCAN_ROWS).join('\n')
+  const count = (ch: string) => sample.split(ch).length - 1
+  const candidates = [',', ';', '\t']
+  return candidates.reduce((best, ch) => (count(ch) > count(best) ? ch : best), ',')
+}
+
+// Amounts may carry a currency, thousands separators, a CR/DR suffix or brackets for debits
+export function parseStatementAmount(value: string): number | null {
+  const text = value.trim()
+  if (!text) return null
+  const debit = /^\(.*\)$/.test(text) || /\bdr\.?$/i.test(text) || text.startsWith('-')
+  const number = Number(text.replace(/₹|rs\.?|inr|\bcr\.?$|\bdr\.?$|[,()\s+-]/gi, ''))
+  if (!Number.isFinite(number) || number === 0) return null
+  return debit ? -number : number
+}
+
+export function parseStatementDate(value: string): string | null {
+  const iso = value.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/)
+  if (iso) {
+    const date = new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])))
+    return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10)
+  }
+  return findDate(value)
+}
+
+const findStatementUtr = (...values: (string | undefined)[]): string | null => {
+  for (const value of values) {
+    const match = value?.match(/(?<![0-9])[0-9]{12}(?![0-9])/)
+    if (match) return match[0]
+  }
+  return null
+}
+
+export function parseStatement(text: string, file: string, qrName: string | null): StatementImport {
+  const table = parseCsv(text, detectDelimiter(text))
+
+  // Bank exports open with account details; the header is the first row naming a date and an amount
+  const headerIndex = table.slice(0, HEADER_SCAN_ROWS).findIndex(row => {
+    const columns = findColumns(row)
+    return columns.date !== undefined && (columns.credit !== undefined || columns.amount !== undefined)
+  })
+  if (headerIndex === -1) {
+    throw new Error(`${file}: no header row with a date and an amount or credit column`)
+  }
+
+  const columns = findColumns(table[headerIndex])
+  const cell = (row: string[], column: Column) =>
+    columns[column] !== undefined ? (row[columns[column]!] ?? '').trim() : ''
+
+  const rows: StatementRow[] = []
+  let skipped = 0
+  for (let i = headerIndex + 1; i < table.length; i++) {
+    const row = table[i]
+    const date = parseStatementDate(cell(row, 'date'))
+    // Closing balances and footers have no date
+    if (!date) {
+      skipped++
+      continue
+    }
+
+    let amount: number | null
+    if (columns.credit !== undefined) {
+      amount = parseStatementAmount(cell(row, 'credit'))
+    } else {
+      amount = parseStatementAmount(cell(row, 'amount'))
+      const type = cell(row, 'type').toLowerCase()
+      if (amount !== null && /^(dr|debit|d|paid|sent|withdrawal)\b/.test(type)) amount = -amount
+    }
+    const status = cell(row, 'status').toLowerCase()
+    if (amount === null || amount <= 0 || /fail|pending|declin|revers/.test(status)) {
+      skipped++
+      continue
+    }
+
+    rows.push({
+      file,
+      line: i + 1,
+      qr_name: qrName,
+      date,
+      amount,
+      utr: findStatementUtr(cell(row, 'utr'), cell(row, 'description')),
+      reference: findPaymentReference(cell(row, 'description'), cell(row, 'utr'), row.join(' ')),
+      description: cell(row, 'description')
+    })
+  }
+  return { rows, skipped }
+}
+
+const dayNumber = (isoDate: string) => Math.floor(Date.parse(isoDate.slice(0, 10)) / 86400000)
+
+// The date the payer paid: read from the screenshot when OCR found one, else the upload date
+const proofPaymentDate = (proof: ReconciliationProof) => proof.ocr_result?.date ?? proof.created_at.slice(0, 10)
+
+function checkCandidate(row: StatementRow, proof: ReconciliationProof): MatchCheck[] {
+  const checks: MatchCheck[] = []
+  if (row.reference && proof.payment_reference === row.reference) checks.push('reference')
+  if (row.utr && proof.utr_or_ref === row.utr) checks.push('utr')
+  if (Math.abs(row.amount - proof.amount) < 0.01) checks.push('amount')
+  if (row.date && Math.abs(dayNumber(row.date) - dayNumber(proofPaymentDate(proof))) <= DATE_WINDOW_DAYS) checks.push('date')
+  if (!row.qr_name || (proof.qr_name && proof.qr_name === row.qr_name)) checks.push('qr')
+  return checks
+}
+
+const CHECK_LABELS: Record<MatchCheck, string> = {
+  reference: 'reference',
+  utr: 'UTR',
+  amount: 'amount',
+  date: 'date',
+  qr: 'QR'
+}
+
+// What a match needs when the row carries no known reference
+const ALL_CHECKS: MatchCheck[] = ['utr', 'amount', 'date', 'qr']
+
+const describeMismatch = (checks: MatchCheck[]) => {
+  const failed = ALL_CHECKS.filter(c => !checks.includes(c)).map(c => CHECK_LABELS[c])
+  if (failed.length === 0) return 'Needs review'
+  const text = `${failed.join(', ')} ${failed.length === 1 ? 'does' : 'do'} not match`
+  return text[0].toUpperCase() + text.slice(1)
+}
+
+export function reconcile<P extends ReconciliationProof>(
+  rows: StatementRow[],
+  proofs: P[],
+  settledProofs: ReconciliationProof[] = []
+): Reconciliation<P> {
+  const pending = proofs.filter(p => p.status === 'pending' && p.payment_method !== 'razorpay')
+  const result: Reconciliation<P> = { matched: [], ambiguous: [], unmatched: [], settled: [], missing: [] }
+
+  // Rows that look like a confirmed match, before checking no other row claims the same proof
+  const confirmed: ConfirmedMatch<P>[] = []
+
+  for (const row of rows) {
+    const settled = settledProofs.find(p => p.status === 'approved' &&
+      ((row.utr && p.utr_or_ref === row.utr) || (row.reference && p.payment_reference === row.reference)))
+    if (settled) {
+      result.settled.push({ row, proof: settled })
+      continue
+    }
+
+    // A reference names one payment attempt, so it decides the proof on its own
+    const referenced = row.reference ? pending.filter(p => p.payment_reference === row.reference) : []
+    if (referenced.length === 1) {
+      const proof = referenced[0]
+      const checks = checkCandidate(row, proof)
+      const utrConflict = !!(row.utr && proof.utr_or_ref) && !checks.includes('utr')
+      if (checks.includes('amount') && !utrConflict) {
+        confirmed.push({ row, proof })
+      } else {
+        result.ambiguous.push({
+          row,
+          candidates: [{ proof, checks }],
+          reason: utrConflict ? 'Reference matches but the UTR does not' : 'Reference matches but the amount does not'
+        })
+      }
+      continue
+    }
+
+    const candidates = pending
+      .map(proof => ({ proof, checks: checkCandidate(row, proof) }))
+      .filter(({ proof, checks }) =>
+        checks.includes('utr') ||
+        // A proof with a different UTR is a different transfer
+        (!(row.utr && proof.utr_or_ref) && checks.includes('amount') && checks.includes('date') && checks.includes('qr')))
+      .sort((a, b) => b.checks.length - a.checks.length)
+
+    if (candidates.length === 0) {
+      result.unmatched.push(row)
+      continue
+    }
+
+    const full = candidates.filter(c => ALL_CHECKS.every(check => c.checks.includes(check)))
+    if (full.length === 1 && candidates.filter(c => c.checks.includes('utr')).length === 1) {
+      confirmed.push({ row, proof: full[0].proof })
+      continue
+    }
+
+    let reason: string
+    if (full.length > 1) reason = 'Several proofs match'
+    else if (!row.utr) reason = 'Statement row has no UTR'
+    else if (!candidates.some(c => c.checks.includes('utr'))) {
+      reason = candidates.length === 1
+        ? 'A proof with no UTR matches the amount and date'
+        : `${candidates.length} proofs with no UTR match the amount and date`
+    }
+    else reason = describeMismatch(candidates[0].checks)
+    result.ambiguous.push({ row, candidates, reason })
+  }
+
+  // A proof claimed by two rows (the same credit in two files, say) needs a person to look
+  const claims = new Map<string, number>()
+  confirmed.forEach(m => claims.set(m.proof.id, (claims.get(m.proof.id) ?? 0) + 1))
+  for (const match of confirmed) {
+    if (claims.get(match.proof.id) === 1) {
+      result.matched.push(match)
+    } else {
+      result.ambiguous.push({
+        row: match.row,
+        candidates: [{ proof: match.proof, checks: checkCandidate(match.row, match.proof) }],
+        reason: 'Another statement row matches the same proof'
+      })
+    }
+  }
+
+  const importedQrs = new Set(rows.map(r => r.qr_name))
+  const accounted = new Set([
+    ...result.matched.map(m => m.proof.id),
+    ...result.ambiguous.flatMap(a => a.candidates.map(c => c.proof.id))
+  ])
+  result.missing = pending.filter(p =>
+    !accounted.has(p.id) && (importedQrs.has(null) || importedQrs.has(p.qr_name)))
+
+  return result
+}
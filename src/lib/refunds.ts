@@ -0,0 +1,274 @@
+import { supabase } from './supabase'
+import { getTicketStatus, transitionTicket, type TicketRecord } from './tickets'
+
+// Refund requests. A participant asks for a refund on an approved payment or
+// a ticket; admins move it through
+//
+//   requested -> approved -> paid
+//   requested -> denied
+//   approved  -> denied
+//
+// Paying out a refund revokes the tickets the refunded payment bought. Every
+// step is written to the admin audit log through log_admin_action.
+
+export type RefundStatus = 'requested' | 'approved' | 'paid' | 'denied'
+
+export type RefundReason = 'duplicate_payment' | 'event_cancelled' | 'cannot_attend' | 'other'
+
+export interface RefundRequest {
+  id: string
+  user_id: string
+  user_email: string | null
+  payment_proof_id: string | null
+  ticket_id: string | null
+  // Null for a combo pass payment; event_title then holds the pass name
+  event_id: string | null
+  event_title: string
+  amount: number | null
+  reason: RefundReason
+  details: string | null
+  upi_id: string
+  upi_name: string
+  status: RefundStatus
+  admin_notes: string | null
+  // UTR of the refund transfer, recorded when it is paid
+  payout_reference: string | null
+  decided_by: string | null
+  decided_at: string | null
+  paid_at: string | null
+  created_at: string
+}
+
+export interface RefundRequestInput {
+  userId: string
+  userEmail: string | null
+  proof?: { id: string; event_id: string | null; event_title: string; amount: number | null }
+  ticket?: Pick<TicketRecord, 'id' | 'event_id' | 'event_title' | 'amount'>
+  reason: RefundReason
+  details: string
+  upiId: string
+  upiName: string
+}
+
+export const REFUND_REASON_LABELS: Record<RefundReason, string> = {
+  duplicate_payment: 'Paid twice',
+  event_cancelled: 'Event cancelled',
+  cannot_attend: 'Cannot attend',
+  other: 'Other'
+}
+
+export const REFUND_TRANSITIONS: Record<RefundStatus, RefundStatus[]> = {
+  requested: ['approved', 'denied'],
+  approved: ['paid', 'denied'],
+  paid: [],
+  denied: []
+}
+
+// Requests still being handled; a payment or ticket can only have one
+export const OPEN_REFUND_STATUSES: RefundStatus[] = ['requested', 'approved']
+
+export function canTransitionRefund(from: RefundStatus, to: RefundStatus): boolean {
+  return REFUND_TRANSITIONS[from].includes(to)
+}
+
+export function isValidUpiId(upiId: string): boolean {
+  return /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9.-]{1,63}$/.test(upiId.trim())
+}
+
+async function logRefundAction(action: string, refundId: string, oldData: unknown, newData: unknown) {
+  try {
+    await supabase.rpc('log_admin_action', {
+      action_name: action,
+      table_name: 'refund_requests',
+      record_id: refundId,
+      old_data: oldData,
+      new_data: newData
+    })
+  } catch (err) {
+    console.error('Refund audit log failed:', err)
+  }
+}
+
+export async function requestRefund(input: RefundRequestInput): Promise<RefundRequest> {
+  const source = input.ticket ?? input.proof
+  if (!source) throw new Error('Choose a payment or ticket to refund')
+  if (!isValidUpiId(input.upiId)) throw new Error('Enter a valid UPI ID, like name@bank')
+  if (!input.upiName.trim()) throw new Error('Enter the name on the UPI account')
+  if (input.reason === 'other' && !input.details.trim()) throw new Error('Tell us why you need a refund')
+
+  let existing = supabase
+    .from('refund_requests')
+    .select('id')
+    .eq('user_id', input.userId)
+    .in('status', OPEN_REFUND_STATUSES)
+  existing = input.ticket
+    ? existing.eq('ticket_id', input.ticket.id)
+    : existing.eq('payment_proof_id', input.proof!.id)
+  const { data: open, error: openError } = await existing
+  if (openError) throw openError
+  if (open && open.length > 0) throw new Error('A refund request for this is already open')
+
+  const { data, error } = await supabase
+    .from('refund_requests')
+    .insert({
+      user_id: input.userId,
+      user_email: input.userEmail,
+      payment_proof_id: input.proof?.id ?? null,
+      ticket_id: input.ticket?.id ?? null,
+      event_id: source.event_id,
+      event_title: source.event_title,
+      amount: source.amount ?? null,
+      reason: input.reason,
+      details: input.details.trim() || null,
+      upi_id: input.upiId.trim(),
+      upi_name: input.upiName.trim(),
+      status: 'requested'
+    })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  await logRefundAction('refund_requested', data.id, null, data)
+  return data as RefundRequest
+}
+
+export async function loadMyRefunds(userId: string): Promise<RefundRequest[]> {
+  const { data, error } = await supabase
+    .from('refund_requests')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as RefundRequest[]
+}
+
+export async function loadRefunds(status: RefundStatus | 'all' = 'all'): Promise<RefundRequest[]> {
+  let query = supabase
+    .from('refund_requests')
+    .select('*')
+    .order('created_at', { ascending: true })
+  if (status !== 'all') query = query.eq('status', status)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data || []) as RefundRequest[]
+}
+
+async function setRefundStatus(
+  refund: RefundRequest,
+  to: RefundStatus,
+  actorId: string,
+  changes: Partial<RefundRequest> = {}
+): Promise<RefundRequest> {
+  if (!canTransitionRefund(refund.status, to)) {
+    throw new Error(`Cannot change a ${refund.status} refund to ${to}`)
+  }
+
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from('refund_requests')
+    .update({
+      ...changes,
+      status: to,
+      ...(to === 'paid' ? { paid_at: now } : { decided_by: actorId, decided_at: now })
+    })
+    .eq('id', refund.id)
+    .eq('status', refund.status)
+    .select('*')
+
+  if (error) throw error
+  if (!data || data.length === 0) {
+    throw new Error('Refund was changed by someone else. Reload and try again.')
+  }
+
+  const updated = data[0] as RefundRequest
+  await logRefundAction(`refund_${to}`, updated.id, { status: refund.status, admin_notes: refund.admin_notes }, updated)
+  return updated
+}
+
+export const approveRefund = (refund: RefundRequest, actorId: string, notes: string | null = null) =>
+  setRefundStatus(refund, 'approved', actorId, notes ? { admin_notes: notes } : {})
+
+export const denyRefund = async (refund: RefundRequest, actorId: string, notes: string) => {
+  if (!notes.trim()) throw new Error('A reason is required')
+  return setRefundStatus(refund, 'denied', actorId, { admin_notes: notes.trim() })
+}
+
+// Tickets a refund takes back: the ticket it was requested on, or those the
+// refunded payment issued. Tickets carry the proof that paid for them, so
+// another payment for the same event keeps its own ticket. A combo pass takes
+// back its pass tickets.
+export async function loadRefundTickets(refund: RefundRequest): Promise<TicketRecord[]> {
+  if (refund.ticket_id) {
+    const { data, error } = await supabase.from('tickets').select('*').eq('id', refund.ticket_id)
+    if (error) throw error
+    return followReplacements((data || []) as TicketRecord[])
+  }
+  if (!refund.payment_proof_id) return []
+
+  const { data: proof, error: proofError } = await supabase
+    .from('payment_proofs')
+    .select('id, bundle_id')
+    .eq('id', refund.payment_proof_id)
+    .single()
+  if (proofError) throw proofError
+
+  let query = supabase.from('tickets').select('*').eq('payment_proof_id', proof.id)
+  if (proof.bundle_id) query = query.eq('bundle_id', proof.bundle_id)
+  const { data, error } = await query
+  if (error) throw error
+  return followReplacements((data || []) as TicketRecord[])
+}
+
+// A transferred or reissued ticket is revoked and its seat lives on in the
+// ticket made from it. Walk forward to those descendants so the refund takes
+// back the ticket that is active now, whoever holds it.
+async function followReplacements(tickets: TicketRecord[]): Promise<TicketRecord[]> {
+  const found = new Map(tickets.map(t => [t.id, t]))
+  let frontier = tickets.map(t => t.id)
+  while (frontier.length > 0) {
+    const ids = frontier.join(',')
+    const { data, error } = await supabase
+      .from('tickets')
+      .select('*')
+      .or(`transferred_from.in.(${ids}),reissued_from.in.(${ids})`)
+    if (error) throw error
+    const next = ((data || []) as TicketRecord[]).filter(t => !found.has(t.id))
+    next.forEach(t => found.set(t.id, t))
+    frontier = next.map(t => t.id)
+  }
+  return [...found.values()]
+}
+
+// Revoke the refunded tickets, then record the payout; returns the tickets
+// revoked. The refund is marked paid last, so if revoking stops partway it
+// stays approved and issuing it again revokes the tickets still active.
+export async function issueRefund(
+  refund: RefundRequest,
+  actorId: string,
+  payoutReference: string
+): Promise<{ refund: RefundRequest; revoked: TicketRecord[] }> {
+  const reference = payoutReference.trim()
+  if (!reference) throw new Error('Enter the UTR of the refund transfer')
+  if (!canTransitionRefund(refund.status, 'paid')) {
+    throw new Error(`Cannot change a ${refund.status} refund to paid`)
+  }
+
+  const tickets = (await loadRefundTickets(refund)).filter(t => getTicketStatus(t) === 'active')
+  const revoked: TicketRecord[] = []
+  for (const ticket of tickets) {
+    await transitionTicket(ticket, 'revoked', `Refunded (${reference})`, actorId)
+    revoked.push(ticket)
+  }
+  if (revoked.length > 0) {
+    await logRefundAction('refund_tickets_revoked', refund.id, null, {
+      ticket_ids: revoked.map(t => t.id),
+      ticket_codes: revoked.map(t => t.ticket_code),
+      payout_reference: reference
+    })
+  }
+
+  const paid = await setRefundStatus(refund, 'paid', actorId, { payout_reference: reference })
+  return { refund: paid, revoked }
+}
@@ -0,0 +1,59 @@
+import { supabase } from './supabase'
+
+// Canned reasons for rejecting a payment proof. The message is what the payer
+// sees on their rejected proof, so it should say what to do next. Reviewers
+// pick one by number in the review queue; the order is sort_order, and
+// switching one off hides it without touching proofs already rejected with it.
+
+export interface RejectionTemplate {
+  id: string
+  label: string
+  message: string
+  sort_order: number
+  active: boolean
+  created_at: string
+}
+
+export type RejectionTemplateInput = Omit<RejectionTemplate, 'id' | 'created_at'>
+
+// Hotkeys 1-9 in the review queue
+export const MAX_TEMPLATE_HOTKEYS = 9
+
+export async function loadRejectionTemplates(activeOnly = false): Promise<RejectionTemplate[]> {
+  let query = supabase
+    .from('rejection_templates')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true })
+  if (activeOnly) query = query.eq('active', true)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data || []) as RejectionTemplate[]
+}
+
+// Problems that should block saving, one message per problem
+export function validateRejectionTemplate(input: RejectionTemplateInput): string[] {
+  const errors: string[] = []
+  if (!input.label.trim()) errors.push('Give the reason a short label')
+  if (!input.message.trim()) errors.push('Write the message the payer will see')
+  else if (input.message.trim().length > 500) errors.push('Keep the message under 500 characters')
+  if (!Number.isInteger(input.sort_order)) errors.push('Order must be a whole number')
+  return errors
+}
+
+export async function saveRejectionTemplate(input: RejectionTemplateInput, id: string | null = null): Promise<RejectionTemplate> {
+  const row = { ...input, label: input.label.trim(), message: input.message.trim() }
+  const errors = validateRejectionTemplate(row)
+  if (errors.length > 0) throw new Error(errors.join('. '))
+
+  const query = id
+    ? supabase.from('rejection_templates').update(row).eq('id', id)
+    : supabase.from('rejection_templates').insert(row)
+  const { data, error } = await query.select('*').single()
+  if (error) {
+    if (error.code === '23505') throw new Error(`A reason labelled ${row.label} already exists`)
+    throw error
+  }
+  return data as RejectionTemplate
+}
@@ -0,0 +1,214 @@
+// Structured event schedule. events.sessions holds one or more sessions with
+// UTC ISO timestamps; everything shown to users is in IST. events.schedule
+// remains as free-text notes and is shown when an event has no sessions.
+
+export interface EventSession {
+  title: string | null
+  start: string
+  end: string
+  venue: string | null
+}
+
+export interface ScheduledEvent {
+  id: string
+  title: string
+  tagline?: string | null
+  description?: string | null
+  venue: string | null
+  schedule: string | null
+  sessions?: EventSession[] | null
+}
+
+export interface SessionClash {
+  a: { eventId: string; eventTitle: string; session: EventSession }
+  b: { eventId: string; eventTitle: string; session: EventSession }
+}
+
+const IST_TIMEZONE = 'Asia/Kolkata'
+const IST_OFFSET = '+05:30'
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000
+
+const dayFormat = new Intl.DateTimeFormat('en-IN', {
+  timeZone: IST_TIMEZONE,
+  weekday: 'short',
+  day: 'numeric',
+  month: 'short'
+})
+
+const timeFormat = new Intl.DateTimeFormat('en-IN', {
+  timeZone: IST_TIMEZONE,
+  hour: 'numeric',
+  minute: '2-digit',
+  hour12: true
+})
+
+const istDayKey = (date: Date) => new Date(date.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10)
+
+// <input type="datetime-local"> value, read as IST wall-clock time
+export function istInputToIso(value: string): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(value)) return null
+  const date = new Date(`${value}:00${IST_OFFSET}`)
+  return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+export function isoToIstInput(iso: string): string {
+  const date = new Date(iso)
+  if (isNaN(date.getTime())) return ''
+  return new Date(date.getTime() + IST_OFFSET_MS).toISOString().slice(0, 16)
+}
+
+// Accept whatever is stored in events.sessions and return valid sessions in time order
+export function parseSessions(raw: unknown): EventSession[] {
+  if (!Array.isArray(raw)) return []
+  return raw
+    .filter((s): s is EventSession =>
+      !!s && typeof s.start === 'string' && typeof s.end === 'string' &&
+      !isNaN(Date.parse(s.start)) && !isNaN(Date.parse(s.end)))
+    .map(s => ({
+      title: s.title || null,
+      start: new Date(s.start).toISOString(),
+      end: new Date(s.end).toISOString(),
+      venue: s.venue || null
+    }))
+    .sort((a, b) => a.start.localeCompare(b.start))
+}
+
+// Problems that should block saving, one message per problem
+export function validateSessions(sessions: EventSession[]): string[] {
+  const errors: string[] = []
+  sessions.forEach((session, index) => {
+    if (Date.parse(session.end) <= Date.parse(session.start)) {
+      errors.push(`Session ${index + 1} must end after it starts`)
+    }
+  })
+  const sorted = [...sessions].sort((a, b) => a.start.localeCompare(b.start))
+  for (let i = 1; i < sorted.length; i++) {
+    if (Date.parse(sorted[i].start) < Date.parse(sorted[i - 1].end)) {
+      errors.push('Sessions of the same event must not overlap')
+      break
+    }
+  }
+  return errors
+}
+
+export function formatSession(session: EventSession): string {
+  const start = new Date(session.start)
+  const end = new Date(session.end)
+  const sameDay = istDayKey(start) === istDayKey(end)
+  const range = sameDay
+    ? `${dayFormat.format(start)}, ${timeFormat.format(start)} – ${timeFormat.format(end)}`
+    : `${dayFormat.format(start)}, ${timeFormat.format(start)} – ${dayFormat.format(end)}, ${timeFormat.format(end)}`
+  return `${range} IST`
+}
+
+// One-line summary for cards and tickets
+export function formatEventSchedule(event: Pick<ScheduledEvent, 'schedule' | 'sessions'>): string | null {
+  const sessions = parseSessions(event.sessions)
+  if (sessions.length === 0) return event.schedule || null
+  if (sessions.length === 1) return formatSession(sessions[0])
+  return `${formatSession(sessions[0])} (+${sessions.length - 1} more)`
+}
+
+// First session start, used to order events; unscheduled events sort last
+export function getEventStart(event: Pick<ScheduledEvent, 'sessions'>): number {
+  const sessions = parseSessions(event.sessions)
+  return sessions.length > 0 ? Date.parse(sessions[0].start) : Number.POSITIVE_INFINITY
+}
+
+export function sortEventsBySchedule<T extends Pick<ScheduledEvent, 'sessions'>>(events: T[]): T[] {
+  return [...events].sort((a, b) => getEventStart(a) - getEventStart(b))
+}
+
+// Overlapping sessions across different events
+export function findClashes(events: ScheduledEvent[]): SessionClash[] {
+  const slots = events.flatMap(event =>
+    parseSessions(event.sessions).map(session => ({ eventId: event.id, eventTitle: event.title, session }))
+  ).sort((x, y) => x.session.start.localeCompare(y.session.start))
+
+  const clashes: SessionClash[] = []
+  for (let i = 0; i < slots.length; i++) {
+    for (let j = i + 1; j < slots.length; j++) {
+      if (Date.parse(slots[j].session.start) >= Date.parse(slots[i].session.end)) break
+      if (slots[i].eventId !== slots[j].eventId) clashes.push({ a: slots[i], b: slots[j] })
+    }
+  }
+  return clashes
+}
+
+// --- iCalendar (RFC 5545) export ---
+
+function icsDate(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function icsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets are folded with CRLF + space
+function foldLine(line: string): string {
+  const bytes = new TextEncoder().encode(line)
+  if (bytes.length <= 75) return line
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const char of line) {
+    const size = new TextEncoder().encode(char).length
+    if (currentBytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += size
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+export function buildIcsCalendar(events: ScheduledEvent[], calendarName = 'ACN TechFest 4.0'): string {
+  const stamp = icsDate(new Date().toISOString())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ACN TechFest//Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${icsText(calendarName)}`,
+    `X-WR-TIMEZONE:${IST_TIMEZONE}`
+  ]
+
+  events.forEach(event => {
+    parseSessions(event.sessions).forEach((session, index) => {
+      const summary = session.title ? `${event.title}: ${session.title}` : event.title
+      const location = session.venue || event.venue
+      const description = event.tagline || event.description
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${event.id}-${index}@acn-techfest`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${icsDate(session.start)}`,
+        `DTEND:${icsDate(session.end)}`,
+        `SUMMARY:${icsText(summary)}`,
+        ...(location ? [`LOCATION:${icsText(location)}`] : []),
+        ...(description ? [`DESCRIPTION:${icsText(description)}`] : []),
+        'END:VEVENT'
+      )
+    })
+  })
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+export function downloadIcs(filename: string, events: ScheduledEvent[]): void {
+  const blob = new Blob([buildIcsCalendar(events)], { type: 'text/calendar;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename.endsWith('.ics') ? filename : `${filename}.ics`
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
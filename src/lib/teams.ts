@@ -0,0 +1,278 @@
+import { supabase } from './supabase'
+
+// Teams for team events. An event is a team event when team_max_size is set;
+// a captain creates the team, invites members by email or roll number, and
+// pays once for everyone once enough members have accepted. Submitting the
+// payment locks the roster; a rejected payment unlocks it again.
+
+export type TeamMemberStatus = 'invited' | 'accepted' | 'declined'
+
+export interface TeamMember {
+  id: string
+  team_id: string
+  user_id: string | null
+  name: string | null
+  email: string | null
+  roll_no: string | null
+  role: 'captain' | 'member'
+  status: TeamMemberStatus
+  invited_at: string
+  responded_at: string | null
+}
+
+export interface Team {
+  id: string
+  event_id: string
+  event_title: string
+  name: string
+  captain_id: string
+  status: 'forming' | 'locked'
+  created_at: string
+  members: TeamMember[]
+  // From the event; null if the event is no longer a team event
+  rules: TeamRules | null
+}
+
+export interface TeamRules {
+  minSize: number
+  maxSize: number
+}
+
+export interface TeamIdentity {
+  userId: string
+  email: string | null
+  rollNo: string | null
+  name: string | null
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// null for individual events
+export function getTeamRules(event: { team_min_size?: number | null; team_max_size?: number | null }): TeamRules | null {
+  if (!event.team_max_size) return null
+  return {
+    minSize: Math.max(1, event.team_min_size ?? 1),
+    maxSize: event.team_max_size
+  }
+}
+
+export function acceptedMembers(team: Team): TeamMember[] {
+  return team.members.filter(m => m.status === 'accepted')
+}
+
+// Seats taken by accepted members and open invites
+function reservedSeats(team: Team): number {
+  return team.members.filter(m => m.status !== 'declined').length
+}
+
+// Reason the team cannot pay yet, or null when it can
+export function teamPaymentBlocker(team: Team, rules: TeamRules, userId: string): string | null {
+  if (team.captain_id !== userId) return 'Only the team captain can pay for the team'
+  const accepted = acceptedMembers(team).length
+  if (accepted < rules.minSize) {
+    return `At least ${rules.minSize} accepted members are needed (currently ${accepted})`
+  }
+  if (accepted > rules.maxSize) return `Teams can have at most ${rules.maxSize} members`
+  return null
+}
+
+const TEAM_SELECT = 'id, event_id, event_title, name, captain_id, status, created_at, members:team_members(*), event:events(team_min_size, team_max_size)'
+
+type TeamEventSizes = { team_min_size: number | null; team_max_size: number | null }
+
+// A row selected with TEAM_SELECT. The client types the embedded event as a
+// list, though a team belongs to one event
+type TeamRow = Omit<Team, 'rules' | 'members'> & {
+  members: TeamMember[] | null
+  event: TeamEventSizes | TeamEventSizes[] | null
+}
+
+function normaliseTeam({ event: embedded, ...row }: TeamRow): Team {
+  const event = Array.isArray(embedded) ? embedded[0] : embedded
+  return {
+    ...row,
+    rules: event ? getTeamRules(event) : null,
+    members: [...(row.members || [])].sort((a, b) =>
+      a.role === b.role ? a.invited_at.localeCompare(b.invited_at) : a.role === 'captain' ? -1 : 1)
+  }
+}
+
+// Teams the user belongs to (accepted) plus teams that have invited them
+export async function loadMyTeams(identity: TeamIdentity): Promise<{ teams: Team[]; invites: Team[] }> {
+  const filters = [`user_id.eq.${identity.userId}`]
+  if (identity.email) filters.push(`email.eq.${identity.email.toLowerCase()}`)
+  if (identity.rollNo) filters.push(`roll_no.eq.${identity.rollNo.toUpperCase()}`)
+
+  const { data: memberships, error } = await supabase
+    .from('team_members')
+    .select('team_id, status, user_id')
+    .or(filters.join(','))
+
+  if (error) throw error
+  const teamIds = [...new Set((memberships || []).filter(m => m.status !== 'declined').map(m => m.team_id))]
+  if (teamIds.length === 0) return { teams: [], invites: [] }
+
+  const { data, error: teamsError } = await supabase
+    .from('teams')
+    .select(TEAM_SELECT)
+    .in('id', teamIds)
+    .order('created_at', { ascending: false })
+
+  if (teamsError) throw teamsError
+  const teams = (data || []).map(normaliseTeam)
+  const pending = new Set((memberships || []).filter(m => m.status === 'invited').map(m => m.team_id))
+  return {
+    teams: teams.filter(t => !pending.has(t.id)),
+    invites: teams.filter(t => pending.has(t.id))
+  }
+}
+
+export async function loadTeamForEvent(eventId: string, userId: string): Promise<Team | null> {
+  const { data: membership, error } = await supabase
+    .from('team_members')
+    .select('team_id, teams!inner(event_id)')
+    .eq('user_id', userId)
+    .eq('status', 'accepted')
+    .eq('teams.event_id', eventId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!membership) return null
+  return loadTeam(membership.team_id)
+}
+
+export async function loadTeam(teamId: string): Promise<Team> {
+  const { data, error } = await supabase
+    .from('teams')
+    .select(TEAM_SELECT)
+    .eq('id', teamId)
+    .single()
+
+  if (error) throw error
+  return normaliseTeam(data)
+}
+
+export async function createTeam(
+  event: { id: string; title: string },
+  name: string,
+  captain: TeamIdentity
+): Promise<Team> {
+  if (!name.trim()) throw new Error('Team name is required')
+  const existing = await loadTeamForEvent(event.id, captain.userId)
+  if (existing) throw new Error(`You are already in team ${existing.name} for this event`)
+
+  const { data: team, error } = await supabase
+    .from('teams')
+    .insert({ event_id: event.id, event_title: event.title, name: name.trim(), captain_id: captain.userId, status: 'forming' })
+    .select('id')
+    .single()
+
+  if (error) throw error
+
+  const { error: memberError } = await supabase
+    .from('team_members')
+    .insert({
+      team_id: team.id,
+      user_id: captain.userId,
+      name: captain.name,
+      email: captain.email?.toLowerCase() ?? null,
+      roll_no: captain.rollNo?.toUpperCase() ?? null,
+      role: 'captain',
+      status: 'accepted',
+      responded_at: new Date().toISOString()
+    })
+
+  if (memberError) {
+    await supabase.from('teams').delete().eq('id', team.id)
+    throw memberError
+  }
+  return loadTeam(team.id)
+}
+
+// Invite by email address or roll number
+export async function inviteTeamMember(team: Team, rules: TeamRules, identifier: string): Promise<void> {
+  const value = identifier.trim()
+  if (!value) throw new Error('Enter an email or roll number')
+  if (team.status === 'locked') throw new Error('The team is locked while its payment is under review')
+  if (reservedSeats(team) >= rules.maxSize) {
+    throw new Error(`Teams can have at most ${rules.maxSize} members including pending invites`)
+  }
+
+  const isEmail = EMAIL_PATTERN.test(value)
+  const email = isEmail ? value.toLowerCase() : null
+  const rollNo = isEmail ? null : value.toUpperCase()
+  const duplicate = team.members.some(m =>
+    m.status !== 'declined' && ((email && m.email === email) || (rollNo && m.roll_no === rollNo)))
+  if (duplicate) throw new Error(`${value} is already on this team`)
+
+  const { error } = await supabase
+    .from('team_members')
+    .insert({
+      team_id: team.id,
+      email,
+      roll_no: rollNo,
+      role: 'member',
+      status: 'invited'
+    })
+
+  if (error) throw error
+}
+
+export async function respondToTeamInvite(team: Team, identity: TeamIdentity, accept: boolean): Promise<void> {
+  const invite = team.members.find(m =>
+    m.status === 'invited' &&
+    ((identity.email && m.email === identity.email.toLowerCase()) ||
+      (identity.rollNo && m.roll_no === identity.rollNo.toUpperCase())))
+  if (!invite) throw new Error('Invite not found')
+  if (accept && team.status === 'locked') throw new Error('The team is locked while its payment is under review')
+
+  if (accept) {
+    const rules = await loadTeamRules(team.event_id)
+    if (rules && acceptedMembers(team).length >= rules.maxSize) throw new Error('This team is already full')
+    const existing = await loadTeamForEvent(team.event_id, identity.userId)
+    if (existing) throw new Error(`You are already in team ${existing.name} for this event`)
+  }
+
+  const { error } = await supabase
+    .from('team_members')
+    .update({
+      status: accept ? 'accepted' : 'declined',
+      user_id: accept ? identity.userId : null,
+      name: accept ? identity.name : invite.name,
+      email: invite.email ?? identity.email?.toLowerCase() ?? null,
+      roll_no: invite.roll_no ?? identity.rollNo?.toUpperCase() ?? null,
+      responded_at: new Date().toISOString()
+    })
+    .eq('id', invite.id)
+    .eq('status', 'invited')
+
+  if (error) throw error
+}
+
+// Captains remove members or withdraw invites; members remove themselves to leave
+export async function removeTeamMember(team: Team, member: TeamMember): Promise<void> {
+  if (member.role === 'captain') throw new Error('The captain cannot leave the team')
+  if (team.status === 'locked') throw new Error('The team is locked while its payment is under review')
+  const { error } = await supabase.from('team_members').delete().eq('id', member.id)
+  if (error) throw error
+}
+
+export async function setTeamLocked(teamId: string, locked: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('teams')
+    .update({ status: locked ? 'locked' : 'forming' })
+    .eq('id', teamId)
+
+  if (error) throw error
+}
+
+export async function loadTeamRules(eventId: string): Promise<TeamRules | null> {
+  const { data, error } = await supabase
+    .from('events')
+    .select('team_min_size, team_max_size')
+    .eq('id', eventId)
+    .single()
+
+  if (error) throw error
+  return getTeamRules(data)
+}
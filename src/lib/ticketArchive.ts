@@ -0,0 +1,63 @@
+import JSZip from 'jszip'
+import { supabase } from './supabase'
+import { toCsv } from './csv'
+import { isTicketValid, type TicketRecord } from './tickets'
+import { runJobs, type JobProgress } from './jobRunner'
+
+// Bundles every valid ticket PDF for an event into one ZIP, built in the
+// browser, with a manifest.csv listing each ticket and any download error.
+
+export type ArchiveProgress = JobProgress
+
+export interface ArchiveFileError {
+  ticketCode: string
+  message: string
+}
+
+export interface TicketArchiveResult {
+  blob: Blob
+  fileCount: number
+  errors: ArchiveFileError[]
+}
+
+const DOWNLOAD_CONCURRENCY = 4
+
+export async function buildTicketArchive(
+  tickets: TicketRecord[],
+  onProgress?: (progress: ArchiveProgress) => void
+): Promise<TicketArchiveResult> {
+  const printable = tickets
+    .filter(isTicketValid)
+    .sort((a, b) => a.ticket_code.localeCompare(b.ticket_code))
+
+  const zip = new JSZip()
+  const folder = zip.folder('tickets')!
+  const { failures } = await runJobs(printable, async (ticket) => {
+    const { data, error } = await supabase.storage.from('tickets').download(ticket.pdf_path)
+    if (error) throw error
+    folder.file(`${ticket.ticket_code}.pdf`, data)
+  }, { concurrency: DOWNLOAD_CONCURRENCY, onProgress })
+  const errors = new Map(failures.map(f => [f.item.ticket_code, f.message]))
+
+  zip.file('manifest.csv', toCsv(
+    ['ticket_code', 'holder_name', 'roll_no', 'email', 'status', 'file', 'error'],
+    printable.map(ticket => [
+      ticket.ticket_code,
+      ticket.holder_name,
+      ticket.roll_no,
+      ticket.user_email,
+      ticket.status ?? 'active',
+      errors.has(ticket.ticket_code) ? '' : `tickets/${ticket.ticket_code}.pdf`,
+      errors.get(ticket.ticket_code) ?? ''
+    ])
+  ))
+
+  const blob = await zip.generateAsync({ type: 'blob', compression: 'STORE' })
+  return {
+    blob,
+    fileCount: printable.length - errors.size,
+    errors: printable
+      .filter(ticket => errors.has(ticket.ticket_code))
+      .map(ticket => ({ ticketCode: ticket.ticket_code, message: errors.get(ticket.ticket_code)! }))
+  }
+}
@@ -0,0 +1,212 @@
+import { jsPDF } from 'jspdf'
+import QRCode from 'qrcode'
+import { supabase } from './supabase'
+import { formatEventSchedule, type EventSession } from './schedule'
+
+// Bundled ticket renderer. Output depends only on the ticket data and the
+// event template, so re-rendering a ticket produces the same PDF bytes.
+
+export interface TicketTemplate {
+  primaryColor: string
+  accentColor: string
+  textColor: string
+  imageUrl: string | null
+  venue: string | null
+  schedule: string | null
+  terms: string[]
+}
+
+export interface TicketPdfData {
+  ticketCode: string
+  qrData: string
+  eventTitle: string
+  holderName: string | null | undefined
+  rollNo: string | null | undefined
+  amount: number | null | undefined
+  issuedAt: string
+}
+
+// Shape of events.ticket_template (all keys optional)
+export type StoredTicketTemplate = Partial<Pick<TicketTemplate, 'primaryColor' | 'accentColor' | 'textColor' | 'terms'>>
+
+export const DEFAULT_TICKET_TEMPLATE: TicketTemplate = {
+  primaryColor: '#b22049',
+  accentColor: '#1f2937',
+  textColor: '#111111',
+  imageUrl: null,
+  venue: null,
+  schedule: null,
+  terms: [
+    'Present this ticket and a valid college ID at the event venue.',
+    'This ticket admits one person and is valid only for the event shown.',
+    'Tickets are non-transferable unless transferred through the ACN TechFest portal.'
+  ]
+}
+
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 40
+
+export function resolveTicketTemplate(event: {
+  image_url?: string | null
+  venue?: string | null
+  schedule?: string | null
+  sessions?: EventSession[] | null
+  ticket_template?: StoredTicketTemplate | null
+}): TicketTemplate {
+  const stored = event.ticket_template || {}
+  return {
+    primaryColor: stored.primaryColor || DEFAULT_TICKET_TEMPLATE.primaryColor,
+    accentColor: stored.accentColor || DEFAULT_TICKET_TEMPLATE.accentColor,
+    textColor: stored.textColor || DEFAULT_TICKET_TEMPLATE.textColor,
+    terms: stored.terms?.length ? stored.terms : DEFAULT_TICKET_TEMPLATE.terms,
+    imageUrl: event.image_url ?? null,
+    venue: event.venue ?? null,
+    schedule: formatEventSchedule({ schedule: event.schedule ?? null, sessions: event.sessions })
+  }
+}
+
+export async function loadTicketTemplate(eventId: string): Promise<TicketTemplate> {
+  const { data, error } = await supabase
+    .from('events')
+    .select('image_url, venue, schedule, sessions, ticket_template')
+    .eq('id', eventId)
+    .single()
+  if (error) throw error
+  return resolveTicketTemplate(data)
+}
+
+// Fixed timezone and locale so the printed date never depends on the admin's machine
+function formatIssuedAt(iso: string): string {
+  return new Intl.DateTimeFormat('en-IN', {
+    timeZone: 'Asia/Kolkata',
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: true
+  }).format(new Date(iso)) + ' IST'
+}
+
+// PDF trailer ID derived from the ticket code instead of a random value
+async function fileIdFor(ticketCode: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(ticketCode))
+  return Array.from(new Uint8Array(digest).slice(0, 16))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase()
+}
+
+async function loadImageDataUrl(url: string): Promise<string | null> {
+  try {
+    const res = await fetch(url)
+    if (!res.ok) return null
+    const blob = await res.blob()
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as string)
+      reader.onerror = reject
+      reader.readAsDataURL(blob)
+    })
+  } catch {
+    return null
+  }
+}
+
+export async function renderTicketPdf(data: TicketPdfData, template: TicketTemplate): Promise<Blob> {
+  const doc = new jsPDF({ unit: 'pt', format: 'a4', compress: true })
+  doc.setCreationDate(new Date(data.issuedAt))
+  doc.setFileId(await fileIdFor(data.ticketCode))
+  doc.setProperties({ title: `${data.eventTitle} - ${data.ticketCode}`, creator: 'ACN TechFest 4.0' })
+
+  // Header
+  doc.setFillColor(template.primaryColor)
+  doc.rect(0, 0, PAGE_WIDTH, 90, 'F')
+  doc.setTextColor('#ffffff')
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(11)
+  doc.text('ACN TECHFEST 4.0  |  EVENT TICKET', MARGIN, 32)
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(22)
+  doc.text(doc.splitTextToSize(data.eventTitle || 'Event', PAGE_WIDTH - MARGIN * 2)[0], MARGIN, 66)
+
+  let y = 110
+
+  // Event image, fitted into a banner box without distortion
+  if (template.imageUrl) {
+    const imageDataUrl = await loadImageDataUrl(template.imageUrl)
+    if (imageDataUrl) {
+      const props = doc.getImageProperties(imageDataUrl)
+      const boxWidth = PAGE_WIDTH - MARGIN * 2
+      const boxHeight = 170
+      const scale = Math.min(boxWidth / props.width, boxHeight / props.height)
+      const width = props.width * scale
+      const height = props.height * scale
+      doc.addImage(imageDataUrl, props.fileType, MARGIN + (boxWidth - width) / 2, y, width, height, data.ticketCode, 'FAST')
+      y += boxHeight + 24
+    }
+  }
+
+  // Ticket details
+  const qrSize = 170
+  const qrX = PAGE_WIDTH - MARGIN - qrSize
+  const detailsTop = y
+  const addLine = (label: string, value: string | null | undefined) => {
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(10)
+    doc.setTextColor(template.accentColor)
+    doc.text(label.toUpperCase(), MARGIN, y)
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(13)
+    doc.setTextColor(template.textColor)
+    const lines = doc.splitTextToSize(value ? String(value) : '-', qrX - MARGIN - 20)
+    doc.text(lines, MARGIN, y + 16)
+    y += 22 + lines.length * 15
+  }
+
+  addLine('Ticket Code', data.ticketCode)
+  addLine('Holder', data.holderName || 'Unknown User')
+  addLine('Roll No', data.rollNo)
+  addLine('Venue', template.venue)
+  addLine('Schedule', template.schedule)
+  addLine('Amount Paid', data.amount != null ? `INR ${Number(data.amount).toFixed(2)}` : null)
+  addLine('Issued', formatIssuedAt(data.issuedAt))
+
+  // QR code
+  const qrDataUrl = await QRCode.toDataURL(data.qrData, { errorCorrectionLevel: 'M', margin: 1, width: 340 })
+  doc.setDrawColor(template.primaryColor)
+  doc.setLineWidth(2)
+  doc.roundedRect(qrX - 8, detailsTop - 14, qrSize + 16, qrSize + 16, 8, 8, 'S')
+  doc.addImage(qrDataUrl, 'PNG', qrX, detailsTop - 6, qrSize, qrSize, `qr-${data.ticketCode}`, 'FAST')
+  doc.setFontSize(9)
+  doc.setTextColor(template.accentColor)
+  doc.text('Scan at entry', qrX + qrSize / 2, detailsTop + qrSize + 16, { align: 'center' })
+
+  // Terms
+  y = Math.max(y, detailsTop + qrSize + 40) + 10
+  doc.setDrawColor(template.accentColor)
+  doc.setLineWidth(0.5)
+  doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y)
+  y += 20
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(10)
+  doc.setTextColor(template.accentColor)
+  doc.text('TERMS & CONDITIONS', MARGIN, y)
+  y += 14
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(9)
+  doc.setTextColor('#555555')
+  template.terms.forEach((term, index) => {
+    const lines = doc.splitTextToSize(`${index + 1}. ${term}`, PAGE_WIDTH - MARGIN * 2)
+    if (y + lines.length * 12 > PAGE_HEIGHT - 40) return
+    doc.text(lines, MARGIN, y)
+    y += lines.length * 12 + 2
+  })
+
+  // Footer stripe
+  doc.setFillColor(template.primaryColor)
+  doc.rect(0, PAGE_HEIGHT - 16, PAGE_WIDTH, 16, 'F')
+
+  return doc.output('blob')
+}
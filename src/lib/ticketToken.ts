@@ -0,0 +1,99 @@
+import { verifyAsync } from '@noble/ed25519'
+import { supabase } from './supabase'
+import { functionErrorMessage } from './functionErrors'
+
+// Signed ticket tokens: ACN1.<base64url(claims)>.<base64url(ed25519 signature)>
+// The private key only lives in the `sign-ticket` edge function; scanners verify
+// offline with VITE_TICKET_PUBLIC_KEY.
+
+const TOKEN_PREFIX = 'ACN1'
+
+export interface TicketClaims {
+  c: string // ticket code
+  e: string // event id
+  u: string // user id
+  iat: number // issued at (unix seconds)
+}
+
+export type TicketTokenResult =
+  | { valid: true; claims: TicketClaims }
+  | { valid: false; reason: 'malformed' | 'bad_signature' | 'no_public_key' }
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+function fromBase64Url(value: string): Uint8Array {
+  const padded = value.replace(/-/g, '+').replace(/_/g, '/') + '==='.slice((value.length + 3) % 4)
+  const binary = atob(padded)
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0))
+}
+
+function fromHex(hex: string): Uint8Array {
+  const clean = hex.trim().toLowerCase()
+  if (!/^[0-9a-f]*$/.test(clean) || clean.length % 2 !== 0) {
+    throw new Error('Invalid hex string')
+  }
+  const out = new Uint8Array(clean.length / 2)
+  for (let i = 0; i < out.length; i++) {
+    out[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16)
+  }
+  return out
+}
+
+export function generateTicketCode(): string {
+  return `TKT-${Math.random().toString(36).slice(2, 10).toUpperCase()}`
+}
+
+export function isTicketToken(value: string): boolean {
+  return value.startsWith(`${TOKEN_PREFIX}.`)
+}
+
+// Ask the signing edge function for a token. The caller must be an admin with
+// payment approval rights; the function re-checks that server-side.
+export async function signTicket(params: { code: string; eventId: string; userId: string }): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('sign-ticket', {
+    body: {
+      code: params.code,
+      event_id: params.eventId,
+      user_id: params.userId
+    }
+  })
+
+  if (error) throw new Error(await functionErrorMessage(error, 'Failed to sign ticket'))
+  if (!data?.token || !isTicketToken(data.token)) {
+    throw new Error('Signing service returned an invalid ticket token')
+  }
+  return data.token as string
+}
+
+export function decodeTicketToken(token: string): TicketClaims | null {
+  const parts = token.trim().split('.')
+  if (parts.length !== 3 || parts[0] !== TOKEN_PREFIX) return null
+  try {
+    const claims = JSON.parse(textDecoder.decode(fromBase64Url(parts[1])))
+    if (typeof claims?.c !== 'string' || typeof claims?.e !== 'string' || typeof claims?.u !== 'string') {
+      return null
+    }
+    return { c: claims.c, e: claims.e, u: claims.u, iat: Number(claims.iat) || 0 }
+  } catch {
+    return null
+  }
+}
+
+export async function verifyTicketToken(
+  token: string,
+  publicKeyHex: string | undefined = import.meta.env.VITE_TICKET_PUBLIC_KEY
+): Promise<TicketTokenResult> {
+  if (!publicKeyHex) return { valid: false, reason: 'no_public_key' }
+
+  const claims = decodeTicketToken(token)
+  if (!claims) return { valid: false, reason: 'malformed' }
+
+  const [, payload, signature] = token.trim().split('.')
+  try {
+    const ok = await verifyAsync(fromBase64Url(signature), textEncoder.encode(payload), fromHex(publicKeyHex))
+    return ok ? { valid: true, claims } : { valid: false, reason: 'bad_signature' }
+  } catch {
+    return { valid: false, reason: 'bad_signature' }
+  }
+}
@@ -0,0 +1,457 @@
+import type { PostgrestError } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { functionErrorMessage } from './functionErrors'
+import { generateTicketCode, signTicket } from './ticketToken'
+import { loadTicketTemplate, renderTicketPdf } from './ticketPdf'
+import { acceptedMembers, loadTeam } from './teams'
+import { loadBundle, loadBundleEvents } from './bundles'
+
+// Ticket lifecycle. Every status change is stored on the ticket row and
+// appended to ticket_status_history with the reason and acting admin.
+//
+//   active -> revoked    cancelled by an admin; scanners reject it
+//   active -> reissued   replaced by a new ticket (replaced_by points to it)
+//   active -> used       checked in at the venue
+//   revoked -> active    reinstated by an admin
+//   used -> active       entry recorded by mistake
+
+export type TicketStatus = 'active' | 'revoked' | 'reissued' | 'used'
+
+export interface TicketRecord {
+  id: string
+  ticket_code: string
+  user_id: string
+  user_email: string | null
+  event_id: string
+  event_title: string
+  holder_name: string
+  roll_no: string | null
+  qr_data: string | null
+  pdf_path: string
+  amount: number | null
+  status: TicketStatus | null
+  status_reason: string | null
+  status_changed_by: string | null
+  status_changed_at: string | null
+  replaced_by: string | null
+  // Set on tickets issued by accepting a transfer
+  transferred_from: string | null
+  team_id: string | null
+  // Set on tickets issued for an online payment
+  payment_order_id?: string | null
+  // Set on tickets issued for a combo pass
+  bundle_id?: string | null
+  // Set on tickets issued by approving a payment proof
+  payment_proof_id?: string | null
+  // Set on replacements issued by reissueTicket
+  reissued_from?: string | null
+  created_at: string
+}
+
+export interface TicketStatusChange {
+  id: string
+  ticket_id: string
+  from_status: TicketStatus
+  to_status: TicketStatus
+  reason: string
+  actor_id: string
+  related_ticket_id: string | null
+  created_at: string
+}
+
+export type TicketTransferStatus = 'pending' | 'accepted' | 'declined' | 'cancelled'
+
+export interface TicketTransfer {
+  id: string
+  ticket_id: string
+  ticket_code: string
+  event_id: string
+  event_title: string
+  from_user_id: string
+  from_email: string
+  from_name: string
+  to_email: string
+  to_user_id: string | null
+  new_ticket_id: string | null
+  status: TicketTransferStatus
+  created_at: string
+  responded_at: string | null
+}
+
+export interface IssueTicketInput {
+  userId: string
+  userEmail: string | null
+  eventId: string
+  eventTitle: string
+  holderName: string
+  rollNo: string | null
+  amount: number | null
+  teamId?: string | null
+  bundleId?: string | null
+  paymentProofId?: string | null
+  paymentOrderId?: string | null
+  reissuedFrom?: string | null
+}
+
+// Fields of payment_proofs needed to issue its tickets
+export interface PaymentForIssue {
+  // The proof being approved, when there is one
+  id?: string
+  user_id: string
+  user_email?: string | null
+  // Null for a combo pass payment, which sets bundle_id instead
+  event_id: string | null
+  event_title: string
+  name?: string | null
+  roll_no?: string | null
+  amount: number
+  team_id?: string | null
+  bundle_id?: string | null
+}
+
+export const TICKET_TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+  active: ['revoked', 'reissued', 'used'],
+  revoked: ['active'],
+  reissued: [],
+  used: ['active']
+}
+
+// Tickets issued before the lifecycle existed have no status
+export function getTicketStatus(ticket: Pick<TicketRecord, 'status'>): TicketStatus {
+  return ticket.status ?? 'active'
+}
+
+// Whether the ticket's PDF and QR still admit the holder
+export function isTicketValid(ticket: Pick<TicketRecord, 'status'>): boolean {
+  const status = getTicketStatus(ticket)
+  return status === 'active' || status === 'used'
+}
+
+export function canTransition(from: TicketStatus, to: TicketStatus): boolean {
+  return TICKET_TRANSITIONS[from].includes(to)
+}
+
+// Sign, render and upload a new ticket, then insert its row
+export async function issueTicket(input: IssueTicketInput): Promise<TicketRecord> {
+  const ticketCode = generateTicketCode()
+  const ticketToken = await signTicket({
+    code: ticketCode,
+    eventId: input.eventId,
+    userId: input.userId
+  })
+
+  const issuedAt = new Date().toISOString()
+  const template = await loadTicketTemplate(input.eventId)
+  const pdfBlob = await renderTicketPdf({
+    ticketCode,
+    qrData: ticketToken,
+    eventTitle: input.eventTitle || 'Unknown Event',
+    holderName: input.holderName,
+    rollNo: input.rollNo,
+    amount: input.amount,
+    issuedAt
+  }, template)
+
+  const pdfPath = `${input.eventId}/${input.userId}/${ticketCode}.pdf`
+  const { error: uploadError } = await supabase.storage
+    .from('tickets')
+    .upload(pdfPath, pdfBlob, { contentType: 'application/pdf', cacheControl: '3600', upsert: false })
+
+  if (uploadError) throw uploadError
+
+  const { data, error } = await supabase
+    .from('tickets')
+    .insert({
+      ticket_code: ticketCode,
+      user_id: input.userId,
+      user_email: input.userEmail,
+      event_id: input.eventId,
+      event_title: input.eventTitle,
+      holder_name: input.holderName,
+      roll_no: input.rollNo,
+      qr_data: ticketToken,
+      pdf_path: pdfPath,
+      amount: input.amount,
+      team_id: input.teamId ?? null,
+      bundle_id: input.bundleId ?? null,
+      payment_proof_id: input.paymentProofId ?? null,
+      payment_order_id: input.paymentOrderId ?? null,
+      reissued_from: input.reissuedFrom ?? null,
+      status: 'active',
+      created_at: issuedAt
+    })
+    .select()
+    .single()
+
+  if (error) {
+    // Nothing points at the PDF without its row
+    await supabase.storage.from('tickets').remove([pdfPath]).catch(() => {})
+    throw error
+  }
+  return data as TicketRecord
+}
+
+// Issue the tickets an approved payment pays for: one for the payer, one per
+// accepted member for a team payment, or one per included event for a combo
+// pass. Holders who already have a valid ticket for an event are skipped, so
+// retrying after a partial failure is safe. Tickets carry the proof's id and
+// the database allows one per proof, holder and event (reissued replacements
+// aside), so two approvals of the same proof running at once cannot both issue.
+export async function issueTicketsForPayment(payment: PaymentForIssue): Promise<TicketRecord[]> {
+  let holders: IssueTicketInput[] = [{
+    userId: payment.user_id,
+    userEmail: payment.user_email ?? null,
+    eventId: payment.event_id!,
+    eventTitle: payment.event_title,
+    holderName: payment.name || 'Unknown User',
+    rollNo: payment.roll_no ?? null,
+    amount: payment.amount,
+    paymentProofId: payment.id ?? null
+  }]
+
+  if (payment.bundle_id) {
+    const bundle = await loadBundle(payment.bundle_id)
+    const events = await loadBundleEvents(bundle)
+    if (events.length === 0) throw new Error(`${bundle.name} has no events`)
+    const share = Math.round((payment.amount / events.length) * 100) / 100
+    holders = events.map(event => ({
+      ...holders[0],
+      eventId: event.id,
+      eventTitle: event.title,
+      amount: share,
+      bundleId: bundle.id
+    }))
+  } else if (payment.team_id) {
+    const team = await loadTeam(payment.team_id)
+    const members = acceptedMembers(team).filter(m => m.user_id)
+    if (members.length === 0) throw new Error(`Team ${team.name} has no accepted members`)
+    const share = Math.round((payment.amount / members.length) * 100) / 100
+    holders = members.map(member => ({
+      userId: member.user_id!,
+      userEmail: member.email,
+      eventId: payment.event_id!,
+      eventTitle: payment.event_title,
+      holderName: member.name || member.email || 'Team Member',
+      rollNo: member.roll_no,
+      amount: share,
+      teamId: team.id,
+      paymentProofId: payment.id ?? null
+    }))
+  }
+
+  const { data: existing, error } = await supabase
+    .from('tickets')
+    .select('user_id, event_id, status')
+    .in('event_id', [...new Set(holders.map(h => h.eventId))])
+    .in('user_id', holders.map(h => h.userId))
+
+  if (error) throw error
+  const alreadyIssued = new Set((existing || []).filter(isTicketValid).map(t => `${t.user_id}:${t.event_id}`))
+
+  const issued: TicketRecord[] = []
+  for (const holder of holders) {
+    if (alreadyIssued.has(`${holder.userId}:${holder.eventId}`)) continue
+    try {
+      issued.push(await issueTicket(holder))
+    } catch (err) {
+      // Issued by another run of this approval since the check above
+      const pgError = err as Partial<PostgrestError> | null
+      if (pgError?.code === '23505' && String(pgError.details).includes('payment_proof_id')) continue
+      throw err
+    }
+  }
+  return issued
+}
+
+// Move a ticket to a new status. The update is conditional on the status the
+// caller saw, so two admins acting at once cannot both succeed.
+export async function transitionTicket(
+  ticket: Pick<TicketRecord, 'id' | 'status'>,
+  to: TicketStatus,
+  reason: string,
+  actorId: string,
+  relatedTicketId: string | null = null
+): Promise<void> {
+  const from = getTicketStatus(ticket)
+  if (!canTransition(from, to)) {
+    throw new Error(`Cannot change a ${from} ticket to ${to}`)
+  }
+  if (!reason.trim()) {
+    throw new Error('A reason is required')
+  }
+
+  const changedAt = new Date().toISOString()
+  let update = supabase
+    .from('tickets')
+    .update({
+      status: to,
+      status_reason: reason.trim(),
+      status_changed_by: actorId,
+      status_changed_at: changedAt,
+      ...(to === 'reissued' ? { replaced_by: relatedTicketId } : {})
+    })
+    .eq('id', ticket.id)
+
+  update = ticket.status ? update.eq('status', from) : update.is('status', null)
+  const { data, error } = await update.select('id')
+
+  if (error) throw error
+  if (!data || data.length === 0) {
+    throw new Error('Ticket was changed by someone else. Reload and try again.')
+  }
+
+  const { error: historyError } = await supabase
+    .from('ticket_status_history')
+    .insert({
+      ticket_id: ticket.id,
+      from_status: from,
+      to_status: to,
+      reason: reason.trim(),
+      actor_id: actorId,
+      related_ticket_id: relatedTicketId,
+      created_at: changedAt
+    })
+
+  if (historyError) throw historyError
+}
+
+// Issue a replacement with corrected details and retire the old ticket. The
+// replacement keeps the old ticket's team, pass and payment, so refunds and
+// exports still find it.
+export async function reissueTicket(
+  ticket: TicketRecord,
+  changes: { holderName: string; rollNo: string | null },
+  reason: string,
+  actorId: string
+): Promise<TicketRecord> {
+  if (getTicketStatus(ticket) !== 'active') {
+    throw new Error('Only active tickets can be reissued')
+  }
+
+  const replacement = await issueTicket({
+    userId: ticket.user_id,
+    userEmail: ticket.user_email,
+    eventId: ticket.event_id,
+    eventTitle: ticket.event_title,
+    holderName: changes.holderName,
+    rollNo: changes.rollNo,
+    amount: ticket.amount,
+    teamId: ticket.team_id,
+    bundleId: ticket.bundle_id,
+    paymentProofId: ticket.payment_proof_id,
+    paymentOrderId: ticket.payment_order_id,
+    reissuedFrom: ticket.id
+  })
+
+  try {
+    await transitionTicket(ticket, 'reissued', reason, actorId, replacement.id)
+  } catch (error) {
+    // Do not leave two valid tickets behind
+    await transitionTicket(replacement, 'revoked', `Reissue of ${ticket.ticket_code} failed`, actorId).catch(() => {})
+    throw error
+  }
+
+  return replacement
+}
+
+export async function loadTicketHistory(ticketId: string): Promise<TicketStatusChange[]> {
+  const { data, error } = await supabase
+    .from('ticket_status_history')
+    .select('*')
+    .or(`ticket_id.eq.${ticketId},related_ticket_id.eq.${ticketId}`)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+// Transfers run through the ticket-transfer edge function, which checks
+// ownership, the recipient and the event's allow_transfers flag.
+async function invokeTransfer<T = unknown>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('ticket-transfer', { body })
+  if (error) {
+    throw new Error(await functionErrorMessage(error, 'Ticket transfer failed'))
+  }
+  return data as T
+}
+
+export async function requestTicketTransfer(ticketId: string, toEmail: string): Promise<TicketTransfer> {
+  const data = await invokeTransfer<{ transfer: TicketTransfer }>({ action: 'create', ticket_id: ticketId, to_email: toEmail })
+  return data.transfer
+}
+
+export async function cancelTicketTransfer(transferId: string): Promise<void> {
+  await invokeTransfer({ action: 'cancel', transfer_id: transferId })
+}
+
+export async function declineTicketTransfer(transferId: string): Promise<void> {
+  await invokeTransfer({ action: 'decline', transfer_id: transferId })
+}
+
+// Render and store the PDF of a ticket issued by an edge function, which hands
+// out a signed upload token because the holder cannot write to `tickets` directly
+export async function uploadTicketPdf(ticket: TicketRecord, uploadToken: string): Promise<void> {
+  const template = await loadTicketTemplate(ticket.event_id)
+  const pdfBlob = await renderTicketPdf({
+    ticketCode: ticket.ticket_code,
+    qrData: ticket.qr_data || '',
+    eventTitle: ticket.event_title || 'Unknown Event',
+    holderName: ticket.holder_name,
+    rollNo: ticket.roll_no,
+    amount: ticket.amount,
+    issuedAt: ticket.created_at
+  }, template)
+
+  const { error } = await supabase.storage
+    .from('tickets')
+    .uploadToSignedUrl(ticket.pdf_path, uploadToken, pdfBlob, { contentType: 'application/pdf' })
+
+  if (error) throw error
+}
+
+// Accept a transfer and store the PDF for the newly issued ticket
+export async function acceptTicketTransfer(transferId: string): Promise<TicketRecord> {
+  const data = await invokeTransfer<{ ticket: TicketRecord; upload_token: string }>({ action: 'accept', transfer_id: transferId })
+  await uploadTicketPdf(data.ticket, data.upload_token)
+  return data.ticket
+}
+
+export async function loadPendingTransfers(userId: string, email: string): Promise<{
+  incoming: TicketTransfer[]
+  outgoing: TicketTransfer[]
+}> {
+  const { data, error } = await supabase
+    .from('ticket_transfers')
+    .select('*')
+    .eq('status', 'pending')
+    .or(`from_user_id.eq.${userId},to_email.eq.${email.toLowerCase()}`)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  const transfers = (data || []) as TicketTransfer[]
+  return {
+    incoming: transfers.filter(t => t.to_email === email.toLowerCase()),
+    outgoing: transfers.filter(t => t.from_user_id === userId)
+  }
+}
+
+// Every ticket in the same transfer chain as `ticket`, original holder first
+export function getTransferChain(ticket: TicketRecord, tickets: TicketRecord[]): TicketRecord[] {
+  const byId = new Map(tickets.map(t => [t.id, t]))
+  const byParent = new Map(tickets.filter(t => t.transferred_from).map(t => [t.transferred_from!, t]))
+
+  let root = ticket
+  const seen = new Set([root.id])
+  while (root.transferred_from && byId.has(root.transferred_from) && !seen.has(root.transferred_from)) {
+    root = byId.get(root.transferred_from)!
+    seen.add(root.id)
+  }
+
+  const chain = [root]
+  let next = byParent.get(root.id)
+  while (next && !chain.includes(next)) {
+    chain.push(next)
+    next = byParent.get(next.id)
+  }
+  return chain
+}
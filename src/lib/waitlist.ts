@@ -0,0 +1,98 @@
+import { supabase } from './supabase'
+import { functionErrorMessage } from './functionErrors'
+
+// Waitlist for events with a capacity. Registering for a full event puts the
+// user in line; when a seat frees up (a finally rejected payment, a revoked
+// ticket or someone unregistering) the first person waiting is offered it for a limited
+// time. Unclaimed offers expire and pass to the next in line. All of this runs
+// in the `waitlist` edge function, which expires offers lazily on every call.
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'claimed' | 'expired' | 'left'
+
+export interface WaitlistEntry {
+  id: string
+  event_id: string
+  user_id: string
+  user_email: string | null
+  position: number
+  status: WaitlistStatus
+  offered_at: string | null
+  offer_expires_at: string | null
+  responded_at: string | null
+  created_at: string
+  event?: { title: string; price: number | null } | null
+  // Place among those still waiting; only set on entries returned by the function
+  place?: number | null
+}
+
+export type JoinResult =
+  | { status: 'registered' }
+  | { status: 'waitlisted' | 'offered'; entry: WaitlistEntry }
+
+async function invokeWaitlist<T = unknown>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('waitlist', { body })
+  if (error) {
+    throw new Error(await functionErrorMessage(error, 'Waitlist update failed'))
+  }
+  return data as T
+}
+
+// Registers when a seat is free, otherwise joins the waitlist
+export function joinEvent(eventId: string): Promise<JoinResult> {
+  return invokeWaitlist<JoinResult>({ action: 'join', event_id: eventId })
+}
+
+export async function claimWaitlistOffer(eventId: string): Promise<void> {
+  await invokeWaitlist({ action: 'claim', event_id: eventId })
+}
+
+export async function leaveWaitlist(eventId: string): Promise<void> {
+  await invokeWaitlist({ action: 'leave', event_id: eventId })
+}
+
+// Offer any free seats; call after freeing a seat client-side
+export async function advanceWaitlist(eventId: string): Promise<void> {
+  await invokeWaitlist({ action: 'advance', event_id: eventId })
+}
+
+// Events among eventIds with a capacity, the only ones with seats to pass on
+export async function limitedEventIds(eventIds: string[]): Promise<string[]> {
+  const { data, error } = await supabase.from('events').select('id').in('id', eventIds).gt('capacity', 0)
+  if (error) throw error
+  return (data || []).map(e => e.id)
+}
+
+// Admin: drop a user's registration (final rejection, revoked ticket) and pass the seat on.
+// Events without a capacity keep the registration.
+export async function releaseSeat(eventId: string, userId: string): Promise<void> {
+  await invokeWaitlist({ action: 'release', event_id: eventId, user_id: userId })
+}
+
+// Admin: entryIds lists every waiting entry in the new order
+export async function reorderWaitlist(eventId: string, entryIds: string[]): Promise<void> {
+  await invokeWaitlist({ action: 'reorder', event_id: eventId, entry_ids: entryIds })
+}
+
+export function isOfferOpen(entry: WaitlistEntry, now = Date.now()): boolean {
+  return entry.status === 'offered' && !!entry.offer_expires_at && Date.parse(entry.offer_expires_at) > now
+}
+
+// The user's waiting entries and open offers; stale offers are expired first
+export async function loadMyWaitlist(): Promise<WaitlistEntry[]> {
+  const data = await invokeWaitlist<{ entries?: WaitlistEntry[] }>({ action: 'mine' })
+  return data.entries || []
+}
+
+// Waiting and offered entries for an event, in queue order; expires stale offers first
+export async function loadEventWaitlist(eventId: string): Promise<WaitlistEntry[]> {
+  await advanceWaitlist(eventId)
+  const { data, error } = await supabase
+    .from('waitlist_entries')
+    .select('*')
+    .eq('event_id', eventId)
+    .in('status', ['waiting', 'offered'])
+    .order('position', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as WaitlistEntry[]
+}
@@ -0,0 +1,137 @@
+// Event pricing shared by the pricing and razorpay-order functions.
+// events.price_tiers lists time-boxed prices (early bird and the like); the
+// first tier open right now wins and events.price applies when none is. A
+// coupon then takes a percentage or flat amount off. Coupons can be limited
+// to some events, to a number of uses overall and to a number of uses per
+// user; uses tied to a rejected payment do not count.
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+
+export interface PriceTier {
+  label: string
+  price: number
+  starts_at: string | null
+  ends_at: string | null
+}
+
+export interface PriceQuote {
+  event_id: string
+  // events.price, the regular price
+  base_price: number
+  // Label of the tier in effect, if any
+  tier: string | null
+  // Price before the coupon
+  list_price: number
+  coupon_code: string | null
+  discount: number
+  // What to pay, in rupees
+  amount: number
+}
+
+export class PricingError extends Error {}
+
+// SQLSTATE redeem_coupon and apply_proof_pricing raise when a coupon's limits are used up
+export const COUPON_LIMIT_ERROR = '23514'
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+export function activeTier(raw: unknown, now: Date): PriceTier | null {
+  if (!Array.isArray(raw)) return null
+  const time = now.getTime()
+  return raw.find((tier: PriceTier) =>
+    !!tier && typeof tier.price === 'number' && tier.price > 0 &&
+    (!tier.starts_at || Date.parse(tier.starts_at) <= time) &&
+    (!tier.ends_at || time < Date.parse(tier.ends_at))) ?? null
+}
+
+// Redemptions that still count against a coupon's limits
+async function liveRedemptions(admin: SupabaseClient, couponId: string) {
+  const { data: redemptions, error } = await admin
+    .from('coupon_redemptions')
+    .select('id, user_id, payment_proof_id')
+    .eq('coupon_id', couponId)
+  if (error) throw error
+
+  const proofIds = (redemptions || []).map(r => r.payment_proof_id)
+  const rejected = new Set<string>()
+  if (proofIds.length > 0) {
+    const { data: proofs } = await admin.from('payment_proofs').select('id, status').in('id', proofIds)
+    for (const proof of proofs || []) if (proof.status === 'rejected') rejected.add(proof.id)
+  }
+  return (redemptions || []).filter(r => !rejected.has(r.payment_proof_id))
+}
+
+// Price an event for a user. excludeProofId leaves out the proof being priced,
+// so pricing the same proof twice does not count its own coupon use.
+export async function resolvePrice(
+  admin: SupabaseClient,
+  eventId: string,
+  userId: string,
+  couponCode: string | null,
+  excludeProofId: string | null = null,
+  now = new Date()
+): Promise<{ quote: PriceQuote; couponId: string | null }> {
+  const { data: event } = await admin
+    .from('events')
+    .select('id, price, price_tiers')
+    .eq('id', eventId)
+    .maybeSingle()
+  if (!event) throw new PricingError('Event not found')
+  if (!event.price || event.price <= 0) throw new PricingError('This event does not take payments')
+
+  const tier = activeTier(event.price_tiers, now)
+  const listPrice = tier ? tier.price : event.price
+  const quote: PriceQuote = {
+    event_id: event.id,
+    base_price: event.price,
+    tier: tier?.label ?? null,
+    list_price: listPrice,
+    coupon_code: null,
+    discount: 0,
+    amount: listPrice
+  }
+
+  const code = couponCode?.trim().toUpperCase()
+  if (!code) return { quote, couponId: null }
+
+  const { data: coupon } = await admin.from('coupons').select('*').eq('code', code).maybeSingle()
+  if (!coupon || !coupon.active) throw new PricingError('This coupon code is not valid')
+  if (coupon.starts_at && Date.parse(coupon.starts_at) > now.getTime()) throw new PricingError('This coupon is not active yet')
+  if (coupon.ends_at && Date.parse(coupon.ends_at) <= now.getTime()) throw new PricingError('This coupon has expired')
+  if (coupon.event_ids?.length && !coupon.event_ids.includes(event.id)) {
+    throw new PricingError('This coupon does not apply to this event')
+  }
+
+  const uses = (await liveRedemptions(admin, coupon.id)).filter(r => !excludeProofId || r.payment_proof_id !== excludeProofId)
+  if (coupon.max_uses != null && uses.length >= coupon.max_uses) throw new PricingError('This coupon has been fully used')
+  if (coupon.per_user_limit != null && uses.filter(r => r.user_id === userId).length >= coupon.per_user_limit) {
+    throw new PricingError('You have already used this coupon')
+  }
+
+  const discount = coupon.discount_type === 'percent'
+    ? round2(listPrice * Math.min(coupon.discount_value, 100) / 100)
+    : Math.min(listPrice, coupon.discount_value)
+  const amount = round2(listPrice - discount)
+  if (amount <= 0) throw new PricingError('This coupon covers the whole price; ask the organisers to register you')
+
+  return { quote: { ...quote, coupon_code: code, discount, amount }, couponId: coupon.id }
+}
+
+// Record a coupon use. redeem_coupon locks the coupon and counts its uses
+// again before inserting, so two payments racing for the last use cannot both
+// have it; the loser gets a PricingError.
+export async function recordRedemption(
+  admin: SupabaseClient,
+  couponId: string,
+  userId: string,
+  eventId: string,
+  paymentProofId: string
+): Promise<void> {
+  const { error } = await admin.rpc('redeem_coupon', {
+    p_coupon_id: couponId,
+    p_user_id: userId,
+    p_event_id: eventId,
+    p_payment_proof_id: paymentProofId
+  })
+  if (error?.code === COUPON_LIMIT_ERROR) throw new PricingError(error.message)
+  if (error) throw error
+}
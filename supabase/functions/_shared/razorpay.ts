@@ -0,0 +1,71 @@
+// Razorpay gateway access shared by the razorpay-order and razorpay-webhook functions.
+// With RAZORPAY_MODE=mock no request leaves the project: orders get local ids
+// and razorpay-order can deliver a signed payment.captured webhook itself.
+// Secrets: RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, RAZORPAY_WEBHOOK_SECRET, RAZORPAY_MODE (live | mock)
+
+export interface GatewayOrder {
+  id: string
+  amount: number
+  currency: string
+}
+
+export function isMockGateway(): boolean {
+  return Deno.env.get('RAZORPAY_MODE') === 'mock'
+}
+
+export function gatewayKeyId(): string {
+  return isMockGateway() ? 'rzp_test_mock' : Deno.env.get('RAZORPAY_KEY_ID') ?? ''
+}
+
+function mockId(prefix: string): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(7))
+  return `${prefix}_mock${Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')}`
+}
+
+export function mockPaymentId(): string {
+  return mockId('pay')
+}
+
+// amount is in paise
+export async function createGatewayOrder(amount: number, receipt: string, notes: Record<string, string>): Promise<GatewayOrder> {
+  if (isMockGateway()) return { id: mockId('order'), amount, currency: 'INR' }
+
+  const keyId = Deno.env.get('RAZORPAY_KEY_ID')
+  const keySecret = Deno.env.get('RAZORPAY_KEY_SECRET')
+  if (!keyId || !keySecret) throw new Error('Online payments are not configured')
+
+  const response = await fetch('https://api.razorpay.com/v1/orders', {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${btoa(`${keyId}:${keySecret}`)}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ amount, currency: 'INR', receipt, notes })
+  })
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) throw new Error(body?.error?.description || 'Could not create the payment order')
+  return { id: body.id, amount: body.amount, currency: body.currency }
+}
+
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message))
+  return Array.from(new Uint8Array(signature), b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// X-Razorpay-Signature is the hex HMAC-SHA256 of the raw request body
+export async function verifyWebhookSignature(rawBody: string, signature: string | null): Promise<boolean> {
+  const secret = Deno.env.get('RAZORPAY_WEBHOOK_SECRET')
+  if (!secret || !signature) return false
+  const expected = await hmacSha256Hex(secret, rawBody)
+  if (expected.length !== signature.length) return false
+  let diff = 0
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i)
+  return diff === 0
+}
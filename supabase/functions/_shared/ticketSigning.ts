@@ -0,0 +1,50 @@
+// Ticket token signing and response helpers shared by the edge functions.
+// Token format matches src/lib/ticketToken.ts: ACN1.<claims>.<signature>
+import { signAsync } from 'npm:@noble/ed25519@3'
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+}
+
+export function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(b => { binary += String.fromCharCode(b) })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromHex(hex: string): Uint8Array {
+  const out = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+  return out
+}
+
+export const TICKET_CODE_PATTERN = /^TKT-[A-Z0-9]{4,16}$/
+
+// Same shape as generateTicketCode() in the client
+export function generateTicketCode(): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
+  const bytes = crypto.getRandomValues(new Uint8Array(8))
+  return 'TKT-' + Array.from(bytes, b => alphabet[b % alphabet.length]).join('')
+}
+
+export async function signTicketClaims(
+  signingKey: string,
+  claims: { code: string; eventId: string; userId: string }
+): Promise<string> {
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify({
+    c: claims.code,
+    e: claims.eventId,
+    u: claims.userId,
+    iat: Math.floor(Date.now() / 1000)
+  })))
+  const signature = await signAsync(new TextEncoder().encode(payload), fromHex(signingKey))
+  return `ACN1.${payload}.${toBase64Url(signature)}`
+}
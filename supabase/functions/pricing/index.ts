@@ -0,0 +1,119 @@
+// Event prices for the payment page.
+//   quote  the caller's price for an event, with an optional coupon code
+//   pin    price the caller's payment session once its QR is shown and keep
+//          the quote on it, valid for QUOTE_VALID_HOURS. The session's amount
+//          follows, so the UPI intent asks for exactly the pinned price.
+//   apply  copy the session's pinned quote onto the caller's pending
+//          screenshot proof and record the coupon use. The price is not
+//          resolved again: a tier or coupon ending between paying and
+//          submitting does not change what the payer owes, but a quote past
+//          its expiry is refused rather than silently re-priced.
+// Secrets: SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { corsHeaders, json } from '../_shared/ticketSigning.ts'
+import { COUPON_LIMIT_ERROR, PricingError, resolvePrice, type PriceQuote } from '../_shared/pricing.ts'
+
+const QUOTE_VALID_HOURS = 24
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
+
+  const authClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } }
+  })
+  const { data: { user } } = await authClient.auth.getUser()
+  if (!user) return json({ error: 'Not authenticated' }, 401)
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+  const body = await req.json().catch(() => ({}))
+  if (!body.event_id) return json({ error: 'event_id is required' }, 400)
+
+  try {
+    if (body.action === 'quote') {
+      const { quote } = await resolvePrice(admin, body.event_id, user.id, body.coupon_code ?? null)
+      return json({ quote })
+    }
+
+    if (body.action === 'pin') {
+      const { data: session } = await admin
+        .from('payment_sessions')
+        .select('id, event_id, stage')
+        .eq('id', body.session_id)
+        .eq('user_id', user.id)
+        .maybeSingle()
+      if (!session || session.event_id !== body.event_id) return json({ error: 'Payment not found' }, 404)
+      if (session.stage !== 'qr_allocated') throw new PricingError('The price can only change before you pay')
+
+      const { quote } = await resolvePrice(admin, session.event_id, user.id, body.coupon_code ?? null)
+      const now = new Date()
+      const { data: pinned, error } = await admin
+        .from('payment_sessions')
+        .update({
+          quote,
+          quote_expires_at: new Date(now.getTime() + QUOTE_VALID_HOURS * 3600_000).toISOString(),
+          amount: quote.amount,
+          coupon_code: quote.coupon_code,
+          updated_at: now.toISOString()
+        })
+        .eq('id', session.id)
+        .eq('stage', 'qr_allocated')
+        .select('*')
+        .maybeSingle()
+      if (error) return json({ error: error.message }, 500)
+      if (!pinned) throw new PricingError('This payment was changed in another tab. Reload the page to continue.')
+      return json({ session: pinned })
+    }
+
+    if (body.action === 'apply') {
+      const { data: session } = await admin
+        .from('payment_sessions')
+        .select('event_id, quote, quote_expires_at')
+        .eq('id', body.session_id)
+        .eq('user_id', user.id)
+        .maybeSingle()
+      if (!session || session.event_id !== body.event_id) return json({ error: 'Payment not found' }, 404)
+      const quote = session.quote as PriceQuote | null
+      if (!quote || !session.quote_expires_at) throw new PricingError('This payment has no pinned price')
+      if (Date.parse(session.quote_expires_at) <= Date.now()) {
+        throw new PricingError('The price pinned for this payment has expired. Start a new payment to get a current price.')
+      }
+
+      const { data: proof } = await admin
+        .from('payment_proofs')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('event_id', session.event_id)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+      if (!proof) return json({ error: 'No pending payment for this event' }, 404)
+
+      let couponId: string | null = null
+      if (quote.coupon_code) {
+        const { data: coupon } = await admin.from('coupons').select('id').eq('code', quote.coupon_code).maybeSingle()
+        if (!coupon) throw new PricingError('The coupon on this payment no longer exists')
+        couponId = coupon.id
+      }
+
+      // apply_proof_pricing(p_proof_id, p_pricing, p_coupon_id) replaces the
+      // proof's coupon use and stores the amount and breakdown in one
+      // transaction, so a failure leaves neither written and a retry is safe.
+      // The coupon's limits are counted again there under a lock: the quote
+      // was pinned earlier and others may have used the coupon since.
+      const { error } = await admin.rpc('apply_proof_pricing', {
+        p_proof_id: proof.id,
+        p_pricing: quote,
+        p_coupon_id: couponId
+      })
+      if (error?.code === COUPON_LIMIT_ERROR) throw new PricingError(error.message)
+      if (error) return json({ error: error.message }, 500)
+      return json({ quote })
+    }
+  } catch (err) {
+    if (err instanceof PricingError) return json({ error: err.message }, 409)
+    return json({ error: (err as Error).message }, 500)
+  }
+
+  return json({ error: 'Unknown action' }, 400)
+})
@@ -0,0 +1,180 @@
+// Online payments through Razorpay.
+//   create        price the registration (tier and coupon, see _shared/pricing.ts)
+//                 and open a gateway order
+//   status        order state and whether its tickets are issued yet; once paid,
+//                 signed upload tokens for ticket PDFs that have not been stored
+//                 yet (all of the caller's paid orders if no order_id is given)
+//   mock_capture  mock mode only: deliver a signed payment.captured webhook for
+//                 the order, standing in for the hosted checkout
+// The webhook (razorpay-webhook) is the only thing that marks an order paid.
+// Secrets: SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY, plus those in _shared/razorpay.ts
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { corsHeaders, json } from '../_shared/ticketSigning.ts'
+import { createGatewayOrder, gatewayKeyId, hmacSha256Hex, isMockGateway, mockPaymentId } from '../_shared/razorpay.ts'
+import { PricingError, resolvePrice } from '../_shared/pricing.ts'
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
+
+  const authClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } }
+  })
+  const { data: { user } } = await authClient.auth.getUser()
+  if (!user) return json({ error: 'Not authenticated' }, 401)
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+  const body = await req.json().catch(() => ({}))
+
+  if (body.action === 'create') {
+    const { data: event } = await admin
+      .from('events')
+      .select('id, title, price, team_min_size, team_max_size')
+      .eq('id', body.event_id)
+      .maybeSingle()
+    if (!event) return json({ error: 'Event not found' }, 404)
+    if (!event.price || event.price <= 0) return json({ error: 'This event does not take payments' }, 400)
+
+    const { data: registration } = await admin
+      .from('registrations')
+      .select('id')
+      .eq('event_id', event.id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+    if (!registration) return json({ error: 'Register for the event before paying' }, 409)
+
+    const { data: previous } = await admin
+      .from('payment_proofs')
+      .select('id')
+      .eq('event_id', event.id)
+      .eq('user_id', user.id)
+      .in('status', ['pending', 'approved'])
+      .limit(1)
+    if (previous?.length) return json({ error: 'A payment for this event is already recorded' }, 409)
+
+    let teamId: string | null = null
+    if (event.team_max_size) {
+      const { data: team } = await admin
+        .from('teams')
+        .select('id, captain_id, members:team_members(status)')
+        .eq('id', body.team_id)
+        .eq('event_id', event.id)
+        .maybeSingle()
+      if (!team || team.captain_id !== user.id) return json({ error: 'Only the team captain can pay for the team' }, 403)
+      const accepted = (team.members || []).filter((m: { status: string }) => m.status === 'accepted').length
+      const minSize = Math.max(1, event.team_min_size ?? 1)
+      if (accepted < minSize || accepted > event.team_max_size) {
+        return json({ error: `Teams need ${minSize}–${event.team_max_size} accepted members` }, 409)
+      }
+      teamId = team.id
+    }
+
+    let pricing
+    try {
+      pricing = await resolvePrice(admin, event.id, user.id, body.coupon_code ?? null)
+    } catch (err) {
+      return json({ error: (err as Error).message }, err instanceof PricingError ? 409 : 500)
+    }
+
+    const amountPaise = Math.round(pricing.quote.amount * 100)
+    let gatewayOrder
+    try {
+      gatewayOrder = await createGatewayOrder(amountPaise, `reg_${registration.id}`.slice(0, 40), {
+        user_id: user.id,
+        event_id: event.id,
+        ...(teamId ? { team_id: teamId } : {})
+      })
+    } catch (err) {
+      return json({ error: (err as Error).message }, 502)
+    }
+
+    const { error } = await admin.from('payment_orders').insert({
+      order_id: gatewayOrder.id,
+      user_id: user.id,
+      user_email: user.email,
+      event_id: event.id,
+      event_title: event.title,
+      team_id: teamId,
+      amount_paise: gatewayOrder.amount,
+      currency: gatewayOrder.currency,
+      // The webhook copies these to the proof and records the coupon use
+      pricing: pricing.quote,
+      coupon_id: pricing.couponId,
+      status: 'created'
+    })
+    if (error) return json({ error: error.message }, 500)
+
+    return json({
+      order_id: gatewayOrder.id,
+      amount: gatewayOrder.amount,
+      currency: gatewayOrder.currency,
+      key_id: gatewayKeyId(),
+      event_title: event.title,
+      mock: isMockGateway()
+    })
+  }
+
+  if (body.action === 'status') {
+    let query = admin.from('payment_orders').select('*').eq('user_id', user.id)
+    query = body.order_id ? query.eq('order_id', body.order_id) : query.eq('status', 'paid')
+    const { data: orders } = await query
+    if (body.order_id && !orders?.length) return json({ error: 'Order not found' }, 404)
+
+    const paidIds = (orders || []).filter(o => o.status === 'paid').map(o => o.id)
+    const uploads: { ticket: unknown; upload_token: string }[] = []
+    if (paidIds.length > 0) {
+      const { data: tickets } = await admin.from('tickets').select('*').in('payment_order_id', paidIds)
+      for (const ticket of tickets || []) {
+        const folder = ticket.pdf_path.slice(0, ticket.pdf_path.lastIndexOf('/'))
+        const fileName = ticket.pdf_path.slice(ticket.pdf_path.lastIndexOf('/') + 1)
+        const { data: stored } = await admin.storage.from('tickets').list(folder, { search: fileName })
+        if (stored?.some(f => f.name === fileName)) continue
+        const { data: upload } = await admin.storage.from('tickets').createSignedUploadUrl(ticket.pdf_path)
+        if (upload) uploads.push({ ticket, upload_token: upload.token })
+      }
+    }
+
+    const order = body.order_id ? orders![0] : null
+    return json({
+      status: order?.status ?? null,
+      failure_reason: order?.failure_reason ?? null,
+      issued: !!order?.tickets_issued_at,
+      uploads
+    })
+  }
+
+  if (body.action === 'mock_capture') {
+    if (!isMockGateway()) return json({ error: 'Mock payments are disabled' }, 403)
+    const { data: order } = await admin
+      .from('payment_orders')
+      .select('*')
+      .eq('order_id', body.order_id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+    if (!order) return json({ error: 'Order not found' }, 404)
+
+    const payload = JSON.stringify({
+      event: 'payment.captured',
+      payload: {
+        payment: {
+          entity: {
+            id: mockPaymentId(),
+            order_id: order.order_id,
+            amount: order.amount_paise,
+            currency: order.currency,
+            status: 'captured'
+          }
+        }
+      }
+    })
+    const signature = await hmacSha256Hex(Deno.env.get('RAZORPAY_WEBHOOK_SECRET') ?? '', payload)
+    const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/razorpay-webhook`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Razorpay-Signature': signature },
+      body: payload
+    })
+    if (!response.ok) return json({ error: 'Mock webhook was rejected' }, 502)
+    return json({ ok: true })
+  }
+
+  return json({ error: 'Unknown action' }, 400)
+})
@@ -0,0 +1,189 @@
+// Receives Razorpay webhooks. On payment.captured for a known order the
+// payment is recorded as an approved payment proof and its tickets are signed
+// and inserted, one for the payer or one per accepted team member. Ticket PDFs
+// are rendered by the payer's browser afterwards (see razorpay-order `status`).
+// Deliveries are retried by Razorpay, so every step is idempotent per order.
+// An order whose coupon was used up by the time it was paid is failed and its
+// proof rejected, for a refund, instead of issuing tickets.
+// Concurrent deliveries are settled by conditional updates: one delivery
+// claims the order to record the payment, and one claims it to issue tickets
+// (payment_orders.issuing_at; a claim older than ISSUE_CLAIM_MS is abandoned).
+// tickets_issued_at is set once every holder has a ticket.
+// tickets is also unique on (payment_order_id, user_id) as a backstop, for
+// tickets that are not reissued or transferred replacements.
+// Deploy with --no-verify-jwt; requests are authenticated by their signature.
+// Secrets: RAZORPAY_WEBHOOK_SECRET, TICKET_SIGNING_KEY, SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { json, generateTicketCode, signTicketClaims } from '../_shared/ticketSigning.ts'
+import { verifyWebhookSignature } from '../_shared/razorpay.ts'
+import { PricingError, recordRedemption } from '../_shared/pricing.ts'
+
+const ISSUE_CLAIM_MS = 2 * 60_000
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405)
+
+  const rawBody = await req.text()
+  if (!(await verifyWebhookSignature(rawBody, req.headers.get('X-Razorpay-Signature')))) {
+    return json({ error: 'Invalid signature' }, 401)
+  }
+
+  const signingKey = Deno.env.get('TICKET_SIGNING_KEY')
+  if (!signingKey) return json({ error: 'Signing key not configured' }, 500)
+
+  const webhook = JSON.parse(rawBody)
+  // Other events are acknowledged so Razorpay stops retrying them
+  if (webhook.event !== 'payment.captured') return json({ ok: true })
+
+  const payment = webhook.payload?.payment?.entity
+  if (!payment?.order_id) return json({ error: 'Missing order id' }, 400)
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+  const now = new Date().toISOString()
+
+  const { data: order } = await admin.from('payment_orders').select('*').eq('order_id', payment.order_id).maybeSingle()
+  if (!order) return json({ error: 'Unknown order' }, 404)
+  if (order.status === 'failed') return json({ ok: true })
+
+  if (order.status === 'created') {
+    if (payment.amount !== order.amount_paise || payment.currency !== order.currency) {
+      await admin.from('payment_orders').update({ status: 'failed', failure_reason: 'Amount mismatch', gateway_payment_id: payment.id }).eq('id', order.id)
+      return json({ error: 'Amount mismatch' }, 400)
+    }
+
+    // Only one delivery records the payment
+    const { data: claimed } = await admin
+      .from('payment_orders')
+      .update({ status: 'paid', gateway_payment_id: payment.id, paid_at: now })
+      .eq('id', order.id)
+      .eq('status', 'created')
+      .select('id')
+
+    if (claimed?.length) {
+      const { data: proof, error: proofError } = await admin
+        .from('payment_proofs')
+        .insert({
+          user_id: order.user_id,
+          event_id: order.event_id,
+          event_title: order.event_title,
+          amount: order.amount_paise / 100,
+          status: 'approved',
+          payment_method: 'razorpay',
+          screenshot_url: '',
+          utr_or_ref: payment.id,
+          transaction_id: payment.id,
+          admin_notes: `Paid online (order ${order.order_id})`,
+          verified_at: now,
+          team_id: order.team_id,
+          pricing: order.pricing,
+          created_at: now
+        })
+        .select('id')
+        .single()
+      if (proofError) {
+        // Let Razorpay retry the delivery
+        await admin.from('payment_orders').update({ status: 'created', paid_at: null }).eq('id', order.id)
+        return json({ error: proofError.message }, 500)
+      }
+      await admin.from('payment_orders').update({ payment_proof_id: proof.id }).eq('id', order.id)
+      if (order.coupon_id) {
+        try {
+          await recordRedemption(admin, order.coupon_id, order.user_id, order.event_id, proof.id)
+        } catch (err) {
+          if (!(err instanceof PricingError)) throw err
+          // The coupon was used up between pricing the order and the payment
+          // landing. The discounted payment is not honoured; it is refunded.
+          const reason = `${err.message}. This payment will be refunded.`
+          await admin.from('payment_proofs').update({ status: 'rejected', reason }).eq('id', proof.id)
+          await admin.from('payment_orders').update({ status: 'failed', failure_reason: reason }).eq('id', order.id)
+          return json({ ok: true })
+        }
+      }
+    }
+  }
+
+  // Issuing runs on every delivery for a paid order and skips holders that
+  // already have a ticket, so a failure part way through is retried. Only the
+  // delivery holding the claim issues; the others stop here.
+  const { data: issuing } = await admin
+    .from('payment_orders')
+    .update({ issuing_at: now })
+    .eq('id', order.id)
+    .eq('status', 'paid')
+    .or(`issuing_at.is.null,issuing_at.lt.${new Date(Date.now() - ISSUE_CLAIM_MS).toISOString()}`)
+    .select('id')
+  if (!issuing?.length) return json({ ok: true })
+  const fail = async (message: string) => {
+    // Release the claim so Razorpay's retry can issue straight away
+    await admin.from('payment_orders').update({ issuing_at: null }).eq('id', order.id)
+    return json({ error: message }, 500)
+  }
+
+  const { data: profile } = await admin.from('profiles').select('name, rollno, email').eq('id', order.user_id).maybeSingle()
+
+  let holders = [{
+    userId: order.user_id,
+    email: order.user_email ?? profile?.email ?? null,
+    name: profile?.name || order.user_email || 'Unknown User',
+    rollNo: profile?.rollno ?? null,
+    amount: order.amount_paise / 100,
+    teamId: null as string | null
+  }]
+
+  if (order.team_id) {
+    const { data: members } = await admin
+      .from('team_members')
+      .select('user_id, name, email, roll_no')
+      .eq('team_id', order.team_id)
+      .eq('status', 'accepted')
+    const accepted = (members || []).filter(m => m.user_id)
+    if (accepted.length > 0) {
+      const share = Math.round((order.amount_paise / accepted.length)) / 100
+      holders = accepted.map(m => ({
+        userId: m.user_id,
+        email: m.email,
+        name: m.name || m.email || 'Team Member',
+        rollNo: m.roll_no,
+        amount: share,
+        teamId: order.team_id
+      }))
+    }
+    await admin.from('teams').update({ status: 'locked' }).eq('id', order.team_id)
+  }
+
+  const { data: existing } = await admin
+    .from('tickets')
+    .select('user_id, status')
+    .eq('event_id', order.event_id)
+    .in('user_id', holders.map(h => h.userId))
+  const alreadyIssued = new Set((existing || []).filter(t => ['active', 'used', null].includes(t.status)).map(t => t.user_id))
+
+  for (const holder of holders) {
+    if (alreadyIssued.has(holder.userId)) continue
+    const ticketCode = generateTicketCode()
+    const token = await signTicketClaims(signingKey, { code: ticketCode, eventId: order.event_id, userId: holder.userId })
+    const { error } = await admin.from('tickets').insert({
+      ticket_code: ticketCode,
+      user_id: holder.userId,
+      user_email: holder.email,
+      event_id: order.event_id,
+      event_title: order.event_title,
+      holder_name: holder.name,
+      roll_no: holder.rollNo,
+      qr_data: token,
+      pdf_path: `${order.event_id}/${holder.userId}/${ticketCode}.pdf`,
+      amount: holder.amount,
+      team_id: holder.teamId,
+      payment_order_id: order.id,
+      status: 'active',
+      created_at: now
+    })
+    // Issued by a delivery whose claim had gone stale; it is issuing the rest
+    if (error?.code === '23505') return json({ ok: true })
+    if (error) return fail(error.message)
+  }
+
+  // The payer's checkout page waits for this before storing the ticket PDFs
+  await admin.from('payment_orders').update({ issuing_at: null, tickets_issued_at: now }).eq('id', order.id)
+  return json({ ok: true })
+})
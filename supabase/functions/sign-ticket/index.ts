@@ -0,0 +1,38 @@
+// Signs ticket QR payloads with the event Ed25519 key.
+// Secrets: TICKET_SIGNING_KEY (32-byte private key, hex), SUPABASE_URL, SUPABASE_ANON_KEY
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { corsHeaders, json, signTicketClaims, TICKET_CODE_PATTERN } from '../_shared/ticketSigning.ts'
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
+
+  const signingKey = Deno.env.get('TICKET_SIGNING_KEY')
+  if (!signingKey) return json({ error: 'Signing key not configured' }, 500)
+
+  // Act as the calling user so admin_roles RLS applies
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } }
+  })
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return json({ error: 'Not authenticated' }, 401)
+
+  const { data: role } = await supabase
+    .from('admin_roles')
+    .select('permissions')
+    .eq('user_id', user.id)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (role?.permissions?.can_approve_payments !== true) {
+    return json({ error: 'Permission denied' }, 403)
+  }
+
+  const { code, event_id, user_id } = await req.json().catch(() => ({}))
+  if (typeof code !== 'string' || !TICKET_CODE_PATTERN.test(code) || typeof event_id !== 'string' || typeof user_id !== 'string') {
+    return json({ error: 'Invalid ticket claims' }, 400)
+  }
+
+  const token = await signTicketClaims(signingKey, { code, eventId: event_id, userId: user_id })
+  return json({ token })
+})
@@ -0,0 +1,176 @@
+// Hands a ticket from its holder to another participant.
+//   create  holder names a recipient email; a pending transfer is recorded
+//   cancel  holder withdraws a pending transfer
+//   decline recipient refuses
+//   accept  recipient takes the seat: the old ticket is revoked and a new one
+//           is signed in the recipient's name. The response carries a signed
+//           upload token so the client can store the new PDF in `tickets`.
+// Secrets: TICKET_SIGNING_KEY, SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { corsHeaders, json, generateTicketCode, signTicketClaims } from '../_shared/ticketSigning.ts'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
+
+  const signingKey = Deno.env.get('TICKET_SIGNING_KEY')
+  if (!signingKey) return json({ error: 'Signing key not configured' }, 500)
+
+  const authClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } }
+  })
+  const { data: { user } } = await authClient.auth.getUser()
+  if (!user?.email) return json({ error: 'Not authenticated' }, 401)
+  const callerEmail = user.email.toLowerCase()
+
+  // Ownership and recipient checks are done here, so writes use the service role
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+
+  const body = await req.json().catch(() => ({}))
+  const now = new Date().toISOString()
+
+  const transfersAllowed = async (eventId: string) => {
+    const { data: event } = await admin.from('events').select('allow_transfers').eq('id', eventId).single()
+    return event?.allow_transfers !== false
+  }
+
+  if (body.action === 'create') {
+    const toEmail = typeof body.to_email === 'string' ? body.to_email.trim().toLowerCase() : ''
+    if (!EMAIL_PATTERN.test(toEmail)) return json({ error: 'Enter a valid recipient email' }, 400)
+    if (toEmail === callerEmail) return json({ error: 'You cannot transfer a ticket to yourself' }, 400)
+
+    const { data: ticket } = await admin.from('tickets').select('*').eq('id', body.ticket_id).maybeSingle()
+    if (!ticket || ticket.user_id !== user.id) return json({ error: 'Ticket not found' }, 404)
+    if ((ticket.status ?? 'active') !== 'active') return json({ error: 'Only active tickets can be transferred' }, 409)
+    if (!(await transfersAllowed(ticket.event_id))) return json({ error: 'Transfers are disabled for this event' }, 403)
+
+    const { data: pending } = await admin
+      .from('ticket_transfers')
+      .select('id')
+      .eq('ticket_id', ticket.id)
+      .eq('status', 'pending')
+      .maybeSingle()
+    if (pending) return json({ error: 'This ticket already has a pending transfer' }, 409)
+
+    const { data: transfer, error } = await admin
+      .from('ticket_transfers')
+      .insert({
+        ticket_id: ticket.id,
+        ticket_code: ticket.ticket_code,
+        event_id: ticket.event_id,
+        event_title: ticket.event_title,
+        from_user_id: user.id,
+        from_email: callerEmail,
+        from_name: ticket.holder_name,
+        to_email: toEmail,
+        status: 'pending',
+        created_at: now
+      })
+      .select()
+      .single()
+    if (error) return json({ error: error.message }, 500)
+    return json({ transfer })
+  }
+
+  const { data: transfer } = await admin.from('ticket_transfers').select('*').eq('id', body.transfer_id).maybeSingle()
+  if (!transfer) return json({ error: 'Transfer not found' }, 404)
+  if (transfer.status !== 'pending') return json({ error: `Transfer is already ${transfer.status}` }, 409)
+
+  if (body.action === 'cancel' || body.action === 'decline') {
+    const allowed = body.action === 'cancel' ? transfer.from_user_id === user.id : transfer.to_email === callerEmail
+    if (!allowed) return json({ error: 'Transfer not found' }, 404)
+
+    const { error } = await admin
+      .from('ticket_transfers')
+      .update({ status: body.action === 'cancel' ? 'cancelled' : 'declined', responded_at: now })
+      .eq('id', transfer.id)
+      .eq('status', 'pending')
+    if (error) return json({ error: error.message }, 500)
+    return json({ ok: true })
+  }
+
+  if (body.action !== 'accept') return json({ error: 'Unknown action' }, 400)
+  if (transfer.to_email !== callerEmail) return json({ error: 'Transfer not found' }, 404)
+
+  const { data: ticket } = await admin.from('tickets').select('*').eq('id', transfer.ticket_id).single()
+  if (!ticket || ticket.user_id !== transfer.from_user_id || (ticket.status ?? 'active') !== 'active') {
+    return json({ error: 'The ticket is no longer valid for transfer' }, 409)
+  }
+  if (!(await transfersAllowed(ticket.event_id))) return json({ error: 'Transfers are disabled for this event' }, 403)
+
+  const { data: existing } = await admin
+    .from('tickets')
+    .select('id, status')
+    .eq('event_id', ticket.event_id)
+    .eq('user_id', user.id)
+  if ((existing || []).some(t => ['active', 'used', null].includes(t.status))) {
+    return json({ error: 'You already have a ticket for this event' }, 409)
+  }
+
+  const { data: profile } = await admin.from('profiles').select('name, rollno').eq('id', user.id).maybeSingle()
+
+  const ticketCode = generateTicketCode()
+  const token = await signTicketClaims(signingKey, { code: ticketCode, eventId: ticket.event_id, userId: user.id })
+  const pdfPath = `${ticket.event_id}/${user.id}/${ticketCode}.pdf`
+
+  const { data: newTicket, error: insertError } = await admin
+    .from('tickets')
+    .insert({
+      ticket_code: ticketCode,
+      user_id: user.id,
+      user_email: callerEmail,
+      event_id: ticket.event_id,
+      event_title: ticket.event_title,
+      holder_name: profile?.name || callerEmail,
+      roll_no: profile?.rollno ?? null,
+      qr_data: token,
+      pdf_path: pdfPath,
+      amount: ticket.amount,
+      // Keep what the seat was paid with, as reissueTicket does, so refunds
+      // and the team, pass and reconciliation views still find it
+      team_id: ticket.team_id ?? null,
+      bundle_id: ticket.bundle_id ?? null,
+      payment_proof_id: ticket.payment_proof_id ?? null,
+      payment_order_id: ticket.payment_order_id ?? null,
+      status: 'active',
+      transferred_from: ticket.id,
+      created_at: now
+    })
+    .select()
+    .single()
+  if (insertError) return json({ error: insertError.message }, 500)
+
+  const reason = `Transferred to ${callerEmail}`
+  const { data: revoked, error: revokeError } = await admin
+    .from('tickets')
+    .update({ status: 'revoked', status_reason: reason, status_changed_by: user.id, status_changed_at: now, replaced_by: newTicket.id })
+    .eq('id', ticket.id)
+    .or('status.eq.active,status.is.null')
+    .select('id')
+  if (revokeError || !revoked?.length) {
+    // Someone changed the ticket meanwhile; do not leave two valid tickets
+    await admin.from('tickets').delete().eq('id', newTicket.id)
+    return json({ error: 'The ticket is no longer valid for transfer' }, 409)
+  }
+
+  await admin.from('ticket_status_history').insert({
+    ticket_id: ticket.id,
+    from_status: ticket.status ?? 'active',
+    to_status: 'revoked',
+    reason,
+    actor_id: user.id,
+    related_ticket_id: newTicket.id,
+    created_at: now
+  })
+
+  await admin
+    .from('ticket_transfers')
+    .update({ status: 'accepted', new_ticket_id: newTicket.id, to_user_id: user.id, responded_at: now })
+    .eq('id', transfer.id)
+
+  const { data: upload, error: uploadError } = await admin.storage.from('tickets').createSignedUploadUrl(pdfPath)
+  if (uploadError) return json({ error: uploadError.message }, 500)
+
+  return json({ ticket: newTicket, upload_token: upload.token })
+})
@@ -0,0 +1,233 @@
+// Event capacity and waitlist.
+//   mine     the caller's open entries across events, with their place in line
+//   join     register if a seat is free, otherwise append to the waitlist (one locked RPC)
+//   claim    take an offered seat before the offer expires
+//   leave    drop off the waitlist
+//   release  admin: free the seat of a finally rejected payment or revoked ticket,
+//            in events with a capacity only
+//   advance  expire stale offers and offer free seats to the next in line
+//   reorder  admin: rewrite waiting positions in the given order
+// Every action runs `advance` for the event first, so offers expire and pass
+// on even when nobody is watching the waitlist. Clients that free a seat
+// themselves (unregistering) call `advance` afterwards.
+// Secrets: SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY, WAITLIST_OFFER_HOURS (optional, default 24)
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { corsHeaders, json } from '../_shared/ticketSigning.ts'
+
+const OFFER_HOURS = Number(Deno.env.get('WAITLIST_OFFER_HOURS') ?? '24')
+
+// Registrations plus unexpired offers hold seats
+async function occupiedSeats(admin: SupabaseClient, eventId: string): Promise<number> {
+  const [{ count: registered }, { count: offered }] = await Promise.all([
+    admin.from('registrations').select('id', { count: 'exact', head: true })
+      .eq('event_id', eventId),
+    admin.from('waitlist_entries').select('id', { count: 'exact', head: true })
+      .eq('event_id', eventId).eq('status', 'offered')
+  ])
+  return (registered ?? 0) + (offered ?? 0)
+}
+
+async function advance(admin: SupabaseClient, eventId: string): Promise<void> {
+  const now = new Date()
+  await admin
+    .from('waitlist_entries')
+    .update({ status: 'expired', responded_at: now.toISOString() })
+    .eq('event_id', eventId)
+    .eq('status', 'offered')
+    .lt('offer_expires_at', now.toISOString())
+
+  const { data: event } = await admin.from('events').select('capacity').eq('id', eventId).single()
+  if (!event?.capacity) return
+
+  const free = event.capacity - await occupiedSeats(admin, eventId)
+  if (free <= 0) return
+
+  const { data: next } = await admin
+    .from('waitlist_entries')
+    .select('id')
+    .eq('event_id', eventId)
+    .eq('status', 'waiting')
+    .order('position', { ascending: true })
+    .limit(free)
+
+  for (const entry of next || []) {
+    await admin
+      .from('waitlist_entries')
+      .update({
+        status: 'offered',
+        offered_at: now.toISOString(),
+        offer_expires_at: new Date(now.getTime() + OFFER_HOURS * 3600 * 1000).toISOString()
+      })
+      .eq('id', entry.id)
+      .eq('status', 'waiting')
+  }
+}
+
+// 1-based place among those still waiting
+async function placeInLine(admin: SupabaseClient, entry: { event_id: string; position: number }): Promise<number> {
+  const { count } = await admin.from('waitlist_entries').select('id', { count: 'exact', head: true })
+    .eq('event_id', entry.event_id).eq('status', 'waiting').lt('position', entry.position)
+  return (count ?? 0) + 1
+}
+
+// Seats are taken through the usual registration RPC; returns an error message or null
+async function register(admin: SupabaseClient, userId: string, eventId: string): Promise<string | null> {
+  const { data, error } = await admin.rpc('register_user_for_event', { p_user_id: userId, p_event_id: eventId })
+  if (error) return error.message
+  return data?.[0]?.success === false ? data[0].message || 'Registration failed' : null
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
+
+  const authClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } }
+  })
+  const { data: { user } } = await authClient.auth.getUser()
+  if (!user) return json({ error: 'Not authenticated' }, 401)
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+  const body = await req.json().catch(() => ({}))
+
+  if (body.action === 'mine') {
+    const open = () => admin
+      .from('waitlist_entries')
+      .select('*, event:events(title, price)')
+      .eq('user_id', user.id)
+      .in('status', ['waiting', 'offered'])
+      .order('created_at', { ascending: false })
+
+    const { data: before } = await open()
+    await Promise.all([...new Set((before || []).map(e => e.event_id))].map(id => advance(admin, id)))
+    const { data: entries } = await open()
+    const withPlace = await Promise.all((entries || []).map(async (entry) => ({
+      ...entry,
+      place: entry.status === 'waiting' ? await placeInLine(admin, entry) : null
+    })))
+    return json({ entries: withPlace })
+  }
+
+  const eventId = typeof body.event_id === 'string' ? body.event_id : null
+  if (!eventId) return json({ error: 'event_id is required' }, 400)
+
+  const hasPermission = async (permission: string) => {
+    const { data: role } = await admin
+      .from('admin_roles')
+      .select('permissions')
+      .eq('user_id', user.id)
+      .eq('is_active', true)
+      .maybeSingle()
+    return role?.permissions?.[permission] === true
+  }
+
+  await advance(admin, eventId)
+
+  const myEntry = async () => {
+    const { data } = await admin
+      .from('waitlist_entries')
+      .select('*')
+      .eq('event_id', eventId)
+      .eq('user_id', user.id)
+      .in('status', ['waiting', 'offered'])
+      .maybeSingle()
+    return data
+  }
+
+  switch (body.action) {
+    case 'advance':
+      return json({ ok: true })
+
+    case 'join': {
+      // join_event_or_waitlist locks the event row, then registers through
+      // register_user_for_event when a seat is free and nobody is waiting, or
+      // appends a waiting entry. Checking and taking the seat in one locked
+      // statement keeps concurrent joins from overbooking. Returns the caller's
+      // status: registered, waitlisted or offered (an entry they already had).
+      const { data, error } = await admin.rpc('join_event_or_waitlist', {
+        p_user_id: user.id,
+        p_user_email: user.email ?? null,
+        p_event_id: eventId
+      })
+      if (error) return json({ error: error.message }, 409)
+
+      const result = data?.[0]
+      if (!result || result.status === 'registered') return json({ status: 'registered' })
+
+      const entry = await myEntry()
+      if (!entry) return json({ error: 'Could not join the waitlist' }, 500)
+      const place = entry.status === 'waiting' ? await placeInLine(admin, entry) : null
+      return json({ status: entry.status === 'offered' ? 'offered' : 'waitlisted', entry: { ...entry, place } })
+    }
+
+    case 'claim': {
+      const entry = await myEntry()
+      if (!entry || entry.status !== 'offered') return json({ error: 'This offer has expired or was not made' }, 409)
+
+      const { data: claimed } = await admin
+        .from('waitlist_entries')
+        .update({ status: 'claimed', responded_at: new Date().toISOString() })
+        .eq('id', entry.id)
+        .eq('status', 'offered')
+        .select('id')
+      if (!claimed?.length) return json({ error: 'This offer has expired' }, 409)
+
+      const error = await register(admin, user.id, eventId)
+      if (error) {
+        await admin.from('waitlist_entries').update({ status: 'offered', responded_at: null }).eq('id', entry.id)
+        return json({ error }, 409)
+      }
+      return json({ status: 'registered' })
+    }
+
+    case 'leave': {
+      const entry = await myEntry()
+      if (!entry) return json({ ok: true })
+      await admin.from('waitlist_entries').update({ status: 'left', responded_at: new Date().toISOString() }).eq('id', entry.id)
+      await advance(admin, eventId)
+      return json({ ok: true })
+    }
+
+    case 'release': {
+      if (!(await hasPermission('can_approve_payments'))) return json({ error: 'Permission denied' }, 403)
+      if (typeof body.user_id !== 'string') return json({ error: 'user_id is required' }, 400)
+
+      // Without a capacity there is no seat to pass on, so the registration stays
+      const { data: event } = await admin.from('events').select('capacity').eq('id', eventId).single()
+      if (!event?.capacity) return json({ ok: true, released: false })
+
+      const { error } = await admin
+        .from('registrations')
+        .delete()
+        .eq('event_id', eventId)
+        .eq('user_id', body.user_id)
+      if (error) return json({ error: error.message }, 500)
+      await advance(admin, eventId)
+      return json({ ok: true, released: true })
+    }
+
+    case 'reorder': {
+      if (!(await hasPermission('can_manage_events'))) return json({ error: 'Permission denied' }, 403)
+      if (!Array.isArray(body.entry_ids)) return json({ error: 'entry_ids is required' }, 400)
+
+      const { data: waiting } = await admin
+        .from('waitlist_entries')
+        .select('id, position')
+        .eq('event_id', eventId)
+        .eq('status', 'waiting')
+      const ids = new Set((waiting || []).map(e => e.id))
+      if (body.entry_ids.length !== ids.size || body.entry_ids.some((id: string) => !ids.has(id))) {
+        return json({ error: 'The waitlist changed; reload and try again' }, 409)
+      }
+
+      // Reuse the existing positions so offered/claimed entries keep theirs
+      const positions = (waiting || []).map(e => e.position).sort((a, b) => a - b)
+      for (const [index, id] of body.entry_ids.entries()) {
+        await admin.from('waitlist_entries').update({ position: positions[index] }).eq('id', id)
+      }
+      return json({ ok: true })
+    }
+
+    default:
+      return json({ error: 'Unknown action' }, 400)
+  }
+})
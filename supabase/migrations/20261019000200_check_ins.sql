@@ -0,0 +1,49 @@
+-- Venue check-in. One check_ins row admits one ticket: the unique index on
+-- ticket_id is what turns a second scan, from any scanner, into a duplicate.
+
+-- Whether the caller's active admin role grants a permission, the same rule
+-- as useSecureAdmin's hasPermission. Security definer so policies on other
+-- tables can use it without reading admin_roles through its own RLS.
+create or replace function public.has_admin_permission(p_permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from admin_roles
+    where user_id = auth.uid()
+      and is_active
+      and permissions ->> p_permission = 'true'
+  )
+$$;
+
+revoke execute on function public.has_admin_permission(text) from public, anon;
+grant execute on function public.has_admin_permission(text) to authenticated;
+
+create table public.check_ins (
+  id uuid primary key default gen_random_uuid(),
+  ticket_id uuid not null references public.tickets (id) on delete cascade,
+  ticket_code text not null,
+  event_id uuid not null references public.events (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  checked_in_by uuid not null references auth.users (id),
+  checked_in_at timestamptz not null default now()
+);
+
+create unique index check_ins_ticket_id_key on public.check_ins (ticket_id);
+create index check_ins_event_id_idx on public.check_ins (event_id);
+
+alter table public.check_ins enable row level security;
+
+create policy "Scanners and ticket viewers read check-ins"
+  on public.check_ins for select
+  to authenticated
+  using (public.has_admin_permission('can_check_in') or public.has_admin_permission('can_view_tickets'));
+
+create policy "Scanners record their own check-ins"
+  on public.check_ins for insert
+  to authenticated
+  with check (public.has_admin_permission('can_check_in') and checked_in_by = auth.uid());
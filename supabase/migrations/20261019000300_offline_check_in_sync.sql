@@ -0,0 +1,100 @@
+-- Offline check-in. Scanners queue scans made without a connection and push
+-- them through sync_check_ins. scanned_at is when the holder was at the gate,
+-- which is not when the row reached the server for a queued scan.
+
+alter table public.check_ins
+  add column gate_id text,
+  add column scanned_at timestamptz;
+
+update public.check_ins set scanned_at = checked_in_at where scanned_at is null;
+
+alter table public.check_ins
+  alter column scanned_at set default now(),
+  alter column scanned_at set not null;
+
+-- Settle a batch of queued scans. Each entry is a check-in outbox row
+-- ({ local_id, ticket_id, ticket_code, event_id, user_id, gate_id,
+-- scanned_at }); one result row comes back per entry:
+--   accepted   the entry is the official check-in for its ticket
+--   duplicate  an earlier scan is; winning_gate and winning_scanned_at say which
+--   rejected   the ticket no longer exists or does not match the scan
+-- The earliest scan of a ticket is official whichever gate synced first, so
+-- an earlier scan arriving late takes over the existing row.
+create or replace function public.sync_check_ins(p_entries jsonb)
+returns table (local_id text, status text, winning_gate text, winning_scanned_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  entry record;
+  ticket record;
+  official record;
+begin
+  if not public.has_admin_permission('can_check_in') then
+    raise exception 'Permission denied' using errcode = '42501';
+  end if;
+
+  for entry in
+    select *
+    from jsonb_to_recordset(p_entries) as e (
+      local_id text,
+      ticket_id uuid,
+      ticket_code text,
+      event_id uuid,
+      user_id uuid,
+      gate_id text,
+      scanned_at timestamptz
+    )
+    order by e.scanned_at
+  loop
+    local_id := entry.local_id;
+    winning_gate := null;
+    winning_scanned_at := null;
+
+    select t.id, t.ticket_code, t.event_id, t.user_id into ticket
+    from tickets t
+    where t.id = entry.ticket_id;
+
+    if ticket.id is null or ticket.event_id <> entry.event_id or ticket.user_id <> entry.user_id then
+      status := 'rejected';
+      return next;
+      continue;
+    end if;
+
+    insert into check_ins (ticket_id, ticket_code, event_id, user_id, checked_in_by, gate_id, scanned_at)
+    values (ticket.id, ticket.ticket_code, ticket.event_id, ticket.user_id, auth.uid(), entry.gate_id, entry.scanned_at)
+    on conflict (ticket_id) do nothing;
+
+    if found then
+      status := 'accepted';
+      winning_gate := entry.gate_id;
+      winning_scanned_at := entry.scanned_at;
+    else
+      select c.gate_id, c.scanned_at into official
+      from check_ins c
+      where c.ticket_id = ticket.id
+      for update;
+
+      if entry.scanned_at < official.scanned_at then
+        update check_ins c
+        set gate_id = entry.gate_id, scanned_at = entry.scanned_at, checked_in_by = auth.uid()
+        where c.ticket_id = ticket.id;
+        status := 'accepted';
+        winning_gate := entry.gate_id;
+        winning_scanned_at := entry.scanned_at;
+      else
+        status := 'duplicate';
+        winning_gate := official.gate_id;
+        winning_scanned_at := official.scanned_at;
+      end if;
+    end if;
+
+    return next;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.sync_check_ins(jsonb) from public, anon;
+grant execute on function public.sync_check_ins(jsonb) to authenticated;
@@ -0,0 +1,5 @@
+-- Per-event ticket PDF styling, read by src/lib/ticketPdf.ts. Any of
+-- primaryColor, accentColor, textColor and terms may be set; the rest fall
+-- back to the default template.
+alter table public.events
+  add column ticket_template jsonb;
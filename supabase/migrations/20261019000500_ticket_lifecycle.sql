@@ -0,0 +1,145 @@
+-- Ticket lifecycle (src/lib/tickets.ts). A ticket's status moves between
+-- active, revoked, reissued and used; every move is appended to
+-- ticket_status_history. Tickets issued before this have a null status and
+-- count as active.
+
+alter table public.tickets
+  add column amount numeric(10, 2),
+  add column status text check (status in ('active', 'revoked', 'reissued', 'used')),
+  add column status_reason text,
+  add column status_changed_by uuid references auth.users (id),
+  add column status_changed_at timestamptz,
+  -- On a reissued ticket, its replacement
+  add column replaced_by uuid references public.tickets (id) on delete set null,
+  -- On a replacement, the ticket it replaced
+  add column reissued_from uuid references public.tickets (id) on delete set null;
+
+create table public.ticket_status_history (
+  id uuid primary key default gen_random_uuid(),
+  ticket_id uuid not null references public.tickets (id) on delete cascade,
+  from_status text not null,
+  to_status text not null,
+  reason text not null,
+  actor_id uuid not null references auth.users (id),
+  related_ticket_id uuid references public.tickets (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index ticket_status_history_ticket_id_idx on public.ticket_status_history (ticket_id);
+create index ticket_status_history_related_ticket_id_idx on public.ticket_status_history (related_ticket_id);
+
+alter table public.ticket_status_history enable row level security;
+
+create policy "Ticket staff read status history"
+  on public.ticket_status_history for select
+  to authenticated
+  using (public.has_admin_permission('can_view_tickets') or public.has_admin_permission('can_approve_payments'));
+
+-- Payment admins revoke, reinstate and reissue; scanners mark tickets used
+create policy "Ticket staff record their own status changes"
+  on public.ticket_status_history for insert
+  to authenticated
+  with check (
+    actor_id = auth.uid()
+    and (public.has_admin_permission('can_approve_payments') or public.has_admin_permission('can_check_in'))
+  );
+
+create policy "Ticket staff change ticket status"
+  on public.tickets for update
+  to authenticated
+  using (public.has_admin_permission('can_approve_payments') or public.has_admin_permission('can_check_in'))
+  with check (public.has_admin_permission('can_approve_payments') or public.has_admin_permission('can_check_in'));
+
+-- Queued scans of revoked or reissued tickets are rejected, and an accepted
+-- scan moves an active ticket to used, as an online scan does.
+create or replace function public.sync_check_ins(p_entries jsonb)
+returns table (local_id text, status text, winning_gate text, winning_scanned_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  entry record;
+  ticket record;
+  official record;
+begin
+  if not public.has_admin_permission('can_check_in') then
+    raise exception 'Permission denied' using errcode = '42501';
+  end if;
+
+  for entry in
+    select *
+    from jsonb_to_recordset(p_entries) as e (
+      local_id text,
+      ticket_id uuid,
+      ticket_code text,
+      event_id uuid,
+      user_id uuid,
+      gate_id text,
+      scanned_at timestamptz
+    )
+    order by e.scanned_at
+  loop
+    local_id := entry.local_id;
+    winning_gate := null;
+    winning_scanned_at := null;
+
+    select t.id, t.ticket_code, t.event_id, t.user_id, coalesce(t.status, 'active') as status into ticket
+    from tickets t
+    where t.id = entry.ticket_id
+    for update;
+
+    if ticket.id is null
+      or ticket.event_id <> entry.event_id
+      or ticket.user_id <> entry.user_id
+      or ticket.status in ('revoked', 'reissued') then
+      status := 'rejected';
+      return next;
+      continue;
+    end if;
+
+    insert into check_ins (ticket_id, ticket_code, event_id, user_id, checked_in_by, gate_id, scanned_at)
+    values (ticket.id, ticket.ticket_code, ticket.event_id, ticket.user_id, auth.uid(), entry.gate_id, entry.scanned_at)
+    on conflict (ticket_id) do nothing;
+
+    if found then
+      status := 'accepted';
+      winning_gate := entry.gate_id;
+      winning_scanned_at := entry.scanned_at;
+
+      if ticket.status = 'active' then
+        update tickets t
+        set status = 'used',
+            status_reason = 'Checked in at ' || entry.gate_id,
+            status_changed_by = auth.uid(),
+            status_changed_at = now()
+        where t.id = ticket.id;
+
+        insert into ticket_status_history (ticket_id, from_status, to_status, reason, actor_id)
+        values (ticket.id, 'active', 'used', 'Checked in at ' || entry.gate_id, auth.uid());
+      end if;
+    else
+      select c.gate_id, c.scanned_at into official
+      from check_ins c
+      where c.ticket_id = ticket.id
+      for update;
+
+      if entry.scanned_at < official.scanned_at then
+        update check_ins c
+        set gate_id = entry.gate_id, scanned_at = entry.scanned_at, checked_in_by = auth.uid()
+        where c.ticket_id = ticket.id;
+        status := 'accepted';
+        winning_gate := entry.gate_id;
+        winning_scanned_at := entry.scanned_at;
+      else
+        status := 'duplicate';
+        winning_gate := official.gate_id;
+        winning_scanned_at := official.scanned_at;
+      end if;
+    end if;
+
+    return next;
+  end loop;
+end;
+$$;
@@ -0,0 +1,45 @@
+-- Ticket transfers between participants. Transfers are written only by the
+-- ticket-transfer edge function with the service role, after it has checked
+-- ownership and the recipient; participants can only read their own.
+
+alter table public.events
+  add column allow_transfers boolean not null default true;
+
+-- On a ticket issued by accepting a transfer, the ticket it replaced
+alter table public.tickets
+  add column transferred_from uuid references public.tickets (id) on delete set null;
+
+create index tickets_transferred_from_idx on public.tickets (transferred_from);
+
+create table public.ticket_transfers (
+  id uuid primary key default gen_random_uuid(),
+  ticket_id uuid not null references public.tickets (id) on delete cascade,
+  ticket_code text not null,
+  event_id uuid not null references public.events (id) on delete cascade,
+  event_title text not null,
+  from_user_id uuid not null references auth.users (id) on delete cascade,
+  from_email text not null,
+  from_name text not null,
+  -- Lower case, as the edge function stores it
+  to_email text not null,
+  to_user_id uuid references auth.users (id) on delete set null,
+  new_ticket_id uuid references public.tickets (id) on delete set null,
+  status text not null default 'pending' check (status in ('pending', 'accepted', 'declined', 'cancelled')),
+  created_at timestamptz not null default now(),
+  responded_at timestamptz
+);
+
+-- A ticket has at most one transfer waiting for an answer
+create unique index ticket_transfers_pending_ticket_key on public.ticket_transfers (ticket_id) where status = 'pending';
+create index ticket_transfers_to_email_idx on public.ticket_transfers (to_email);
+
+alter table public.ticket_transfers enable row level security;
+
+create policy "Participants read their transfers"
+  on public.ticket_transfers for select
+  to authenticated
+  using (
+    from_user_id = auth.uid()
+    or to_email = lower(auth.email())
+    or public.has_admin_permission('can_view_tickets')
+  );
@@ -0,0 +1,5 @@
+-- Structured event schedule (src/lib/schedule.ts): a list of
+-- { title, start, end, venue } sessions with UTC ISO timestamps. The
+-- free-text schedule column stays, for notes and events without sessions.
+alter table public.events
+  add column sessions jsonb check (sessions is null or jsonb_typeof(sessions) = 'array');
@@ -0,0 +1,221 @@
+-- Team registration (src/lib/teams.ts). An event is a team event when
+-- team_max_size is set. A captain creates the team and invites members by
+-- email or roll number; the captain pays once for everyone, and the payment
+-- proof and the tickets it issues carry the team.
+
+alter table public.events
+  add column team_min_size integer check (team_min_size >= 1),
+  add column team_max_size integer check (team_max_size >= 1),
+  add constraint events_team_size_check check (team_min_size is null or team_max_size is null or team_min_size <= team_max_size);
+
+create table public.teams (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events (id) on delete cascade,
+  event_title text not null,
+  name text not null check (btrim(name) <> ''),
+  captain_id uuid not null references auth.users (id) on delete cascade,
+  -- Locked while the team's payment is under review
+  status text not null default 'forming' check (status in ('forming', 'locked')),
+  created_at timestamptz not null default now()
+);
+
+create index teams_event_id_idx on public.teams (event_id);
+
+create table public.team_members (
+  id uuid primary key default gen_random_uuid(),
+  team_id uuid not null references public.teams (id) on delete cascade,
+  -- Set once the invite is accepted
+  user_id uuid references auth.users (id) on delete cascade,
+  name text,
+  -- Stored lower case; roll numbers upper case
+  email text,
+  roll_no text,
+  role text not null default 'member' check (role in ('captain', 'member')),
+  status text not null default 'invited' check (status in ('invited', 'accepted', 'declined')),
+  invited_at timestamptz not null default now(),
+  responded_at timestamptz,
+  check (user_id is not null or email is not null or roll_no is not null)
+);
+
+create index team_members_team_id_idx on public.team_members (team_id);
+create index team_members_user_id_idx on public.team_members (user_id);
+create index team_members_email_idx on public.team_members (email);
+create index team_members_roll_no_idx on public.team_members (roll_no);
+
+alter table public.payment_proofs
+  add column team_id uuid references public.teams (id) on delete set null;
+
+alter table public.tickets
+  add column team_id uuid references public.teams (id) on delete set null;
+
+create index payment_proofs_team_id_idx on public.payment_proofs (team_id);
+create index tickets_team_id_idx on public.tickets (team_id);
+
+-- Security definer so the team_members policies can look at other members
+-- without going through those same policies.
+create or replace function public.is_team_captain(p_team_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from teams where id = p_team_id and captain_id = auth.uid())
+$$;
+
+-- The captain, a member, or someone with an open invite by email or roll number
+create or replace function public.is_team_participant(p_team_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_team_captain(p_team_id) or exists (
+    select 1
+    from team_members m
+    where m.team_id = p_team_id
+      and m.status <> 'declined'
+      and (
+        m.user_id = auth.uid()
+        or m.email = lower(auth.email())
+        or m.roll_no = (select upper(p.rollno) from profiles p where p.id = auth.uid())
+      )
+  )
+$$;
+
+revoke execute on function public.is_team_captain(uuid) from public, anon;
+revoke execute on function public.is_team_participant(uuid) from public, anon;
+grant execute on function public.is_team_captain(uuid) to authenticated;
+grant execute on function public.is_team_participant(uuid) to authenticated;
+
+alter table public.teams enable row level security;
+alter table public.team_members enable row level security;
+
+create policy "Participants and payment admins read teams"
+  on public.teams for select
+  to authenticated
+  using (
+    captain_id = auth.uid()
+    or public.is_team_participant(id)
+    or public.has_admin_permission('can_approve_payments')
+    or public.has_admin_permission('can_view_tickets')
+  );
+
+create policy "Users create teams they captain"
+  on public.teams for insert
+  to authenticated
+  with check (captain_id = auth.uid() and status = 'forming');
+
+-- The captain locks the team on paying; a payment admin unlocks it on rejection
+create policy "Captains and payment admins update teams"
+  on public.teams for update
+  to authenticated
+  using (captain_id = auth.uid() or public.has_admin_permission('can_approve_payments'))
+  with check (captain_id = auth.uid() or public.has_admin_permission('can_approve_payments'));
+
+create policy "Captains delete their teams"
+  on public.teams for delete
+  to authenticated
+  using (captain_id = auth.uid());
+
+create policy "Participants and payment admins read team members"
+  on public.team_members for select
+  to authenticated
+  using (
+    public.is_team_participant(team_id)
+    or public.has_admin_permission('can_approve_payments')
+    or public.has_admin_permission('can_view_tickets')
+  );
+
+create policy "Captains add members"
+  on public.team_members for insert
+  to authenticated
+  with check (public.is_team_captain(team_id));
+
+-- Invitees accept (taking the seat as themselves) or decline
+create policy "Invitees answer their invites"
+  on public.team_members for update
+  to authenticated
+  using (
+    status = 'invited'
+    and (
+      email = lower(auth.email())
+      or roll_no = (select upper(p.rollno) from public.profiles p where p.id = auth.uid())
+    )
+  )
+  with check (user_id = auth.uid() or (status = 'declined' and user_id is null));
+
+create policy "Captains remove members and members leave"
+  on public.team_members for delete
+  to authenticated
+  using (public.is_team_captain(team_id) or user_id = auth.uid());
+
+-- allocate_qr_for_payment creates the pending proof for a screenshot
+-- payment. It now takes the team a captain is paying for; the default keeps
+-- existing callers working. Any earlier definition is replaced in full.
+do $$
+declare
+  fn regprocedure;
+begin
+  for fn in
+    select p.oid::regprocedure
+    from pg_proc p
+    join pg_namespace n on n.oid = p.pronamespace
+    where n.nspname = 'public' and p.proname = 'allocate_qr_for_payment'
+  loop
+    execute format('drop function %s', fn);
+  end loop;
+end;
+$$;
+
+create function public.allocate_qr_for_payment(
+  p_user_id uuid,
+  p_event_id uuid,
+  p_event_title text,
+  p_amount numeric,
+  p_team_id uuid default null
+)
+returns table (payment_proof_id uuid, qr_code_id uuid, qr_name text, upi_id text, payee_name text, transaction_number integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  qr record;
+  proof_id uuid;
+begin
+  if p_user_id is distinct from auth.uid() then
+    raise exception 'Permission denied' using errcode = '42501';
+  end if;
+  if p_team_id is not null and not exists (
+    select 1 from teams t where t.id = p_team_id and t.event_id = p_event_id and t.captain_id = p_user_id
+  ) then
+    raise exception 'Only the team captain can pay for the team' using errcode = '42501';
+  end if;
+
+  select q.id, q.qr_name, q.upi_id, q.payee_name into qr
+  from qr_codes q
+  where q.is_active and q.daily_count < q.max_daily_payments
+  order by q.daily_count, q.created_at
+  limit 1
+  for update skip locked;
+
+  if qr.id is null then
+    raise exception 'All payment QR codes are at capacity. Try again later.';
+  end if;
+
+  update qr_codes q set daily_count = q.daily_count + 1 where q.id = qr.id
+  returning q.daily_count into transaction_number;
+
+  insert into payment_proofs (user_id, event_id, event_title, amount, status, screenshot_url, qr_code_id, qr_name, transaction_number, team_id)
+  values (p_user_id, p_event_id, p_event_title, p_amount, 'pending', '', qr.id, qr.qr_name, transaction_number, p_team_id)
+  returning id into proof_id;
+
+  return query select proof_id, qr.id, qr.qr_name, qr.upi_id, qr.payee_name, transaction_number;
+end;
+$$;
+
+revoke execute on function public.allocate_qr_for_payment(uuid, uuid, text, numeric, uuid) from public, anon;
+grant execute on function public.allocate_qr_for_payment(uuid, uuid, text, numeric, uuid) to authenticated;
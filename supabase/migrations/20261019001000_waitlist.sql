@@ -0,0 +1,99 @@
+-- Event waitlist (supabase/functions/waitlist). Registrations plus open
+-- offers hold an event's seats; when one frees up, the first waiting entry is
+-- offered it for a limited time. Entries are written only by the waitlist
+-- edge function with the service role.
+
+create table public.waitlist_entries (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  user_email text,
+  -- Queue order; gaps are fine, only the order counts
+  position integer not null,
+  status text not null default 'waiting' check (status in ('waiting', 'offered', 'claimed', 'expired', 'left')),
+  offered_at timestamptz,
+  offer_expires_at timestamptz,
+  responded_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- One open entry per user and event
+create unique index waitlist_entries_open_user_key on public.waitlist_entries (event_id, user_id)
+  where status in ('waiting', 'offered');
+create index waitlist_entries_event_position_idx on public.waitlist_entries (event_id, position);
+
+alter table public.waitlist_entries enable row level security;
+
+create policy "Users read their entries and admins read waitlists"
+  on public.waitlist_entries for select
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or public.has_admin_permission('can_manage_events')
+    or public.has_admin_permission('can_approve_payments')
+  );
+
+-- Register when a seat is free and nobody is ahead in line, otherwise append
+-- a waiting entry. The event row is locked first, so concurrent joins are
+-- counted one at a time and cannot overbook. Returns the caller's status:
+-- registered, waitlisted, or offered when they already hold an open offer.
+create or replace function public.join_event_or_waitlist(p_user_id uuid, p_user_email text, p_event_id uuid)
+returns table (status text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  event_capacity integer;
+  open_entry record;
+  occupied integer;
+  registration record;
+begin
+  select e.capacity into event_capacity from events e where e.id = p_event_id for update;
+  if not found then
+    raise exception 'Event not found';
+  end if;
+
+  if exists (select 1 from registrations r where r.event_id = p_event_id and r.user_id = p_user_id) then
+    return query select 'registered'::text;
+    return;
+  end if;
+
+  select w.status into open_entry
+  from waitlist_entries w
+  where w.event_id = p_event_id and w.user_id = p_user_id and w.status in ('waiting', 'offered');
+  if found then
+    return query select case when open_entry.status = 'offered' then 'offered' else 'waitlisted' end;
+    return;
+  end if;
+
+  select
+    (select count(*) from registrations r where r.event_id = p_event_id)
+    + (select count(*) from waitlist_entries w where w.event_id = p_event_id and w.status = 'offered')
+  into occupied;
+
+  if coalesce(event_capacity, 0) <= 0 or (
+    occupied < event_capacity
+    and not exists (select 1 from waitlist_entries w where w.event_id = p_event_id and w.status = 'waiting')
+  ) then
+    select * into registration from public.register_user_for_event(p_user_id := p_user_id, p_event_id := p_event_id) limit 1;
+    if registration.success is false then
+      raise exception '%', coalesce(registration.message, 'Registration failed');
+    end if;
+    return query select 'registered'::text;
+    return;
+  end if;
+
+  insert into waitlist_entries (event_id, user_id, user_email, position, status)
+  select p_event_id, p_user_id, p_user_email, coalesce(max(w.position), 0) + 1, 'waiting'
+  from waitlist_entries w
+  where w.event_id = p_event_id;
+
+  return query select 'waitlisted'::text;
+end;
+$$;
+
+-- Only the waitlist function, with the service role, joins on a user's behalf
+revoke execute on function public.join_event_or_waitlist(uuid, text, uuid) from public, anon, authenticated;
+grant execute on function public.join_event_or_waitlist(uuid, text, uuid) to service_role;
@@ -0,0 +1,51 @@
+-- Online payments through Razorpay. payment_orders is written only by the
+-- razorpay-order and razorpay-webhook edge functions with the service role.
+-- The webhook claims an order with conditional updates on status and
+-- issuing_at; the unique indexes below are what make a retried or concurrent
+-- delivery safe.
+
+create table public.payment_orders (
+  id uuid primary key default gen_random_uuid(),
+  -- The gateway's order id
+  order_id text not null,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  user_email text,
+  event_id uuid not null references public.events (id) on delete cascade,
+  event_title text not null,
+  team_id uuid references public.teams (id) on delete set null,
+  amount_paise integer not null check (amount_paise > 0),
+  currency text not null default 'INR',
+  status text not null default 'created' check (status in ('created', 'paid', 'failed')),
+  gateway_payment_id text,
+  failure_reason text,
+  paid_at timestamptz,
+  payment_proof_id uuid references public.payment_proofs (id) on delete set null,
+  -- Held by the delivery issuing the tickets; a stale claim is taken over
+  issuing_at timestamptz,
+  -- Set once every holder has a ticket; the checkout page waits for it
+  tickets_issued_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create unique index payment_orders_order_id_key on public.payment_orders (order_id);
+create unique index payment_orders_gateway_payment_id_key on public.payment_orders (gateway_payment_id);
+create index payment_orders_user_id_idx on public.payment_orders (user_id);
+
+alter table public.payment_orders enable row level security;
+
+create policy "Users read their orders and payment admins read all"
+  on public.payment_orders for select
+  to authenticated
+  using (user_id = auth.uid() or public.has_admin_permission('can_approve_payments'));
+
+-- Proofs recorded by the webhook are 'razorpay'; screenshots stay null
+alter table public.payment_proofs
+  add column payment_method text check (payment_method in ('upi_screenshot', 'razorpay'));
+
+alter table public.tickets
+  add column payment_order_id uuid references public.payment_orders (id) on delete set null;
+
+-- One ticket per order and holder. Reissued and transferred tickets carry
+-- the order on, so they are left out.
+create unique index tickets_payment_order_holder_key on public.tickets (payment_order_id, user_id)
+  where payment_order_id is not null and reissued_from is null and transferred_from is null;
@@ -0,0 +1,5 @@
+-- In-browser OCR of payment screenshots (src/lib/paymentOcr.ts). The reading
+-- ({ utr, amount, date, payee, reference, confidence, text }) is kept for the
+-- reviewer next to ocr_status; it is advice only and never approves a proof.
+alter table public.payment_proofs
+  add column ocr_result jsonb;
@@ -0,0 +1,72 @@
+-- Duplicate payment detection (src/lib/proofDuplicates.ts). image_hash is the
+-- screenshot's 64-bit perceptual hash as 16 hex digits (src/lib/imageHash.ts).
+-- Lookalike screenshots are only flagged for reviewers, so the hash is not
+-- unique; a UTR reused by a live proof blocks approval in the dashboard.
+alter table public.payment_proofs
+  add column image_hash text check (image_hash ~ '^[0-9a-f]{16}$');
+
+create index payment_proofs_utr_or_ref_idx on public.payment_proofs (utr_or_ref) where utr_or_ref is not null;
+create index payment_proofs_user_image_hash_idx on public.payment_proofs (user_id) where image_hash is not null;
+
+-- update_payment_proof attaches the uploaded screenshot to the pending proof
+-- allocate_qr_for_payment created. It now stores the screenshot's hash too;
+-- the default keeps existing callers working. Any earlier definition is
+-- replaced in full.
+do $$
+declare
+  fn regprocedure;
+begin
+  for fn in
+    select p.oid::regprocedure
+    from pg_proc p
+    join pg_namespace n on n.oid = p.pronamespace
+    where n.nspname = 'public' and p.proname = 'update_payment_proof'
+  loop
+    execute format('drop function %s', fn);
+  end loop;
+end;
+$$;
+
+create function public.update_payment_proof(
+  p_user_id uuid,
+  p_event_id uuid,
+  p_screenshot_url text,
+  p_image_hash text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  proof_id uuid;
+begin
+  if p_user_id is distinct from auth.uid() then
+    raise exception 'Permission denied' using errcode = '42501';
+  end if;
+
+  select p.id into proof_id
+  from payment_proofs p
+  where p.user_id = p_user_id
+    and p.event_id = p_event_id
+    and p.status = 'pending'
+    and coalesce(p.screenshot_url, '') = ''
+  order by p.created_at desc
+  limit 1
+  for update;
+
+  if proof_id is null then
+    raise exception 'No pending payment to attach the screenshot to';
+  end if;
+
+  update payment_proofs p
+  set screenshot_url = p_screenshot_url,
+      image_hash = p_image_hash,
+      updated_at = now()
+  where p.id = proof_id;
+end;
+$$;
+
+revoke execute on function public.update_payment_proof(uuid, uuid, text, text) from public, anon;
+grant execute on function public.update_payment_proof(uuid, uuid, text, text) to authenticated;
@@ -0,0 +1,106 @@
+-- Refund requests (src/lib/refunds.ts). A participant asks for a refund on an
+-- approved payment or a ticket; payment admins approve, deny and pay it out.
+-- Paying out revokes the tickets the refunded payment issued, so tickets now
+-- record the proof that paid for them.
+
+alter table public.tickets
+  add column payment_proof_id uuid references public.payment_proofs (id) on delete set null;
+
+create index tickets_payment_proof_id_idx on public.tickets (payment_proof_id);
+
+-- Tickets issued before this: link each original ticket to the earliest
+-- approved proof for its holder (or team) and event. A holder with more than
+-- one original ticket for an event is left for an admin to sort out.
+update public.tickets t
+set payment_proof_id = m.proof_id
+from (
+  select distinct on (t2.id) t2.id as ticket_id, p.id as proof_id
+  from public.tickets t2
+  join public.payment_proofs p
+    on p.event_id = t2.event_id
+   and p.status = 'approved'
+   and (p.team_id = t2.team_id or (p.team_id is null and p.user_id = t2.user_id))
+  where t2.payment_proof_id is null
+    and t2.reissued_from is null
+    and t2.transferred_from is null
+    and not exists (
+      select 1 from public.tickets t3
+      where t3.id <> t2.id
+        and t3.user_id = t2.user_id
+        and t3.event_id = t2.event_id
+        and t3.reissued_from is null
+        and t3.transferred_from is null
+    )
+  order by t2.id, p.created_at
+) m
+where t.id = m.ticket_id;
+
+create table public.refund_requests (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  user_email text,
+  payment_proof_id uuid references public.payment_proofs (id) on delete set null,
+  ticket_id uuid references public.tickets (id) on delete set null,
+  -- Null for a combo pass payment; event_title then holds the pass name
+  event_id uuid references public.events (id) on delete set null,
+  event_title text not null,
+  amount numeric(10, 2),
+  reason text not null check (reason in ('duplicate_payment', 'event_cancelled', 'cannot_attend', 'other')),
+  details text,
+  upi_id text not null,
+  upi_name text not null,
+  status text not null default 'requested' check (status in ('requested', 'approved', 'paid', 'denied')),
+  admin_notes text,
+  -- UTR of the refund transfer, recorded when it is paid
+  payout_reference text,
+  decided_by uuid references auth.users (id),
+  decided_at timestamptz,
+  paid_at timestamptz,
+  created_at timestamptz not null default now(),
+  check (payment_proof_id is not null or ticket_id is not null)
+);
+
+create index refund_requests_user_id_idx on public.refund_requests (user_id);
+create index refund_requests_status_idx on public.refund_requests (status, created_at);
+
+-- One open request per payment and per ticket
+create unique index refund_requests_open_proof_key on public.refund_requests (payment_proof_id)
+  where status in ('requested', 'approved') and ticket_id is null;
+create unique index refund_requests_open_ticket_key on public.refund_requests (ticket_id)
+  where status in ('requested', 'approved');
+
+alter table public.refund_requests enable row level security;
+
+create policy "Users read their refunds and payment admins read all"
+  on public.refund_requests for select
+  to authenticated
+  using (user_id = auth.uid() or public.has_admin_permission('can_approve_payments'));
+
+-- Only on the caller's own approved payment or ticket
+create policy "Users request refunds for what they paid"
+  on public.refund_requests for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and status = 'requested'
+    and admin_notes is null
+    and payout_reference is null
+    and decided_by is null
+    and (
+      payment_proof_id is null
+      or exists (
+        select 1 from public.payment_proofs p
+        where p.id = payment_proof_id and p.user_id = auth.uid() and p.status = 'approved'
+      )
+    )
+    and (
+      ticket_id is null
+      or exists (select 1 from public.tickets t where t.id = ticket_id and t.user_id = auth.uid())
+    )
+  );
+
+create policy "Payment admins decide refunds"
+  on public.refund_requests for update
+  to authenticated
+  using (public.has_admin_permission('can_approve_payments'))
+  with check (public.has_admin_permission('can_approve_payments'));
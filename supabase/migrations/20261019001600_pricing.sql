@@ -0,0 +1,162 @@
+-- Price tiers and coupons (src/lib/pricing.ts, supabase/functions/_shared/pricing.ts).
+-- events.price_tiers lists time-boxed prices such as an early bird rate;
+-- coupons take a percentage or flat amount off. Prices are resolved by the
+-- pricing and razorpay-order edge functions, and coupon uses are recorded
+-- only through redeem_coupon with the service role.
+
+alter table public.events
+  add column price_tiers jsonb check (price_tiers is null or jsonb_typeof(price_tiers) = 'array');
+
+create table public.coupons (
+  id uuid primary key default gen_random_uuid(),
+  -- Stored upper case
+  code text not null unique check (code ~ '^[A-Z0-9_-]{3,32}$'),
+  description text,
+  discount_type text not null check (discount_type in ('percent', 'flat')),
+  discount_value numeric(10, 2) not null check (discount_value > 0),
+  -- Null means every paid event
+  event_ids uuid[],
+  max_uses integer check (max_uses >= 1),
+  per_user_limit integer check (per_user_limit >= 1),
+  starts_at timestamptz,
+  ends_at timestamptz,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  check (discount_type <> 'percent' or discount_value <= 100),
+  check (starts_at is null or ends_at is null or starts_at < ends_at)
+);
+
+-- One use per payment; uses tied to a rejected payment stop counting
+create table public.coupon_redemptions (
+  id uuid primary key default gen_random_uuid(),
+  coupon_id uuid not null references public.coupons (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  event_id uuid references public.events (id) on delete set null,
+  payment_proof_id uuid not null unique references public.payment_proofs (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index coupon_redemptions_coupon_id_idx on public.coupon_redemptions (coupon_id);
+
+-- The amount breakdown ({ base_price, tier, list_price, coupon_code,
+-- discount, amount }) the payer was charged
+alter table public.payment_proofs
+  add column pricing jsonb;
+
+alter table public.payment_orders
+  add column pricing jsonb,
+  add column coupon_id uuid references public.coupons (id) on delete set null;
+
+alter table public.coupons enable row level security;
+alter table public.coupon_redemptions enable row level security;
+
+create policy "Event admins read coupons"
+  on public.coupons for select
+  to authenticated
+  using (public.has_admin_permission('can_manage_events'));
+
+create policy "Event admins create coupons"
+  on public.coupons for insert
+  to authenticated
+  with check (public.has_admin_permission('can_manage_events'));
+
+create policy "Event admins update coupons"
+  on public.coupons for update
+  to authenticated
+  using (public.has_admin_permission('can_manage_events'))
+  with check (public.has_admin_permission('can_manage_events'));
+
+create policy "Event and payment admins read coupon uses"
+  on public.coupon_redemptions for select
+  to authenticated
+  using (public.has_admin_permission('can_manage_events') or public.has_admin_permission('can_approve_payments'));
+
+-- Record a coupon use for a payment. The coupon row is locked while its live
+-- uses are counted, so payments racing for the last use are settled one at a
+-- time and the loser gets a check_violation (23514) instead of a use.
+create or replace function public.redeem_coupon(
+  p_coupon_id uuid,
+  p_user_id uuid,
+  p_event_id uuid,
+  p_payment_proof_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  coupon record;
+  total_uses integer;
+  user_uses integer;
+begin
+  select c.id, c.max_uses, c.per_user_limit into coupon
+  from coupons c
+  where c.id = p_coupon_id
+  for update;
+  if coupon.id is null then
+    raise exception 'The coupon on this payment no longer exists' using errcode = '23514';
+  end if;
+
+  select count(*), count(*) filter (where r.user_id = p_user_id) into total_uses, user_uses
+  from coupon_redemptions r
+  join payment_proofs p on p.id = r.payment_proof_id
+  where r.coupon_id = p_coupon_id
+    and p.status <> 'rejected'
+    and r.payment_proof_id <> p_payment_proof_id;
+
+  if coupon.max_uses is not null and total_uses >= coupon.max_uses then
+    raise exception 'This coupon has been fully used' using errcode = '23514';
+  end if;
+  if coupon.per_user_limit is not null and user_uses >= coupon.per_user_limit then
+    raise exception 'You have already used this coupon' using errcode = '23514';
+  end if;
+
+  insert into coupon_redemptions (coupon_id, user_id, event_id, payment_proof_id)
+  values (p_coupon_id, p_user_id, p_event_id, p_payment_proof_id)
+  on conflict (payment_proof_id) do update
+    set coupon_id = excluded.coupon_id, user_id = excluded.user_id, event_id = excluded.event_id, created_at = now();
+end;
+$$;
+
+-- Store a pinned quote on a pending screenshot proof: its coupon use is
+-- replaced (or dropped) and the amount and breakdown written in one
+-- transaction, so a refused coupon leaves the proof as it was.
+create or replace function public.apply_proof_pricing(p_proof_id uuid, p_pricing jsonb, p_coupon_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  proof record;
+begin
+  select p.id, p.user_id, p.event_id, p.status into proof
+  from payment_proofs p
+  where p.id = p_proof_id
+  for update;
+  if proof.id is null or proof.status <> 'pending' then
+    raise exception 'No pending payment for this event';
+  end if;
+
+  if p_coupon_id is null then
+    delete from coupon_redemptions r where r.payment_proof_id = p_proof_id;
+  else
+    perform public.redeem_coupon(p_coupon_id, proof.user_id, proof.event_id, p_proof_id);
+  end if;
+
+  update payment_proofs p
+  set amount = (p_pricing ->> 'amount')::numeric,
+      pricing = p_pricing,
+      updated_at = now()
+  where p.id = p_proof_id;
+end;
+$$;
+
+-- Only the pricing and Razorpay functions, with the service role, price payments
+revoke execute on function public.redeem_coupon(uuid, uuid, uuid, uuid) from public, anon, authenticated;
+revoke execute on function public.apply_proof_pricing(uuid, jsonb, uuid) from public, anon, authenticated;
+grant execute on function public.redeem_coupon(uuid, uuid, uuid, uuid) to service_role;
+grant execute on function public.apply_proof_pricing(uuid, jsonb, uuid) to service_role;
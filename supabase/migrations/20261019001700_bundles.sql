@@ -0,0 +1,165 @@
+-- Combo passes (src/lib/bundles.ts). A bundle covers several events for one
+-- price and is paid like a single event: the proof carries bundle_id and no
+-- event_id, and approving it issues one ticket per included event, each
+-- carrying the bundle.
+
+create table public.bundles (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (btrim(name) <> ''),
+  description text,
+  price numeric(10, 2) not null check (price > 0),
+  -- In the order the admin chose
+  event_ids uuid[] not null check (cardinality(event_ids) >= 2),
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+alter table public.payment_proofs
+  add column bundle_id uuid references public.bundles (id) on delete set null,
+  alter column event_id drop not null,
+  add constraint payment_proofs_event_or_bundle_check check (event_id is not null or bundle_id is not null);
+
+alter table public.tickets
+  add column bundle_id uuid references public.bundles (id) on delete set null;
+
+create index payment_proofs_bundle_id_idx on public.payment_proofs (bundle_id);
+create index tickets_bundle_id_idx on public.tickets (bundle_id);
+
+alter table public.bundles enable row level security;
+
+create policy "Anyone reads active passes and event admins read all"
+  on public.bundles for select
+  to anon, authenticated
+  using (active or public.has_admin_permission('can_manage_events'));
+
+create policy "Event admins create passes"
+  on public.bundles for insert
+  to authenticated
+  with check (public.has_admin_permission('can_manage_events'));
+
+create policy "Event admins update passes"
+  on public.bundles for update
+  to authenticated
+  using (public.has_admin_permission('can_manage_events'))
+  with check (public.has_admin_permission('can_manage_events'));
+
+-- Both payment RPCs now take the pass being paid for, with p_event_id null.
+-- The defaults keep existing callers working. Earlier definitions are
+-- replaced in full.
+do $$
+declare
+  fn regprocedure;
+begin
+  for fn in
+    select p.oid::regprocedure
+    from pg_proc p
+    join pg_namespace n on n.oid = p.pronamespace
+    where n.nspname = 'public' and p.proname in ('allocate_qr_for_payment', 'update_payment_proof')
+  loop
+    execute format('drop function %s', fn);
+  end loop;
+end;
+$$;
+
+create function public.allocate_qr_for_payment(
+  p_user_id uuid,
+  p_event_id uuid,
+  p_event_title text,
+  p_amount numeric,
+  p_team_id uuid default null,
+  p_bundle_id uuid default null
+)
+returns table (payment_proof_id uuid, qr_code_id uuid, qr_name text, upi_id text, payee_name text, transaction_number integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  qr record;
+  proof_id uuid;
+begin
+  if p_user_id is distinct from auth.uid() then
+    raise exception 'Permission denied' using errcode = '42501';
+  end if;
+  if (p_event_id is null) = (p_bundle_id is null) then
+    raise exception 'Pay for either an event or a pass';
+  end if;
+  if p_bundle_id is not null and not exists (select 1 from bundles b where b.id = p_bundle_id and b.active) then
+    raise exception 'This pass is not on sale';
+  end if;
+  if p_team_id is not null and not exists (
+    select 1 from teams t where t.id = p_team_id and t.event_id = p_event_id and t.captain_id = p_user_id
+  ) then
+    raise exception 'Only the team captain can pay for the team' using errcode = '42501';
+  end if;
+
+  select q.id, q.qr_name, q.upi_id, q.payee_name into qr
+  from qr_codes q
+  where q.is_active and q.daily_count < q.max_daily_payments
+  order by q.daily_count, q.created_at
+  limit 1
+  for update skip locked;
+
+  if qr.id is null then
+    raise exception 'All payment QR codes are at capacity. Try again later.';
+  end if;
+
+  update qr_codes q set daily_count = q.daily_count + 1 where q.id = qr.id
+  returning q.daily_count into transaction_number;
+
+  insert into payment_proofs (user_id, event_id, event_title, amount, status, screenshot_url, qr_code_id, qr_name, transaction_number, team_id, bundle_id)
+  values (p_user_id, p_event_id, p_event_title, p_amount, 'pending', '', qr.id, qr.qr_name, transaction_number, p_team_id, p_bundle_id)
+  returning id into proof_id;
+
+  return query select proof_id, qr.id, qr.qr_name, qr.upi_id, qr.payee_name, transaction_number;
+end;
+$$;
+
+create function public.update_payment_proof(
+  p_user_id uuid,
+  p_event_id uuid,
+  p_screenshot_url text,
+  p_image_hash text default null,
+  p_bundle_id uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  proof_id uuid;
+begin
+  if p_user_id is distinct from auth.uid() then
+    raise exception 'Permission denied' using errcode = '42501';
+  end if;
+
+  select p.id into proof_id
+  from payment_proofs p
+  where p.user_id = p_user_id
+    and p.event_id is not distinct from p_event_id
+    and p.bundle_id is not distinct from p_bundle_id
+    and p.status = 'pending'
+    and coalesce(p.screenshot_url, '') = ''
+  order by p.created_at desc
+  limit 1
+  for update;
+
+  if proof_id is null then
+    raise exception 'No pending payment to attach the screenshot to';
+  end if;
+
+  update payment_proofs p
+  set screenshot_url = p_screenshot_url,
+      image_hash = p_image_hash,
+      updated_at = now()
+  where p.id = proof_id;
+end;
+$$;
+
+revoke execute on function public.allocate_qr_for_payment(uuid, uuid, text, numeric, uuid, uuid) from public, anon;
+revoke execute on function public.update_payment_proof(uuid, uuid, text, text, uuid) from public, anon;
+grant execute on function public.allocate_qr_for_payment(uuid, uuid, text, numeric, uuid, uuid) to authenticated;
+grant execute on function public.update_payment_proof(uuid, uuid, text, text, uuid) to authenticated;
@@ -0,0 +1,151 @@
+-- QR pool editor (src/lib/qrPool.ts). A QR can be limited to a time window
+-- and to some events; the allocation RPCs skip QRs outside their window or
+-- restricted to other events. QR names and UPI IDs are unique in the pool.
+
+alter table public.qr_codes
+  add column active_from timestamptz,
+  add column active_until timestamptz,
+  -- Null means every event
+  add column event_ids uuid[],
+  add constraint qr_codes_active_window_check check (active_from is null or active_until is null or active_from < active_until);
+
+create unique index if not exists qr_codes_qr_name_key on public.qr_codes (qr_name);
+create unique index if not exists qr_codes_upi_id_key on public.qr_codes (upi_id);
+
+create policy "QR admins create QR codes"
+  on public.qr_codes for insert
+  to authenticated
+  with check (public.has_admin_permission('can_manage_qr_codes'));
+
+create policy "QR admins update QR codes"
+  on public.qr_codes for update
+  to authenticated
+  using (public.has_admin_permission('can_manage_qr_codes'))
+  with check (public.has_admin_permission('can_manage_qr_codes'));
+
+-- Whether a QR may take a payment now for an event, or for a pass when every
+-- event in the pass is one the QR serves. With neither, only unrestricted
+-- QRs qualify.
+create or replace function public.qr_code_serves(p_qr public.qr_codes, p_event_id uuid, p_bundle_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select (p_qr.active_from is null or p_qr.active_from <= now())
+    and (p_qr.active_until is null or now() < p_qr.active_until)
+    and (
+      coalesce(cardinality(p_qr.event_ids), 0) = 0
+      or (p_event_id is not null and p_event_id = any (p_qr.event_ids))
+      or (p_bundle_id is not null and (select b.event_ids from bundles b where b.id = p_bundle_id) <@ p_qr.event_ids)
+    )
+$$;
+
+revoke execute on function public.qr_code_serves(public.qr_codes, uuid, uuid) from public, anon;
+grant execute on function public.qr_code_serves(public.qr_codes, uuid, uuid) to authenticated;
+
+-- The QR the payment page shows: the least used active QR with room today
+-- that serves the event. Any earlier definition is replaced in full.
+do $$
+declare
+  fn regprocedure;
+begin
+  for fn in
+    select p.oid::regprocedure
+    from pg_proc p
+    join pg_namespace n on n.oid = p.pronamespace
+    where n.nspname = 'public' and p.proname in ('get_available_qr_code', 'allocate_qr_for_payment')
+  loop
+    execute format('drop function %s', fn);
+  end loop;
+end;
+$$;
+
+create function public.get_available_qr_code(p_event_id uuid default null)
+returns table (qr_id uuid, qr_name text, qr_image_url text, upi_id text, payee_name text, current_count integer, max_count integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select q.id, q.qr_name, q.qr_image_url, q.upi_id, q.payee_name, q.daily_count, q.max_daily_payments
+  from qr_codes q
+  where q.is_active
+    and q.daily_count < q.max_daily_payments
+    and public.qr_code_serves(q, p_event_id, null)
+  order by q.daily_count, q.created_at
+  limit 1
+$$;
+
+create function public.allocate_qr_for_payment(
+  p_user_id uuid,
+  p_event_id uuid,
+  p_event_title text,
+  p_amount numeric,
+  p_team_id uuid default null,
+  p_bundle_id uuid default null
+)
+returns table (payment_proof_id uuid, qr_code_id uuid, qr_name text, upi_id text, payee_name text, transaction_number integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  qr record;
+  proof_id uuid;
+begin
+  if p_user_id is distinct from auth.uid() then
+    raise exception 'Permission denied' using errcode = '42501';
+  end if;
+  if (p_event_id is null) = (p_bundle_id is null) then
+    raise exception 'Pay for either an event or a pass';
+  end if;
+  if p_bundle_id is not null and not exists (select 1 from bundles b where b.id = p_bundle_id and b.active) then
+    raise exception 'This pass is not on sale';
+  end if;
+  if p_team_id is not null and not exists (
+    select 1 from teams t where t.id = p_team_id and t.event_id = p_event_id and t.captain_id = p_user_id
+  ) then
+    raise exception 'Only the team captain can pay for the team' using errcode = '42501';
+  end if;
+
+  select q.id, q.qr_name, q.upi_id, q.payee_name into qr
+  from qr_codes q
+  where q.is_active
+    and q.daily_count < q.max_daily_payments
+    and public.qr_code_serves(q, p_event_id, p_bundle_id)
+  order by q.daily_count, q.created_at
+  limit 1
+  for update skip locked;
+
+  if qr.id is null then
+    raise exception 'All payment QR codes are at capacity. Try again later.';
+  end if;
+
+  update qr_codes q set daily_count = q.daily_count + 1 where q.id = qr.id
+  returning q.daily_count into transaction_number;
+
+  insert into payment_proofs (user_id, event_id, event_title, amount, status, screenshot_url, qr_code_id, qr_name, transaction_number, team_id, bundle_id)
+  values (p_user_id, p_event_id, p_event_title, p_amount, 'pending', '', qr.id, qr.qr_name, transaction_number, p_team_id, p_bundle_id)
+  returning id into proof_id;
+
+  return query select proof_id, qr.id, qr.qr_name, qr.upi_id, qr.payee_name, transaction_number;
+end;
+$$;
+
+revoke execute on function public.get_available_qr_code(uuid) from public, anon;
+revoke execute on function public.allocate_qr_for_payment(uuid, uuid, text, numeric, uuid, uuid) from public, anon;
+grant execute on function public.get_available_qr_code(uuid) to authenticated;
+grant execute on function public.allocate_qr_for_payment(uuid, uuid, text, numeric, uuid, uuid) to authenticated;
+
+-- QR images uploaded from the pool editor; public, since payers are shown them
+insert into storage.buckets (id, name, public)
+values ('qr_codes', 'qr_codes', true)
+on conflict (id) do nothing;
+
+create policy "QR admins upload QR images"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'qr_codes' and public.has_admin_permission('can_manage_qr_codes'));
@@ -0,0 +1,142 @@
+-- Resumable UPI payments (src/lib/paymentSession.ts). Each attempt is one
+-- payment_sessions row, owned by the payer, that moves through
+-- details -> qr_allocated -> paid -> uploaded -> submitted. The QR shown is
+-- pinned on the session, and the proof created on submit records that QR.
+
+create table public.payment_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  event_id uuid references public.events (id) on delete cascade,
+  bundle_id uuid references public.bundles (id) on delete cascade,
+  stage text not null default 'details' check (stage in ('details', 'qr_allocated', 'paid', 'uploaded', 'submitted')),
+  name text not null,
+  email text not null,
+  roll_no text,
+  -- Copied from the QR shown, so later pool edits do not change it
+  qr_code_id uuid references public.qr_codes (id) on delete set null,
+  qr_name text,
+  upi_id text,
+  payee_name text,
+  reference text,
+  amount numeric(10, 2),
+  coupon_code text,
+  -- Path in the payment_proofs bucket once uploaded
+  screenshot_path text,
+  image_hash text,
+  payment_proof_id uuid references public.payment_proofs (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check ((event_id is null) <> (bundle_id is null))
+);
+
+create index payment_sessions_user_id_idx on public.payment_sessions (user_id, updated_at desc);
+
+alter table public.payment_sessions enable row level security;
+
+create policy "Payers read their payment sessions"
+  on public.payment_sessions for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Payers start payment sessions"
+  on public.payment_sessions for insert
+  to authenticated
+  with check (user_id = auth.uid() and stage = 'details' and payment_proof_id is null);
+
+-- A submitted session is finished; the proof is the record from then on
+create policy "Payers update their unfinished payment sessions"
+  on public.payment_sessions for update
+  to authenticated
+  using (user_id = auth.uid() and stage <> 'submitted')
+  with check (user_id = auth.uid());
+
+-- allocate_qr_for_payment now takes the QR pinned on the session. The payer
+-- has already paid that QR, so it is used whatever its limits say now;
+-- without one the least used QR is picked as before. Any earlier definition
+-- is replaced in full.
+do $$
+declare
+  fn regprocedure;
+begin
+  for fn in
+    select p.oid::regprocedure
+    from pg_proc p
+    join pg_namespace n on n.oid = p.pronamespace
+    where n.nspname = 'public' and p.proname = 'allocate_qr_for_payment'
+  loop
+    execute format('drop function %s', fn);
+  end loop;
+end;
+$$;
+
+create function public.allocate_qr_for_payment(
+  p_user_id uuid,
+  p_event_id uuid,
+  p_event_title text,
+  p_amount numeric,
+  p_team_id uuid default null,
+  p_bundle_id uuid default null,
+  p_qr_code_id uuid default null
+)
+returns table (payment_proof_id uuid, qr_code_id uuid, qr_name text, upi_id text, payee_name text, transaction_number integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  qr record;
+  proof_id uuid;
+begin
+  if p_user_id is distinct from auth.uid() then
+    raise exception 'Permission denied' using errcode = '42501';
+  end if;
+  if (p_event_id is null) = (p_bundle_id is null) then
+    raise exception 'Pay for either an event or a pass';
+  end if;
+  if p_bundle_id is not null and not exists (select 1 from bundles b where b.id = p_bundle_id and b.active) then
+    raise exception 'This pass is not on sale';
+  end if;
+  if p_team_id is not null and not exists (
+    select 1 from teams t where t.id = p_team_id and t.event_id = p_event_id and t.captain_id = p_user_id
+  ) then
+    raise exception 'Only the team captain can pay for the team' using errcode = '42501';
+  end if;
+
+  if p_qr_code_id is not null then
+    select q.id, q.qr_name, q.upi_id, q.payee_name into qr
+    from qr_codes q
+    where q.id = p_qr_code_id
+    for update;
+
+    if qr.id is null then
+      raise exception 'The QR this payment was made to no longer exists';
+    end if;
+  else
+    select q.id, q.qr_name, q.upi_id, q.payee_name into qr
+    from qr_codes q
+    where q.is_active
+      and q.daily_count < q.max_daily_payments
+      and public.qr_code_serves(q, p_event_id, p_bundle_id)
+    order by q.daily_count, q.created_at
+    limit 1
+    for update skip locked;
+
+    if qr.id is null then
+      raise exception 'All payment QR codes are at capacity. Try again later.';
+    end if;
+  end if;
+
+  update qr_codes q set daily_count = q.daily_count + 1 where q.id = qr.id
+  returning q.daily_count into transaction_number;
+
+  insert into payment_proofs (user_id, event_id, event_title, amount, status, screenshot_url, qr_code_id, qr_name, transaction_number, team_id, bundle_id)
+  values (p_user_id, p_event_id, p_event_title, p_amount, 'pending', '', qr.id, qr.qr_name, transaction_number, p_team_id, p_bundle_id)
+  returning id into proof_id;
+
+  return query select proof_id, qr.id, qr.qr_name, qr.upi_id, qr.payee_name, transaction_number;
+end;
+$$;
+
+revoke execute on function public.allocate_qr_for_payment(uuid, uuid, text, numeric, uuid, uuid, uuid) from public, anon;
+grant execute on function public.allocate_qr_for_payment(uuid, uuid, text, numeric, uuid, uuid, uuid) to authenticated;
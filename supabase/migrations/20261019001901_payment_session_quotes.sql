@@ -0,0 +1,18 @@
+-- The price pinned on a payment session (supabase/functions/pricing, pin and
+-- apply). The quote is what the proof is charged on submit, so only the
+-- pricing function, with the service role, may write it: payers keep
+-- insert and update on the other columns only.
+
+alter table public.payment_sessions
+  add column quote jsonb,
+  add column quote_expires_at timestamptz;
+
+revoke insert, update on public.payment_sessions from anon, authenticated;
+
+grant insert (user_id, event_id, bundle_id, stage, name, email, roll_no)
+  on public.payment_sessions to authenticated;
+
+grant update (
+  stage, name, email, roll_no, qr_code_id, qr_name, upi_id, payee_name, reference,
+  amount, coupon_code, screenshot_path, image_hash, payment_proof_id, updated_at
+) on public.payment_sessions to authenticated;
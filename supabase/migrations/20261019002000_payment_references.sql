@@ -0,0 +1,78 @@
+-- Per-payment references (src/lib/paymentReference.ts). Each UPI payment
+-- attempt gets a short code, put in the UPI note and stored on the session
+-- and on the proof, so OCR and statement reconciliation can tie a transfer
+-- to its proof.
+
+alter table public.payment_proofs
+  add column payment_reference text check (payment_reference ~ '^ACN[A-HJ-NP-Z2-9]{8}$');
+
+create unique index payment_proofs_payment_reference_key on public.payment_proofs (payment_reference)
+  where payment_reference is not null;
+create unique index payment_sessions_reference_key on public.payment_sessions (reference)
+  where reference is not null;
+
+-- update_payment_proof now stores the session's reference on the proof; the
+-- default keeps existing callers working. Any earlier definition is
+-- replaced in full.
+do $$
+declare
+  fn regprocedure;
+begin
+  for fn in
+    select p.oid::regprocedure
+    from pg_proc p
+    join pg_namespace n on n.oid = p.pronamespace
+    where n.nspname = 'public' and p.proname = 'update_payment_proof'
+  loop
+    execute format('drop function %s', fn);
+  end loop;
+end;
+$$;
+
+create function public.update_payment_proof(
+  p_user_id uuid,
+  p_event_id uuid,
+  p_screenshot_url text,
+  p_image_hash text default null,
+  p_bundle_id uuid default null,
+  p_payment_reference text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  proof_id uuid;
+begin
+  if p_user_id is distinct from auth.uid() then
+    raise exception 'Permission denied' using errcode = '42501';
+  end if;
+
+  select p.id into proof_id
+  from payment_proofs p
+  where p.user_id = p_user_id
+    and p.event_id is not distinct from p_event_id
+    and p.bundle_id is not distinct from p_bundle_id
+    and p.status = 'pending'
+    and coalesce(p.screenshot_url, '') = ''
+  order by p.created_at desc
+  limit 1
+  for update;
+
+  if proof_id is null then
+    raise exception 'No pending payment to attach the screenshot to';
+  end if;
+
+  update payment_proofs p
+  set screenshot_url = p_screenshot_url,
+      image_hash = p_image_hash,
+      payment_reference = p_payment_reference,
+      updated_at = now()
+  where p.id = proof_id;
+end;
+$$;
+
+revoke execute on function public.update_payment_proof(uuid, uuid, text, text, uuid, text) from public, anon;
+grant execute on function public.update_payment_proof(uuid, uuid, text, text, uuid, text) to authenticated;
@@ -0,0 +1,199 @@
+-- Server-side payment lists (src/lib/paymentSearch.ts, src/lib/proofDuplicates.ts).
+-- The admin payments list, review queue and statement reconciliation fetch
+-- only the proofs they show, joined with the payer here, and duplicate
+-- lookups compare image hashes in the database instead of in the browser.
+-- Every function checks the caller may approve payments.
+
+create index payment_proofs_status_created_at_idx on public.payment_proofs (status, created_at);
+create index payment_proofs_created_at_idx on public.payment_proofs (created_at);
+
+-- A proof as the dashboard shows it: the row, the payer's name, roll number
+-- and email, and what the screenshot should show (the priced amount, else
+-- the event or pass price, and the allocated QR's payee)
+create or replace function public.payment_proof_row(p public.payment_proofs)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select to_jsonb(p) || jsonb_build_object(
+    'name', coalesce(pr.name, 'Unknown User'),
+    'roll_no', pr.rollno,
+    'user_email', coalesce(u.email, 'user-' || left(p.user_id::text, 8) || '@secured.local'),
+    'expected_amount', coalesce((p.pricing ->> 'amount')::numeric, b.price, e.price),
+    'expected_payee', q.payee_name
+  )
+  from (select 1) one
+  left join profiles pr on pr.id = p.user_id
+  left join auth.users u on u.id = p.user_id
+  left join events e on e.id = p.event_id
+  left join bundles b on b.id = p.bundle_id
+  left join qr_codes q on q.id = p.qr_code_id
+$$;
+
+revoke execute on function public.payment_proof_row(public.payment_proofs) from public, anon, authenticated;
+
+-- One page of proofs, filtered and sorted, each with total_count, the number
+-- of rows matching the filters. p_to is exclusive. Free text matches name,
+-- roll number, email, UTR and payment reference.
+create or replace function public.search_payment_proofs(
+  p_status text default null,
+  p_event_id uuid default null,
+  p_qr_name text default null,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_min_amount numeric default null,
+  p_max_amount numeric default null,
+  p_search text default null,
+  p_sort text default 'created_at',
+  p_ascending boolean default false,
+  p_limit integer default 25,
+  p_offset integer default 0
+)
+returns setof jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_admin_permission('can_approve_payments') then
+    raise exception 'Permission denied' using errcode = '42501';
+  end if;
+
+  return query
+  select public.payment_proof_row(p) || jsonb_build_object('total_count', count(*) over ())
+  from payment_proofs p
+  left join profiles pr on pr.id = p.user_id
+  left join auth.users u on u.id = p.user_id
+  where (p_status is null or p.status = p_status)
+    and (p_event_id is null or p.event_id = p_event_id)
+    and (p_qr_name is null or p.qr_name = p_qr_name)
+    and (p_from is null or p.created_at >= p_from)
+    and (p_to is null or p.created_at < p_to)
+    and (p_min_amount is null or p.amount >= p_min_amount)
+    and (p_max_amount is null or p.amount <= p_max_amount)
+    and (
+      p_search is null
+      or strpos(lower(coalesce(pr.name, '')), lower(p_search)) > 0
+      or strpos(lower(coalesce(pr.rollno, '')), lower(p_search)) > 0
+      or strpos(lower(coalesce(u.email, '')), lower(p_search)) > 0
+      or strpos(lower(coalesce(p.utr_or_ref, '')), lower(p_search)) > 0
+      or strpos(lower(coalesce(p.payment_reference, '')), lower(p_search)) > 0
+    )
+  order by
+    case when p_ascending and p_sort = 'amount' then p.amount end asc,
+    case when not p_ascending and p_sort = 'amount' then p.amount end desc,
+    case when p_ascending and p_sort = 'name' then lower(pr.name) end asc,
+    case when not p_ascending and p_sort = 'name' then lower(pr.name) end desc,
+    case when p_ascending and p_sort = 'event_title' then lower(p.event_title) end asc,
+    case when not p_ascending and p_sort = 'event_title' then lower(p.event_title) end desc,
+    case when p_ascending then p.created_at end asc,
+    case when not p_ascending then p.created_at end desc,
+    p.id
+  limit greatest(p_limit, 0)
+  offset greatest(p_offset, 0);
+end;
+$$;
+
+-- The given proofs and every proof sharing a UTR with them, or with an image
+-- hash within p_max_distance bits of theirs. ocr_utr is the UTR OCR read.
+create or replace function public.find_proof_duplicates(
+  p_proof_ids uuid[],
+  p_utrs text[],
+  p_image_hashes text[],
+  p_max_distance integer default 2
+)
+returns table (
+  id uuid,
+  user_id uuid,
+  event_id uuid,
+  bundle_id uuid,
+  event_title text,
+  amount numeric,
+  status text,
+  qr_name text,
+  utr_or_ref text,
+  payment_reference text,
+  image_hash text,
+  ocr_utr text,
+  screenshot_url text,
+  storage_path text,
+  created_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  if not public.has_admin_permission('can_approve_payments') then
+    raise exception 'Permission denied' using errcode = '42501';
+  end if;
+
+  return query
+  select p.id, p.user_id, p.event_id, p.bundle_id, p.event_title::text, p.amount::numeric, p.status::text,
+    p.qr_name::text, p.utr_or_ref::text, p.payment_reference, p.image_hash, p.ocr_result ->> 'utr',
+    p.screenshot_url::text, p.storage_path::text, p.created_at
+  from payment_proofs p
+  where p.id = any (p_proof_ids)
+    or p.utr_or_ref = any (p_utrs)
+    or (
+      p.image_hash is not null
+      and exists (
+        select 1
+        from unnest(p_image_hashes) h
+        where bit_count(('x' || h)::bit(64) # ('x' || p.image_hash)::bit(64)) <= p_max_distance
+      )
+    )
+  order by p.created_at;
+end;
+$$;
+
+-- Proofs imported statement rows could match: any pending or approved proof
+-- carrying one of the UTRs or references, and the pending proofs submitted
+-- in [p_from, p_to). Rows are shaped like search_payment_proofs without
+-- total_count.
+create or replace function public.reconciliation_candidates(
+  p_utrs text[],
+  p_references text[],
+  p_from timestamptz default null,
+  p_to timestamptz default null
+)
+returns setof jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_admin_permission('can_approve_payments') then
+    raise exception 'Permission denied' using errcode = '42501';
+  end if;
+
+  return query
+  select public.payment_proof_row(p)
+  from payment_proofs p
+  where (
+      p.status in ('pending', 'approved')
+      and (p.utr_or_ref = any (p_utrs) or p.payment_reference = any (p_references))
+    )
+    or (
+      p.status = 'pending'
+      and p_from is not null
+      and p_to is not null
+      and p.created_at >= p_from
+      and p.created_at < p_to
+    )
+  order by p.created_at;
+end;
+$$;
+
+revoke execute on function public.search_payment_proofs(text, uuid, text, timestamptz, timestamptz, numeric, numeric, text, text, boolean, integer, integer) from public, anon;
+revoke execute on function public.find_proof_duplicates(uuid[], text[], text[], integer) from public, anon;
+revoke execute on function public.reconciliation_candidates(text[], text[], timestamptz, timestamptz) from public, anon;
+grant execute on function public.search_payment_proofs(text, uuid, text, timestamptz, timestamptz, numeric, numeric, text, text, boolean, integer, integer) to authenticated;
+grant execute on function public.find_proof_duplicates(uuid[], text[], text[], integer) to authenticated;
+grant execute on function public.reconciliation_candidates(text[], text[], timestamptz, timestamptz) to authenticated;
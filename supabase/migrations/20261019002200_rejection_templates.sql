@@ -0,0 +1,31 @@
+-- Canned rejection reasons (src/lib/rejectionTemplates.ts). Reviewers pick
+-- one by number in the review queue; the message is what the payer sees on
+-- their rejected proof. Switching one off hides it without touching proofs
+-- already rejected with it.
+
+create table public.rejection_templates (
+  id uuid primary key default gen_random_uuid(),
+  label text not null unique check (btrim(label) <> ''),
+  message text not null check (btrim(message) <> '' and char_length(message) <= 500),
+  sort_order integer not null default 0,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+alter table public.rejection_templates enable row level security;
+
+create policy "Payment admins read rejection templates"
+  on public.rejection_templates for select
+  to authenticated
+  using (public.has_admin_permission('can_approve_payments'));
+
+create policy "Payment admins create rejection templates"
+  on public.rejection_templates for insert
+  to authenticated
+  with check (public.has_admin_permission('can_approve_payments'));
+
+create policy "Payment admins update rejection templates"
+  on public.rejection_templates for update
+  to authenticated
+  using (public.has_admin_permission('can_approve_payments'))
+  with check (public.has_admin_permission('can_approve_payments'));
@@ -0,0 +1,7 @@
+-- Bulk approvals (src/lib/tickets.ts issueTicketsForPayment). Two approvals
+-- of the same proof running at once must not both issue: tickets are unique
+-- per proof, holder and event. Reissued and transferred replacements copy
+-- the proof and are inserted before the ticket they replace is retired, so
+-- they are left out.
+create unique index tickets_payment_proof_holder_event_key on public.tickets (payment_proof_id, user_id, event_id)
+  where payment_proof_id is not null and reissued_from is null and transferred_from is null;
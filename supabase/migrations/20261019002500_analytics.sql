@@ -0,0 +1,173 @@
+-- Admin analytics tab (src/lib/analytics.ts). Every figure is aggregated
+-- here so the browser gets a few dozen rows. Revenue is the sum of approved
+-- proof amounts; days are IST calendar days, counted by when a registration
+-- or proof was made. Breakdowns keep the top p_limit entries and sum the
+-- rest into "Other". Every function checks the caller may approve payments.
+
+-- Per IST day since p_from
+create or replace function public.admin_daily_activity(p_from timestamptz)
+returns table (day text, registrations integer, proofs integer, approved integer, revenue numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  if not public.has_admin_permission('can_approve_payments') then
+    raise exception 'Permission denied' using errcode = '42501';
+  end if;
+
+  return query
+  with activity as (
+    select to_char(r.created_at at time zone 'Asia/Kolkata', 'YYYY-MM-DD') as day,
+      1 as registrations, 0 as proofs, 0 as approved, 0::numeric as revenue
+    from registrations r
+    where r.created_at >= p_from
+    union all
+    select to_char(p.created_at at time zone 'Asia/Kolkata', 'YYYY-MM-DD'),
+      0, 1, (p.status = 'approved')::integer, case when p.status = 'approved' then p.amount else 0 end
+    from payment_proofs p
+    where p.created_at >= p_from
+  )
+  select a.day, sum(a.registrations)::integer, sum(a.proofs)::integer, sum(a.approved)::integer, sum(a.revenue)
+  from activity a
+  group by a.day
+  order by a.day;
+end;
+$$;
+
+-- One row per event, plus one per combo pass (event_id null) for pass payments
+create or replace function public.admin_event_stats()
+returns table (event_id uuid, title text, registrations integer, proofs integer, approved integer, revenue numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  if not public.has_admin_permission('can_approve_payments') then
+    raise exception 'Permission denied' using errcode = '42501';
+  end if;
+
+  return query
+  select e.id, e.title::text,
+    (select count(*) from registrations r where r.event_id = e.id)::integer,
+    count(p.id)::integer,
+    count(p.id) filter (where p.status = 'approved')::integer,
+    coalesce(sum(p.amount) filter (where p.status = 'approved'), 0)
+  from events e
+  left join payment_proofs p on p.event_id = e.id
+  group by e.id, e.title
+  union all
+  select null::uuid, b.name,
+    0,
+    count(p.id)::integer,
+    count(p.id) filter (where p.status = 'approved')::integer,
+    coalesce(sum(p.amount) filter (where p.status = 'approved'), 0)
+  from bundles b
+  join payment_proofs p on p.bundle_id = b.id
+  group by b.id, b.name
+  order by 2;
+end;
+$$;
+
+-- Approved payments and revenue per QR; online payments have no QR
+create or replace function public.admin_qr_revenue()
+returns table (qr_name text, approved integer, revenue numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  if not public.has_admin_permission('can_approve_payments') then
+    raise exception 'Permission denied' using errcode = '42501';
+  end if;
+
+  return query
+  select coalesce(p.qr_name, case when p.payment_method = 'razorpay' then 'Online (Razorpay)' else 'No QR' end)::text,
+    count(*)::integer,
+    sum(p.amount)
+  from payment_proofs p
+  where p.status = 'approved'
+  group by 1
+  order by 3 desc;
+end;
+$$;
+
+-- Rejected proofs by reason, as written; the dashboard shows template labels
+create or replace function public.admin_rejection_reasons(p_limit integer default 10)
+returns table (label text, count integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  if not public.has_admin_permission('can_approve_payments') then
+    raise exception 'Permission denied' using errcode = '42501';
+  end if;
+
+  return query
+  with ranked as (
+    select coalesce(nullif(btrim(p.reason), ''), 'No reason given') as label, count(*) as n,
+      row_number() over (order by count(*) desc, coalesce(nullif(btrim(p.reason), ''), 'No reason given')) as rank
+    from payment_proofs p
+    where p.status = 'rejected'
+    group by 1
+  )
+  select case when r.rank <= p_limit then r.label else 'Other' end, sum(r.n)::integer
+  from ranked r
+  group by 1
+  order by min(r.rank);
+end;
+$$;
+
+-- Profiles counted by college or branch; blanks come back as "Not given"
+create or replace function public.admin_profile_breakdown(p_field text, p_limit integer default 10)
+returns table (label text, count integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  if not public.has_admin_permission('can_approve_payments') then
+    raise exception 'Permission denied' using errcode = '42501';
+  end if;
+  if p_field not in ('college_name', 'branch') then
+    raise exception 'Unknown profile field %', p_field;
+  end if;
+
+  return query
+  with labelled as (
+    select coalesce(nullif(btrim(case when p_field = 'college_name' then pr.college_name else pr.branch end), ''), 'Not given') as label
+    from profiles pr
+  ),
+  ranked as (
+    select l.label, count(*) as n, row_number() over (order by count(*) desc, l.label) as rank
+    from labelled l
+    group by l.label
+  )
+  select case when r.rank <= p_limit then r.label else 'Other' end, sum(r.n)::integer
+  from ranked r
+  group by 1
+  order by min(r.rank);
+end;
+$$;
+
+revoke execute on function public.admin_daily_activity(timestamptz) from public, anon;
+revoke execute on function public.admin_event_stats() from public, anon;
+revoke execute on function public.admin_qr_revenue() from public, anon;
+revoke execute on function public.admin_rejection_reasons(integer) from public, anon;
+revoke execute on function public.admin_profile_breakdown(text, integer) from public, anon;
+grant execute on function public.admin_daily_activity(timestamptz) to authenticated;
+grant execute on function public.admin_event_stats() to authenticated;
+grant execute on function public.admin_qr_revenue() to authenticated;
+grant execute on function public.admin_rejection_reasons(integer) to authenticated;
+grant execute on function public.admin_profile_breakdown(text, integer) to authenticated;